@@ -17,6 +17,7 @@ const parser = pegjs.generate(grammarContents, {
     "Record_Route",
     "Request_Response",
     "SIP_URI",
+    "TEL_URI",
     "Subscription_State",
     "Supported",
     "Require",
@@ -45,7 +46,9 @@ const parser = pegjs.generate(grammarContents, {
     "WWW_Authenticate",
     "challenge",
     "sipfrag",
-    "Referred_By"
+    "Referred_By",
+    "Authorization",
+    "Proxy_Authorization"
   ],
   output: "source",
   optimize: "size",
@@ -60,6 +63,7 @@ const parser = pegjs.generate(grammarContents, {
     Record_Route: "NameAddrHeader",
     Request_Response: "string",
     SIP_URI: "URI",
+    TEL_URI: "URI",
     Subscription_State: "string",
     Supported: "Array<string>",
     Require: "Array<string>",
@@ -88,7 +92,9 @@ const parser = pegjs.generate(grammarContents, {
     WWW_Authenticate: "string",
     challenge: "string",
     sipfrag: "string",
-    Referred_By: "string"
+    Referred_By: "string",
+    Authorization: "string",
+    Proxy_Authorization: "string"
   }
 });
 
@@ -63,6 +63,7 @@ module.exports = function (env) {
           loader: "ts-loader",
           options: {
             compilerOptions: {
+              "composite": false,
               "declaration": false,
               "declarationMap": false,
               "outDir": mainDir + "/dist"
@@ -14,7 +14,8 @@ module.exports = function(config) {
     ],
 
     // list of files to exclude
-    exclude: [],
+    // The Node.js platform specs are run by jasmine in Node.js (npm run test-node)
+    exclude: ['test/spec/platform/node/**/*.js'],
 
     // preprocess matching files before serving them to the browser
     // available preprocessors: https://npmjs.org/browse/keyword/karma-preprocessor
@@ -0,0 +1,66 @@
+import { AkaUsim } from "../core/messages/aka.js";
+
+/**
+ * A challenge for which credentials are requested.
+ * @public
+ */
+export interface CredentialRequest {
+  /** Authentication scheme of the challenge, such as "Digest" or "Bearer". */
+  scheme: string;
+  /** Realm of the challenge. */
+  realm: string;
+  /** Method of the request challenged. */
+  method: string;
+  /**
+   * Authorization server from which an access token may be obtained, if named by a Bearer challenge.
+   * https://tools.ietf.org/html/rfc8898#section-2.3
+   */
+  authzServer?: string;
+  /** Scope of the access token, if named by a Bearer challenge. */
+  scope?: string;
+  /**
+   * Error code of a Bearer challenge, if any.
+   * @remarks
+   * An "invalid_token" error code indicates that the access token sent has expired or was
+   * otherwise rejected, in which case a new access token may be provided once.
+   * https://tools.ietf.org/html/rfc6750#section-3.1
+   */
+  error?: string;
+}
+
+/**
+ * Credentials which answer a challenge.
+ * @public
+ */
+export interface Credentials {
+  /**
+   * Digest username.
+   * @defaultValue The `authorizationUsername` option, or the user of the user agent's URI.
+   */
+  username?: string;
+  /** Digest password. */
+  password?: string;
+  /** Digest precomputed HA1, used with MD5 only. */
+  ha1?: string;
+  /** Bearer access token. */
+  token?: string;
+  /**
+   * USIM, with which Digest AKAv1-MD5 and AKAv2-MD5 challenges are answered.
+   * @remarks
+   * The same USIM is to be provided for each challenge, as it tracks the sequence number.
+   * https://tools.ietf.org/html/rfc3310
+   */
+  usim?: AkaUsim;
+}
+
+/**
+ * Provider of credentials, called for each challenge a request receives.
+ * @remarks
+ * Resolves the credentials which answer the challenge, or undefined to answer it with
+ * the `authorizationUsername`, `authorizationPassword` and `authorizationHa1` options.
+ * A challenge is left unanswered if the credentials resolved do not apply to its scheme.
+ * @public
+ */
+export interface CredentialProvider {
+  (request: CredentialRequest): Promise<Credentials | undefined>;
+}
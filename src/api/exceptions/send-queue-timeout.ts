@@ -0,0 +1,14 @@
+import { TransportError } from "../../core/exceptions/transport-error.js";
+
+/**
+ * An exception indicating an outgoing request held while the transport was connecting was not sent in time.
+ * @remarks
+ * See the `sendQueueTimeout` option of {@link UserAgentOptions}.
+ * @public
+ */
+export class SendQueueTimeoutError extends TransportError {
+  /** @internal */
+  public constructor(message?: string) {
+    super(message ? message : "Timed out waiting for transport to connect.");
+  }
+}
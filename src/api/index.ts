@@ -6,6 +6,7 @@ export * from "./exceptions/index.js";
 export * from "./ack.js";
 export * from "./bye.js";
 export * from "./cancel.js";
+export * from "./credential-provider.js";
 export * from "./emitter.js";
 export * from "./info.js";
 export * from "./invitation-accept-options.js";
@@ -13,6 +14,7 @@ export * from "./invitation-progress-options.js";
 export * from "./invitation-reject-options.js";
 export * from "./invitation.js";
 export * from "./inviter-cancel-options.js";
+export * from "./inviter-fork.js";
 export * from "./inviter-invite-options.js";
 export * from "./inviter-options.js";
 export * from "./inviter.js";
@@ -42,6 +44,7 @@ export * from "./session-message-options.js";
 export * from "./session-options.js";
 export * from "./session-refer-options.js";
 export * from "./session-state.js";
+export * from "./session-update-options.js";
 export * from "./session.js";
 export * from "./subscriber-options.js";
 export * from "./subscriber-subscribe-options.js";
@@ -1,3 +1,4 @@
+import { Headers } from "../core/messages/headers.js";
 import { SessionDescriptionHandlerModifier, SessionDescriptionHandlerOptions } from "./session-description-handler.js";
 
 /**
@@ -6,9 +7,9 @@ import { SessionDescriptionHandlerModifier, SessionDescriptionHandlerOptions } f
  */
 export interface InvitationAcceptOptions {
   /**
-   * Array of extra headers added to the response.
+   * Extra headers added to the response.
    */
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   /**
    * Modifiers to pass to SessionDescriptionHandler during the initial INVITE transaction.
    */
@@ -1,3 +1,4 @@
+import { Headers } from "../core/messages/headers.js";
 import { SessionDescriptionHandlerModifier, SessionDescriptionHandlerOptions } from "./session-description-handler.js";
 
 /**
@@ -10,9 +11,9 @@ export interface InvitationProgressOptions {
    */
   body?: string | { body: string; contentType: string };
   /**
-   * Array of extra headers added to the response.
+   * Extra headers added to the response.
    */
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   /**
    * Modifiers to pass to SessionDescriptionHandler during the initial INVITE transaction.
    */
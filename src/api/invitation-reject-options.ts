@@ -1,3 +1,5 @@
+import { Headers } from "../core/messages/headers.js";
+
 /**
  * Options for {@link Invitation.reject}.
  * @public
@@ -8,9 +10,9 @@ export interface InvitationRejectOptions {
    */
   body?: string | { body: string; contentType: string };
   /**
-   * Array of extra headers added to the response.
+   * Extra headers added to the response.
    */
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   /**
    * Status code for response.
    */
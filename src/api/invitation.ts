@@ -1,6 +1,8 @@
 import { Grammar } from "../grammar/grammar.js";
 import { NameAddrHeader } from "../grammar/name-addr-header.js";
 import { Body, fromBodyLegacy, getBody } from "../core/messages/body.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
+import { BodyPart, getBodyParts } from "../core/messages/multipart-body.js";
 import { IncomingInviteRequest } from "../core/messages/methods/invite.js";
 import { IncomingPrackRequest } from "../core/messages/methods/prack.js";
 import { IncomingRequestMessage } from "../core/messages/incoming-request-message.js";
@@ -125,7 +127,9 @@ export class Invitation extends Session {
     if (assertedIdentity) {
       this._assertedIdentity = Grammar.nameAddrHeaderParse(assertedIdentity);
     }
-    this._contact = this.userAgent.contact.toString();
+    this._contact = this.userAgent.contact.toString({
+      secure: !!incomingRequestMessage.ruri && incomingRequestMessage.ruri.scheme === "sips"
+    });
     const contentDisposition = incomingRequestMessage.parseHeader("Content-Disposition");
     if (contentDisposition && contentDisposition.type === "render") {
       this._renderbody = incomingRequestMessage.body;
@@ -202,6 +206,15 @@ export class Invitation extends Session {
     return this.incomingInviteRequest.message.body;
   }
 
+  /**
+   * The body parts of the initial incoming INVITE request message, if it has a multipart body.
+   * @remarks
+   * https://tools.ietf.org/html/rfc5621
+   */
+  public get bodyParts(): Array<BodyPart> | undefined {
+    return getBodyParts(this.incomingInviteRequest.message);
+  }
+
   /**
    * The identity of the local user.
    */
@@ -270,10 +283,12 @@ export class Invitation extends Session {
             onMessage: (messageRequest): void => this.onMessageRequest(messageRequest),
             onNotify: (notifyRequest): void => this.onNotifyRequest(notifyRequest),
             onPrack: (prackRequest): void => this.onPrackRequest(prackRequest),
-            onRefer: (referRequest): void => this.onReferRequest(referRequest)
+            onRefer: (referRequest): void => this.onReferRequest(referRequest),
+            onUpdate: (updateRequest): void => this.onUpdateRequest(updateRequest)
           };
           this._dialog = session;
           this.stateTransition(SessionState.Established);
+          this.startSessionTimer();
 
           // TODO: Reconsider this "automagic" send of a BYE to replacee behavior.
           // This behavior has been ported forward from legacy versions.
@@ -575,7 +590,8 @@ export class Invitation extends Session {
       sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiers
     };
 
-    const extraHeaders = options.extraHeaders || [];
+    const extraHeaders = getExtraHeaders(options.extraHeaders);
+    extraHeaders.push(...this.sessionTimerNegotiate(this.request));
 
     // The UAS MAY send a final response to the initial request before
     // having received PRACKs for all unacknowledged reliable provisional
@@ -610,7 +626,7 @@ export class Invitation extends Session {
   private sendProgress(options: InvitationProgressOptions = {}): Promise<OutgoingResponseWithSession> {
     const statusCode = options.statusCode || 180;
     const reasonPhrase = options.reasonPhrase;
-    const extraHeaders = (options.extraHeaders || []).slice();
+    const extraHeaders = getExtraHeaders(options.extraHeaders);
     const body = options.body ? fromBodyLegacy(options.body) : undefined;
 
     // The 183 (Session Progress) response is used to convey information
@@ -628,6 +644,9 @@ export class Invitation extends Session {
     try {
       const progressResponse = this.incomingInviteRequest.progress({ statusCode, reasonPhrase, extraHeaders, body });
       this._dialog = progressResponse.session;
+      this._dialog.delegate = {
+        onUpdate: (updateRequest): void => this.onUpdateRequest(updateRequest)
+      };
       return Promise.resolve(progressResponse);
     } catch (error) {
       return Promise.reject(error);
@@ -645,13 +664,16 @@ export class Invitation extends Session {
     };
     const statusCode = options.statusCode || 183;
     const reasonPhrase = options.reasonPhrase;
-    const extraHeaders = (options.extraHeaders || []).slice();
+    const extraHeaders = getExtraHeaders(options.extraHeaders);
 
     // Get an offer/answer and send a reply.
     return this.generateResponseOfferAnswer(this.incomingInviteRequest, responseOptions)
       .then((body) => this.incomingInviteRequest.progress({ statusCode, reasonPhrase, extraHeaders, body }))
       .then((progressResponse) => {
         this._dialog = progressResponse.session;
+        this._dialog.delegate = {
+          onUpdate: (updateRequest): void => this.onUpdateRequest(updateRequest)
+        };
         return progressResponse;
       });
   }
@@ -661,7 +683,7 @@ export class Invitation extends Session {
    * @param options - Options bucket.
    */
   private sendProgressReliable(options: InvitationProgressOptions = {}): Promise<OutgoingResponseWithSession> {
-    options.extraHeaders = (options.extraHeaders || []).slice();
+    options.extraHeaders = getExtraHeaders(options.extraHeaders);
     options.extraHeaders.push("Require: 100rel");
     options.extraHeaders.push("RSeq: " + Math.floor(Math.random() * 10000));
     return this.sendProgressWithSDP(options);
@@ -682,7 +704,7 @@ export class Invitation extends Session {
     };
     const statusCode = options.statusCode || 183;
     const reasonPhrase = options.reasonPhrase;
-    const extraHeaders: Array<string> = (options.extraHeaders || []).slice();
+    const extraHeaders: Array<string> = getExtraHeaders(options.extraHeaders);
     extraHeaders.push("Require: 100rel");
     extraHeaders.push("RSeq: " + this.rseq++);
     let body: Body | undefined;
@@ -721,7 +743,8 @@ export class Invitation extends Session {
                   }
                 })
                 .catch((error: Error) => reject(error));
-            }
+            },
+            onUpdate: (updateRequest): void => this.onUpdateRequest(updateRequest)
           };
 
           // https://tools.ietf.org/html/rfc3262#section-3
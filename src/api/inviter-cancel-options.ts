@@ -1,9 +1,11 @@
+import { Headers } from "../core/messages/headers.js";
+
 /**
  * Options for {@link Inviter.cancel}.
  * @public
  */
 export interface InviterCancelOptions {
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   reasonPhrase?: string;
   statusCode?: number;
 }
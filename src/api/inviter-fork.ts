@@ -0,0 +1,47 @@
+import { IncomingResponseMessage } from "../core/messages/incoming-response-message.js";
+import { Session as SessionDialog } from "../core/session/session.js";
+import { URI } from "../grammar/uri.js";
+import { SessionDescriptionHandler } from "./session-description-handler.js";
+
+/**
+ * A fork of an outgoing INVITE, that is an early dialog created by a provisional
+ * response from one of the destinations the INVITE was forked to.
+ * @remarks
+ * Only exposed by an {@link Inviter} in forking mode. See {@link InviterOptions.forking}.
+ * @public
+ */
+export class InviterFork {
+  /** @internal */
+  public _response: IncomingResponseMessage;
+  /** @internal */
+  public _sessionDescriptionHandler: SessionDescriptionHandler | undefined;
+
+  /** @internal */
+  public constructor(private dialog: SessionDialog, response: IncomingResponseMessage) {
+    this._response = response;
+  }
+
+  /** Early dialog identifier. */
+  public get id(): string {
+    return this.dialog.id;
+  }
+
+  /** The remote target of the early dialog, that is the destination which sent the provisional response. */
+  public get remoteTarget(): URI {
+    return this.dialog.remoteTarget;
+  }
+
+  /** The most recent provisional response received in the early dialog. */
+  public get response(): IncomingResponseMessage {
+    return this._response;
+  }
+
+  /**
+   * The early media session description handler.
+   * @remarks
+   * Undefined until an offer is received in a reliable provisional response and answered.
+   */
+  public get sessionDescriptionHandler(): SessionDescriptionHandler | undefined {
+    return this._sessionDescriptionHandler;
+  }
+}
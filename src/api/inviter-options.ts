@@ -1,4 +1,6 @@
+import { Headers } from "../core/messages/headers.js";
 import { URI } from "../grammar/uri.js";
+import { BodyPart } from "../core/messages/multipart-body.js";
 import { SessionDescriptionHandlerModifier, SessionDescriptionHandlerOptions } from "./session-description-handler.js";
 import { SessionOptions } from "./session-options.js";
 
@@ -9,6 +11,13 @@ import { SessionOptions } from "./session-options.js";
 export interface InviterOptions extends SessionOptions {
   /** If true, an anonymous call. */
   anonymous?: boolean;
+  /**
+   * Body parts sent along with the session description in the INVITE, in a multipart/mixed body.
+   * For example the location object of an emergency call (RFC 6442).
+   * If `inviteWithoutSdp` is true, the INVITE body consists of these body parts only.
+   * https://tools.ietf.org/html/rfc5621
+   */
+  bodyParts?: Array<BodyPart>;
   /**
    * If true, the first answer to the local offer is immediately utilized for media.
    * Requires that the INVITE request MUST NOT fork.
@@ -16,8 +25,19 @@ export interface InviterOptions extends SessionOptions {
    * Default is false.
    */
   earlyMedia?: boolean;
-  /** Array of extra headers added to the INVITE. */
-  extraHeaders?: Array<string>;
+  /** Extra headers added to the INVITE. */
+  extraHeaders?: Array<string> | Headers;
+  /**
+   * If true, forking mode.
+   * @remarks
+   * The INVITE is sent without an offer, so that each destination it is forked to may offer
+   * in a reliable provisional response. Each early dialog is exposed as an {@link InviterFork}
+   * with its own early media session description handler, see {@link Inviter.forks}.
+   * The first 2xx response is accepted, and any additional 2xx responses are acknowledged and
+   * their dialogs ended with a BYE. Implies `inviteWithoutSdp`, and `earlyMedia` has no effect.
+   * Default is false.
+   */
+  forking?: boolean;
   /** If true, send INVITE without SDP. Default is false. */
   inviteWithoutSdp?: boolean;
   /** @deprecated TODO: provide alternative. */
@@ -8,6 +8,8 @@ import {
   OutgoingInviteRequest
 } from "../core/messages/methods/invite.js";
 import { Body } from "../core/messages/body.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
+import { BodyPart, makeMultipartBody } from "../core/messages/multipart-body.js";
 import { IncomingResponse } from "../core/messages/incoming-response.js";
 import { Logger } from "../core/log/logger.js";
 import { OutgoingRequestMessage, OutgoingRequestMessageOptions } from "../core/messages/outgoing-request-message.js";
@@ -15,6 +17,7 @@ import { RequestOptions } from "../core/messages/outgoing-request.js";
 import { Session as SessionDialog, SignalingState } from "../core/session/session.js";
 import { getReasonPhrase, newTag } from "../core/messages/utils.js";
 import { InviterCancelOptions } from "./inviter-cancel-options.js";
+import { InviterFork } from "./inviter-fork.js";
 import { InviterInviteOptions } from "./inviter-invite-options.js";
 import { InviterOptions } from "./inviter-options.js";
 import { Session } from "./session.js";
@@ -42,14 +45,22 @@ export class Inviter extends Session {
   /** @internal */
   protected _id: string;
 
+  /** Body parts sent along with the session description in the initial INVITE. */
+  private bodyParts: Array<BodyPart> | undefined;
   /** True if dispose() has been called. */
   private disposed = false;
+  /** The early dialogs, by identifier. */
+  private earlyDialogs = new Map<string, SessionDialog>();
   /** True if early media use is enabled. */
   private earlyMedia = false;
   /** The early media session. */
   private earlyMediaDialog: SessionDialog | undefined;
   /** The early media session description handlers. */
   private earlyMediaSessionDescriptionHandlers = new Map<string, SessionDescriptionHandler>();
+  /** True if forking mode is enabled. */
+  private forking = false;
+  /** The forks of the initial INVITE, in forking mode. */
+  private _forks = new Map<string, InviterFork>();
   /** Our From tag. */
   private fromTag: string;
   /** True if cancel() was called. */
@@ -60,6 +71,8 @@ export class Inviter extends Session {
   private outgoingInviteRequest: OutgoingInviteRequest | undefined;
   /** Initial INVITE message provided to core to send. */
   private outgoingRequestMessage: OutgoingRequestMessage;
+  /** The fork whose early media is rendered, in forking mode. */
+  private _renderedFork: InviterFork | undefined;
 
   /**
    * Constructs a new instance of the `Inviter` class.
@@ -81,6 +94,12 @@ export class Inviter extends Session {
     // Invite without SDP
     this.inviteWithoutSdp = options.inviteWithoutSdp !== undefined ? options.inviteWithoutSdp : this.inviteWithoutSdp;
 
+    // Forking, which requires the INVITE to be without SDP so that each fork may offer
+    this.forking = options.forking !== undefined ? options.forking : this.forking;
+    if (this.forking) {
+      this.inviteWithoutSdp = true;
+    }
+
     // Inviter options (could do better copying these options)
     const inviterOptions: InviterOptions = { ...options };
     inviterOptions.params = { ...options.params };
@@ -93,7 +112,8 @@ export class Inviter extends Session {
       anonymous,
       // Do not add ;ob in initial forming dialog requests if the
       // registration over the current connection got a GRUU URI.
-      outbound: anonymous ? !userAgent.contact.tempGruu : !userAgent.contact.pubGruu
+      outbound: anonymous ? !userAgent.contact.tempGruu : !userAgent.contact.pubGruu,
+      secure: targetURI.scheme === "sips"
     });
 
     // FIXME: TODO: We should not be parsing URIs here as if it fails we have to throw an exception
@@ -129,14 +149,15 @@ export class Inviter extends Session {
     messageOptions.fromTag = this.fromTag;
 
     // Extra headers
-    const extraHeaders: Array<string> = (inviterOptions.extraHeaders || []).slice();
+    const extraHeaders: Array<string> = getExtraHeaders(inviterOptions.extraHeaders);
     if (anonymous && userAgent.configuration.uri) {
       extraHeaders.push("P-Preferred-Identity: " + userAgent.configuration.uri.toString());
       extraHeaders.push("Privacy: id");
     }
     extraHeaders.push("Contact: " + contact);
     extraHeaders.push(
-      "Allow: " + ["ACK", "CANCEL", "INVITE", "MESSAGE", "BYE", "OPTIONS", "INFO", "NOTIFY", "REFER"].toString()
+      "Allow: " +
+        ["ACK", "CANCEL", "INVITE", "MESSAGE", "BYE", "OPTIONS", "INFO", "NOTIFY", "REFER", "UPDATE"].toString()
     );
     if (userAgent.configuration.sipExtension100rel === SIPExtension.Required) {
       extraHeaders.push("Require: 100rel");
@@ -144,6 +165,7 @@ export class Inviter extends Session {
     if (userAgent.configuration.sipExtensionReplaces === SIPExtension.Required) {
       extraHeaders.push("Require: replaces");
     }
+    extraHeaders.push(...this.sessionTimerRequestHeaders());
     inviterOptions.extraHeaders = extraHeaders;
 
     // Body
@@ -165,6 +187,7 @@ export class Inviter extends Session {
     this._referralInviterOptions = inviterOptions;
     this._renderbody = options.renderbody;
     this._rendertype = options.rendertype;
+    this.bodyParts = options.bodyParts;
 
     // Modifiers and options for initial INVITE transaction
     if (options.sessionDescriptionHandlerModifiers) {
@@ -184,6 +207,7 @@ export class Inviter extends Session {
 
     // Identifier
     this._id = this.outgoingRequestMessage.callId + this.fromTag;
+    this._callIdOwner = true;
 
     // Add to the user agent's session collection.
     this.userAgent._sessions[this._id] = this;
@@ -251,6 +275,41 @@ export class Inviter extends Session {
     return this.outgoingRequestMessage;
   }
 
+  /**
+   * The forks of the initial INVITE, in the order their first provisional response was received.
+   * @remarks
+   * Only defined in forking mode, and until the session is established or terminated.
+   * See {@link InviterOptions.forking}.
+   */
+  public get forks(): Array<InviterFork> {
+    return Array.from(this._forks.values());
+  }
+
+  /**
+   * The fork whose early media is to be rendered.
+   * @remarks
+   * Unless another fork is chosen with {@link Inviter.renderFork}, the first fork with early media.
+   * The early media of the other forks is negotiated too, but is not to be rendered.
+   */
+  public get renderedFork(): InviterFork | undefined {
+    return this._renderedFork;
+  }
+
+  /**
+   * Chooses the fork whose early media is to be rendered.
+   * @remarks
+   * The media tracks of the chosen fork are enabled and those of the other forks disabled.
+   * @param fork - One of {@link Inviter.forks}.
+   */
+  public renderFork(fork: InviterFork): void {
+    this.logger.log("Inviter.renderFork");
+    if (this._forks.get(fork.id) !== fork) {
+      throw new Error("Fork is not a fork of this INVITE.");
+    }
+    this._renderedFork = fork;
+    this.renderForkMedia();
+  }
+
   /**
    * Cancels the INVITE request.
    *
@@ -315,6 +374,7 @@ export class Inviter extends Session {
    *  1) Only one offer/answer exchange permitted during initial INVITE.
    *  2) No "early media" if the initial offer is in an INVITE (default behavior).
    *  3) If "early media" and the initial offer is in an INVITE, no INVITE forking.
+   *  4) In forking mode, "early media" from each fork, one of which is rendered.
    *
    * 1) Only one offer/answer exchange permitted during initial INVITE.
    *
@@ -390,6 +450,14 @@ export class Inviter extends Session {
    * However in that case the INVITE request MUST NOT fork. This allows for
    * "early media" in environments where the forking behavior of the SIP
    * servers being utilized is configured to disallow forking.
+   *
+   *
+   * 4) In forking mode, "early media" from each fork, one of which is rendered.
+   *
+   * If the `forking` option is set, the INVITE is sent without an offer as
+   * described above, and each early dialog is exposed as a fork with its own
+   * "early media" session. The application chooses which fork's media to render.
+   * See {@link InviterOptions.forking}.
    */
   public invite(options: InviterInviteOptions = {}): Promise<OutgoingInviteRequest> {
     this.logger.log("Inviter.invite");
@@ -410,7 +478,10 @@ export class Inviter extends Session {
 
     // just send an INVITE with no sdp...
     if (options.withoutSdp || this.inviteWithoutSdp) {
-      if (this._renderbody && this._rendertype) {
+      if (this.bodyParts && this.bodyParts.length) {
+        const body = makeMultipartBody(this.bodyParts);
+        this.outgoingRequestMessage.body = { contentType: body.contentType, body: body.content };
+      } else if (this._renderbody && this._rendertype) {
         this.outgoingRequestMessage.body = { contentType: this._rendertype, body: this._renderbody };
       }
 
@@ -426,7 +497,14 @@ export class Inviter extends Session {
       sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptions
     };
     return this.getOffer(offerOptions)
-      .then((body) => {
+      .then((offer) => {
+        const body =
+          this.bodyParts && this.bodyParts.length
+            ? makeMultipartBody([
+                { contentType: offer.contentType, content: offer.content, contentDisposition: "session" },
+                ...this.bodyParts
+              ])
+            : offer;
         this.outgoingRequestMessage.body = { body: body.content, contentType: body.contentType };
 
         // transition state
@@ -692,9 +770,17 @@ export class Inviter extends Session {
         this.notifyReferer(inviteResponse);
         this.onProgress(inviteResponse)
           .catch(() => {
-            this.disposeEarlyMedia();
+            // In forking mode, the failure is that of the fork alone.
+            if (this.forking) {
+              this.disposeForkEarlyMedia(inviteResponse.session.id);
+            } else {
+              this.disposeEarlyMedia();
+            }
           })
           .then(() => {
+            if (this.forking && this.state === SessionState.Establishing) {
+              this.forkProgress(inviteResponse);
+            }
             if (options.requestDelegate && options.requestDelegate.onProgress) {
               options.requestDelegate.onProgress(inviteResponse);
             }
@@ -726,11 +812,97 @@ export class Inviter extends Session {
     return this.outgoingInviteRequest;
   }
 
+  /**
+   * The early dialog of the rendered fork, or of the early media, or else the first early dialog
+   * with early media of its own. Otherwise the first early dialog, in which no offer may be sent.
+   * @internal
+   */
+  protected earlyDialog():
+    | { dialog: SessionDialog; sessionDescriptionHandler?: SessionDescriptionHandler }
+    | undefined {
+    if (this._renderedFork) {
+      const dialog = this.earlyDialogs.get(this._renderedFork.id);
+      if (dialog) {
+        return { dialog, sessionDescriptionHandler: this._renderedFork.sessionDescriptionHandler };
+      }
+    }
+    if (this.earlyMediaDialog) {
+      return { dialog: this.earlyMediaDialog, sessionDescriptionHandler: this.sessionDescriptionHandler };
+    }
+    for (const [id, sessionDescriptionHandler] of this.earlyMediaSessionDescriptionHandlers) {
+      const dialog = this.earlyDialogs.get(id);
+      if (dialog) {
+        return { dialog, sessionDescriptionHandler };
+      }
+    }
+    const first = this.earlyDialogs.values().next();
+    return first.done ? undefined : { dialog: first.value };
+  }
+
   private disposeEarlyMedia(): void {
     this.earlyMediaSessionDescriptionHandlers.forEach((sessionDescriptionHandler) => {
       sessionDescriptionHandler.close();
     });
     this.earlyMediaSessionDescriptionHandlers.clear();
+    this.earlyDialogs.clear();
+    this._forks.clear();
+    this._renderedFork = undefined;
+  }
+
+  /**
+   * Close and forget the early media of a fork, in forking mode. The early media of other forks is kept.
+   * @param id - The id of the early dialog of the fork.
+   */
+  private disposeForkEarlyMedia(id: string): void {
+    const sessionDescriptionHandler = this.earlyMediaSessionDescriptionHandlers.get(id);
+    if (sessionDescriptionHandler) {
+      sessionDescriptionHandler.close();
+      this.earlyMediaSessionDescriptionHandlers.delete(id);
+    }
+    const fork = this._forks.get(id);
+    if (fork) {
+      fork._sessionDescriptionHandler = undefined;
+      if (this._renderedFork === fork) {
+        this._renderedFork = undefined;
+      }
+    }
+  }
+
+  /**
+   * Create or update the fork of the early dialog of a provisional response, in forking mode.
+   * @param inviteResponse - 1xx response.
+   */
+  private forkProgress(inviteResponse: PrackableIncomingResponseWithSession): void {
+    const session = inviteResponse.session;
+    let fork = this._forks.get(session.id);
+    if (!fork) {
+      this.logger.log(`Inviter fork ${session.id} created`);
+      fork = new InviterFork(session, inviteResponse.message);
+      this._forks.set(session.id, fork);
+    }
+    fork._response = inviteResponse.message;
+    fork._sessionDescriptionHandler = this.earlyMediaSessionDescriptionHandlers.get(session.id);
+    if (!this._renderedFork && fork._sessionDescriptionHandler) {
+      this._renderedFork = fork;
+    }
+    this.renderForkMedia();
+    if (this.delegate?.onFork) {
+      this.delegate.onFork(fork);
+    }
+  }
+
+  /**
+   * Enables the early media of the rendered fork and disables that of the other forks, in forking mode.
+   */
+  private renderForkMedia(): void {
+    this._forks.forEach((fork) => {
+      const sdh = fork._sessionDescriptionHandler;
+      if (sdh) {
+        const enable = fork === this._renderedFork;
+        sdh.enableReceiverTracks && sdh.enableReceiverTracks(enable);
+        sdh.enableSenderTracks && sdh.enableSenderTracks(enable);
+      }
+    });
   }
 
   private notifyReferer(response: IncomingResponse): void {
@@ -810,10 +982,15 @@ export class Inviter extends Session {
       onMessage: (messageRequest): void => this.onMessageRequest(messageRequest),
       onNotify: (notifyRequest): void => this.onNotifyRequest(notifyRequest),
       onPrack: (prackRequest): void => this.onPrackRequest(prackRequest),
-      onRefer: (referRequest): void => this.onReferRequest(referRequest)
+      onRefer: (referRequest): void => this.onReferRequest(referRequest),
+      onUpdate: (updateRequest): void => this.onUpdateRequest(updateRequest)
     };
     this._dialog = session;
 
+    // Start session timers as negotiated. The session interval requested may have been raised by a 422 response.
+    const sessionExpires = this.outgoingRequestMessage.getHeader("session-expires");
+    this.sessionTimerResponse(response, sessionExpires ? parseInt(sessionExpires, 10) : 0);
+
     switch (session.signalingState) {
       case SignalingState.Initial:
         // INVITE without offer, so MUST have offer at this point, so invalid state.
@@ -856,6 +1033,11 @@ export class Inviter extends Session {
           }
           this.setSessionDescriptionHandler(sdh);
           this.earlyMediaSessionDescriptionHandlers.delete(session.id);
+          // The early media of the confirmed fork may not have been rendered.
+          if (this.forking) {
+            sdh.enableReceiverTracks && sdh.enableReceiverTracks(true);
+            sdh.enableSenderTracks && sdh.enableSenderTracks(true);
+          }
           inviteResponse.ack();
           this.stateTransition(SessionState.Established);
           return Promise.resolve();
@@ -948,6 +1130,13 @@ export class Inviter extends Session {
     const response = inviteResponse.message;
     const session = inviteResponse.session;
 
+    // An UPDATE may be received in the early dialog, renegotiating its own early media if any.
+    this.earlyDialogs.set(session.id, session);
+    session.delegate = {
+      onUpdate: (updateRequest): void =>
+        this.onUpdateRequest(updateRequest, this.earlyMediaSessionDescriptionHandlers.get(session.id))
+    };
+
     // Ported - Set assertedIdentity.
     if (response.hasHeader("P-Asserted-Identity")) {
       this._assertedIdentity = Grammar.nameAddrHeaderParse(response.getHeader("P-Asserted-Identity") as string);
@@ -1040,7 +1229,10 @@ export class Inviter extends Session {
               inviteResponse.prack({ extraHeaders, body });
             })
             .catch((error) => {
-              this.stateTransition(SessionState.Terminated);
+              // In forking mode, another fork may yet answer.
+              if (!this.forking) {
+                this.stateTransition(SessionState.Terminated);
+              }
               throw error;
             });
         }
@@ -1,5 +1,6 @@
 import { IncomingMessageRequest } from "../core/messages/methods/message.js";
 import { IncomingRequestMessage } from "../core/messages/incoming-request-message.js";
+import { BodyPart, getBodyParts } from "../core/messages/multipart-body.js";
 import { ResponseOptions } from "../core/messages/outgoing-response.js";
 
 /**
@@ -15,6 +16,15 @@ export class Message {
     return this.incomingMessageRequest.message;
   }
 
+  /**
+   * The body parts of the incoming MESSAGE request message, if it has a multipart body.
+   * @remarks
+   * https://tools.ietf.org/html/rfc5621
+   */
+  public get bodyParts(): Array<BodyPart> | undefined {
+    return getBodyParts(this.incomingMessageRequest.message);
+  }
+
   /** Accept the request. */
   public accept(options?: ResponseOptions): Promise<void> {
     this.incomingMessageRequest.accept(options);
@@ -1,3 +1,4 @@
+import { Headers } from "../core/messages/headers.js";
 import { URI } from "../grammar/uri.js";
 
 /**
@@ -5,8 +6,8 @@ import { URI } from "../grammar/uri.js";
  * @public
  */
 export interface MessagerOptions {
-  /** Array of extra headers added to the MESSAGE. */
-  extraHeaders?: Array<string>;
+  /** Extra headers added to the MESSAGE. */
+  extraHeaders?: Array<string> | Headers;
   /** @deprecated TODO: provide alternative. */
   params?: {
     fromDisplayName?: string;
@@ -1,6 +1,7 @@
 import { Grammar } from "../grammar/grammar.js";
 import { URI } from "../grammar/uri.js";
 import { Body } from "../core/messages/body.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
 import { C } from "../core/messages/methods/constants.js";
 import { Logger } from "../core/log/logger.js";
 import { OutgoingRequestMessage } from "../core/messages/outgoing-request-message.js";
@@ -59,7 +60,7 @@ export class Messager {
     const params = options.params ? { ...options.params } : {};
 
     // Extra headers
-    const extraHeaders = (options.extraHeaders || []).slice();
+    const extraHeaders = getExtraHeaders(options.extraHeaders);
 
     // Body
     const contentDisposition = "render";
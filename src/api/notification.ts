@@ -1,5 +1,6 @@
 import { IncomingNotifyRequest } from "../core/messages/methods/notify.js";
 import { IncomingRequestMessage } from "../core/messages/incoming-request-message.js";
+import { BodyPart, getBodyParts } from "../core/messages/multipart-body.js";
 import { ResponseOptions } from "../core/messages/outgoing-response.js";
 
 /**
@@ -15,6 +16,15 @@ export class Notification {
     return this.incomingNotifyRequest.message;
   }
 
+  /**
+   * The body parts of the incoming NOTIFY request message, if it has a multipart body.
+   * @remarks
+   * https://tools.ietf.org/html/rfc5621
+   */
+  public get bodyParts(): Array<BodyPart> | undefined {
+    return getBodyParts(this.incomingNotifyRequest.message);
+  }
+
   /** Accept the request. */
   public accept(options?: ResponseOptions): Promise<void> {
     this.incomingNotifyRequest.accept(options);
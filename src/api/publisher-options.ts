@@ -1,3 +1,4 @@
+import { Headers } from "../core/messages/headers.js";
 import { URI } from "../grammar/uri.js";
 
 /**
@@ -15,9 +16,9 @@ export interface PublisherOptions {
    */
   expires?: number;
   /**
-   * Array of extra headers added to the PUBLISH request message.
+   * Extra headers added to the PUBLISH request message.
    */
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   /** @deprecated TODO: provide alternative. */
   params?: {
     fromDisplayName?: string;
@@ -1,5 +1,6 @@
 import { URI } from "../grammar/uri.js";
 import { Body, fromBodyLegacy } from "../core/messages/body.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
 import { C } from "../core/messages/methods/constants.js";
 import { Logger } from "../core/log/logger.js";
 import { OutgoingRequestMessage } from "../core/messages/outgoing-request-message.js";
@@ -51,7 +52,7 @@ export class Publisher {
 
     this.userAgent = userAgent;
 
-    options.extraHeaders = (options.extraHeaders || []).slice();
+    options.extraHeaders = getExtraHeaders(options.extraHeaders);
     options.contentType = options.contentType || "text/plain";
 
     if (typeof options.expires !== "number" || options.expires % 1 !== 0) {
@@ -85,7 +86,7 @@ export class Publisher {
         content
       };
     }
-    const extraHeaders = (options.extraHeaders || []).slice();
+    const extraHeaders = getExtraHeaders(options.extraHeaders);
 
     // Build the request
     this.request = userAgent.userAgentCore.makeOutgoingRequestMessage(
@@ -329,7 +330,7 @@ export class Publisher {
   private sendPublishRequest(): OutgoingPublishRequest {
     const reqOptions = { ...this.options };
 
-    reqOptions.extraHeaders = (this.options.extraHeaders || []).slice();
+    reqOptions.extraHeaders = getExtraHeaders(this.options.extraHeaders);
 
     reqOptions.extraHeaders.push("Event: " + this.event);
     reqOptions.extraHeaders.push("Expires: " + this.pubRequestExpires);
@@ -1,5 +1,6 @@
 import { NameAddrHeader } from "../grammar/name-addr-header.js";
 import { IncomingReferRequest } from "../core/messages/methods/refer.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
 import { IncomingRequestMessage } from "../core/messages/incoming-request-message.js";
 import { ResponseOptions } from "../core/messages/outgoing-response.js";
 import { Inviter } from "./inviter.js";
@@ -73,7 +74,7 @@ export class Referral {
     const targetURI = this.referTo.uri.clone();
     targetURI.clearHeaders();
     options = options || {};
-    const extraHeaders = (options.extraHeaders || []).slice();
+    const extraHeaders = getExtraHeaders(options.extraHeaders);
     const replaces = this.replaces;
     if (replaces) {
       // decodeURIComponent is a holdover from 2c086eb4. Not sure that it is actually necessary
@@ -1,3 +1,4 @@
+import { Headers } from "../core/messages/headers.js";
 import { URI } from "../grammar/uri.js";
 
 /**
@@ -11,8 +12,26 @@ export interface RegistererOptions {
   /** Array of extra Contact header parameters. */
   extraContactHeaderParams?: Array<string>;
 
-  /** Array of extra headers added to the REGISTER. */
-  extraHeaders?: Array<string>;
+  /** Extra headers added to the REGISTER. */
+  extraHeaders?: Array<string> | Headers;
+
+  /**
+   * Seconds used as the base time when computing how long to wait before
+   * attempting to form a new SIP Outbound flow after a failure.
+   *
+   * @remarks
+   * After each consecutive failure to form a new flow, the time waited before trying again
+   * is randomly distributed between 50% and 100% of `min(flowRecoveryMaxTime, flowRecoveryBaseTime * 2 ^ failures)`.
+   * https://tools.ietf.org/html/rfc5626#section-4.5
+   * @defaultValue 30
+   */
+  flowRecoveryBaseTime?: number;
+
+  /**
+   * Maximum number of seconds to wait before attempting to form a new SIP Outbound flow after a failure.
+   * @defaultValue 1800
+   */
+  flowRecoveryMaxTime?: number;
 
   /**
    * UUID to provide with "+sip.instance" Contact parameter.
@@ -21,6 +40,21 @@ export interface RegistererOptions {
    */
   instanceId?: string;
 
+  /**
+   * Seconds between keep-alives sent on a SIP Outbound flow if the registrar does not provide a Flow-Timer.
+   *
+   * @remarks
+   * SIP Outbound is used if both a `regId` and an `instanceId` are set, as RFC 5626 requires both the
+   * "reg-id" and "+sip.instance" Contact parameters. Specifying one of them sets the other by default,
+   * the `instanceId` to that of the user agent and the `regId` to 1. While registered, keep-alives are sent
+   * at intervals randomly distributed between 80% and 100% of the Flow-Timer header field value of the
+   * most recent REGISTER response or, if absent, of this value. Requires a transport which implements
+   * `Transport.setKeepAliveInterval`.
+   * https://tools.ietf.org/html/rfc5626#section-4.4.1
+   * @defaultValue 120
+   */
+  keepAliveInterval?: number;
+
   /**
    * If true, constructor logs the registerer configuration.
    * @defaultValue `true`
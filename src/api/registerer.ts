@@ -1,7 +1,8 @@
 import { Grammar } from "../grammar/grammar.js";
 import { NameAddrHeader } from "../grammar/name-addr-header.js";
-import { equivalentURI, URI } from "../grammar/uri.js";
+import { URI } from "../grammar/uri.js";
 import { Logger } from "../core/log/logger.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
 import { C } from "../core/messages/methods/constants.js";
 import { OutgoingRegisterRequest } from "../core/messages/methods/register.js";
 import { OutgoingRequestMessage } from "../core/messages/outgoing-request-message.js";
@@ -20,11 +21,17 @@ import { UserAgent } from "./user-agent.js";
 export class Registerer {
   private static readonly defaultExpires = 600;
   private static readonly defaultRefreshFrequency = 99;
+  private static readonly defaultFlowRecoveryBaseTime = 30;
+  private static readonly defaultFlowRecoveryMaxTime = 1800;
+  private static readonly defaultKeepAliveInterval = 120;
 
   private disposed = false;
   private id: string;
   private expires: number;
   private refreshFrequency: number;
+  private flowRecoveryBaseTime: number;
+  private flowRecoveryMaxTime: number;
+  private keepAliveInterval: number;
   private logger: Logger;
   private options: RegistererOptions;
   private request: OutgoingRequestMessage;
@@ -32,6 +39,10 @@ export class Registerer {
 
   private registrationExpiredTimer: number | undefined;
   private registrationTimer: number | undefined;
+  private flowRecoveryTimer: number | undefined;
+
+  /** The number of consecutive failures to form a new SIP Outbound flow. */
+  private flowFailures = 0;
 
   /** The contacts returned from the most recent accepted REGISTER request. */
   private _contacts: Array<string> = [];
@@ -80,7 +91,7 @@ export class Registerer {
 
     // Make sure we are not using references to array options
     this.options.extraContactHeaderParams = (this.options.extraContactHeaderParams || []).slice();
-    this.options.extraHeaders = (this.options.extraHeaders || []).slice();
+    this.options.extraHeaders = getExtraHeaders(this.options.extraHeaders);
 
     // Make sure we are not using references to registrar uri
     if (!this.options.registrar) {
@@ -105,7 +116,7 @@ export class Registerer {
     const fromURI = (this.options.params && this.options.params.fromUri) || userAgent.userAgentCore.configuration.aor;
     const toURI = (this.options.params && this.options.params.toUri) || userAgent.configuration.uri;
     const params = this.options.params || {};
-    const extraHeaders = (options.extraHeaders || []).slice();
+    const extraHeaders = getExtraHeaders(options.extraHeaders);
 
     // Build the request
     this.request = userAgent.userAgentCore.makeOutgoingRequestMessage(
@@ -132,6 +143,14 @@ export class Registerer {
       );
     }
 
+    // SIP Outbound flow maintenance
+    this.flowRecoveryBaseTime = this.options.flowRecoveryBaseTime || Registerer.defaultFlowRecoveryBaseTime;
+    this.flowRecoveryMaxTime = this.options.flowRecoveryMaxTime || Registerer.defaultFlowRecoveryMaxTime;
+    this.keepAliveInterval = this.options.keepAliveInterval || Registerer.defaultKeepAliveInterval;
+    if (this.flowRecoveryBaseTime < 0 || this.flowRecoveryMaxTime < 0 || this.keepAliveInterval < 0) {
+      throw new Error("Invalid flow maintenance timing.");
+    }
+
     // initialize logger
     this.logger = userAgent.getLogger("sip.Registerer");
 
@@ -163,8 +182,11 @@ export class Registerer {
       expires: Registerer.defaultExpires,
       extraContactHeaderParams: [],
       extraHeaders: [],
+      flowRecoveryBaseTime: Registerer.defaultFlowRecoveryBaseTime,
+      flowRecoveryMaxTime: Registerer.defaultFlowRecoveryMaxTime,
       logConfiguration: true,
       instanceId: "",
+      keepAliveInterval: Registerer.defaultKeepAliveInterval,
       params: {},
       regId: 0,
       registrar: new URI("sip", "anonymous", "anonymous.invalid"),
@@ -337,11 +359,12 @@ export class Registerer {
     }
 
     // Extra headers
-    const extraHeaders = (this.options.extraHeaders || []).slice();
+    const extraHeaders = getExtraHeaders(this.options.extraHeaders);
     extraHeaders.push("Contact: " + this.generateContactHeader(this.expires));
     // this is UA.C.ALLOWED_METHODS, removed to get around circular dependency
     extraHeaders.push(
-      "Allow: " + ["ACK", "CANCEL", "INVITE", "MESSAGE", "BYE", "OPTIONS", "INFO", "NOTIFY", "REFER"].toString()
+      "Allow: " +
+        ["ACK", "CANCEL", "INVITE", "MESSAGE", "BYE", "OPTIONS", "INFO", "NOTIFY", "REFER", "UPDATE"].toString()
     );
 
     // Call-ID: All registrations from a UAC SHOULD use the same Call-ID
@@ -397,7 +420,7 @@ export class Registerer {
             throw new Error("Contact undefined");
           }
 
-          if (this.userAgent.contact.pubGruu && equivalentURI(contact.uri, this.userAgent.contact.pubGruu)) {
+          if (this.userAgent.contact.pubGruu && contact.uri.equals(this.userAgent.contact.pubGruu)) {
             expires = Number(contact.getParam("expires"));
             break;
           }
@@ -410,7 +433,7 @@ export class Registerer {
             }
           } else {
             // otherwise use comparision rules in Section 19.1.4
-            if (equivalentURI(contact.uri, this.userAgent.contact.uri)) {
+            if (contact.uri.equals(this.userAgent.contact.uri)) {
               expires = Number(contact.getParam("expires"));
               break;
             }
@@ -449,7 +472,19 @@ export class Registerer {
           }
         }
 
-        this.registered(expires);
+        // The Flow-Timer header field indicates the number of seconds the server is prepared
+        // to wait without seeing keep-alives before it could consider the flow dead.
+        // https://tools.ietf.org/html/rfc5626#section-4.4.1
+        let flowTimer: number | undefined;
+        if (response.message.hasHeader("flow-timer")) {
+          flowTimer = Number(response.message.getHeader("flow-timer"));
+          if (isNaN(flowTimer) || flowTimer <= 0) {
+            this.logger.warn("Invalid Flow-Timer header field in response to REGISTER, ignoring");
+            flowTimer = undefined;
+          }
+        }
+
+        this.registered(expires, flowTimer);
         if (options.requestDelegate && options.requestDelegate.onAccept) {
           options.requestDelegate.onAccept(response);
         }
@@ -566,7 +601,7 @@ export class Registerer {
     }
 
     // Extra headers
-    const extraHeaders = ((options.requestOptions && options.requestOptions.extraHeaders) || []).slice();
+    const extraHeaders = getExtraHeaders(options.requestOptions && options.requestOptions.extraHeaders);
     this.request.extraHeaders = extraHeaders;
 
     // Registrations are soft state and expire unless refreshed, but can
@@ -648,6 +683,28 @@ export class Registerer {
     return Promise.resolve(outgoingRegisterRequest);
   }
 
+  /**
+   * Called by the user agent when the transport connection is lost.
+   * @remarks
+   * If registered using SIP Outbound, the flow used to register has failed.
+   * The registration is no longer usable, so a new flow is formed and the contact re-registered.
+   * https://tools.ietf.org/html/rfc5626#section-4.5
+   * @internal
+   */
+  public _flowFailed(): void {
+    if (!this.outbound || this.disposed || this._state !== RegistererState.Registered) {
+      return;
+    }
+    this.logger.warn("SIP Outbound flow failed, forming a new flow");
+    this.unregistered();
+    this.recoverFlow();
+  }
+
+  /** True if registering using SIP Outbound. */
+  private get outbound(): boolean {
+    return !!(this.options.regId && this.options.instanceId);
+  }
+
   /**
    * Clear registration timers.
    */
@@ -661,6 +718,86 @@ export class Registerer {
       clearTimeout(this.registrationExpiredTimer);
       this.registrationExpiredTimer = undefined;
     }
+
+    if (this.flowRecoveryTimer !== undefined) {
+      clearTimeout(this.flowRecoveryTimer);
+      this.flowRecoveryTimer = undefined;
+    }
+  }
+
+  /**
+   * Form a new SIP Outbound flow by connecting the transport, if need be, and re-registering.
+   */
+  private recoverFlow(): void {
+    if (this.disposed || this._state === RegistererState.Terminated) {
+      return;
+    }
+
+    // If waiting for a final response to an outstanding REGISTER request, wait for it first.
+    if (this.waiting) {
+      this.waitingChange.addListener(
+        () => {
+          if (this._state !== RegistererState.Registered) {
+            this.recoverFlow();
+          }
+        },
+        { once: true }
+      );
+      return;
+    }
+
+    const connected = this.userAgent.transport.isConnected() ? Promise.resolve() : this.userAgent.reconnect();
+    connected
+      .then(() => {
+        if (this.disposed) {
+          return;
+        }
+        return this.register({
+          requestDelegate: {
+            onReject: (): void => this.retryFlowRecovery()
+          }
+        });
+      })
+      .catch((error: Error) => {
+        this.logger.warn(`Failed to form a new SIP Outbound flow: ${error.message}`);
+        this.retryFlowRecovery();
+      });
+  }
+
+  /**
+   * Wait before attempting to form a new SIP Outbound flow again.
+   * @remarks
+   * wait-time = min(max-time, (base-time * (2 ^ consecutive-failures)))
+   * The time waited is randomly distributed between 50% and 100% of the wait-time.
+   * https://tools.ietf.org/html/rfc5626#section-4.5
+   */
+  private retryFlowRecovery(): void {
+    if (this.disposed || this._state === RegistererState.Terminated) {
+      return;
+    }
+    this.flowFailures++;
+    const waitTime = Math.min(this.flowRecoveryMaxTime, this.flowRecoveryBaseTime * Math.pow(2, this.flowFailures));
+    const delay = waitTime * (0.5 + Math.random() * 0.5);
+    this.logger.log(`Attempting to form a new SIP Outbound flow in ${Math.round(delay)} seconds`);
+    this.flowRecoveryTimer = setTimeout(() => {
+      this.flowRecoveryTimer = undefined;
+      this.recoverFlow();
+    }, delay * 1000);
+  }
+
+  /**
+   * Set the interval at which keep-alives are sent on the SIP Outbound flow.
+   * @param interval - Seconds between keep-alives, zero to stop sending keep-alives.
+   */
+  private setKeepAliveInterval(interval: number): void {
+    const transport = this.userAgent.transport;
+    if (!transport.setKeepAliveInterval) {
+      if (interval) {
+        this.logger.warn("Transport does not support keep-alives, unable to maintain SIP Outbound flow.");
+      }
+      return;
+    }
+    transport.setKeepAliveInterval(interval);
   }
 
   /**
@@ -687,9 +824,16 @@ export class Registerer {
   /**
    * Helper function, called when registered.
    */
-  private registered(expires: number): void {
+  private registered(expires: number, flowTimer?: number): void {
     this.clearTimers();
 
+    // Keep the SIP Outbound flow alive, at the interval required by the registrar if provided.
+    // https://tools.ietf.org/html/rfc5626#section-4.4.1
+    if (this.outbound) {
+      this.flowFailures = 0;
+      this.setKeepAliveInterval(flowTimer !== undefined ? flowTimer : this.keepAliveInterval);
+    }
+
     // Re-Register before the expiration interval has elapsed.
     // For that, calculate the delay as a percentage of the expiration time
     this.registrationTimer = setTimeout(() => {
@@ -714,6 +858,10 @@ export class Registerer {
   private unregistered(): void {
     this.clearTimers();
 
+    if (this.outbound && this._state === RegistererState.Registered) {
+      this.setKeepAliveInterval(0);
+    }
+
     if (this._state !== RegistererState.Unregistered) {
       this.stateTransition(RegistererState.Unregistered);
     }
@@ -725,6 +873,10 @@ export class Registerer {
   private terminated(): void {
     this.clearTimers();
 
+    if (this.outbound && this._state === RegistererState.Registered) {
+      this.setKeepAliveInterval(0);
+    }
+
     if (this._state !== RegistererState.Terminated) {
       this.stateTransition(RegistererState.Terminated);
     }
@@ -3,6 +3,7 @@ import { Ack } from "./ack.js";
 import { Bye } from "./bye.js";
 import { Cancel } from "./cancel.js";
 import { Info } from "./info.js";
+import { InviterFork } from "./inviter-fork.js";
 import { Message } from "./message.js";
 import { Notification } from "./notification.js";
 import { Referral } from "./referral.js";
@@ -38,6 +39,15 @@ export interface SessionDelegate {
    */
   onCancel?(cancel: Cancel): void;
 
+  /**
+   * Called upon receiving a provisional response creating or updating a fork of the initial INVITE.
+   * @remarks
+   * Only called for an {@link Inviter} in forking mode, once the response has been handled.
+   * See {@link InviterOptions.forking}.
+   * @param fork - The fork.
+   */
+  onFork?(fork: InviterFork): void;
+
   /**
    * Called upon receiving an incoming in dialog INFO request.
    * @param info - The info.
@@ -98,4 +108,14 @@ export interface SessionDelegate {
    * @param provisional - True if created provisionally.
    */
   onSessionDescriptionHandler?(sessionDescriptionHandler: SessionDescriptionHandler, provisional: boolean): void;
+
+  /**
+   * Called upon receiving an incoming in dialog UPDATE request, once it has been answered.
+   * @remarks
+   * An UPDATE may be received in an early dialog, as well as in an established session.
+   * @param request - The request.
+   * @param response - The response.
+   * @param statusCode - The status code of the response.
+   */
+  onUpdate?(request: IncomingRequestMessage, response: string, statusCode: number): void;
 }
@@ -27,6 +27,16 @@ export interface SessionDescriptionHandler {
    * @returns True if the content type is  handled by this session description handler. False otherwise.
    */
   hasDescription(contentType: string): boolean;
+  /**
+   * Enables or disables the media received, for example to render the early media of one fork only.
+   * @param enable - If true enable tracks, otherwise disable tracks.
+   */
+  enableReceiverTracks?(enable: boolean): void;
+  /**
+   * Enables or disables the media sent, for example to send early media to one fork only.
+   * @param enable - If true enable tracks, otherwise disable tracks.
+   */
+  enableSenderTracks?(enable: boolean): void;
 
   /**
    * Rolls back the current local/remote offer to the prior stable state.
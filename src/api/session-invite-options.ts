@@ -1,3 +1,4 @@
+import { OutgoingInviteRequest } from "../core/messages/methods/invite.js";
 import { OutgoingRequestDelegate, RequestOptions } from "../core/messages/outgoing-request.js";
 import { SessionDescriptionHandlerModifier, SessionDescriptionHandlerOptions } from "./session-description-handler.js";
 
@@ -6,6 +7,11 @@ import { SessionDescriptionHandlerModifier, SessionDescriptionHandlerOptions } f
  * @public
  */
 export interface SessionInviteOptions {
+  /**
+   * Called upon sending the re-INVITE again, if it was rejected with 491 (Request Pending).
+   * The request delegate receives the final response to the re-INVITE sent again.
+   */
+  onRetry?: (request: OutgoingInviteRequest) => void;
   /**
    * See `core` API.
    */
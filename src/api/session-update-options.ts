@@ -0,0 +1,29 @@
+import { OutgoingRequestDelegate, RequestOptions } from "../core/messages/outgoing-request.js";
+import { SessionDescriptionHandlerModifier, SessionDescriptionHandlerOptions } from "./session-description-handler.js";
+
+/**
+ * Options for {@link Session.update}.
+ * @public
+ */
+export interface SessionUpdateOptions {
+  /**
+   * See `core` API.
+   */
+  requestDelegate?: OutgoingRequestDelegate;
+  /**
+   * See `core` API.
+   */
+  requestOptions?: RequestOptions;
+  /**
+   * Modifiers to pass to SessionDescriptionHandler during UPDATE transaction.
+   */
+  sessionDescriptionHandlerModifiers?: Array<SessionDescriptionHandlerModifier>;
+  /**
+   * Options to pass to SessionDescriptionHandler during UPDATE transaction.
+   */
+  sessionDescriptionHandlerOptions?: SessionDescriptionHandlerOptions;
+  /**
+   * If true, send UPDATE without SDP, updating the session without renegotiating it. Default is false.
+   */
+  withoutSdp?: boolean;
+}
@@ -2,10 +2,14 @@ import { Grammar } from "../grammar/grammar.js";
 import { NameAddrHeader } from "../grammar/name-addr-header.js";
 import { URI } from "../grammar/uri.js";
 import { Body, fromBodyLegacy, getBody } from "../core/messages/body.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
 import { Logger } from "../core/log/logger.js";
 import { AckableIncomingResponseWithSession } from "../core/messages/methods/invite.js";
 import { IncomingAckRequest } from "../core/messages/methods/ack.js";
 import { IncomingByeRequest, OutgoingByeRequest } from "../core/messages/methods/bye.js";
+import { IncomingRequestMessage } from "../core/messages/incoming-request-message.js";
+import { IncomingResponse } from "../core/messages/incoming-response.js";
+import { IncomingResponseMessage } from "../core/messages/incoming-response-message.js";
 import { IncomingInfoRequest, OutgoingInfoRequest } from "../core/messages/methods/info.js";
 import {
   IncomingInviteRequest,
@@ -16,6 +20,7 @@ import { IncomingMessageRequest, OutgoingMessageRequest } from "../core/messages
 import { IncomingNotifyRequest } from "../core/messages/methods/notify.js";
 import { IncomingPrackRequest } from "../core/messages/methods/prack.js";
 import { IncomingReferRequest, OutgoingReferRequest } from "../core/messages/methods/refer.js";
+import { IncomingUpdateRequest, OutgoingUpdateRequest } from "../core/messages/methods/update.js";
 import { OutgoingRequestDelegate, RequestOptions } from "../core/messages/outgoing-request.js";
 import {
   Session as SessionDialog,
@@ -49,7 +54,9 @@ import { SessionMessageOptions } from "./session-message-options.js";
 import { SessionOptions } from "./session-options.js";
 import { SessionReferOptions } from "./session-refer-options.js";
 import { SessionState } from "./session-state.js";
+import { SessionUpdateOptions } from "./session-update-options.js";
 import { UserAgent } from "./user-agent.js";
+import { SIPExtension } from "./user-agent-options.js";
 
 /**
  * A session provides real time communication between one or more participants.
@@ -88,6 +95,8 @@ export abstract class Session {
   /** @internal */
   protected _assertedIdentity: NameAddrHeader | undefined;
   /** @internal */
+  protected _callIdOwner = false;
+  /** @internal */
   protected _dialog: SessionDialog | undefined;
   /** @internal */
   protected _referralInviterOptions: InviterOptions | undefined; // FIXME: This is not getting set by Invitation
@@ -102,6 +111,27 @@ export abstract class Session {
   private pendingReinvite = false;
   /** True if there is an incoming re-INVITE ACK request outstanding. */
   private pendingReinviteAck = false;
+  /** True if there is an outgoing UPDATE request with an offer outstanding. */
+  private pendingUpdate = false;
+  /** Outgoing re-INVITE requests waiting for the offer/answer exchange in progress to complete. */
+  private reinviteQueue: Array<{
+    options: SessionInviteOptions;
+    retry: boolean;
+    resolve: (request: OutgoingInviteRequest) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  /** Timer which fires when a re-INVITE rejected with 491 (Request Pending) is to be retried. */
+  private reinviteRetryTimer: number | undefined;
+  /** True if the peer allows UPDATE, so that it may be used to refresh the session. */
+  private remoteUpdateAllowed = false;
+  /** Session interval negotiated by session timers, in seconds, or 0 if none. */
+  private sessionInterval = 0;
+  /** True if we are the refresher of the session. */
+  private sessionRefresher = false;
+  /** Timer which fires when the session is to be refreshed. */
+  private sessionRefreshTimer: number | undefined;
+  /** Timer which fires when the session expires. */
+  private sessionExpiresTimer: number | undefined;
   /** Dialogs session description handler. */
   private _sessionDescriptionHandler: SessionDescriptionHandler | undefined;
   /** SDH modifiers for the initial INVITE transaction. */
@@ -157,6 +187,9 @@ export abstract class Session {
     // Remove from the user agent's session collection
     delete this.userAgent._sessions[this.id];
 
+    this.clearSessionTimer();
+    this.reinviteQueueClear();
+
     // Dispose of dialog media
     if (this._sessionDescriptionHandler) {
       this._sessionDescriptionHandler.close();
@@ -411,6 +444,11 @@ export abstract class Session {
 
   /**
    * Renegotiate the session. Sends a re-INVITE.
+   * @remarks
+   * If an offer/answer exchange is in progress, the re-INVITE waits in line and is sent once it
+   * has completed, so the returned promise resolves when the re-INVITE is sent. A re-INVITE which
+   * collides with one from the peer and is rejected with 491 (Request Pending) is retried once after
+   * a randomly chosen wait, and only the final response is reported to the request delegate.
    * @param options - Options bucket. See {@link SessionInviteOptions} for details.
    */
   public invite(options: SessionInviteOptions = {}): Promise<OutgoingInviteRequest> {
@@ -418,184 +456,15 @@ export abstract class Session {
     if (this.state !== SessionState.Established) {
       return Promise.reject(new Error(`Invalid session state ${this.state}`));
     }
-    if (this.pendingReinvite) {
-      return Promise.reject(
-        new RequestPendingError("Reinvite in progress. Please wait until complete, then try again.")
-      );
-    }
-    this.pendingReinvite = true;
-
-    // Modifiers and options for initial INVITE transaction
-    if (options.sessionDescriptionHandlerModifiers) {
-      this.sessionDescriptionHandlerModifiersReInvite = options.sessionDescriptionHandlerModifiers;
-    }
-    if (options.sessionDescriptionHandlerOptions) {
-      this.sessionDescriptionHandlerOptionsReInvite = options.sessionDescriptionHandlerOptions;
-    }
-
-    const delegate: OutgoingInviteRequestDelegate = {
-      onAccept: (response): void => {
-        // A re-INVITE transaction has an offer/answer [RFC3264] exchange
-        // associated with it.  The UAC (User Agent Client) generating a given
-        // re-INVITE can act as the offerer or as the answerer.  A UAC willing
-        // to act as the offerer includes an offer in the re-INVITE.  The UAS
-        // (User Agent Server) then provides an answer in a response to the
-        // re-INVITE.  A UAC willing to act as answerer does not include an
-        // offer in the re-INVITE.  The UAS then provides an offer in a response
-        // to the re-INVITE becoming, thus, the offerer.
-        // https://tools.ietf.org/html/rfc6141#section-1
-        const body = getBody(response.message);
-        if (!body) {
-          // No way to recover, so terminate session and mark as failed.
-          this.logger.error("Received 2xx response to re-INVITE without a session description");
-          this.ackAndBye(response, 400, "Missing session description");
-          this.stateTransition(SessionState.Terminated);
-          this.pendingReinvite = false;
-          return;
-        }
-
-        if (options.withoutSdp) {
-          // INVITE without SDP - set remote offer and send an answer in the ACK
-          const answerOptions = {
-            sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
-            sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
-          };
-          this.setOfferAndGetAnswer(body, answerOptions)
-            .then((answerBody) => {
-              response.ack({ body: answerBody });
-            })
-            .catch((error: Error) => {
-              // No way to recover, so terminate session and mark as failed.
-              this.logger.error("Failed to handle offer in 2xx response to re-INVITE");
-              this.logger.error(error.message);
-              if (this.state === SessionState.Terminated) {
-                // A BYE should not be sent if already terminated.
-                // For example, a BYE may be sent/received while re-INVITE is outstanding.
-                response.ack();
-              } else {
-                this.ackAndBye(response, 488, "Bad Media Description");
-                this.stateTransition(SessionState.Terminated);
-              }
-            })
-            .then(() => {
-              this.pendingReinvite = false;
-              if (options.requestDelegate && options.requestDelegate.onAccept) {
-                options.requestDelegate.onAccept(response);
-              }
-            });
-        } else {
-          // INVITE with SDP - set remote answer and send an ACK
-          const answerOptions = {
-            sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
-            sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
-          };
-          this.setAnswer(body, answerOptions)
-            .then(() => {
-              response.ack();
-            })
-            .catch((error: Error) => {
-              // No way to recover, so terminate session and mark as failed.
-              this.logger.error("Failed to handle answer in 2xx response to re-INVITE");
-              this.logger.error(error.message);
-              // A BYE should only be sent if session is not already terminated.
-              // For example, a BYE may be sent/received while re-INVITE is outstanding.
-              // The ACK needs to be sent regardless as it was not handled by the transaction.
-              if (this.state !== SessionState.Terminated) {
-                this.ackAndBye(response, 488, "Bad Media Description");
-                this.stateTransition(SessionState.Terminated);
-              } else {
-                response.ack();
-              }
-            })
-            .then(() => {
-              this.pendingReinvite = false;
-              if (options.requestDelegate && options.requestDelegate.onAccept) {
-                options.requestDelegate.onAccept(response);
-              }
-            });
-        }
-      },
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      onProgress: (response): void => {
-        return;
-      },
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      onRedirect: (response): void => {
-        return;
-      },
-      onReject: (response): void => {
-        this.logger.warn("Received a non-2xx response to re-INVITE");
-        this.pendingReinvite = false;
-        if (options.withoutSdp) {
-          if (options.requestDelegate && options.requestDelegate.onReject) {
-            options.requestDelegate.onReject(response);
-          }
-        } else {
-          this.rollbackOffer()
-            .catch((error: Error) => {
-              // No way to recover, so terminate session and mark as failed.
-              this.logger.error("Failed to rollback offer on non-2xx response to re-INVITE");
-              this.logger.error(error.message);
-              // A BYE should only be sent if session is not already terminated.
-              // For example, a BYE may be sent/received while re-INVITE is outstanding.
-              // Note that the ACK was already sent by the transaction, so just need to send BYE.
-              if (this.state !== SessionState.Terminated) {
-                if (!this.dialog) {
-                  throw new Error("Dialog undefined.");
-                }
-                const extraHeaders: Array<string> = [];
-                extraHeaders.push("Reason: " + this.getReasonHeaderValue(500, "Internal Server Error"));
-                this.dialog.bye(undefined, { extraHeaders });
-                this.stateTransition(SessionState.Terminated);
-              }
-            })
-            .then(() => {
-              if (options.requestDelegate && options.requestDelegate.onReject) {
-                options.requestDelegate.onReject(response);
-              }
-            });
-        }
-      },
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      onTrying: (response): void => {
-        return;
-      }
-    };
-
-    const requestOptions = options.requestOptions || {};
-    requestOptions.extraHeaders = (requestOptions.extraHeaders || []).slice();
-    requestOptions.extraHeaders.push("Allow: " + AllowedMethods.toString());
-    requestOptions.extraHeaders.push("Contact: " + this._contact);
-
-    // Just send an INVITE with no sdp...
-    if (options.withoutSdp) {
-      if (!this.dialog) {
-        this.pendingReinvite = false;
-        throw new Error("Dialog undefined.");
-      }
-      return Promise.resolve(this.dialog.invite(delegate, requestOptions));
+    // A UAC MUST NOT initiate a new INVITE transaction within a dialog while another
+    // INVITE transaction is in progress in either direction, so the re-INVITE waits
+    // its turn behind the offer/answer exchange in progress.
+    // https://tools.ietf.org/html/rfc3261#section-14.1
+    if (this.reinviteBusy() || this.reinviteQueue.length) {
+      this.logger.log("Session.invite queued until the offer/answer exchange in progress completes");
+      return new Promise((resolve, reject) => this.reinviteQueue.push({ options, retry: false, resolve, reject }));
     }
-
-    // Get an offer and send it in an INVITE
-    const offerOptions = {
-      sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
-      sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
-    };
-    return this.getOffer(offerOptions)
-      .then((offerBody) => {
-        if (!this.dialog) {
-          this.pendingReinvite = false;
-          throw new Error("Dialog undefined.");
-        }
-        requestOptions.body = offerBody;
-        return this.dialog.invite(delegate, requestOptions);
-      })
-      .catch((error: Error) => {
-        this.logger.error(error.message);
-        this.logger.error("Failed to send re-INVITE");
-        this.pendingReinvite = false;
-        throw error;
-      });
+    return this.sendReinvite(options, false);
   }
 
   /**
@@ -644,12 +513,158 @@ export abstract class Session {
 
     const requestDelegate = options.requestDelegate;
     const requestOptions = this.copyRequestOptions(options.requestOptions);
-    requestOptions.extraHeaders = requestOptions.extraHeaders
-      ? requestOptions.extraHeaders.concat(this.referExtraHeaders(this.referToString(referTo)))
-      : this.referExtraHeaders(this.referToString(referTo));
+    requestOptions.extraHeaders = getExtraHeaders(requestOptions.extraHeaders).concat(
+      this.referExtraHeaders(this.referToString(referTo))
+    );
     return this._refer(options.onNotify, requestDelegate, requestOptions);
   }
 
+  /**
+   * Renegotiate the session, or update it without renegotiating. Sends an UPDATE.
+   * @remarks
+   * Unlike a re-INVITE, an UPDATE is answered without prompting the user, so it is
+   * suited to refreshing the session or changing its media parameters.
+   * Before the session is established, the UPDATE is sent in an early dialog and may only
+   * renegotiate the early media of that dialog.
+   * https://tools.ietf.org/html/rfc3311#section-5.1
+   * @param options - Options bucket. See {@link SessionUpdateOptions} for details.
+   */
+  public update(options: SessionUpdateOptions = {}): Promise<OutgoingUpdateRequest> {
+    this.logger.log("Session.update");
+    // Before the session is established, the UPDATE is sent in an early dialog.
+    const established = this.state === SessionState.Established;
+    const early =
+      this.state === SessionState.Initial || this.state === SessionState.Establishing ? this.earlyDialog() : undefined;
+    if (!established && !early) {
+      return Promise.reject(new Error(`Invalid session state ${this.state}`));
+    }
+    const dialog = early ? early.dialog : this.dialog;
+    const sessionDescriptionHandler = early ? early.sessionDescriptionHandler : undefined;
+    if (!established && !options.withoutSdp && !sessionDescriptionHandler) {
+      return Promise.reject(new Error("Early media session description handler undefined."));
+    }
+    if (!options.withoutSdp && (this.pendingReinvite || this.pendingUpdate)) {
+      return Promise.reject(
+        new RequestPendingError("Offer/answer in progress. Please wait until complete, then try again.")
+      );
+    }
+    if (!options.withoutSdp) {
+      this.pendingUpdate = true;
+    }
+
+    // Modifiers and options for UPDATE transaction
+    if (options.sessionDescriptionHandlerModifiers) {
+      this.sessionDescriptionHandlerModifiersReInvite = options.sessionDescriptionHandlerModifiers;
+    }
+    if (options.sessionDescriptionHandlerOptions) {
+      this.sessionDescriptionHandlerOptionsReInvite = options.sessionDescriptionHandlerOptions;
+    }
+    const sdhOptions = {
+      sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
+      sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
+    };
+
+    // No way to recover, so terminate session and mark as failed.
+    // A BYE should only be sent if session is established and not already terminated.
+    // For example, a BYE may be sent/received while UPDATE is outstanding.
+    const terminate = (code: number, reason: string): void => {
+      if (this.state === SessionState.Established) {
+        const extraHeaders = ["Reason: " + this.getReasonHeaderValue(code, reason)];
+        this._bye(undefined, { extraHeaders }).catch((error: Error) => this.logger.error(error.message));
+        this.stateTransition(SessionState.Terminated);
+      }
+    };
+
+    const delegate: OutgoingRequestDelegate = {
+      onAccept: (response): void => {
+        if (established) {
+          this.sessionTimerResponse(response.message, this.sessionInterval);
+        }
+        if (options.withoutSdp) {
+          if (options.requestDelegate && options.requestDelegate.onAccept) {
+            options.requestDelegate.onAccept(response);
+          }
+          return;
+        }
+        // If the UAS accepts an UPDATE with an offer, the 2xx response MUST contain an answer.
+        // https://tools.ietf.org/html/rfc3311#section-5.2
+        const body = getBody(response.message);
+        const answer = body
+          ? this.setAnswer(body, sdhOptions, sessionDescriptionHandler)
+          : Promise.reject(new Error("Received 2xx response to UPDATE without a session description"));
+        answer
+          .catch((error: Error) => {
+            this.logger.error("Failed to handle answer in 2xx response to UPDATE");
+            this.logger.error(error.message);
+            terminate(488, "Bad Media Description");
+          })
+          .then(() => {
+            this.pendingUpdate = false;
+            if (options.requestDelegate && options.requestDelegate.onAccept) {
+              options.requestDelegate.onAccept(response);
+            }
+            this.reinviteQueueNext();
+          });
+      },
+      onReject: (response): void => {
+        this.logger.warn("Received a non-2xx response to UPDATE");
+        if (options.withoutSdp) {
+          if (options.requestDelegate && options.requestDelegate.onReject) {
+            options.requestDelegate.onReject(response);
+          }
+          return;
+        }
+        this.rollbackOffer(sessionDescriptionHandler)
+          .catch((error: Error) => {
+            this.logger.error("Failed to rollback offer on non-2xx response to UPDATE");
+            this.logger.error(error.message);
+            terminate(500, "Internal Server Error");
+          })
+          .then(() => {
+            this.pendingUpdate = false;
+            if (options.requestDelegate && options.requestDelegate.onReject) {
+              options.requestDelegate.onReject(response);
+            }
+            this.reinviteQueueNext();
+          });
+      }
+    };
+
+    // UPDATE is a target refresh request, so it has a Contact header field.
+    // https://tools.ietf.org/html/rfc3311#section-5.1
+    const requestOptions = this.copyRequestOptions(options.requestOptions);
+    requestOptions.extraHeaders = getExtraHeaders(requestOptions.extraHeaders);
+    requestOptions.extraHeaders.push("Contact: " + this._contact);
+    if (established) {
+      requestOptions.extraHeaders.push(...this.sessionTimerRequestHeaders());
+    }
+
+    // Just send an UPDATE with no sdp...
+    if (options.withoutSdp) {
+      if (!dialog) {
+        return Promise.reject(new Error("Dialog undefined."));
+      }
+      return Promise.resolve(dialog.update(delegate, requestOptions));
+    }
+
+    // Get an offer and send it in an UPDATE
+    return this.getOffer(sdhOptions, sessionDescriptionHandler)
+      .then((offerBody) => {
+        if (!dialog) {
+          throw new Error("Dialog undefined.");
+        }
+        requestOptions.body = offerBody;
+        return dialog.update(delegate, requestOptions);
+      })
+      .catch((error: Error) => {
+        this.logger.error(error.message);
+        this.logger.error("Failed to send UPDATE");
+        this.pendingUpdate = false;
+        this.reinviteQueueNext();
+        throw error;
+      });
+  }
+
   /**
    * Send BYE.
    * @param delegate - Request delegate.
@@ -811,6 +826,7 @@ export abstract class Session {
 
     // reset pending ACK flag
     this.pendingReinviteAck = false;
+    this.reinviteQueueNext();
 
     switch (dialog.signalingState) {
       case SignalingState.Initial: {
@@ -927,6 +943,14 @@ export abstract class Session {
       return;
     }
 
+    // A session refresh request with a session interval lower than the minimum is rejected.
+    // https://tools.ietf.org/html/rfc4028#section-9
+    const minSE = this.sessionIntervalTooSmall(request.message);
+    if (minSE) {
+      request.reject({ statusCode: 422, extraHeaders: ["Min-SE: " + minSE] });
+      return;
+    }
+
     // set pending ACK flag
     this.pendingReinviteAck = true;
 
@@ -949,7 +973,9 @@ export abstract class Session {
     };
     this.generateResponseOfferAnswerInDialog(options)
       .then((body) => {
+        extraHeaders.push(...this.sessionTimerNegotiate(request.message));
         const outgoingResponse = request.accept({ statusCode: 200, extraHeaders, body });
+        this.startSessionTimer();
         if (this.delegate && this.delegate.onInvite) {
           this.delegate.onInvite(request.message, outgoingResponse.message, 200);
         }
@@ -964,6 +990,8 @@ export abstract class Session {
         // If we don't have a local/remote offer...
         if (this.dialog.signalingState === SignalingState.Stable) {
           const outgoingResponse = request.reject({ statusCode: 488 }); // Not Acceptable Here
+          this.pendingReinviteAck = false;
+          this.reinviteQueueNext();
           if (this.delegate && this.delegate.onInvite) {
             this.delegate.onInvite(request.message, outgoingResponse.message, 488);
           }
@@ -973,6 +1001,8 @@ export abstract class Session {
         this.rollbackOffer()
           .then(() => {
             const outgoingResponse = request.reject({ statusCode: 488 }); // Not Acceptable Here
+            this.pendingReinviteAck = false;
+            this.reinviteQueueNext();
             if (this.delegate && this.delegate.onInvite) {
               this.delegate.onInvite(request.message, outgoingResponse.message, 488);
             }
@@ -1100,15 +1130,117 @@ export abstract class Session {
   }
 
   /**
-   * Generate an offer or answer for a response to an INVITE request.
-   * If a remote offer was provided in the request, set the remote
-   * description and get a local answer. If a remote offer was not
-   * provided, generates a local offer.
+   * Handle in dialog UPDATE request.
+   * @remarks
+   * An UPDATE may be received in an early dialog as well, in which case it may only
+   * renegotiate the session if the session description handler has been set up.
+   * https://tools.ietf.org/html/rfc3311#section-5.2
+   * @param request - The incoming UPDATE request.
+   * @param sessionDescriptionHandler - The session description handler of the early dialog, if it has its own.
    * @internal
    */
-  protected generateResponseOfferAnswer(
-    request: IncomingInviteRequest,
-    options: {
+  protected onUpdateRequest(
+    request: IncomingUpdateRequest,
+    sessionDescriptionHandler?: SessionDescriptionHandler
+  ): void {
+    this.logger.log("Session.onUpdateRequest");
+    // An invitation is still initial while its early dialog exists, until it is accepted.
+    if (
+      this.state !== SessionState.Initial &&
+      this.state !== SessionState.Establishing &&
+      this.state !== SessionState.Established
+    ) {
+      this.logger.error(`UPDATE received while in state ${this.state}, dropping request`);
+      return;
+    }
+
+    // A session refresh request with a session interval lower than the minimum is rejected.
+    // https://tools.ietf.org/html/rfc4028#section-9
+    const minSE = this.sessionIntervalTooSmall(request.message);
+    if (minSE) {
+      request.reject({ statusCode: 422, extraHeaders: ["Min-SE: " + minSE] });
+      return;
+    }
+
+    // Handle P-Asserted-Identity, which may be updated to identify the connected party.
+    if (request.message.hasHeader("P-Asserted-Identity")) {
+      const header = request.message.getHeader("P-Asserted-Identity");
+      if (!header) {
+        throw new Error("Header undefined.");
+      }
+      this._assertedIdentity = Grammar.nameAddrHeaderParse(header);
+    }
+
+    const accept = (body: Body | undefined): void => {
+      const extraHeaders = ["Contact: " + this._contact];
+      const established = this.state === SessionState.Established;
+      if (established) {
+        extraHeaders.push(...this.sessionTimerNegotiate(request.message));
+      }
+      const outgoingResponse = request.accept({ statusCode: 200, extraHeaders, body });
+      if (established) {
+        this.startSessionTimer();
+      }
+      if (this.delegate && this.delegate.onUpdate) {
+        this.delegate.onUpdate(request.message, outgoingResponse.message, 200);
+      }
+    };
+    const reject = (): void => {
+      const outgoingResponse = request.reject({ statusCode: 488 }); // Not Acceptable Here
+      if (this.delegate && this.delegate.onUpdate) {
+        this.delegate.onUpdate(request.message, outgoingResponse.message, 488);
+      }
+    };
+
+    // An UPDATE without an offer updates the session without renegotiating it.
+    const offer = getBody(request.message);
+    if (!offer || offer.contentDisposition !== "session") {
+      accept(undefined);
+      return;
+    }
+    const sdh = sessionDescriptionHandler || this._sessionDescriptionHandler;
+    if (this.state !== SessionState.Established && !sdh) {
+      this.logger.warn("UPDATE with an offer received before the session description handler was set up");
+      reject();
+      return;
+    }
+
+    const options = {
+      sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
+      sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
+    };
+    this.setOfferAndGetAnswer(offer, options, sdh)
+      .then((answer) => accept(answer))
+      .catch((error: Error) => {
+        this.logger.error(error.message);
+        this.logger.error("Failed to handle UPDATE request");
+        this.rollbackOffer(sdh)
+          .then(() => reject())
+          .catch((errorRollback: Error) => {
+            // No way to recover, so terminate session and mark as failed.
+            this.logger.error(errorRollback.message);
+            this.logger.error("Failed to rollback offer on UPDATE request");
+            reject();
+            // A BYE should only be sent if session is established and not already terminated.
+            if (this.state === SessionState.Established) {
+              const extraHeaders = ["Reason: " + this.getReasonHeaderValue(500, "Internal Server Error")];
+              this._bye(undefined, { extraHeaders }).catch((errorBye: Error) => this.logger.error(errorBye.message));
+              this.stateTransition(SessionState.Terminated);
+            }
+          });
+      });
+  }
+
+  /**
+   * Generate an offer or answer for a response to an INVITE request.
+   * If a remote offer was provided in the request, set the remote
+   * description and get a local answer. If a remote offer was not
+   * provided, generates a local offer.
+   * @internal
+   */
+  protected generateResponseOfferAnswer(
+    request: IncomingInviteRequest,
+    options: {
       sessionDescriptionHandlerOptions?: SessionDescriptionHandlerOptions;
       sessionDescriptionHandlerModifiers?: Array<SessionDescriptionHandlerModifier>;
     }
@@ -1176,11 +1308,14 @@ export abstract class Session {
    * Get local offer.
    * @internal
    */
-  protected getOffer(options: {
-    sessionDescriptionHandlerOptions?: SessionDescriptionHandlerOptions;
-    sessionDescriptionHandlerModifiers?: Array<SessionDescriptionHandlerModifier>;
-  }): Promise<Body> {
-    const sdh = this.setupSessionDescriptionHandler();
+  protected getOffer(
+    options: {
+      sessionDescriptionHandlerOptions?: SessionDescriptionHandlerOptions;
+      sessionDescriptionHandlerModifiers?: Array<SessionDescriptionHandlerModifier>;
+    },
+    sessionDescriptionHandler?: SessionDescriptionHandler
+  ): Promise<Body> {
+    const sdh = sessionDescriptionHandler || this.setupSessionDescriptionHandler();
     const sdhOptions = options.sessionDescriptionHandlerOptions;
     const sdhModifiers = options.sessionDescriptionHandlerModifiers;
     // This is intentionally written very defensively. Don't trust SDH to behave.
@@ -1208,8 +1343,8 @@ export abstract class Session {
    * Rollback local/remote offer.
    * @internal
    */
-  protected rollbackOffer(): Promise<void> {
-    const sdh = this.setupSessionDescriptionHandler();
+  protected rollbackOffer(sessionDescriptionHandler?: SessionDescriptionHandler): Promise<void> {
+    const sdh = sessionDescriptionHandler || this.setupSessionDescriptionHandler();
     if (sdh.rollbackDescription === undefined) {
       return Promise.resolve();
     }
@@ -1240,9 +1375,10 @@ export abstract class Session {
     options: {
       sessionDescriptionHandlerOptions?: SessionDescriptionHandlerOptions;
       sessionDescriptionHandlerModifiers?: Array<SessionDescriptionHandlerModifier>;
-    }
+    },
+    sessionDescriptionHandler?: SessionDescriptionHandler
   ): Promise<void> {
-    const sdh = this.setupSessionDescriptionHandler();
+    const sdh = sessionDescriptionHandler || this.setupSessionDescriptionHandler();
     const sdhOptions = options.sessionDescriptionHandlerOptions;
     const sdhModifiers = options.sessionDescriptionHandlerModifiers;
     // This is intentionally written very defensively. Don't trust SDH to behave.
@@ -1282,9 +1418,10 @@ export abstract class Session {
     options: {
       sessionDescriptionHandlerOptions?: SessionDescriptionHandlerOptions;
       sessionDescriptionHandlerModifiers?: Array<SessionDescriptionHandlerModifier>;
-    }
+    },
+    sessionDescriptionHandler?: SessionDescriptionHandler
   ): Promise<Body> {
-    const sdh = this.setupSessionDescriptionHandler();
+    const sdh = sessionDescriptionHandler || this.setupSessionDescriptionHandler();
     const sdhOptions = options.sessionDescriptionHandlerOptions;
     const sdhModifiers = options.sessionDescriptionHandlerModifiers;
     // This is intentionally written very defensively. Don't trust SDH to behave.
@@ -1319,6 +1456,16 @@ export abstract class Session {
     }
   }
 
+  /**
+   * The early dialog in which to send an UPDATE while establishing, and its session description handler.
+   * @internal
+   */
+  protected earlyDialog():
+    | { dialog: SessionDialog; sessionDescriptionHandler?: SessionDescriptionHandler }
+    | undefined {
+    return this._dialog && { dialog: this._dialog, sessionDescriptionHandler: this._sessionDescriptionHandler };
+  }
+
   /**
    * SDH for confirmed dialog.
    * @internal
@@ -1348,6 +1495,148 @@ export abstract class Session {
     return this._sessionDescriptionHandler;
   }
 
+  /**
+   * The header fields of a request which creates or refreshes the session, negotiating session timers.
+   * @remarks
+   * A refresh keeps the refresher, and the session interval, of the session.
+   * https://tools.ietf.org/html/rfc4028#section-7.1
+   * https://tools.ietf.org/html/rfc4028#section-7.4
+   * @internal
+   */
+  protected sessionTimerRequestHeaders(): Array<string> {
+    const configuration = this.userAgent.configuration;
+    if (configuration.sipExtensionTimer === SIPExtension.Unsupported) {
+      return [];
+    }
+    const extraHeaders: Array<string> = [];
+    if (this.sessionInterval) {
+      // Supported is not added to requests within a dialog by the core.
+      extraHeaders.push("Supported: timer");
+      extraHeaders.push(`Session-Expires: ${this.sessionInterval};refresher=${this.sessionRefresher ? "uac" : "uas"}`);
+    } else {
+      extraHeaders.push("Session-Expires: " + configuration.sessionTimerExpires);
+    }
+    extraHeaders.push("Min-SE: " + configuration.sessionTimerMinSE);
+    if (configuration.sipExtensionTimer === SIPExtension.Required) {
+      extraHeaders.push("Require: timer");
+    }
+    return extraHeaders;
+  }
+
+  /**
+   * Start session timers as negotiated by a 2xx response to a request which created or refreshed the session.
+   * @remarks
+   * If the response has no Session-Expires header field, the UAS does not support session
+   * timers, so the UAC refreshes the session with the session interval it requested.
+   * https://tools.ietf.org/html/rfc4028#section-7.2
+   * @param message - The 2xx response.
+   * @param requestedInterval - The session interval requested, or 0 if none.
+   * @internal
+   */
+  protected sessionTimerResponse(message: IncomingResponseMessage, requestedInterval: number): void {
+    if (this.userAgent.configuration.sipExtensionTimer === SIPExtension.Unsupported) {
+      return;
+    }
+    this.remoteAllows(message);
+    const sessionExpires = message.parseHeader("session-expires");
+    if (sessionExpires) {
+      this.sessionInterval = sessionExpires.deltaSeconds;
+      this.sessionRefresher = sessionExpires.refresher !== "uas";
+    } else {
+      this.sessionInterval = requestedInterval || this.userAgent.configuration.sessionTimerExpires;
+      this.sessionRefresher = true;
+    }
+    this.startSessionTimer();
+  }
+
+  /**
+   * Negotiate session timers for a request which creates or refreshes the session, about to be accepted.
+   * @remarks
+   * The UAS may lower the session interval requested, but not below the Min-SE of the request.
+   * If the UAC does not choose the refresher, it is the UAC if it supports session timers,
+   * and the UAS otherwise. If the request does not request session timers but the UAC
+   * supports them, the UAS requests them in its response.
+   * https://tools.ietf.org/html/rfc4028#section-9
+   * @param message - The request.
+   * @returns The header fields of the 2xx response.
+   * @internal
+   */
+  protected sessionTimerNegotiate(message: IncomingRequestMessage): Array<string> {
+    const configuration = this.userAgent.configuration;
+    if (configuration.sipExtensionTimer === SIPExtension.Unsupported) {
+      return [];
+    }
+    this.remoteAllows(message);
+    const supported = [...message.getHeaders("supported"), ...message.getHeaders("require")].some((header) =>
+      header
+        .toLowerCase()
+        .split(",")
+        .some((optionTag) => optionTag.trim() === "timer")
+    );
+    const sessionExpires = message.parseHeader("session-expires");
+    const minSE = Math.max(message.parseHeader("min-se") || 0, configuration.sessionTimerMinSE);
+    let refresher: "uac" | "uas";
+    if (sessionExpires) {
+      this.sessionInterval = Math.min(sessionExpires.deltaSeconds, Math.max(configuration.sessionTimerExpires, minSE));
+      refresher = supported ? sessionExpires.refresher || "uac" : "uas";
+    } else if (supported) {
+      this.sessionInterval = Math.max(configuration.sessionTimerExpires, minSE);
+      refresher = "uac";
+    } else {
+      this.sessionInterval = 0;
+      return [];
+    }
+    this.sessionRefresher = refresher === "uas";
+
+    const extraHeaders = [`Session-Expires: ${this.sessionInterval};refresher=${refresher}`];
+    if (supported) {
+      extraHeaders.push("Require: timer");
+    }
+    return extraHeaders;
+  }
+
+  /**
+   * The minimum session interval, if a request has a session interval lower than it.
+   * https://tools.ietf.org/html/rfc4028#section-9
+   * @param message - The request.
+   * @internal
+   */
+  protected sessionIntervalTooSmall(message: IncomingRequestMessage): number | undefined {
+    const configuration = this.userAgent.configuration;
+    if (configuration.sipExtensionTimer === SIPExtension.Unsupported) {
+      return undefined;
+    }
+    const sessionExpires = message.parseHeader("session-expires");
+    return sessionExpires && sessionExpires.deltaSeconds < configuration.sessionTimerMinSE
+      ? configuration.sessionTimerMinSE
+      : undefined;
+  }
+
+  /**
+   * (Re)start session timers, with the session interval negotiated.
+   * @remarks
+   * The refresher refreshes the session half way through the session interval. Either side
+   * ends the session with a BYE if it is not refreshed, shortly before it would expire.
+   * https://tools.ietf.org/html/rfc4028#section-10
+   * @internal
+   */
+  protected startSessionTimer(): void {
+    this.clearSessionTimer();
+    if (!this.sessionInterval) {
+      return;
+    }
+    if (this.sessionRefresher) {
+      this.sessionRefreshTimer = setTimeout(() => {
+        this.sessionRefreshTimer = undefined;
+        this.refreshSession();
+      }, (this.sessionInterval / 2) * 1000);
+    }
+    this.sessionExpiresTimer = setTimeout(() => {
+      this.sessionExpiresTimer = undefined;
+      this.sessionExpired();
+    }, (this.sessionInterval - Math.min(32, this.sessionInterval / 3)) * 1000);
+  }
+
   /**
    * Transition session state.
    * @internal
@@ -1406,8 +1695,344 @@ export abstract class Session {
     }
   }
 
+  private clearSessionTimer(): void {
+    if (this.sessionRefreshTimer !== undefined) {
+      clearTimeout(this.sessionRefreshTimer);
+      this.sessionRefreshTimer = undefined;
+    }
+    if (this.sessionExpiresTimer !== undefined) {
+      clearTimeout(this.sessionExpiresTimer);
+      this.sessionExpiresTimer = undefined;
+    }
+  }
+
+  /**
+   * Note whether the peer allows UPDATE, if a message lists the methods it allows.
+   */
+  private remoteAllows(message: IncomingRequestMessage | IncomingResponseMessage): void {
+    const allow = message.getHeaders("allow");
+    if (allow.length) {
+      this.remoteUpdateAllowed = allow.some((header) =>
+        header
+          .toUpperCase()
+          .split(",")
+          .some((method) => method.trim() === "UPDATE")
+      );
+    }
+  }
+
+  /**
+   * Send a re-INVITE.
+   * @param options - Options bucket.
+   * @param retry - True if resending a re-INVITE which was rejected with 491 (Request Pending).
+   */
+  private sendReinvite(options: SessionInviteOptions, retry: boolean): Promise<OutgoingInviteRequest> {
+    if (this.state !== SessionState.Established) {
+      return Promise.reject(new Error(`Invalid session state ${this.state}`));
+    }
+    this.pendingReinvite = true;
+
+    // Modifiers and options for initial INVITE transaction
+    if (options.sessionDescriptionHandlerModifiers) {
+      this.sessionDescriptionHandlerModifiersReInvite = options.sessionDescriptionHandlerModifiers;
+    }
+    if (options.sessionDescriptionHandlerOptions) {
+      this.sessionDescriptionHandlerOptionsReInvite = options.sessionDescriptionHandlerOptions;
+    }
+
+    const delegate: OutgoingInviteRequestDelegate = {
+      onAccept: (response): void => {
+        // A re-INVITE transaction has an offer/answer [RFC3264] exchange
+        // associated with it.  The UAC (User Agent Client) generating a given
+        // re-INVITE can act as the offerer or as the answerer.  A UAC willing
+        // to act as the offerer includes an offer in the re-INVITE.  The UAS
+        // (User Agent Server) then provides an answer in a response to the
+        // re-INVITE.  A UAC willing to act as answerer does not include an
+        // offer in the re-INVITE.  The UAS then provides an offer in a response
+        // to the re-INVITE becoming, thus, the offerer.
+        // https://tools.ietf.org/html/rfc6141#section-1
+        this.sessionTimerResponse(response.message, this.sessionInterval);
+        const body = getBody(response.message);
+        if (!body) {
+          // No way to recover, so terminate session and mark as failed.
+          this.logger.error("Received 2xx response to re-INVITE without a session description");
+          this.ackAndBye(response, 400, "Missing session description");
+          this.stateTransition(SessionState.Terminated);
+          this.pendingReinvite = false;
+          return;
+        }
+
+        if (options.withoutSdp) {
+          // INVITE without SDP - set remote offer and send an answer in the ACK
+          const answerOptions = {
+            sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
+            sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
+          };
+          this.setOfferAndGetAnswer(body, answerOptions)
+            .then((answerBody) => {
+              response.ack({ body: answerBody });
+            })
+            .catch((error: Error) => {
+              // No way to recover, so terminate session and mark as failed.
+              this.logger.error("Failed to handle offer in 2xx response to re-INVITE");
+              this.logger.error(error.message);
+              if (this.state === SessionState.Terminated) {
+                // A BYE should not be sent if already terminated.
+                // For example, a BYE may be sent/received while re-INVITE is outstanding.
+                response.ack();
+              } else {
+                this.ackAndBye(response, 488, "Bad Media Description");
+                this.stateTransition(SessionState.Terminated);
+              }
+            })
+            .then(() => {
+              this.pendingReinvite = false;
+              if (options.requestDelegate && options.requestDelegate.onAccept) {
+                options.requestDelegate.onAccept(response);
+              }
+              this.reinviteQueueNext();
+            });
+        } else {
+          // INVITE with SDP - set remote answer and send an ACK
+          const answerOptions = {
+            sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
+            sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
+          };
+          this.setAnswer(body, answerOptions)
+            .then(() => {
+              response.ack();
+            })
+            .catch((error: Error) => {
+              // No way to recover, so terminate session and mark as failed.
+              this.logger.error("Failed to handle answer in 2xx response to re-INVITE");
+              this.logger.error(error.message);
+              // A BYE should only be sent if session is not already terminated.
+              // For example, a BYE may be sent/received while re-INVITE is outstanding.
+              // The ACK needs to be sent regardless as it was not handled by the transaction.
+              if (this.state !== SessionState.Terminated) {
+                this.ackAndBye(response, 488, "Bad Media Description");
+                this.stateTransition(SessionState.Terminated);
+              } else {
+                response.ack();
+              }
+            })
+            .then(() => {
+              this.pendingReinvite = false;
+              if (options.requestDelegate && options.requestDelegate.onAccept) {
+                options.requestDelegate.onAccept(response);
+              }
+              this.reinviteQueueNext();
+            });
+        }
+      },
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      onProgress: (response): void => {
+        return;
+      },
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      onRedirect: (response): void => {
+        return;
+      },
+      onReject: (response): void => {
+        this.logger.warn("Received a non-2xx response to re-INVITE");
+        const rejected = (): void => {
+          this.pendingReinvite = false;
+          // If a UAC receives a 491 response to a re-INVITE, it SHOULD start a timer
+          // and when the timer fires attempt the re-INVITE once more, if it still
+          // desires for that session modification to take place.
+          // https://tools.ietf.org/html/rfc3261#section-14.1
+          if (response.message.statusCode === 491 && !retry && this.state === SessionState.Established) {
+            this.reinviteRetry(options, response);
+            return;
+          }
+          if (options.requestDelegate && options.requestDelegate.onReject) {
+            options.requestDelegate.onReject(response);
+          }
+          this.reinviteQueueNext();
+        };
+        if (options.withoutSdp) {
+          rejected();
+        } else {
+          this.rollbackOffer()
+            .catch((error: Error) => {
+              // No way to recover, so terminate session and mark as failed.
+              this.logger.error("Failed to rollback offer on non-2xx response to re-INVITE");
+              this.logger.error(error.message);
+              // A BYE should only be sent if session is not already terminated.
+              // For example, a BYE may be sent/received while re-INVITE is outstanding.
+              // Note that the ACK was already sent by the transaction, so just need to send BYE.
+              if (this.state !== SessionState.Terminated) {
+                if (!this.dialog) {
+                  throw new Error("Dialog undefined.");
+                }
+                const extraHeaders: Array<string> = [];
+                extraHeaders.push("Reason: " + this.getReasonHeaderValue(500, "Internal Server Error"));
+                this.dialog.bye(undefined, { extraHeaders });
+                this.stateTransition(SessionState.Terminated);
+              }
+            })
+            .then(() => rejected());
+        }
+      },
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      onTrying: (response): void => {
+        return;
+      }
+    };
+
+    // Copied, as the request options are used again if the re-INVITE is retried.
+    const requestOptions: RequestOptions = { ...options.requestOptions };
+    requestOptions.extraHeaders = getExtraHeaders(requestOptions.extraHeaders);
+    requestOptions.extraHeaders.push("Allow: " + AllowedMethods.toString());
+    requestOptions.extraHeaders.push("Contact: " + this._contact);
+    requestOptions.extraHeaders.push(...this.sessionTimerRequestHeaders());
+
+    // Just send an INVITE with no sdp...
+    if (options.withoutSdp) {
+      if (!this.dialog) {
+        this.pendingReinvite = false;
+        throw new Error("Dialog undefined.");
+      }
+      return Promise.resolve(this.dialog.invite(delegate, requestOptions));
+    }
+
+    // Get an offer and send it in an INVITE
+    const offerOptions = {
+      sessionDescriptionHandlerOptions: this.sessionDescriptionHandlerOptionsReInvite,
+      sessionDescriptionHandlerModifiers: this.sessionDescriptionHandlerModifiersReInvite
+    };
+    return this.getOffer(offerOptions)
+      .then((offerBody) => {
+        if (!this.dialog) {
+          this.pendingReinvite = false;
+          throw new Error("Dialog undefined.");
+        }
+        requestOptions.body = offerBody;
+        return this.dialog.invite(delegate, requestOptions);
+      })
+      .catch((error: Error) => {
+        this.logger.error(error.message);
+        this.logger.error("Failed to send re-INVITE");
+        this.pendingReinvite = false;
+        this.reinviteQueueNext();
+        throw error;
+      });
+  }
+
+  /**
+   * True if an offer/answer exchange is in progress, or a re-INVITE is waiting to be retried,
+   * so that a re-INVITE may not be sent yet.
+   */
+  private reinviteBusy(): boolean {
+    return (
+      this.pendingReinvite || this.pendingReinviteAck || this.pendingUpdate || this.reinviteRetryTimer !== undefined
+    );
+  }
+
+  /**
+   * Send the re-INVITE which is next in line, if any, unless an offer/answer exchange is in progress.
+   */
+  private reinviteQueueNext(): void {
+    // Asynchronous, so that the exchange which completed is done with before the next starts.
+    Promise.resolve().then(() => {
+      if (this.reinviteBusy()) {
+        return;
+      }
+      const next = this.reinviteQueue.shift();
+      if (!next) {
+        return;
+      }
+      let request: Promise<OutgoingInviteRequest>;
+      try {
+        request = this.sendReinvite(next.options, next.retry);
+      } catch (error) {
+        request = Promise.reject(error);
+      }
+      request.then(next.resolve, next.reject);
+    });
+  }
+
+  /**
+   * Reject the re-INVITEs which are waiting in line, and stop waiting to retry one.
+   */
+  private reinviteQueueClear(): void {
+    if (this.reinviteRetryTimer !== undefined) {
+      clearTimeout(this.reinviteRetryTimer);
+      this.reinviteRetryTimer = undefined;
+    }
+    const queue = this.reinviteQueue;
+    this.reinviteQueue = [];
+    queue.forEach((next) => next.reject(new Error(`Invalid session state ${this.state}`)));
+  }
+
+  /**
+   * Retry a re-INVITE rejected with 491 (Request Pending) after a randomly chosen wait.
+   * If the UAC is the owner of the Call-ID of the dialog ID, the wait is between 2.1 and 4
+   * seconds in units of 10 ms, otherwise it is between 0 and 2 seconds in units of 10 ms.
+   * https://tools.ietf.org/html/rfc3261#section-14.1
+   * @param options - Options bucket of the rejected re-INVITE.
+   * @param response - The 491 response, reported as the outcome if the retry is not sent.
+   */
+  private reinviteRetry(options: SessionInviteOptions, response: IncomingResponse): void {
+    // The retry goes ahead of the re-INVITEs which are waiting in line behind it,
+    // and is held back by the timer until it fires.
+    this.reinviteQueue.unshift({
+      options,
+      retry: true,
+      resolve: (request) => {
+        if (options.onRetry) {
+          options.onRetry(request);
+        }
+      },
+      reject: () => {
+        if (options.requestDelegate && options.requestDelegate.onReject) {
+          options.requestDelegate.onReject(response);
+        }
+      }
+    });
+    const wait = this._callIdOwner ? 2100 + Math.floor(Math.random() * 191) * 10 : Math.floor(Math.random() * 201) * 10;
+    this.logger.log(`Session ${this.id} retrying re-INVITE in ${wait} ms`);
+    this.reinviteRetryTimer = setTimeout(() => {
+      this.reinviteRetryTimer = undefined;
+      this.reinviteQueueNext();
+    }, wait);
+  }
+
+  /**
+   * Refresh the session with an UPDATE without an offer if the peer allows it, and a re-INVITE otherwise.
+   * If a re-INVITE is already outstanding, or waiting to be sent, it refreshes the session.
+   * https://tools.ietf.org/html/rfc4028#section-10
+   */
+  private refreshSession(): void {
+    if (this.state !== SessionState.Established) {
+      return;
+    }
+    if (this.pendingReinvite || this.reinviteRetryTimer !== undefined || this.reinviteQueue.length) {
+      return;
+    }
+    this.logger.log(`Session ${this.id} refreshing`);
+    const refresh = this.remoteUpdateAllowed ? this.update({ withoutSdp: true }) : this.invite();
+    refresh.catch((error: Error) => {
+      this.logger.warn(`Session ${this.id} not refreshed, ${error.message}`);
+    });
+  }
+
+  /**
+   * End the session with a BYE, as it has not been refreshed.
+   */
+  private sessionExpired(): void {
+    if (this.state !== SessionState.Established) {
+      return;
+    }
+    this.logger.warn(`Session ${this.id} expired, not refreshed in time`);
+    const extraHeaders = ["Reason: " + this.getReasonHeaderValue(408, "Request Timeout")];
+    this._bye(undefined, { extraHeaders }).catch((error: Error) => {
+      this.logger.error(error.message);
+    });
+  }
+
   private copyRequestOptions(requestOptions: RequestOptions = {}): RequestOptions {
-    const extraHeaders = requestOptions.extraHeaders ? requestOptions.extraHeaders.slice() : undefined;
+    const extraHeaders = requestOptions.extraHeaders ? getExtraHeaders(requestOptions.extraHeaders) : undefined;
     const body = requestOptions.body
       ? {
           contentDisposition: requestOptions.body.contentDisposition || "render",
@@ -1435,7 +2060,8 @@ export abstract class Session {
     extraHeaders.push("Referred-By: <" + this.userAgent.configuration.uri + ">");
     extraHeaders.push("Contact: " + this._contact);
     extraHeaders.push(
-      "Allow: " + ["ACK", "CANCEL", "INVITE", "MESSAGE", "BYE", "OPTIONS", "INFO", "NOTIFY", "REFER"].toString()
+      "Allow: " +
+        ["ACK", "CANCEL", "INVITE", "MESSAGE", "BYE", "OPTIONS", "INFO", "NOTIFY", "REFER", "UPDATE"].toString()
     );
     extraHeaders.push("Refer-To: " + referTo);
     return extraHeaders;
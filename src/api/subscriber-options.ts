@@ -1,3 +1,4 @@
+import { Headers } from "../core/messages/headers.js";
 import { SubscriptionOptions } from "./subscription-options.js";
 
 /**
@@ -6,7 +7,7 @@ import { SubscriptionOptions } from "./subscription-options.js";
  */
 export interface SubscriberOptions extends SubscriptionOptions {
   expires?: number;
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   body?: string;
   contentType?: string;
 }
@@ -1,5 +1,6 @@
 import { URI } from "../grammar/uri.js";
 import { fromBodyLegacy } from "../core/messages/body.js";
+import { getExtraHeaders } from "../core/messages/headers.js";
 import { Logger } from "../core/log/logger.js";
 import { C } from "../core/messages/methods/constants.js";
 import { IncomingNotifyRequest } from "../core/messages/methods/notify.js";
@@ -110,7 +111,7 @@ export class Subscriber extends Subscription {
     }
 
     // Subscription extra headers
-    this.extraHeaders = (options.extraHeaders || []).slice();
+    this.extraHeaders = getExtraHeaders(options.extraHeaders);
 
     // Subscription context.
     this.subscriberRequest = this.initSubscriberRequest();
@@ -340,7 +341,7 @@ export class Subscriber extends Subscription {
                 if (subscriptionState.params && subscriptionState.params["retry-after"]) {
                   this.retryAfterTimer = setTimeout(() => {
                     this.subscribe();
-                  }, subscriptionState.params["retry-after"]);
+                  }, Number(subscriptionState.params["retry-after"]));
                 } else {
                   this.subscribe();
                 }
@@ -434,7 +435,7 @@ class SubscriberRequest {
     this.delegate = delegate;
 
     const allowHeader = "Allow: " + AllowedMethods.toString();
-    const extraHeaders = ((options && options.extraHeaders) || []).slice();
+    const extraHeaders = getExtraHeaders(options && options.extraHeaders);
     extraHeaders.push(allowHeader);
     extraHeaders.push("Event: " + this.event);
     extraHeaders.push("Expires: " + this.expires);
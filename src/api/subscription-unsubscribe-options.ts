@@ -1,8 +1,10 @@
 /* eslint-disable @typescript-eslint/no-empty-interface */
+import { Headers } from "../core/messages/headers.js";
+
 /**
  * Options for {@link Subscription.unsubscribe}.
  * @public
  */
 export interface SubscriptionUnsubscribeOptions {
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
 }
@@ -166,4 +166,18 @@ export interface Transport extends CoreTransport {
    * @param message - Message to send.
    */
   send(message: string): Promise<void>;
+
+  /**
+   * Set the interval at which keep-alives are sent.
+   *
+   * @remarks
+   * Optional. Used by the `Registerer` to maintain a SIP Outbound flow with the registrar.
+   * While "Connected", the transport sends a double-CRLF "ping" at intervals randomly distributed
+   * between 80% and 100% of `interval` and, if the transport is reliable, expects a single-CRLF "pong"
+   * in response. If a "pong" is not received in time, the flow has failed and the transport
+   * MUST transition to "Disconnected" with an error.
+   * https://tools.ietf.org/html/rfc5626#section-4.4.1
+   * @param interval - Seconds between keep-alives. Zero reverts to the transport's configured behavior.
+   */
+  setKeepAliveInterval?(interval: number): void;
 }
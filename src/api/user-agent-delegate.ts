@@ -1,3 +1,5 @@
+import { URI } from "../grammar/uri.js";
+import { IncomingResponseMessage } from "../core/messages/incoming-response-message.js";
 import { IncomingReferRequest } from "../core/messages/methods/refer.js";
 import { IncomingRegisterRequest } from "../core/messages/methods/register.js";
 import { IncomingSubscribeRequest } from "../core/messages/methods/subscribe.js";
@@ -47,6 +49,17 @@ export interface UserAgentDelegate {
    */
   onNotify?(notification: Notification): void;
 
+  /**
+   * Called upon receipt of a redirect target.
+   * @remarks
+   * Called for each target of a 3xx response to an outgoing request, before it is tried.
+   * See {@link UserAgentOptions.maxRedirects}.
+   * @param target - The target.
+   * @param response - The 3xx response.
+   * @returns True to try the target, false to discard it.
+   */
+  onRedirect?(target: URI, response: IncomingResponseMessage): boolean;
+
   /**
    * @alpha
    * Called upon receipt of a referral.
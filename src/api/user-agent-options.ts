@@ -1,5 +1,7 @@
 import { URI } from "../grammar/uri.js";
 import { Logger } from "../core/log/logger.js";
+import { MessageInterceptor } from "../core/user-agent-core/message-interceptor.js";
+import { CredentialProvider } from "./credential-provider.js";
 import { SessionDescriptionHandlerFactory } from "./session-description-handler-factory.js";
 import { Transport } from "./transport.js";
 import { UserAgentDelegate } from "./user-agent-delegate.js";
@@ -71,6 +73,16 @@ export interface UserAgentOptions {
    */
   contactParams?: { [name: string]: string };
 
+  /**
+   * Provider of credentials, called for each challenge a request receives.
+   * @remarks
+   * Allows credentials, such as short-lived access tokens, to be obtained or refreshed
+   * when they are needed. See {@link CredentialProvider} for details. If undefined, challenges
+   * are answered with the `authorizationUsername`, `authorizationPassword` and `authorizationHa1` options.
+   * @defaultValue `undefined`
+   */
+  credentialProvider?: CredentialProvider;
+
   /**
    * Delegate for {@link UserAgent}.
    * @defaultValue `{}`
@@ -131,6 +143,14 @@ export interface UserAgentOptions {
    */
   instanceIdAlwaysAdded?: boolean;
 
+  /**
+   * Message interceptors through which all messages received and sent are passed.
+   * @remarks
+   * See {@link UserAgent.addInterceptor}.
+   * @defaultValue `[]`
+   */
+  interceptors?: Array<MessageInterceptor>;
+
   /**
    * Indicates whether log messages should be written to the browser console.
    * @defaultValue `true`
@@ -155,12 +175,37 @@ export interface UserAgentOptions {
    */
   logLevel?: LogLevel;
 
+  /**
+   * Maximum number of redirect targets an outgoing request is retried to.
+   * @remarks
+   * The Contact header field values of a 300, 301 or 302 response to an INVITE, MESSAGE, SUBSCRIBE
+   * or other request sent outside of a dialog are tried in order of q-value, each location once,
+   * until one does not fail. A target may be discarded by {@link UserAgentDelegate.onRedirect}.
+   * If zero, 3xx responses are delivered to the application as they are.
+   * https://tools.ietf.org/html/rfc3261#section-8.1.3.4
+   * @defaultValue `5`
+   */
+  maxRedirects?: number;
+
   /**
    * Number of seconds after which an incoming call is rejected if not answered.
    * @defaultValue 60
    */
   noAnswerTimeout?: number;
 
+  /**
+   * If `true`, credentials answering a challenge are sent preemptively in subsequent requests.
+   * @remarks
+   * The credentials of each realm are cached, and sent in subsequent requests reusing the
+   * nonce of the challenge with an incremented nonce count, which saves a round trip for
+   * each request. Credentials are only sent in requests to the host challenged, that of the
+   * Request-URI for a UAS or of the next hop for a proxy, as other servers may share the realm.
+   * If the nonce is stale, the request is challenged as usual.
+   * https://tools.ietf.org/html/rfc3261#section-22.3
+   * @defaultValue `false`
+   */
+  preemptiveAuthorization?: boolean;
+
   /**
    * Adds a Route header(s) to outgoing requests.
    * @defaultValue `[]`
@@ -188,6 +233,19 @@ export interface UserAgentOptions {
    */
   sendInitialProvisionalResponse?: boolean;
 
+  /**
+   * Number of seconds outgoing requests are held while the transport is connecting.
+   * @remarks
+   * If greater than zero, outgoing requests sent while the transport is "Connecting", or while a reconnection
+   * is scheduled (see `reconnectionAttempts`), are queued, then sent in order once the transport is "Connected".
+   * A request which is not sent within this time fails with a {@link SendQueueTimeoutError}. Queued requests
+   * fail with a `TransportError` if the transport is disconnected (by calling `disconnect()` or stopping the
+   * user agent), fails to connect and is not to be reconnected, or if reconnection is abandoned. If zero,
+   * requests sent while the transport is not "Connected" fail immediately.
+   * @defaultValue 0
+   */
+  sendQueueTimeout?: number;
+
   /**
    * A factory for generating `SessionDescriptionHandler` instances.
    * @remarks
@@ -205,6 +263,25 @@ export interface UserAgentOptions {
    */
   sessionDescriptionHandlerFactoryOptions?: object;
 
+  /**
+   * Session interval requested by session timers, in seconds.
+   * @remarks
+   * Only used if `sipExtensionTimer` is not `SIPExtension.Unsupported`.
+   * The session is refreshed by one side every half interval, and ended by the other if not.
+   * https://tools.ietf.org/html/rfc4028#section-4
+   * @defaultValue `1800`
+   */
+  sessionTimerExpires?: number;
+
+  /**
+   * Minimum session interval accepted by session timers, in seconds.
+   * @remarks
+   * A request with a smaller session interval is rejected with a 422 (Session Interval Too Small) response.
+   * https://tools.ietf.org/html/rfc4028#section-5
+   * @defaultValue `90`
+   */
+  sessionTimerMinSE?: number;
+
   /**
    * Reliable provisional responses.
    * https://tools.ietf.org/html/rfc3262
@@ -219,6 +296,13 @@ export interface UserAgentOptions {
    */
   sipExtensionReplaces?: SIPExtension;
 
+  /**
+   * Session timers.
+   * https://tools.ietf.org/html/rfc4028
+   * @defaultValue `SIPExtension.Unsupported`
+   */
+  sipExtensionTimer?: SIPExtension;
+
   /**
    * Extra option tags to claim support for.
    * @remarks
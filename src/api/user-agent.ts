@@ -1,7 +1,10 @@
 import { Grammar } from "../grammar/grammar.js";
+import { ParsedChallenge } from "../grammar/grammar-types.js";
 import { URI } from "../grammar/uri.js";
 import { Contact } from "../core/user-agent-core/user-agent-core-configuration.js";
+import { BearerAuthentication } from "../core/messages/bearer-authentication.js";
 import { DigestAuthentication } from "../core/messages/digest-authentication.js";
+import { C } from "../core/messages/methods/constants.js";
 import { IncomingInviteRequest } from "../core/messages/methods/invite.js";
 import { IncomingMessageRequest } from "../core/messages/methods/message.js";
 import { IncomingNotifyRequest } from "../core/messages/methods/notify.js";
@@ -13,8 +16,10 @@ import { IncomingSubscribeRequest } from "../core/messages/methods/subscribe.js"
 import { Levels } from "../core/log/levels.js";
 import { Logger } from "../core/log/logger.js";
 import { LoggerFactory } from "../core/log/logger-factory.js";
+import { intercept, MessageInterceptor } from "../core/user-agent-core/message-interceptor.js";
 import { Parser } from "../core/messages/parser.js";
 import { TransportError } from "../core/exceptions/transport-error.js";
+import { Transport as CoreTransport } from "../core/transport.js";
 import { UserAgentCore } from "../core/user-agent-core/user-agent-core.js";
 import { UserAgentCoreConfiguration } from "../core/user-agent-core/user-agent-core-configuration.js";
 import { UserAgentCoreDelegate } from "../core/user-agent-core/user-agent-core-delegate.js";
@@ -22,7 +27,9 @@ import { createRandomToken, utf8Length } from "../core/messages/utils.js";
 import { defaultSessionDescriptionHandlerFactory } from "../platform/web/session-description-handler/session-description-handler-factory-default.js";
 import { Transport as WebTransport } from "../platform/web/transport/transport.js";
 import { LIBRARY_VERSION } from "../version.js";
+import { CredentialProvider } from "./credential-provider.js";
 import { Emitter, EmitterImpl } from "./emitter.js";
+import { SendQueueTimeoutError } from "./exceptions/send-queue-timeout.js";
 import { Invitation } from "./invitation.js";
 import { Inviter } from "./inviter.js";
 import { InviterOptions } from "./inviter-options.js";
@@ -33,6 +40,7 @@ import { Registerer } from "./registerer.js";
 import { Session } from "./session.js";
 import { Subscription } from "./subscription.js";
 import { Transport } from "./transport.js";
+import { TransportState } from "./transport-state.js";
 import { UserAgentDelegate } from "./user-agent-delegate.js";
 import { SIPExtension, UserAgentOptions, UserAgentRegisteredOptionTags } from "./user-agent-options.js";
 import { UserAgentState } from "./user-agent-state.js";
@@ -76,12 +84,23 @@ export class UserAgent {
   private _transport: Transport;
   private _userAgentCore: UserAgentCore;
 
+  /** True from the transport connection dropping until reconnection succeeds or is abandoned. */
+  private reconnecting = false;
+  /** Outgoing requests held while the transport is connecting or to be reconnected, oldest first. */
+  private sendQueue: Array<{
+    message: string;
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timeout: number;
+  }> = [];
+
   /** Logger. */
   private logger: Logger;
   /** LoggerFactory. */
   private loggerFactory: LoggerFactory;
   /** Options. */
-  private options: Required<UserAgentOptions>;
+  private options: Omit<Required<UserAgentOptions>, "credentialProvider"> &
+    Pick<UserAgentOptions, "credentialProvider">;
 
   /**
    * Constructs a new instance of the `UserAgent` class.
@@ -230,6 +249,11 @@ export class UserAgent {
 
     // Initialize UserAgentCore
     this._userAgentCore = this.initCore();
+
+    // Add interceptors
+    for (const interceptor of this.options.interceptors) {
+      this.addInterceptor(interceptor);
+    }
   }
 
   /**
@@ -238,13 +262,16 @@ export class UserAgent {
    *
    * @remarks
    * Returns undefined if the syntax of the URI is invalid.
-   * The syntax must conform to a SIP URI as defined in the RFC.
+   * The syntax must conform to a SIP or SIPS URI as defined in the RFC,
+   * or to a tel URI as defined in RFC 3966.
    * 25 Augmented BNF for the SIP Protocol
    * https://tools.ietf.org/html/rfc3261#section-25
+   * https://tools.ietf.org/html/rfc3966#section-3
    *
    * @example
    * ```ts
    * const uri = UserAgent.makeURI("sip:edgar@example.com");
+   * const tel = UserAgent.makeURI("tel:+1-212-555-0100");
    * ```
    */
   public static makeURI(uri: string): URI | undefined {
@@ -252,7 +279,7 @@ export class UserAgent {
   }
 
   /** Default user agent options. */
-  private static defaultOptions(): Required<UserAgentOptions> {
+  private static defaultOptions(): Omit<Required<UserAgentOptions>, "credentialProvider"> {
     return {
       allowLegacyNotifications: false,
       authorizationHa1: "",
@@ -269,21 +296,28 @@ export class UserAgent {
       hackViaTcp: false,
       instanceId: "",
       instanceIdAlwaysAdded: false,
+      interceptors: [],
       logBuiltinEnabled: true,
       logConfiguration: true,
       logConnector: (): void => {
         /* noop */
       },
       logLevel: "log",
+      maxRedirects: 5,
       noAnswerTimeout: 60,
+      preemptiveAuthorization: false,
       preloadedRouteSet: [],
       reconnectionAttempts: 0,
       reconnectionDelay: 4,
       sendInitialProvisionalResponse: true,
+      sendQueueTimeout: 0,
       sessionDescriptionHandlerFactory: defaultSessionDescriptionHandlerFactory(),
       sessionDescriptionHandlerFactoryOptions: {},
+      sessionTimerExpires: 1800,
+      sessionTimerMinSE: 90,
       sipExtension100rel: SIPExtension.Unsupported,
       sipExtensionReplaces: SIPExtension.Unsupported,
+      sipExtensionTimer: SIPExtension.Unsupported,
       sipExtensionExtraSupported: [],
       sipjsId: "",
       transportConstructor: WebTransport,
@@ -324,7 +358,8 @@ export class UserAgent {
   /**
    * User agent configuration.
    */
-  public get configuration(): Required<UserAgentOptions> {
+  public get configuration(): Omit<Required<UserAgentOptions>, "credentialProvider"> &
+    Pick<UserAgentOptions, "credentialProvider"> {
     return this.options;
   }
 
@@ -370,6 +405,30 @@ export class UserAgent {
     return this._userAgentCore;
   }
 
+  /**
+   * Add a message interceptor.
+   * @remarks
+   * All messages received and sent by the user agent are passed through the interceptors
+   * in the order in which they were added. An interceptor may inspect or rewrite a message,
+   * drop it, or answer a request locally. See {@link MessageInterceptor}.
+   * @param interceptor - Interceptor to add.
+   */
+  public addInterceptor(interceptor: MessageInterceptor): void {
+    this.userAgentCore.interceptors.push(interceptor);
+  }
+
+  /**
+   * Remove a message interceptor.
+   * @param interceptor - Interceptor to remove.
+   */
+  public removeInterceptor(interceptor: MessageInterceptor): void {
+    const interceptors = this.userAgentCore.interceptors;
+    const index = interceptors.indexOf(interceptor);
+    if (index !== -1) {
+      interceptors.splice(index, 1);
+    }
+  }
+
   /**
    * The logger.
    */
@@ -595,16 +654,22 @@ export class UserAgent {
     const reconnectionAttempts = this.options.reconnectionAttempts;
     const reconnectionDelay = this.options.reconnectionDelay;
 
-    if (reconnectionAttempt > reconnectionAttempts) {
-      this.logger.log(`Maximum reconnection attempts reached`);
+    if (reconnectionAttempt > reconnectionAttempts || this.state === UserAgentState.Stopped) {
+      this.logger.log(
+        this.state === UserAgentState.Stopped ? `User agent stopped` : `Maximum reconnection attempts reached`
+      );
+      this.reconnecting = false;
+      this.failSendQueue(new TransportError("Transport reconnection abandoned."));
       return;
     }
 
+    this.reconnecting = true;
     this.logger.log(`Reconnection attempt ${reconnectionAttempt} of ${reconnectionAttempts} - trying`);
     setTimeout(
       () => {
         this.reconnect()
           .then(() => {
+            this.reconnecting = false;
             this.logger.log(`Reconnection attempt ${reconnectionAttempt} of ${reconnectionAttempts} - succeeded`);
           })
           .catch((error: Error) => {
@@ -617,6 +682,34 @@ export class UserAgent {
     );
   }
 
+  /**
+   * Fail all outgoing requests held while the transport is connecting or to be reconnected.
+   * @param error - Error to fail the requests with.
+   */
+  private failSendQueue(error: Error): void {
+    const queue = this.sendQueue;
+    this.sendQueue = [];
+    for (const entry of queue) {
+      clearTimeout(entry.timeout);
+      entry.reject(error);
+    }
+  }
+
+  /**
+   * Send all outgoing requests held while the transport was connecting, in order.
+   */
+  private flushSendQueue(): void {
+    const queue = this.sendQueue;
+    this.sendQueue = [];
+    if (queue.length) {
+      this.logger.log(`Sending ${queue.length} queued requests`);
+    }
+    for (const entry of queue) {
+      clearTimeout(entry.timeout);
+      this.transport.send(entry.message).then(entry.resolve, entry.reject);
+    }
+  }
+
   /**
    * Initialize contact.
    */
@@ -628,11 +721,12 @@ export class UserAgent {
       tempGruu: undefined,
       uri: new URI("sip", contactName, this.options.viaHost, undefined, contactParams),
       toString: (
-        contactToStringOptions: { anonymous?: boolean; outbound?: boolean; register?: boolean } = {}
+        contactToStringOptions: { anonymous?: boolean; outbound?: boolean; register?: boolean; secure?: boolean } = {}
       ): string => {
         const anonymous = contactToStringOptions.anonymous || false;
         const outbound = contactToStringOptions.outbound || false;
         const register = contactToStringOptions.register || false;
+        const secure = contactToStringOptions.secure || false;
         let contactString = "<";
         // 3.3.  Using a GRUU
         // Once a user agent obtains GRUUs from the registrar, it uses them in
@@ -649,6 +743,12 @@ export class UserAgent {
         } else {
           contactString += this.contact.pubGruu || this.contact.uri;
         }
+        // If the Request-URI or top Route header field value contains a SIPS
+        // URI, the Contact header field MUST contain a SIPS URI as well.
+        // https://tools.ietf.org/html/rfc3261#section-8.1.1.8
+        if (secure) {
+          contactString = contactString.replace(/^<sip:/i, "<sips:");
+        }
         if (outbound) {
           contactString += ";ob";
         }
@@ -666,15 +766,30 @@ export class UserAgent {
    * Initialize user agent core.
    */
   private initCore(): UserAgentCore {
+    // transport (sending via the send queue)
+    const transport = (): Transport => this.transport;
+    const coreTransport: CoreTransport = {
+      get protocol(): string {
+        return transport().protocol;
+      },
+      get reliable(): boolean | undefined {
+        return transport().reliable;
+      },
+      send: (message: string): Promise<void> => this.send(message)
+    };
+
     // supported options
     let supportedOptionTags: Array<string> = [];
-    supportedOptionTags.push("outbound"); // TODO: is this really supported?
+    supportedOptionTags.push("outbound"); // RFC 5626
     if (this.options.sipExtension100rel === SIPExtension.Supported) {
       supportedOptionTags.push("100rel");
     }
     if (this.options.sipExtensionReplaces === SIPExtension.Supported) {
       supportedOptionTags.push("replaces");
     }
+    if (this.options.sipExtensionTimer === SIPExtension.Supported) {
+      supportedOptionTags.push("timer");
+    }
     if (this.options.sipExtensionExtraSupported) {
       supportedOptionTags.push(...this.options.sipExtensionExtraSupported);
     }
@@ -683,6 +798,8 @@ export class UserAgent {
     }
     supportedOptionTags = Array.from(new Set(supportedOptionTags)); // array of unique values
 
+    const credentialProvider = this.options.credentialProvider;
+
     // FIXME: TODO: This was ported, but this is and was just plain broken.
     const supportedOptionTagsResponse = supportedOptionTags.slice();
     if (this.contact.pubGruu || this.contact.tempGruu) {
@@ -696,6 +813,8 @@ export class UserAgent {
       displayName: this.options.displayName,
       loggerFactory: this.loggerFactory,
       hackViaTcp: this.options.hackViaTcp,
+      maxRedirects: this.options.maxRedirects,
+      preemptiveAuthorization: this.options.preemptiveAuthorization,
       routeSet: this.options.preloadedRouteSet,
       supportedOptionTags,
       supportedOptionTagsResponse,
@@ -711,7 +830,14 @@ export class UserAgent {
         const ha1 = this.options.authorizationHa1 ? this.options.authorizationHa1 : undefined;
         return new DigestAuthentication(this.getLoggerFactory(), ha1, username, password);
       },
-      transportAccessor: () => this.transport
+      // Unless a credential provider is configured, the authorization options are used as they are.
+      authenticationProvider: credentialProvider
+        ? (challenge, method): Promise<DigestAuthentication | BearerAuthentication | undefined> =>
+            this.provideCredentials(credentialProvider, challenge, method)
+        : undefined,
+      redirectFilter: (target, response): boolean =>
+        this.delegate && this.delegate.onRedirect ? this.delegate.onRedirect(target, response) : true,
+      transportAccessor: () => coreTransport
     };
 
     const userAgentCoreDelegate: UserAgentCoreDelegate = {
@@ -746,6 +872,17 @@ export class UserAgent {
         // https://tools.ietf.org/html/rfc3261#section-17.2.1
         incomingInviteRequest.trying();
 
+        // If the session interval is lower than the minimum, the UAS rejects the INVITE
+        // with a 422 (Session Interval Too Small) response carrying its minimum.
+        // https://tools.ietf.org/html/rfc4028#section-9
+        if (this.options.sipExtensionTimer !== SIPExtension.Unsupported) {
+          const sessionExpires = incomingInviteRequest.message.parseHeader("session-expires");
+          if (sessionExpires && sessionExpires.deltaSeconds < this.options.sessionTimerMinSE) {
+            invitation.reject({ statusCode: 422, extraHeaders: ["Min-SE: " + this.options.sessionTimerMinSE] });
+            return;
+          }
+        }
+
         // The Replaces header contains information used to match an existing
         // SIP dialog (call-id, to-tag, and from-tag).  Upon receiving an INVITE
         // with a Replaces header, the User Agent (UA) attempts to match this
@@ -756,17 +893,8 @@ export class UserAgent {
           const replaces = message.parseHeader("replaces");
           if (replaces) {
             const callId = replaces.call_id;
-            if (typeof callId !== "string") {
-              throw new Error("Type of call id is not string");
-            }
             const toTag = replaces.replaces_to_tag;
-            if (typeof toTag !== "string") {
-              throw new Error("Type of to tag is not string");
-            }
             const fromTag = replaces.replaces_from_tag;
-            if (typeof fromTag !== "string") {
-              throw new Error("type of from tag is not string");
-            }
             const targetDialogId = callId + toTag + fromTag;
             const targetDialog = this.userAgentCore.dialogs.get(targetDialogId);
 
@@ -888,9 +1016,17 @@ export class UserAgent {
     this.transport.onConnect = (): void => this.onTransportConnect();
     this.transport.onDisconnect = (error?: Error): void => this.onTransportDisconnect(error);
     this.transport.onMessage = (message: string): void => this.onTransportMessage(message);
+    this.transport.stateChange.addListener((state) => {
+      // Disconnecting abandons connecting, so the requests held will never be sent.
+      // Neither will they if connecting failed, unless reconnection is to be attempted again.
+      if (state === TransportState.Disconnecting || (state === TransportState.Disconnected && !this.reconnecting)) {
+        this.failSendQueue(new TransportError("Transport disconnected."));
+      }
+    });
   }
 
   private onTransportConnect(): void {
+    this.flushSendQueue();
     if (this.state === UserAgentState.Stopped) {
       return;
     }
@@ -906,19 +1042,134 @@ export class UserAgent {
     if (this.delegate && this.delegate.onDisconnect) {
       this.delegate.onDisconnect(error);
     }
+    // If the network/server dropped the connection, SIP Outbound flows have failed.
+    if (error) {
+      Object.keys(this._registerers).forEach((id) => this._registerers[id]._flowFailed());
+    }
     // Only attempt to reconnect if network/server dropped the connection.
     if (error && this.options.reconnectionAttempts > 0) {
       this.attemptReconnection();
     }
   }
 
+  /**
+   * Obtain credentials answering a challenge from the credential provider.
+   * @remarks
+   * Digest credentials default to the authorization options if none are provided.
+   * @param credentialProvider - The credential provider.
+   * @param challenge - The challenge received.
+   * @param method - The method of the request challenged.
+   * @returns Credentials to answer the challenge with, or undefined to not answer it.
+   */
+  private provideCredentials(
+    credentialProvider: CredentialProvider,
+    challenge: ParsedChallenge,
+    method: string
+  ): Promise<DigestAuthentication | BearerAuthentication | undefined> {
+    const scheme = challenge.scheme ? challenge.scheme : "";
+    return credentialProvider({
+      scheme,
+      realm: challenge.realm ? challenge.realm : "",
+      method,
+      authzServer: challenge.authzServer,
+      scope: challenge.scope,
+      error: challenge.error
+    }).then((credentials) => {
+      switch (scheme.toLowerCase()) {
+        case "digest": {
+          if (!credentials) {
+            return this.userAgentCore.configuration.authenticationFactory();
+          }
+          const username = credentials.username ? credentials.username : this.options.authorizationUsername;
+          return new DigestAuthentication(
+            this.getLoggerFactory(),
+            credentials.ha1,
+            username ? username : this.options.uri.user,
+            credentials.password,
+            credentials.usim
+          );
+        }
+        case "bearer":
+          return credentials && credentials.token
+            ? new BearerAuthentication(this.getLoggerFactory(), credentials.token)
+            : undefined;
+        default:
+          return undefined;
+      }
+    });
+  }
+
+  /**
+   * Reply statelessly to a malformed request, if it has the header fields needed to respond.
+   * @remarks
+   * A UAS SHOULD return a 400 response to a request it cannot parse, with a Warning header
+   * field saying why. A response is not sent to an ACK, nor once the user agent is stopped.
+   * https://tools.ietf.org/html/rfc3261#section-21.4.1
+   * https://tools.ietf.org/html/rfc3261#section-20.43
+   * @param message - The malformed request.
+   * @param diagnostic - The first problem found parsing the request for which it is refused.
+   * @returns True if a response was sent.
+   */
+  private replyMalformedRequest(message: IncomingRequestMessage, diagnostic: Parser.Diagnostic): boolean {
+    if (
+      this.state === UserAgentState.Stopped ||
+      message.method === C.ACK ||
+      !message.via ||
+      !message.from ||
+      !message.to ||
+      !message.callId ||
+      message.cseq === undefined
+    ) {
+      return false;
+    }
+    // The warn-text is a quoted-string, which may not contain control characters.
+    const text = Parser.describe(diagnostic)
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x1f\x7f]/g, " ")
+      .replace(/[\\"]/g, "\\$&");
+    const warning = `Warning: 399 ${this.options.viaHost} "${text}"`;
+    this.userAgentCore.replyStateless(message, { statusCode: diagnostic.statusCode, extraHeaders: [warning] });
+    return true;
+  }
+
   private onTransportMessage(messageString: string): void {
-    const message = Parser.parseMessage(messageString, this.getLogger("sip.Parser"));
-    if (!message) {
+    const { message, diagnostics } = Parser.parse(messageString);
+    const parserLogger = this.getLogger("sip.Parser");
+    diagnostics.forEach((diagnostic) => parserLogger.warn(Parser.describe(diagnostic)));
+    // A message is only refused for a problem with a mandatory header field, its size or its framing.
+    // An optional header field which does not parse is kept unparsed and the message processed.
+    const fatal = diagnostics.find((diagnostic) => diagnostic.fatal);
+    if (!message || fatal) {
+      if (message instanceof IncomingRequestMessage && fatal && this.replyMalformedRequest(message, fatal)) {
+        return;
+      }
       this.logger.warn("Failed to parse incoming message. Dropping.");
       return;
     }
 
+    // Pass the message through the interceptors
+    if (message instanceof IncomingRequestMessage) {
+      const result = intercept(this.userAgentCore.interceptors, (interceptor) =>
+        interceptor.onIncomingRequest ? interceptor.onIncomingRequest(message) : undefined
+      );
+      if (result) {
+        if (result.reply) {
+          this.userAgentCore.replyStateless(message, result.reply);
+        } else {
+          this.logger.log(`Incoming ${message.method} request dropped by interceptor.`);
+        }
+        return;
+      }
+    } else {
+      const result = intercept(this.userAgentCore.interceptors, (interceptor) =>
+        interceptor.onIncomingResponse ? interceptor.onIncomingResponse(message) : undefined
+      );
+      if (result) {
+        this.logger.log(`Incoming ${message.statusCode} response dropped by interceptor.`);
+        return;
+      }
+    }
+
     if (this.state === UserAgentState.Stopped && message instanceof IncomingRequestMessage) {
       this.logger.warn(`Received ${message.method} request while stopped. Dropping.`);
       return;
@@ -1016,6 +1267,37 @@ export class UserAgent {
     throw new Error("Invalid message type.");
   }
 
+  /**
+   * Send a message, holding requests while the transport is connecting or to be reconnected.
+   * @param message - Message to send.
+   */
+  private send(message: string): Promise<void> {
+    const sendQueueTimeout = this.options.sendQueueTimeout;
+    const state = this.transport.state;
+    const connecting =
+      state === TransportState.Connecting || (state === TransportState.Disconnected && this.reconnecting);
+    if (
+      sendQueueTimeout <= 0 ||
+      !connecting ||
+      /^SIP\/2\.0 /.test(message) // responses are not held
+    ) {
+      return this.transport.send(message);
+    }
+    return new Promise((resolve, reject) => {
+      const entry = {
+        message,
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.sendQueue = this.sendQueue.filter((queued) => queued !== entry);
+          reject(new SendQueueTimeoutError());
+        }, sendQueueTimeout * 1000)
+      };
+      this.logger.log("Transport connecting, queued outgoing request");
+      this.sendQueue.push(entry);
+    });
+  }
+
   /**
    * Transition state.
    */
@@ -0,0 +1,59 @@
+/**
+ * An address of a captured message.
+ * @public
+ */
+export interface CaptureAddress {
+  /** IP address, or host name if the IP address is not known. Empty if the host is not known. */
+  host: string;
+  /** Port. Zero if the port is not known. */
+  port: number;
+}
+
+/**
+ * A message sent or received by a transport.
+ * @public
+ */
+export interface CaptureRecord {
+  /** True if the message was sent, false if it was received. */
+  sent: boolean;
+  /** Time the message was sent or received, in milliseconds since the epoch. */
+  timestamp: number;
+  /** Transport protocol, formatted as defined for the Via header sent-protocol transport. For example "UDP" or "WSS". */
+  protocol: string;
+  /** Local address. */
+  local: CaptureAddress;
+  /** Remote address. */
+  remote: CaptureAddress;
+  /** Value of the Call-ID header field of the message, or empty if it has none. */
+  callId: string;
+  /** The message. */
+  message: string;
+}
+
+/**
+ * Create a record of a message sent or received by a transport.
+ * @param sent - True if the message was sent, false if it was received.
+ * @param message - The message.
+ * @param protocol - Transport protocol.
+ * @param local - Local address.
+ * @param remote - Remote address.
+ * @public
+ */
+export function makeCaptureRecord(
+  sent: boolean,
+  message: string,
+  protocol: string,
+  local: CaptureAddress,
+  remote: CaptureAddress
+): CaptureRecord {
+  const callId = message.match(/^(?:Call-ID|i)[ \t]*:[ \t]*([^\r\n]*)/im);
+  return {
+    sent,
+    timestamp: Date.now(),
+    protocol,
+    local,
+    remote,
+    callId: callId ? callId[1].trim() : "",
+    message
+  };
+}
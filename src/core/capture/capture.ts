@@ -0,0 +1,17 @@
+import { CaptureRecord } from "./capture-record.js";
+
+/**
+ * Captures the messages sent and received by a transport.
+ *
+ * @remarks
+ * A transport configured with a capture passes it a record of each message it sends or receives,
+ * excluding keep-alives. See {@link HepCapture} and {@link PcapCapture}.
+ * @public
+ */
+export interface Capture {
+  /**
+   * Capture a message.
+   * @param record - Record of the message sent or received.
+   */
+  capture(record: CaptureRecord): void;
+}
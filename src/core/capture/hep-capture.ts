@@ -0,0 +1,134 @@
+import { Capture } from "./capture.js";
+import { CaptureRecord } from "./capture-record.js";
+import { parsePacketAddresses } from "./ip-address.js";
+
+/**
+ * Destination of the HEP packets produced by a {@link HepCapture}.
+ * @public
+ */
+export interface HepSink {
+  /**
+   * Send a HEP packet.
+   * @param packet - HEPv3 packet.
+   */
+  send(packet: Uint8Array): void;
+}
+
+/**
+ * Options for {@link HepCapture}.
+ * @public
+ */
+export interface HepCaptureOptions {
+  /**
+   * Capture agent ID, identifying the capture agent to the collector.
+   * @defaultValue 0
+   */
+  captureId?: number;
+
+  /**
+   * Authentication key (password) sent to the collector. Not sent if empty.
+   * @defaultValue `""`
+   */
+  password?: string;
+}
+
+/**
+ * Encode a captured message as a HEPv3 packet.
+ *
+ * @remarks
+ * The packet carries the source and destination addresses of the message, the time it was sent or received,
+ * the capture agent ID, the Call-ID of the message as correlation ID, and the message itself as a SIP payload.
+ * A host which is not an IP address, such as a host name, is encoded as the unspecified address.
+ * The length of the packet being a 16-bit field, a message too long to fit in a packet is truncated.
+ * https://github.com/sipcapture/HEP
+ * @param record - Record of the message.
+ * @param options - Options bucket. See {@link HepCaptureOptions} for details.
+ * @public
+ */
+export function encodeHepPacket(record: CaptureRecord, options: HepCaptureOptions = {}): Uint8Array {
+  const source = record.sent ? record.local : record.remote;
+  const destination = record.sent ? record.remote : record.local;
+  const addresses = parsePacketAddresses(source.host, destination.host);
+  const encoder = new TextEncoder();
+
+  const chunks: Array<Uint8Array> = [];
+  const chunk = (type: number, data: Array<number> | Uint8Array): void => {
+    const bytes = new Uint8Array(6 + data.length);
+    const view = new DataView(bytes.buffer);
+    view.setUint16(0, 0x0000); // generic chunk vendor
+    view.setUint16(2, type);
+    view.setUint16(4, bytes.length);
+    bytes.set(data, 6);
+    chunks.push(bytes);
+  };
+  const uint16 = (value: number): Array<number> => [(value >>> 8) & 0xff, value & 0xff];
+  const uint32 = (value: number): Array<number> => uint16(Math.floor(value / 0x10000)).concat(uint16(value));
+
+  const seconds = Math.floor(record.timestamp / 1000);
+  const microseconds = Math.round((record.timestamp % 1000) * 1000);
+  const reliable = record.protocol.toUpperCase() !== "UDP";
+
+  chunk(0x0001, [addresses.ipv6 ? 10 : 2]); // IP protocol family
+  chunk(0x0002, [reliable ? 6 : 17]); // IP protocol ID (TCP or UDP)
+  chunk(addresses.ipv6 ? 0x0005 : 0x0003, addresses.source); // source IP address
+  chunk(addresses.ipv6 ? 0x0006 : 0x0004, addresses.destination); // destination IP address
+  chunk(0x0007, uint16(source.port)); // source port
+  chunk(0x0008, uint16(destination.port)); // destination port
+  chunk(0x0009, uint32(seconds)); // timestamp in seconds
+  chunk(0x000a, uint32(microseconds)); // timestamp microseconds offset
+  chunk(0x000b, [1]); // protocol type (SIP)
+  chunk(0x000c, uint32(options.captureId || 0)); // capture agent ID
+  if (options.password) {
+    chunk(0x000e, encoder.encode(options.password)); // authentication key
+  }
+  if (record.callId) {
+    chunk(0x0011, encoder.encode(record.callId)); // correlation ID
+  }
+
+  // The payload is truncated to what fits in the packet, without splitting a UTF-8 sequence.
+  const payload = encoder.encode(record.message);
+  let end = Math.min(payload.length, 0xffff - chunks.reduce((sum, bytes) => sum + bytes.length, 6) - 6);
+  if (end < payload.length) {
+    while (end > 0 && (payload[end] & 0xc0) === 0x80) {
+      end--;
+    }
+  }
+  chunk(0x000f, payload.subarray(0, end)); // captured packet payload
+
+  const length = chunks.reduce((sum, bytes) => sum + bytes.length, 6);
+  const packet = new Uint8Array(length);
+  packet.set(encoder.encode("HEP3"), 0);
+  new DataView(packet.buffer).setUint16(4, length);
+  let offset = 6;
+  for (const bytes of chunks) {
+    packet.set(bytes, offset);
+    offset += bytes.length;
+  }
+  return packet;
+}
+
+/**
+ * Captures messages as HEPv3 packets, for example to be sent to a Homer collector.
+ *
+ * @remarks
+ * Each message captured is encoded as a HEPv3 packet which is passed to the sink.
+ * See {@link MemoryHepSink}, and `UdpHepSink` in `lib/platform/node` which sends the packets to a collector.
+ * @example
+ * ```ts
+ * const capture = new HepCapture(new MemoryHepSink(), { captureId: 2001 });
+ * const userAgent = new UserAgent({ transportOptions: { server: "wss://edge.example.com", capture } });
+ * ```
+ * @public
+ */
+export class HepCapture implements Capture {
+  /**
+   * Constructs a new instance of the `HepCapture` class.
+   * @param sink - Destination of the HEP packets.
+   * @param options - Options bucket. See {@link HepCaptureOptions} for details.
+   */
+  public constructor(private sink: HepSink, private options: HepCaptureOptions = {}) {}
+
+  public capture(record: CaptureRecord): void {
+    this.sink.send(encodeHepPacket(record, this.options));
+  }
+}
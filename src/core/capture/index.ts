@@ -0,0 +1,5 @@
+export * from "./capture-record.js";
+export * from "./capture.js";
+export * from "./hep-capture.js";
+export * from "./memory-hep-sink.js";
+export * from "./pcap-capture.js";
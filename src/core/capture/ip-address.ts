@@ -0,0 +1,82 @@
+/**
+ * Parse an IPv4 address.
+ * @param host - Dotted decimal IPv4 address.
+ * @returns The 4 bytes of the address, or undefined if invalid.
+ * @internal
+ */
+export function parseIPv4(host: string): Array<number> | undefined {
+  const parts = host.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return undefined;
+  }
+  return parts.map(Number);
+}
+
+/**
+ * Parse an IPv6 address.
+ * @param host - IPv6 address, optionally enclosed in brackets.
+ * @returns The 16 bytes of the address, or undefined if invalid.
+ * @internal
+ */
+export function parseIPv6(host: string): Array<number> | undefined {
+  host = host.replace(/^\[|\]$/g, "");
+  const halves = host.split("::");
+  if (halves.length > 2) {
+    return undefined;
+  }
+  const groups: Array<Array<number>> = [];
+  for (const half of halves) {
+    const words: Array<number> = [];
+    const parts = half ? half.split(":") : [];
+    for (let i = 0; i < parts.length; i++) {
+      // The last 32 bits may be written as an IPv4 address.
+      const ipv4 = i === parts.length - 1 ? parseIPv4(parts[i]) : undefined;
+      if (ipv4) {
+        words.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9a-fA-F]{1,4}$/.test(parts[i])) {
+        words.push(parseInt(parts[i], 16));
+      } else {
+        return undefined;
+      }
+    }
+    groups.push(words);
+  }
+  const count = groups.reduce((sum, words) => sum + words.length, 0);
+  if (groups.length === 1 ? count !== 8 : count > 7) {
+    return undefined;
+  }
+  const words = groups.length === 1 ? groups[0] : groups[0].concat(new Array(8 - count).fill(0), groups[1]);
+  const bytes: Array<number> = [];
+  for (const word of words) {
+    bytes.push(word >> 8, word & 0xff);
+  }
+  return bytes;
+}
+
+/**
+ * Parse the source and destination addresses of a packet.
+ *
+ * @remarks
+ * Both addresses are returned in the same family. If either is an IPv6 address, an IPv4 address is
+ * mapped to IPv6. A host which is not an IP address, such as a host name, is returned as the unspecified address.
+ * @param source - Source host.
+ * @param destination - Destination host.
+ * @internal
+ */
+export function parsePacketAddresses(
+  source: string,
+  destination: string
+): { ipv6: boolean; source: Array<number>; destination: Array<number> } {
+  const src = parseIPv4(source) || parseIPv6(source);
+  const dst = parseIPv4(destination) || parseIPv6(destination);
+  if ((!src || src.length === 4) && (!dst || dst.length === 4)) {
+    return { ipv6: false, source: src || [0, 0, 0, 0], destination: dst || [0, 0, 0, 0] };
+  }
+  const toIPv6 = (bytes: Array<number> | undefined): Array<number> => {
+    if (!bytes) {
+      return new Array(16).fill(0);
+    }
+    return bytes.length === 16 ? bytes : [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff].concat(bytes);
+  };
+  return { ipv6: true, source: toIPv6(src), destination: toIPv6(dst) };
+}
@@ -0,0 +1,39 @@
+import { HepSink } from "./hep-capture.js";
+
+/**
+ * Keeps HEP packets in memory, for example to be uploaded later.
+ *
+ * @remarks
+ * Once the maximum number of packets is reached, the oldest packet is discarded for each packet sent.
+ * @public
+ */
+export class MemoryHepSink implements HepSink {
+  private _packets: Array<Uint8Array> = [];
+
+  /**
+   * Constructs a new instance of the `MemoryHepSink` class.
+   * @param maxPackets - Maximum number of packets kept. Zero for no limit.
+   */
+  public constructor(private maxPackets = 1000) {}
+
+  /**
+   * The packets, oldest first.
+   */
+  public get packets(): Array<Uint8Array> {
+    return this._packets.slice();
+  }
+
+  /**
+   * Discard all packets.
+   */
+  public clear(): void {
+    this._packets = [];
+  }
+
+  public send(packet: Uint8Array): void {
+    this._packets.push(packet);
+    if (this.maxPackets && this._packets.length > this.maxPackets) {
+      this._packets.shift();
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { Capture } from "./capture.js";
+import { CaptureRecord } from "./capture-record.js";
+import { parsePacketAddresses } from "./ip-address.js";
+
+/**
+ * Encode captured messages as a PCAP file.
+ *
+ * @remarks
+ * Each message is written as a UDP datagram within an IPv4 or IPv6 packet (link type "raw IP"),
+ * regardless of the transport protocol it was sent or received with, so it is decoded as a SIP message
+ * by tools such as Wireshark. A host which is not an IP address, such as a host name, is written as the
+ * unspecified address. A message too large for a single datagram is truncated.
+ * https://wiki.wireshark.org/Development/LibpcapFileFormat
+ * @param records - Records of the messages, oldest first.
+ * @public
+ */
+export function encodePcapFile(records: Array<CaptureRecord>): Uint8Array {
+  const snapLength = 0xffff;
+  const encoder = new TextEncoder();
+  const packets = records.map((record) => {
+    const source = record.sent ? record.local : record.remote;
+    const destination = record.sent ? record.remote : record.local;
+    const addresses = parsePacketAddresses(source.host, destination.host);
+    const payload = encoder.encode(record.message);
+    const ipHeaderLength = addresses.ipv6 ? 40 : 20;
+    const udpLength = Math.min(8 + payload.length, snapLength - ipHeaderLength);
+    const packet = new Uint8Array(ipHeaderLength + udpLength);
+    const view = new DataView(packet.buffer);
+
+    // IP header
+    if (addresses.ipv6) {
+      view.setUint32(0, 0x60000000); // version, traffic class, flow label
+      view.setUint16(4, udpLength); // payload length
+      view.setUint8(6, 17); // next header (UDP)
+      view.setUint8(7, 64); // hop limit
+      packet.set(addresses.source, 8);
+      packet.set(addresses.destination, 24);
+    } else {
+      view.setUint8(0, 0x45); // version, header length
+      view.setUint16(2, packet.length); // total length
+      view.setUint16(6, 0x4000); // don't fragment
+      view.setUint8(8, 64); // time to live
+      view.setUint8(9, 17); // protocol (UDP)
+      packet.set(addresses.source, 12);
+      packet.set(addresses.destination, 16);
+      view.setUint16(10, checksum(packet.subarray(0, 20)));
+    }
+
+    // UDP header
+    view.setUint16(ipHeaderLength, source.port);
+    view.setUint16(ipHeaderLength + 2, destination.port);
+    view.setUint16(ipHeaderLength + 4, udpLength);
+    packet.set(payload.subarray(0, udpLength - 8), ipHeaderLength + 8);
+    if (addresses.ipv6) {
+      // The UDP checksum is mandatory over IPv6, and covers a pseudo-header.
+      const pseudo = new Uint8Array(40 + udpLength);
+      pseudo.set(addresses.source, 0);
+      pseudo.set(addresses.destination, 16);
+      new DataView(pseudo.buffer).setUint32(32, udpLength);
+      pseudo[39] = 17;
+      pseudo.set(packet.subarray(ipHeaderLength), 40);
+      view.setUint16(ipHeaderLength + 6, checksum(pseudo) || 0xffff);
+    }
+
+    // Packet record header
+    const header = new Uint8Array(16);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, Math.floor(record.timestamp / 1000), true);
+    headerView.setUint32(4, Math.round((record.timestamp % 1000) * 1000), true);
+    headerView.setUint32(8, packet.length, true); // captured length
+    headerView.setUint32(12, ipHeaderLength + 8 + payload.length, true); // original length
+    return [header, packet];
+  });
+
+  // Global header
+  const header = new Uint8Array(24);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0xa1b2c3d4, true); // magic number
+  view.setUint16(4, 2, true); // major version
+  view.setUint16(6, 4, true); // minor version
+  view.setUint32(16, snapLength, true);
+  view.setUint32(20, 101, true); // link type (raw IP)
+
+  const parts = [header].concat(...packets);
+  const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    file.set(part, offset);
+    offset += part.length;
+  }
+  return file;
+}
+
+/**
+ * Internet checksum.
+ * https://tools.ietf.org/html/rfc1071
+ * @param data - Data to checksum.
+ */
+function checksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 2) {
+    sum += (data[i] << 8) | (i + 1 < data.length ? data[i + 1] : 0);
+  }
+  while (sum > 0xffff) {
+    sum = (sum & 0xffff) + (sum >>> 16);
+  }
+  return ~sum & 0xffff;
+}
+
+/**
+ * Captures messages in memory to be saved as a PCAP file, for example to be opened with Wireshark.
+ *
+ * @remarks
+ * Once the maximum number of messages is reached, the oldest message is discarded for each message captured.
+ * See {@link encodePcapFile} for how messages are written.
+ * @example
+ * ```ts
+ * const capture = new PcapCapture();
+ * const userAgent = new UserAgent({ transportOptions: { server: "wss://edge.example.com", capture } });
+ * // ...
+ * const link = document.createElement("a");
+ * link.href = URL.createObjectURL(capture.toBlob());
+ * link.download = "sip.pcap";
+ * link.click();
+ * ```
+ * @public
+ */
+export class PcapCapture implements Capture {
+  private _records: Array<CaptureRecord> = [];
+
+  /**
+   * Constructs a new instance of the `PcapCapture` class.
+   * @param maxRecords - Maximum number of messages kept. Zero for no limit.
+   */
+  public constructor(private maxRecords = 10000) {}
+
+  /**
+   * Records of the messages captured, oldest first.
+   */
+  public get records(): Array<CaptureRecord> {
+    return this._records.slice();
+  }
+
+  public capture(record: CaptureRecord): void {
+    this._records.push(record);
+    if (this.maxRecords && this._records.length > this.maxRecords) {
+      this._records.shift();
+    }
+  }
+
+  /**
+   * Discard all messages captured.
+   */
+  public clear(): void {
+    this._records = [];
+  }
+
+  /**
+   * The messages captured as a PCAP file.
+   */
+  public toPcap(): Uint8Array {
+    return encodePcapFile(this._records);
+  }
+
+  /**
+   * The messages captured as a PCAP file, in a `Blob` suitable for downloading.
+   */
+  public toBlob(): Blob {
+    return new Blob([this.toPcap()], { type: "application/vnd.tcpdump.pcap" });
+  }
+}
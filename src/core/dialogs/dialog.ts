@@ -2,6 +2,7 @@ import { NameAddrHeader } from "../../grammar/name-addr-header.js";
 import { URI } from "../../grammar/uri.js";
 import { Body } from "../messages/body.js";
 import { C } from "../messages/methods/constants.js";
+import { Headers } from "../messages/headers.js";
 import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
 import { IncomingResponseMessage } from "../messages/incoming-response-message.js";
 import { OutgoingRequestMessage } from "../messages/outgoing-request-message.js";
@@ -425,7 +426,7 @@ export class Dialog {
     method: string,
     options?: {
       cseq?: number;
-      extraHeaders?: Array<string>;
+      extraHeaders?: Array<string> | Headers;
       body?: Body;
     }
   ): OutgoingRequestMessage {
@@ -12,6 +12,7 @@ import { OutgoingMessageRequest } from "../messages/methods/message.js";
 import { OutgoingNotifyRequest } from "../messages/methods/notify.js";
 import { OutgoingPrackRequest } from "../messages/methods/prack.js";
 import { OutgoingReferRequest } from "../messages/methods/refer.js";
+import { OutgoingUpdateRequest } from "../messages/methods/update.js";
 import { OutgoingRequestDelegate, RequestOptions } from "../messages/outgoing-request.js";
 import { OutgoingRequestMessage } from "../messages/outgoing-request-message.js";
 import { Session, SessionState } from "../session/session.js";
@@ -21,6 +22,7 @@ import { Timers } from "../timers.js";
 import { InviteClientTransaction } from "../transactions/invite-client-transaction.js";
 import { InviteServerTransaction } from "../transactions/invite-server-transaction.js";
 import { TransactionState } from "../transactions/transaction-state.js";
+import { intercept } from "../user-agent-core/message-interceptor.js";
 import { UserAgentCore } from "../user-agent-core/user-agent-core.js";
 import { ByeUserAgentClient } from "../user-agents/bye-user-agent-client.js";
 import { ByeUserAgentServer } from "../user-agents/bye-user-agent-server.js";
@@ -36,6 +38,8 @@ import { ReInviteUserAgentClient } from "../user-agents/re-invite-user-agent-cli
 import { ReInviteUserAgentServer } from "../user-agents/re-invite-user-agent-server.js";
 import { ReferUserAgentClient } from "../user-agents/refer-user-agent-client.js";
 import { ReferUserAgentServer } from "../user-agents/refer-user-agent-server.js";
+import { UpdateUserAgentClient } from "../user-agents/update-user-agent-client.js";
+import { UpdateUserAgentServer } from "../user-agents/update-user-agent-server.js";
 import { Dialog } from "./dialog.js";
 import { DialogState } from "./dialog-state.js";
 
@@ -199,7 +203,15 @@ export class SessionDialog extends Dialog implements Session {
       extraHeaders: options.extraHeaders,
       body: options.body
     });
-    transaction.ackResponse(message); // See InviteClientTransaction for details.
+    // Pass the ACK through the interceptors, an ACK which is dropped is not sent.
+    const interception = intercept(this.core.interceptors, (interceptor) =>
+      interceptor.onOutgoingRequest ? interceptor.onOutgoingRequest(message) : undefined
+    );
+    if (interception) {
+      this.logger.log(`INVITE dialog ${this.id} ACK request dropped by interceptor`);
+    } else {
+      transaction.ackResponse(message); // See InviteClientTransaction for details.
+    }
     this.signalingStateTransition(message);
     return { message };
   }
@@ -371,7 +383,7 @@ export class SessionDialog extends Dialog implements Session {
       throw new Error("Dialog not confirmed.");
     }
     const message = this.createOutgoingRequestMessage(C.MESSAGE, options);
-    return new MessageUserAgentClient(this.core, message, delegate);
+    return new MessageUserAgentClient(this.core, message, delegate, this);
   }
 
   /**
@@ -420,6 +432,32 @@ export class SessionDialog extends Dialog implements Session {
     return new ReferUserAgentClient(this, delegate, options);
   }
 
+  /**
+   * The UPDATE request may be sent within an early or confirmed dialog. It
+   * allows a client to update parameters of a session (such as the set of
+   * media streams and their codecs) but has no impact on the state of a
+   * dialog.  In that sense, it is like a re-INVITE, but unlike re-INVITE,
+   * it can be sent before the initial INVITE has been completed.
+   * https://tools.ietf.org/html/rfc3311#section-5.1
+   * @param options - Options bucket.
+   */
+  public update(delegate?: OutgoingRequestDelegate, options?: RequestOptions): OutgoingUpdateRequest {
+    this.logger.log(`INVITE dialog ${this.id} sending UPDATE request`);
+    // A UAC MUST NOT send an UPDATE with an offer if it has not yet received
+    // an answer to an offer it sent, or if it has received an offer it has
+    // not yet answered.
+    // https://tools.ietf.org/html/rfc3311#section-5.1
+    if (
+      options &&
+      options.body &&
+      (this.signalingState === SignalingState.HaveLocalOffer || this.signalingState === SignalingState.HaveRemoteOffer)
+    ) {
+      // FIXME: TODO: This should throw a proper exception.
+      throw new Error("There is an offer/answer exchange in progress.");
+    }
+    return new UpdateUserAgentClient(this, delegate, options);
+  }
+
   /**
    * Requests sent within a dialog, as any other requests, are atomic.  If
    * a particular request is accepted by the UAS, all the state changes
@@ -585,6 +623,31 @@ export class SessionDialog extends Dialog implements Session {
       }
     }
 
+    // Handle UPDATE offer glare.
+    if (message.method === C.UPDATE) {
+      const body = getBody(message);
+      if (body && body.contentDisposition === "session") {
+        // If an UPDATE is received that contains an offer, and the UAS has
+        // generated an offer (in an UPDATE, PRACK or INVITE) to which it has
+        // not yet received an answer, the UAS MUST reject the UPDATE with a 491
+        // response.  Similarly, if an UPDATE is received that contains an
+        // offer, and the UAS has received an offer (in an UPDATE, PRACK, or
+        // INVITE) to which it has not yet generated an answer, the UAS MUST
+        // reject the UPDATE with a 500 response, and MUST include a Retry-After
+        // header field with a randomly chosen value between 0 and 10 seconds.
+        // https://tools.ietf.org/html/rfc3311#section-5.2
+        if (this.signalingState === SignalingState.HaveLocalOffer) {
+          this.core.replyStateless(message, { statusCode: 491 });
+          return;
+        }
+        if (this.signalingState === SignalingState.HaveRemoteOffer) {
+          const retryAfter = Math.floor(Math.random() * 10) + 1;
+          this.core.replyStateless(message, { statusCode: 500, extraHeaders: [`Retry-After: ${retryAfter}`] });
+          return;
+        }
+      }
+    }
+
     // Requests within a dialog MAY contain Record-Route and Contact header
     // fields.  However, these requests do not cause the dialog's route set
     // to be modified, although they may modify the remote target URI.
@@ -602,8 +665,9 @@ export class SessionDialog extends Dialog implements Session {
     // latter would introduce severe backwards compatibility problems with
     // RFC 2543-compliant systems.
     // https://tools.ietf.org/html/rfc3261#section-15
-    if (message.method === C.INVITE) {
-      // FIXME: parser needs to be typed...
+    // UPDATE is a target refresh request.
+    // https://tools.ietf.org/html/rfc3311#section-5.2
+    if (message.method === C.INVITE || message.method === C.UPDATE) {
       const contact = message.parseHeader("contact");
       if (!contact) {
         // TODO: Review to make sure this will never happen
@@ -692,6 +756,17 @@ export class SessionDialog extends Dialog implements Session {
           this.delegate && this.delegate.onRefer ? this.delegate.onRefer(uas) : uas.reject();
         }
         break;
+      case C.UPDATE:
+        // If the UAS cannot change the session parameters without prompting
+        // the user, it SHOULD reject the request with a 504 response.  If the
+        // new session description is not acceptable, the UAS can reject it by
+        // returning a 488 (Not Acceptable Here) response for the UPDATE.
+        // https://tools.ietf.org/html/rfc3311#section-5.2
+        {
+          const uas = new UpdateUserAgentServer(this, message);
+          this.delegate && this.delegate.onUpdate ? this.delegate.onUpdate(uas) : uas.reject({ statusCode: 488 });
+        }
+        break;
       default:
         {
           this.logger.log(`INVITE dialog ${this.id} received unimplemented ${message.method} request`);
@@ -1,6 +1,7 @@
 import { NameAddrHeader } from "../../grammar/name-addr-header.js";
 import { Logger } from "../log/logger.js";
 import { C } from "../messages/methods/constants.js";
+import { getExtraHeaders } from "../messages/headers.js";
 import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
 import { OutgoingRequestMessage } from "../messages/outgoing-request-message.js";
 import { OutgoingSubscribeRequest } from "../messages/methods/subscribe.js";
@@ -286,7 +287,7 @@ export class SubscriptionDialog extends Dialog implements Subscription {
   public refresh(): OutgoingSubscribeRequest {
     const allowHeader = "Allow: " + AllowedMethods.toString();
     const options: RequestOptions = {};
-    options.extraHeaders = (options.extraHeaders || []).slice();
+    options.extraHeaders = getExtraHeaders(options.extraHeaders);
     options.extraHeaders.push(allowHeader);
     options.extraHeaders.push("Event: " + this.subscriptionEvent);
     options.extraHeaders.push("Expires: " + this.subscriptionExpiresInitial);
@@ -317,7 +318,7 @@ export class SubscriptionDialog extends Dialog implements Subscription {
       clearTimeout(this.N);
       this.N = undefined;
     }
-    if (!options.extraHeaders?.includes("Expires: 0")) {
+    if (!getExtraHeaders(options.extraHeaders).includes("Expires: 0")) {
       // When refreshing a subscription, a subscriber starts Timer N, set to
       // 64*T1, when it sends the SUBSCRIBE request.
       // https://tools.ietf.org/html/rfc6665#section-4.1.2.2
@@ -344,7 +345,7 @@ export class SubscriptionDialog extends Dialog implements Subscription {
    */
   public unsubscribe(options: RequestOptions = {}): OutgoingSubscribeRequest {
     const allowHeader = "Allow: " + AllowedMethods.toString();
-    options.extraHeaders = (options.extraHeaders || []).slice();
+    options.extraHeaders = getExtraHeaders(options.extraHeaders);
     options.extraHeaders.push(allowHeader);
     options.extraHeaders.push("Event: " + this.subscriptionEvent);
     options.extraHeaders.push("Expires: 0");
@@ -362,7 +363,7 @@ export class SubscriptionDialog extends Dialog implements Subscription {
     // header field of the NOTIFY request is not supported, the subscriber
     // will respond with a 489 (Bad Event) response.
     // https://tools.ietf.org/html/rfc6665#section-4.1.3
-    const event: string = message.parseHeader("Event").event;
+    const event = message.parseHeader("Event")?.event;
     if (!event || event !== this.subscriptionEvent) {
       this.core.replyStateless(message, { statusCode: 489 });
       return;
@@ -386,7 +387,7 @@ export class SubscriptionDialog extends Dialog implements Subscription {
       this.core.replyStateless(message, { statusCode: 489 });
       return;
     }
-    const state: "pending" | "active" | "terminated" = subscriptionState.state;
+    const state = subscriptionState.state;
     const expires = subscriptionState.expires ? Math.max(subscriptionState.expires, 0) : undefined;
 
     // Update our state and expiration.
@@ -4,8 +4,10 @@
  */
 
 // Directories
+export * from "./capture/index.js";
 export * from "./dialogs/index.js";
 export * from "./exceptions/index.js";
+export * from "./locator/index.js";
 export * from "./log/index.js";
 export * from "./messages/index.js";
 export * from "./session/index.js";
@@ -0,0 +1,3 @@
+export * from "./locator-target.js";
+export * from "./locator.js";
+export * from "./resolver.js";
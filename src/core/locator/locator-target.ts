@@ -0,0 +1,29 @@
+/**
+ * A server located by the {@link Locator}.
+ * @public
+ */
+export interface LocatorTarget {
+  /**
+   * Transport protocol.
+   *
+   * @remarks
+   * Formatted as defined for the Via header sent-protocol transport ("UDP", "TCP", "TLS", "WS" or "WSS").
+   * https://tools.ietf.org/html/rfc3261#section-20.42
+   */
+  transport: string;
+
+  /**
+   * Host name of the server (the SRV record target or the host of the URI).
+   */
+  host: string;
+
+  /**
+   * IP address of the server.
+   */
+  address: string;
+
+  /**
+   * Port of the server.
+   */
+  port: number;
+}
@@ -0,0 +1,285 @@
+import { URI } from "../../grammar/uri.js";
+import { Logger } from "../log/logger.js";
+import { LocatorTarget } from "./locator-target.js";
+import { Resolver, SrvRecord } from "./resolver.js";
+
+/**
+ * NAPTR services and the corresponding transports.
+ * https://tools.ietf.org/html/rfc3263#section-4.1
+ * https://tools.ietf.org/html/rfc7118#section-9
+ */
+const naptrServices: { [service: string]: string } = {
+  "SIP+D2U": "UDP",
+  "SIP+D2T": "TCP",
+  "SIPS+D2T": "TLS",
+  "SIP+D2W": "WS",
+  "SIPS+D2W": "WSS"
+};
+
+/**
+ * SRV service and protocol labels of the transports.
+ * https://tools.ietf.org/html/rfc3263#section-4.1
+ */
+const srvPrefixes: { [transport: string]: string } = {
+  UDP: "_sip._udp.",
+  TCP: "_sip._tcp.",
+  TLS: "_sips._tcp."
+};
+
+/**
+ * Default ports of the transports.
+ */
+const defaultPorts: { [transport: string]: number } = {
+  UDP: 5060,
+  TCP: 5060,
+  TLS: 5061,
+  WS: 80,
+  WSS: 443
+};
+
+/**
+ * Transports which may be used to reach a SIPS URI.
+ */
+const secureTransports = ["TLS", "WSS"];
+
+/**
+ * Order records by priority, ordering records with the same priority by weighted random selection.
+ * @remarks
+ * A client MUST attempt to contact the target host with the lowest-numbered priority it can
+ * reach; target hosts with the same priority SHOULD be tried in an order defined by the weight field.
+ * https://tools.ietf.org/html/rfc2782
+ * @param records - Records to order.
+ * @public
+ */
+export function orderByPriorityAndWeight<T extends { priority: number; weight: number }>(records: Array<T>): Array<T> {
+  const ordered: Array<T> = [];
+  const priorities = records
+    .map((record) => record.priority)
+    .filter((priority, index, array) => array.indexOf(priority) === index)
+    .sort((a, b) => a - b);
+  for (const priority of priorities) {
+    const group = records.filter((record) => record.priority === priority);
+    while (group.length > 0) {
+      const total = group.reduce((sum, record) => sum + record.weight, 0);
+      let random = Math.random() * total;
+      const index = group.findIndex((record) => (random -= record.weight) < 0);
+      ordered.push(...group.splice(index === -1 ? 0 : index, 1));
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Locating SIP Servers (RFC 3263).
+ *
+ * @remarks
+ * Turns a SIP or SIPS URI into an ordered list of targets (transport, IP address and port)
+ * to try in turn using the DNS NAPTR, SRV, A and AAAA records provided by a {@link Resolver}.
+ * https://tools.ietf.org/html/rfc3263#section-4
+ * @public
+ */
+export class Locator {
+  /** Transports supported by default, in order of preference. */
+  public static readonly defaultTransports = ["UDP", "TCP", "TLS"];
+
+  private resolver: Resolver;
+  private logger: Logger;
+
+  /**
+   * Constructor.
+   * @param resolver - DNS resolver.
+   * @param logger - Logger.
+   */
+  constructor(resolver: Resolver, logger: Logger) {
+    this.resolver = resolver;
+    this.logger = logger;
+  }
+
+  /**
+   * Locate the servers to which a request targeting a URI should be sent.
+   * @remarks
+   * Resolves with the targets in the order in which they should be tried,
+   * an empty array if there are none. Never rejects.
+   * @param uri - SIP or SIPS URI (the Request-URI or the URI of an outbound proxy).
+   * @param transports - Transports supported by the client, in order of preference.
+   */
+  public locate(uri: URI, transports: Array<string> = Locator.defaultTransports): Promise<Array<LocatorTarget>> {
+    const secure = uri.scheme === "sips";
+    const target = String(uri.getParam("maddr") || uri.host).replace(/^\[|\]$/g, "");
+    const supported = transports
+      .map((transport) => transport.toUpperCase())
+      .filter((transport) => !secure || secureTransports.includes(transport));
+    if (supported.length === 0) {
+      this.logger.warn(`No supported transport for ${uri.toString()}`);
+      return Promise.resolve([]);
+    }
+
+    // If the URI specifies a transport protocol in the transport parameter,
+    // that transport protocol SHOULD be used. Otherwise, if no transport protocol
+    // is specified, but the TARGET is a numeric IP address, the client SHOULD use
+    // UDP for a SIP URI, and TCP for a SIPS URI. Similarly, if no transport protocol
+    // is specified, and the TARGET is not numeric, but an explicit port is provided,
+    // the client SHOULD use UDP for a SIP URI, and TCP for a SIPS URI.
+    // https://tools.ietf.org/html/rfc3263#section-4.1
+    let transport: string | undefined;
+    const transportParam = uri.getParam("transport");
+    if (transportParam) {
+      transport = transportParam.toUpperCase();
+      if (secure && transport === "TCP") {
+        transport = "TLS";
+      }
+      if (secure && transport === "WS") {
+        transport = "WSS";
+      }
+    } else if (Locator.isIP(target) || uri.port) {
+      transport = Locator.defaultTransport(secure, supported);
+    }
+    if (transport && !supported.includes(transport)) {
+      this.logger.warn(`Transport ${transport} of ${uri.toString()} is not supported`);
+      return Promise.resolve([]);
+    }
+
+    // If TARGET is a numeric IP address, the client uses that address. If the
+    // URI also contains a port, it uses that port. If no port is specified, it
+    // uses the default port for the particular transport protocol.
+    // https://tools.ietf.org/html/rfc3263#section-4.2
+    if (Locator.isIP(target)) {
+      const t = transport || Locator.defaultTransport(secure, supported);
+      return Promise.resolve([{ transport: t, host: target, address: target, port: uri.port || defaultPorts[t] }]);
+    }
+
+    // If the TARGET was not a numeric IP address, but a port is present in
+    // the URI, the client performs an A or AAAA record lookup of the domain name.
+    // https://tools.ietf.org/html/rfc3263#section-4.2
+    if (transport && uri.port) {
+      return this.resolveAddresses(target, transport, uri.port);
+    }
+
+    // If the TARGET was not a numeric IP address, and no port was present
+    // in the URI, the client performs an SRV query on the record returned from
+    // the NAPTR processing of Section 4.1, if such processing was performed.
+    // If it was not, because a transport was specified explicitly, the client
+    // performs an SRV query for that specific transport. If no SRV records
+    // were found, the client performs an A or AAAA record lookup of the domain name.
+    // https://tools.ietf.org/html/rfc3263#section-4.2
+    if (transport) {
+      const t = transport;
+      if (!srvPrefixes[t]) {
+        return this.resolveAddresses(target, t, defaultPorts[t]);
+      }
+      const name = srvPrefixes[t] + target;
+      return this.query("SRV", name, () => this.resolver.resolveSrv(name)).then((records) =>
+        records.length > 0 ? this.resolveSrvRecords(records, t) : this.resolveAddresses(target, t, defaultPorts[t])
+      );
+    }
+
+    // If no transport protocol is specified, and the TARGET is not numeric,
+    // and no port is provided, the client SHOULD perform a NAPTR query for the
+    // domain in the URI. If no NAPTR records are found, the client constructs
+    // SRV queries for those transport protocols it supports. If no SRV records
+    // were found, the client SHOULD use TCP for a SIPS URI, and UDP for a SIP URI.
+    // https://tools.ietf.org/html/rfc3263#section-4.1
+    return this.resolveNaptr(target, supported)
+      .then((targets) => (targets.length > 0 ? targets : this.resolveSrvs(target, supported)))
+      .then((targets) => {
+        if (targets.length > 0) {
+          return targets;
+        }
+        const t = Locator.defaultTransport(secure, supported);
+        return this.resolveAddresses(target, t, defaultPorts[t]);
+      });
+  }
+
+  private static defaultTransport(secure: boolean, supported: Array<string>): string {
+    const transport = secure ? "TLS" : "UDP";
+    return supported.includes(transport) ? transport : supported[0];
+  }
+
+  private static isIP(host: string): boolean {
+    return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
+  }
+
+  private static flatten(targets: Array<Array<LocatorTarget>>): Array<LocatorTarget> {
+    return ([] as Array<LocatorTarget>).concat(...targets);
+  }
+
+  /**
+   * Resolve targets using the NAPTR records of a domain name.
+   * @remarks
+   * Records with services not supported are discarded, the rest are processed in order.
+   * https://tools.ietf.org/html/rfc3263#section-4.1
+   * @param name - Domain name.
+   * @param transports - Transports supported.
+   */
+  private resolveNaptr(name: string, transports: Array<string>): Promise<Array<LocatorTarget>> {
+    return this.query("NAPTR", name, () => this.resolver.resolveNaptr(name)).then((records) => {
+      const usable = records
+        .filter((record) => record.flags.toLowerCase() === "s")
+        .filter((record) => transports.includes(naptrServices[record.service.toUpperCase()]))
+        .sort((a, b) => a.order - b.order || a.preference - b.preference);
+      return Promise.all(
+        usable.map((record) => this.resolveSrv(record.replacement, naptrServices[record.service.toUpperCase()]))
+      ).then((targets) => Locator.flatten(targets));
+    });
+  }
+
+  /**
+   * Resolve targets using the SRV records of a domain name for each of the transports.
+   * @param name - Domain name.
+   * @param transports - Transports supported, in order of preference.
+   */
+  private resolveSrvs(name: string, transports: Array<string>): Promise<Array<LocatorTarget>> {
+    return Promise.all(
+      transports
+        .filter((transport) => srvPrefixes[transport])
+        .map((transport) => this.resolveSrv(srvPrefixes[transport] + name, transport))
+    ).then((targets) => Locator.flatten(targets));
+  }
+
+  /**
+   * Resolve targets using the SRV records of a service.
+   * @remarks
+   * https://tools.ietf.org/html/rfc2782
+   * @param name - Service domain name. For example "_sip._udp.example.com".
+   * @param transport - Transport of the service.
+   */
+  private resolveSrv(name: string, transport: string): Promise<Array<LocatorTarget>> {
+    return this.query("SRV", name, () => this.resolver.resolveSrv(name)).then((records) =>
+      this.resolveSrvRecords(records, transport)
+    );
+  }
+
+  /**
+   * Resolve targets using SRV records.
+   * @param records - SRV records.
+   * @param transport - Transport of the service.
+   */
+  private resolveSrvRecords(records: Array<SrvRecord>, transport: string): Promise<Array<LocatorTarget>> {
+    return Promise.all(
+      orderByPriorityAndWeight(records)
+        // A target of "." means that the service is decidedly not available at this domain.
+        .filter((record) => record.name !== "." && record.name !== "")
+        .map((record) => this.resolveAddresses(record.name, transport, record.port))
+    ).then((targets) => Locator.flatten(targets));
+  }
+
+  /**
+   * Resolve targets using the A and AAAA records of a domain name.
+   * @param name - Domain name.
+   * @param transport - Transport.
+   * @param port - Port.
+   */
+  private resolveAddresses(name: string, transport: string, port: number): Promise<Array<LocatorTarget>> {
+    return this.query("address", name, () => this.resolver.resolveAddresses(name)).then((addresses) =>
+      addresses.map((address) => ({ transport, host: name, address, port }))
+    );
+  }
+
+  private query<T>(type: string, name: string, query: () => Promise<Array<T>>): Promise<Array<T>> {
+    this.logger.debug(`Resolving ${type} records of ${name}`);
+    return query().catch((error: Error) => {
+      this.logger.debug(`Failed to resolve ${type} records of ${name}: ${error.message}`);
+      return [];
+    });
+  }
+}
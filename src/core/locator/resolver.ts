@@ -0,0 +1,65 @@
+/**
+ * A DNS NAPTR record.
+ * https://tools.ietf.org/html/rfc3403#section-4.1
+ * @public
+ */
+export interface NaptrRecord {
+  /** Order in which the records MUST be processed, lowest first. */
+  order: number;
+  /** Order in which records with equal order SHOULD be processed, lowest first. */
+  preference: number;
+  /** Flags. The flag "s" indicates the replacement is the domain name of SRV records. */
+  flags: string;
+  /** Service. For example "SIP+D2T". */
+  service: string;
+  /** Substitution expression. Not used by SIP. */
+  regexp: string;
+  /** The next domain name to query. */
+  replacement: string;
+}
+
+/**
+ * A DNS SRV record.
+ * https://tools.ietf.org/html/rfc2782
+ * @public
+ */
+export interface SrvRecord {
+  /** Priority of the target host, lowest first. */
+  priority: number;
+  /** Relative weight for records with the same priority. */
+  weight: number;
+  /** Port on the target host. */
+  port: number;
+  /** Domain name of the target host. */
+  name: string;
+}
+
+/**
+ * DNS resolver used to locate SIP servers.
+ *
+ * @remarks
+ * The record types mirror those of the Node.js `dns` module so an implementation may
+ * simply delegate to it. An in-memory table is handy for testing. An implementation
+ * should resolve with an empty array if the domain name has no records of the type requested.
+ * A rejection is treated as if the domain name has no records of the type requested.
+ * @public
+ */
+export interface Resolver {
+  /**
+   * Resolve the NAPTR records of a domain name.
+   * @param name - Domain name.
+   */
+  resolveNaptr(name: string): Promise<Array<NaptrRecord>>;
+
+  /**
+   * Resolve the SRV records of a domain name.
+   * @param name - Domain name.
+   */
+  resolveSrv(name: string): Promise<Array<SrvRecord>>;
+
+  /**
+   * Resolve the IPv4 and IPv6 addresses (A and AAAA records) of a domain name.
+   * @param name - Domain name.
+   */
+  resolveAddresses(name: string): Promise<Array<string>>;
+}
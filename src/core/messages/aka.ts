@@ -0,0 +1,181 @@
+import { aes128Encrypt } from "./aes.js";
+
+/**
+ * The result of a successful AKA authentication of the network.
+ * @public
+ */
+export interface AkaResponse {
+  /** Response RES. */
+  res: Uint8Array;
+  /** Cipher key CK. */
+  ck: Uint8Array;
+  /** Integrity key IK. */
+  ik: Uint8Array;
+}
+
+/**
+ * The result of an AKA authentication of the network which failed as its sequence number was not fresh.
+ * @public
+ */
+export interface AkaSynchronizationFailure {
+  /** Resynchronization token AUTS, sent to the network so that it can resynchronize. */
+  auts: Uint8Array;
+}
+
+/**
+ * The USIM, which runs the AKA algorithms given the RAND and AUTN received in a nonce.
+ * https://tools.ietf.org/html/rfc3310#section-3.1
+ * @public
+ */
+export interface AkaUsim {
+  /**
+   * Authenticate the network.
+   * @param rand - The 16 byte random challenge RAND.
+   * @param autn - The 16 byte network authentication token AUTN.
+   * @returns RES, CK and IK if the network is authenticated, AUTS if the sequence number
+   * is not fresh, or undefined if the network is not authenticated.
+   */
+  authenticate(rand: Uint8Array, autn: Uint8Array): AkaResponse | AkaSynchronizationFailure | undefined;
+}
+
+/**
+ * Options for {@link MilenageUsim}.
+ * @public
+ */
+export interface MilenageUsimOptions {
+  /** Subscriber key K, as 32 hex digits. */
+  k: string;
+  /** Operator variant algorithm configuration field OP, as 32 hex digits. Either OP or OPc is required. */
+  op?: string;
+  /** OPc, derived from OP and K, as 32 hex digits. */
+  opc?: string;
+  /**
+   * The highest sequence number accepted so far.
+   * @defaultValue `0`
+   */
+  sqn?: number;
+}
+
+function parseHex(hex: string, length: number, name: string): Uint8Array {
+  if (!new RegExp(`^[0-9a-fA-F]{${length * 2}}$`).test(hex)) {
+    throw new TypeError(`Milenage ${name} must be ${length * 2} hex digits.`);
+  }
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function xor(a: Uint8Array, b: Uint8Array): Uint8Array {
+  return a.map((byte, i) => byte ^ b[i]);
+}
+
+function sqnToBytes(sqn: number): Uint8Array {
+  const bytes = new Uint8Array(6);
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = sqn % 256;
+    sqn = Math.floor(sqn / 256);
+  }
+  return bytes;
+}
+
+function sqnFromBytes(bytes: Uint8Array): number {
+  return bytes.reduce((sqn, byte) => sqn * 256 + byte, 0);
+}
+
+/**
+ * A software USIM, implementing the Milenage algorithm set.
+ * @remarks
+ * The sequence number check is simplified: a sequence number is fresh if it is higher
+ * than the highest accepted so far.
+ * https://www.3gpp.org/ftp/Specs/archive/35_series/35.206/
+ * @public
+ */
+export class MilenageUsim implements AkaUsim {
+  /** The highest sequence number accepted so far. */
+  public sqn: number;
+
+  private k: Uint8Array;
+  private opc: Uint8Array;
+
+  /**
+   * Constructor.
+   * @param options - Options bucket.
+   */
+  constructor(options: MilenageUsimOptions) {
+    this.k = parseHex(options.k, 16, "K");
+    if (options.opc) {
+      this.opc = parseHex(options.opc, 16, "OPc");
+    } else if (options.op) {
+      const op = parseHex(options.op, 16, "OP");
+      this.opc = xor(aes128Encrypt(this.k, op), op);
+    } else {
+      throw new TypeError("Milenage requires OP or OPc.");
+    }
+    this.sqn = options.sqn || 0;
+  }
+
+  /**
+   * Authenticate the network.
+   * https://www.3gpp.org/ftp/Specs/archive/33_series/33.102/ section 6.3.3
+   * @param rand - The 16 byte random challenge RAND.
+   * @param autn - The 16 byte network authentication token AUTN = SQN ⊕ AK || AMF || MAC.
+   */
+  public authenticate(rand: Uint8Array, autn: Uint8Array): AkaResponse | AkaSynchronizationFailure | undefined {
+    const temp = aes128Encrypt(this.k, xor(rand, this.opc));
+    const sqn = xor(autn.slice(0, 6), this.f2345(temp, 0, 1).slice(0, 6));
+    const amf = autn.slice(6, 8);
+    const mac = this.f1(temp, sqn, amf).slice(0, 8);
+    if (mac.some((byte, i) => byte !== autn[8 + i])) {
+      return undefined;
+    }
+
+    // The resynchronization token is the concealed SQN_MS and MAC-S, calculated with a dummy AMF.
+    // https://www.3gpp.org/ftp/Specs/archive/33_series/33.102/ section 6.3.3
+    if (sqnFromBytes(sqn) <= this.sqn) {
+      const sqnMs = sqnToBytes(this.sqn);
+      const auts = new Uint8Array(14);
+      auts.set(xor(sqnMs, this.f2345(temp, 12, 8).slice(0, 6)));
+      auts.set(this.f1(temp, sqnMs, new Uint8Array(2)).slice(8, 16), 6);
+      return { auts };
+    }
+    this.sqn = sqnFromBytes(sqn);
+
+    const out2 = this.f2345(temp, 0, 1);
+    return {
+      res: out2.slice(8, 16),
+      ck: this.f2345(temp, 4, 2),
+      ik: this.f2345(temp, 8, 4)
+    };
+  }
+
+  /**
+   * Calculate OUT1, of which MAC-A is f1 and MAC-S is f1*.
+   */
+  private f1(temp: Uint8Array, sqn: Uint8Array, amf: Uint8Array): Uint8Array {
+    const in1 = new Uint8Array(16);
+    in1.set(sqn);
+    in1.set(amf, 6);
+    in1.set(sqn, 8);
+    in1.set(amf, 14);
+    // Rotate IN1 ⊕ OPc by r1 = 64 bits, c1 = 0.
+    const rotated = this.rotate(xor(in1, this.opc), 8);
+    return xor(aes128Encrypt(this.k, xor(temp, rotated)), this.opc);
+  }
+
+  /**
+   * Calculate OUT2 to OUT5, from which f2 to f5* are taken.
+   * @param rotation - The rotation r, in bytes.
+   * @param constant - The last byte of the constant c.
+   */
+  private f2345(temp: Uint8Array, rotation: number, constant: number): Uint8Array {
+    const rotated = this.rotate(xor(temp, this.opc), rotation);
+    rotated[15] ^= constant;
+    return xor(aes128Encrypt(this.k, rotated), this.opc);
+  }
+
+  private rotate(x: Uint8Array, bytes: number): Uint8Array {
+    return x.map((_, i) => x[(i + bytes) % 16]);
+  }
+}
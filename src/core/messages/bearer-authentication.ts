@@ -0,0 +1,65 @@
+import { ParsedChallenge } from "../../grammar/grammar-types.js";
+import { Logger } from "../log/logger.js";
+import { LoggerFactory } from "../log/logger-factory.js";
+import { OutgoingRequestMessage } from "./outgoing-request-message.js";
+
+/**
+ * Bearer Authentication.
+ * https://tools.ietf.org/html/rfc8898
+ * @internal
+ */
+export class BearerAuthentication {
+  private logger: Logger;
+  private token: string;
+
+  /**
+   * Constructor.
+   * @param loggerFactory - LoggerFactory.
+   * @param token - Access token.
+   */
+  constructor(loggerFactory: LoggerFactory, token: string) {
+    this.logger = loggerFactory.getLogger("sipjs.bearerauthentication");
+    this.token = token;
+  }
+
+  /**
+   * Choose the challenge to authenticate, if there is more than one.
+   * @param challenges - The challenges received in a response.
+   * @returns The first Bearer challenge, or undefined if there is none.
+   */
+  public selectChallenge(challenges: Array<ParsedChallenge>): ParsedChallenge | undefined {
+    return challenges.find((challenge) => isBearer(challenge));
+  }
+
+  /**
+   * Performs Bearer authentication given a SIP request and the challenge
+   * received in a response to that request.
+   * @param request - The request to authenticate.
+   * @param challenge - The challenge received.
+   * @returns true if credentials were successfully generated, false otherwise.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  public authenticate(request: OutgoingRequestMessage, challenge: ParsedChallenge): boolean {
+    if (!isBearer(challenge)) {
+      this.logger.warn(`challenge with scheme '${challenge.scheme}' is not Bearer, authentication aborted`);
+      return false;
+    }
+    if (!this.token) {
+      this.logger.warn("no Bearer token, authentication aborted");
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Return the Proxy-Authorization or Authorization header value.
+   * https://tools.ietf.org/html/rfc8898#section-2.4
+   */
+  public toString(): string {
+    return "Bearer " + this.token;
+  }
+}
+
+function isBearer(challenge: ParsedChallenge): boolean {
+  return !!challenge.scheme && challenge.scheme.toLowerCase() === "bearer";
+}
@@ -1,5 +1,6 @@
 import { IncomingRequestMessage } from "./incoming-request-message.js";
 import { IncomingResponseMessage } from "./incoming-response-message.js";
+import { parseMultipartBody } from "./multipart-body.js";
 import { OutgoingRequestMessage } from "./outgoing-request-message.js";
 
 // If the Content-Disposition header field is missing, bodies of
@@ -87,6 +88,8 @@ export function isBody(body: any): body is Body {
 /**
  * Given a message, get a normalized body.
  * The content disposition is inferred if not set.
+ * If the body is a multipart body with a session description body part,
+ * the session description body part is returned.
  * @param message - The message.
  * @internal
  */
@@ -100,7 +103,6 @@ export function getBody(
   // We're in UAS role, receiving incoming request
   if (message instanceof IncomingRequestMessage) {
     if (message.body) {
-      // FIXME: Parsing needs typing
       const parse = message.parseHeader("Content-Disposition");
       contentDisposition = parse ? parse.type : undefined;
       contentType = message.parseHeader("Content-Type");
@@ -111,7 +113,6 @@ export function getBody(
   // We're in UAC role, receiving incoming response
   if (message instanceof IncomingResponseMessage) {
     if (message.body) {
-      // FIXME: Parsing needs typing
       const parse = message.parseHeader("Content-Disposition");
       contentDisposition = parse ? parse.type : undefined;
       contentType = message.parseHeader("Content-Type");
@@ -163,6 +164,25 @@ export function getBody(
     throw new Error("Content type undefined.");
   }
 
+  // A multipart body carrying a session description along with other body parts,
+  // such as location information in an emergency call, is handled as the session description.
+  // https://tools.ietf.org/html/rfc5621#section-3.1
+  const multipart = parseMultipartBody({ contentType, content });
+  if (multipart) {
+    for (const part of multipart.parts) {
+      const partDisposition = part.contentDisposition
+        ? part.contentDisposition.split(";")[0].trim().toLowerCase()
+        : contentTypeToContentDisposition(part.contentType);
+      if (partDisposition === "session") {
+        return {
+          contentDisposition: partDisposition,
+          contentType: part.contentType,
+          content: part.content
+        };
+      }
+    }
+  }
+
   return {
     contentDisposition,
     contentType,
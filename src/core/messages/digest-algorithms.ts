@@ -0,0 +1,179 @@
+import { Md5 } from "./md5.js";
+import { sha256, sha512_256 } from "./sha2.js";
+
+export function MD5(s: string): string {
+  return Md5.hashStr(s);
+}
+
+/**
+ * A Digest algorithm.
+ */
+export interface DigestAlgorithm {
+  /** Name as sent in credentials. */
+  name: string;
+  /** Hash function. */
+  hash: (s: string) => string;
+  /** True if a session variant, which hashes the nonce and cnonce into HA1. */
+  session: boolean;
+  /** Relative strength, used to choose between challenges. */
+  strength: number;
+  /** AKA version, if the password is derived from the nonce by a USIM. */
+  aka?: 1 | 2;
+}
+
+/**
+ * Supported Digest algorithms, keyed by name in uppercase.
+ * https://tools.ietf.org/html/rfc7616#section-3.3
+ * https://tools.ietf.org/html/rfc8760#section-2.2
+ * https://tools.ietf.org/html/rfc3310#section-3
+ * https://tools.ietf.org/html/rfc4169#section-4
+ */
+export const DIGEST_ALGORITHMS: { [name: string]: DigestAlgorithm } = {
+  MD5: { name: "MD5", hash: MD5, session: false, strength: 1 },
+  "MD5-SESS": { name: "MD5-sess", hash: MD5, session: true, strength: 1 },
+  "SHA-256": { name: "SHA-256", hash: sha256, session: false, strength: 2 },
+  "SHA-256-SESS": { name: "SHA-256-sess", hash: sha256, session: true, strength: 2 },
+  "SHA-512-256": { name: "SHA-512-256", hash: sha512_256, session: false, strength: 3 },
+  "SHA-512-256-SESS": { name: "SHA-512-256-sess", hash: sha512_256, session: true, strength: 3 },
+  "AKAV1-MD5": { name: "AKAv1-MD5", hash: MD5, session: false, strength: 1, aka: 1 },
+  "AKAV2-MD5": { name: "AKAv2-MD5", hash: MD5, session: false, strength: 1, aka: 2 }
+};
+
+/**
+ * The values a Digest response is calculated from.
+ */
+export interface DigestResponseParameters {
+  /** HA1 = H(username:realm:password). */
+  ha1: string;
+  nonce: string;
+  cnonce?: string;
+  /** Nonce count, as 8 hex digits. */
+  nc?: string;
+  qop?: string;
+  method: string;
+  uri: string;
+  body?: string;
+}
+
+/**
+ * Calculate a Digest "response" value.
+ * https://tools.ietf.org/html/rfc7616#section-3.4.1
+ * @param algorithm - The algorithm.
+ * @param params - The values to calculate the response from.
+ */
+export function digestResponse(algorithm: DigestAlgorithm, params: DigestResponseParameters): string {
+  const H = algorithm.hash;
+  let ha1 = params.ha1;
+
+  // For a session variant, HA1 = H(H(username:realm:password):nonce:cnonce)
+  if (algorithm.session) {
+    ha1 = H(ha1 + ":" + params.nonce + ":" + params.cnonce);
+  }
+
+  if (params.qop === "auth-int") {
+    // HA2 = H(A2) = H(method:digestURI:H(entityBody))
+    const ha2 = H(params.method + ":" + params.uri + ":" + H(params.body ? params.body : ""));
+    // response = H(HA1:nonce:nonceCount:credentialsNonce:qop:HA2)
+    return H(ha1 + ":" + params.nonce + ":" + params.nc + ":" + params.cnonce + ":auth-int:" + ha2);
+  }
+
+  // HA2 = H(A2) = H(method:digestURI)
+  const ha2 = H(params.method + ":" + params.uri);
+  if (params.qop === "auth") {
+    // response = H(HA1:nonce:nonceCount:credentialsNonce:qop:HA2)
+    return H(ha1 + ":" + params.nonce + ":" + params.nc + ":" + params.cnonce + ":auth:" + ha2);
+  }
+  // response = H(HA1:nonce:HA2)
+  return H(ha1 + ":" + params.nonce + ":" + ha2);
+}
+
+/**
+ * MD5 of bytes, as a hex string.
+ * @param bytes - The bytes to hash.
+ */
+export function md5Bytes(bytes: Uint8Array): string {
+  return new Md5().start().appendByteArray(bytes).end() as string;
+}
+
+/**
+ * HMAC-MD5 of bytes.
+ * https://tools.ietf.org/html/rfc2104
+ * @param key - The key.
+ * @param data - The data to authenticate.
+ */
+export function hmacMd5(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const blockSize = 64;
+  if (key.length > blockSize) {
+    key = hexToBytes(md5Bytes(key));
+  }
+  const pad = (value: number): Uint8Array => {
+    const padded = new Uint8Array(blockSize).fill(value);
+    key.forEach((byte, i) => (padded[i] ^= byte));
+    return padded;
+  };
+  const inner = hexToBytes(md5Bytes(concatBytes(pad(0x36), data)));
+  return hexToBytes(md5Bytes(concatBytes(pad(0x5c), inner)));
+}
+
+/**
+ * Concatenate byte arrays.
+ */
+export function concatBytes(...arrays: Array<Uint8Array>): Uint8Array {
+  const bytes = new Uint8Array(arrays.reduce((length, array) => length + array.length, 0));
+  let offset = 0;
+  arrays.forEach((array) => {
+    bytes.set(array, offset);
+    offset += array.length;
+  });
+  return bytes;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+/**
+ * Encode bytes as base64.
+ * @param bytes - The bytes to encode.
+ */
+export function base64Encode(bytes: Uint8Array): string {
+  let encoded = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+    encoded += BASE64[n >> 18] + BASE64[(n >> 12) & 63];
+    encoded += i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : "=";
+    encoded += i + 2 < bytes.length ? BASE64[n & 63] : "=";
+  }
+  return encoded;
+}
+
+/**
+ * Decode base64 to bytes.
+ * @param encoded - The base64 to decode.
+ * @returns The bytes, or undefined if not valid base64.
+ */
+export function base64Decode(encoded: string): Uint8Array | undefined {
+  const unpadded = encoded.replace(/=+$/, "");
+  if (!/^[A-Za-z0-9+/]*$/.test(unpadded) || unpadded.length % 4 === 1) {
+    return undefined;
+  }
+  const bytes = new Uint8Array(Math.floor((unpadded.length * 3) / 4));
+  let bits = 0;
+  let value = 0;
+  let offset = 0;
+  for (let i = 0; i < unpadded.length; i++) {
+    value = ((value << 6) | BASE64.indexOf(unpadded[i])) & 0xffff;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (value >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
@@ -1,21 +1,30 @@
-import { Md5 } from "./md5.js";
-
+import { ParsedChallenge } from "../../grammar/grammar-types.js";
 import { URI } from "../../grammar/uri.js";
 import { Logger } from "../log/logger.js";
 import { LoggerFactory } from "../log/logger-factory.js";
+import { AkaUsim } from "./aka.js";
+import {
+  base64Decode,
+  base64Encode,
+  concatBytes,
+  DigestAlgorithm,
+  DIGEST_ALGORITHMS,
+  digestResponse,
+  hmacMd5,
+  MD5,
+  md5Bytes
+} from "./digest-algorithms.js";
 import { OutgoingRequestMessage } from "./outgoing-request-message.js";
 import { createRandomToken } from "./utils.js";
 
-function MD5(s: string): string {
-  return Md5.hashStr(s);
-}
-
 /**
  * Digest Authentication.
  * @internal
  */
 export class DigestAuthentication {
   public stale: boolean | undefined;
+  /** True if the credentials answer an AKA challenge with a synchronization failure. */
+  public synchronizationFailure = false;
 
   private logger: Logger;
   private ha1: string | undefined;
@@ -25,34 +34,69 @@ export class DigestAuthentication {
   private nc: number;
   private ncHex: string;
   private response: string | undefined;
-  private algorithm: string | undefined;
+  private algorithm: DigestAlgorithm | undefined;
   private realm: string | undefined;
   private nonce: string | undefined;
   private opaque: string | undefined;
   private qop: string | undefined;
+  private userhash: boolean | undefined;
   private method: string | undefined;
   private uri: string | URI | undefined;
+  private usim: AkaUsim | undefined;
+  private akaNonce: string | undefined;
+  private akaPassword: Uint8Array | undefined;
+  private auts: string | undefined;
 
   /**
    * Constructor.
    * @param loggerFactory - LoggerFactory.
    * @param username - Username.
    * @param password - Password.
+   * @param usim - USIM, with which AKA challenges are answered.
    */
   constructor(
     loggerFactory: LoggerFactory,
     ha1: string | undefined,
     username: string | undefined,
-    password: string | undefined
+    password: string | undefined,
+    usim?: AkaUsim
   ) {
     this.logger = loggerFactory.getLogger("sipjs.digestauthentication");
     this.username = username;
     this.password = password;
     this.ha1 = ha1;
+    this.usim = usim;
     this.nc = 0;
     this.ncHex = "00000000";
   }
 
+  /**
+   * Choose the challenge to authenticate, if there is more than one.
+   * @remarks
+   * A UAC which receives more than one challenge for the same realm uses
+   * the strongest algorithm it supports. A precomputed HA1 may only be used
+   * with MD5, so challenges using other algorithms are not chosen if there
+   * is no password. AKA challenges are only chosen if there is a USIM.
+   * https://tools.ietf.org/html/rfc8760#section-2.4
+   * @param challenges - The challenges received in a response.
+   * @returns The challenge using the strongest supported algorithm, or undefined if none is supported.
+   */
+  public selectChallenge(challenges: Array<ParsedChallenge>): ParsedChallenge | undefined {
+    let selected: ParsedChallenge | undefined;
+    let strength = 0;
+    challenges.forEach((challenge) => {
+      if (challenge.scheme !== "Digest") {
+        return;
+      }
+      const algorithm = DIGEST_ALGORITHMS[challenge.algorithm || "MD5"];
+      if (algorithm && algorithm.strength > strength && this.supports(algorithm)) {
+        selected = challenge;
+        strength = algorithm.strength;
+      }
+    });
+    return selected;
+  }
+
   /**
    * Performs Digest authentication given a SIP request and the challenge
    * received in a response to that request.
@@ -60,23 +104,32 @@ export class DigestAuthentication {
    * @param challenge -
    * @returns true if credentials were successfully generated, false otherwise.
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  public authenticate(request: OutgoingRequestMessage, challenge: any, body?: string): boolean {
+  public authenticate(request: OutgoingRequestMessage, challenge: ParsedChallenge, body?: string): boolean {
     // Inspect and validate the challenge.
 
-    this.algorithm = challenge.algorithm;
+    if (challenge.scheme !== "Digest") {
+      this.logger.warn(`challenge with scheme '${challenge.scheme}' is not Digest, authentication aborted`);
+      return false;
+    }
+
+    this.algorithm = DIGEST_ALGORITHMS[challenge.algorithm || "MD5"];
     this.realm = challenge.realm;
     this.nonce = challenge.nonce;
     this.opaque = challenge.opaque;
     this.stale = challenge.stale;
+    this.userhash = challenge.userhash;
 
-    if (this.algorithm) {
-      if (this.algorithm !== "MD5") {
-        this.logger.warn("challenge with Digest algorithm different than 'MD5', authentication aborted");
-        return false;
-      }
-    } else {
-      this.algorithm = "MD5";
+    if (!this.algorithm) {
+      this.logger.warn(`challenge with unsupported Digest algorithm '${challenge.algorithm}', authentication aborted`);
+      return false;
+    }
+
+    if (!this.supports(this.algorithm)) {
+      const required = this.algorithm.aka ? "a USIM" : "a password";
+      this.logger.warn(
+        `challenge with Digest algorithm '${this.algorithm.name}' requires ${required}, authentication aborted`
+      );
+      return false;
     }
 
     if (!this.realm) {
@@ -89,6 +142,10 @@ export class DigestAuthentication {
       return false;
     }
 
+    if (this.algorithm.aka && !this.authenticateNetwork(this.algorithm.aka, this.nonce)) {
+      return false;
+    }
+
     // 'qop' can contain a list of values (Array). Let's choose just one.
     if (challenge.qop) {
       if (challenge.qop.indexOf("auth") > -1) {
@@ -134,8 +191,16 @@ export class DigestAuthentication {
       throw new Error("response field does not exist, cannot generate Authorization header");
     }
 
-    authParams.push("algorithm=" + this.algorithm);
-    authParams.push('username="' + this.username + '"');
+    if (!this.algorithm) {
+      throw new Error("algorithm field does not exist, cannot generate Authorization header");
+    }
+
+    // With userhash, the username is hashed with the realm so that it is not sent in the clear.
+    // https://tools.ietf.org/html/rfc7616#section-3.4.4
+    const username = this.userhash ? this.algorithm.hash(this.username + ":" + this.realm) : this.username;
+
+    authParams.push("algorithm=" + this.algorithm.name);
+    authParams.push('username="' + username + '"');
     authParams.push('realm="' + this.realm + '"');
     authParams.push('nonce="' + this.nonce + '"');
     authParams.push('uri="' + this.uri + '"');
@@ -147,6 +212,14 @@ export class DigestAuthentication {
       authParams.push("qop=" + this.qop);
       authParams.push('cnonce="' + this.cnonce + '"');
       authParams.push("nc=" + this.ncHex);
+    } else if (this.algorithm.session) {
+      authParams.push('cnonce="' + this.cnonce + '"');
+    }
+    if (this.userhash) {
+      authParams.push("userhash=true");
+    }
+    if (this.auts) {
+      authParams.push('auts="' + this.auts + '"');
     }
 
     return "Digest " + authParams.join(", ");
@@ -159,33 +232,96 @@ export class DigestAuthentication {
     this.ncHex = "00000000".substr(0, 8 - hex.length) + hex;
   }
 
+  /**
+   * True if credentials may be generated for the algorithm.
+   * @param algorithm - The algorithm.
+   */
+  private supports(algorithm: DigestAlgorithm): boolean {
+    if (algorithm.aka) {
+      return !!this.usim;
+    }
+    return algorithm.hash === MD5 || !this.ha1 || !!this.password;
+  }
+
+  /**
+   * Authenticate the network with the USIM, given the RAND and AUTN in an AKA nonce,
+   * and derive the password from its result.
+   * @remarks
+   * The password is RES with AKAv1, and PRF(RES||IK||CK, "http-digest-akav2-password") with
+   * AKAv2. If the sequence number is not fresh, the password is empty and AUTS is sent for
+   * the network to resynchronize. Credentials answering the same nonce again reuse the password,
+   * as the USIM would find its sequence number is not fresh.
+   * https://tools.ietf.org/html/rfc3310#section-3.4
+   * https://tools.ietf.org/html/rfc4169#section-5
+   * @param version - AKA version.
+   * @param nonce - The nonce, base64(RAND || AUTN || server-specific data).
+   * @returns True if the network was authenticated, or its sequence number was not fresh.
+   */
+  private authenticateNetwork(version: 1 | 2, nonce: string): boolean {
+    if (nonce === this.akaNonce) {
+      return true;
+    }
+    const decoded = base64Decode(nonce);
+    if (!decoded || decoded.length < 32 || !this.usim) {
+      this.logger.warn("challenge with invalid AKA nonce, authentication aborted");
+      return false;
+    }
+    const result = this.usim.authenticate(decoded.slice(0, 16), decoded.slice(16, 32));
+    if (!result) {
+      this.logger.warn("challenge failed to authenticate the network, authentication aborted");
+      return false;
+    }
+    this.akaNonce = nonce;
+    if ("auts" in result) {
+      this.logger.warn("challenge with AKA sequence number out of synchronization, resynchronizing");
+      this.synchronizationFailure = true;
+      this.auts = base64Encode(result.auts);
+      this.akaPassword = new Uint8Array(0);
+      return true;
+    }
+    this.synchronizationFailure = false;
+    this.auts = undefined;
+    if (version === 1) {
+      this.akaPassword = result.res;
+    } else {
+      const password = hmacMd5(
+        concatBytes(result.res, result.ik, result.ck),
+        new TextEncoder().encode("http-digest-akav2-password")
+      );
+      this.akaPassword = new TextEncoder().encode(base64Encode(password));
+    }
+    return true;
+  }
+
   /**
    * Generate Digest 'response' value.
+   * https://tools.ietf.org/html/rfc7616#section-3.4.1
    */
   private calculateResponse(body?: string): void {
-    let ha1, ha2;
-
-    // HA1 = MD5(A1) = MD5(username:realm:password)
-    ha1 = this.ha1;
-    if (ha1 === "" || ha1 === undefined) {
-      ha1 = MD5(this.username + ":" + this.realm + ":" + this.password);
-    }
-
-    if (this.qop === "auth") {
-      // HA2 = MD5(A2) = MD5(method:digestURI)
-      ha2 = MD5(this.method + ":" + this.uri);
-      // response = MD5(HA1:nonce:nonceCount:credentialsNonce:qop:HA2)`
-      this.response = MD5(ha1 + ":" + this.nonce + ":" + this.ncHex + ":" + this.cnonce + ":auth:" + ha2);
-    } else if (this.qop === "auth-int") {
-      // HA2 = MD5(A2) = MD5(method:digestURI:MD5(entityBody))
-      ha2 = MD5(this.method + ":" + this.uri + ":" + MD5(body ? body : ""));
-      // response = MD5(HA1:nonce:nonceCount:credentialsNonce:qop:HA2)
-      this.response = MD5(ha1 + ":" + this.nonce + ":" + this.ncHex + ":" + this.cnonce + ":auth-int:" + ha2);
-    } else if (this.qop === undefined) {
-      // HA2 = MD5(A2) = MD5(method:digestURI)
-      ha2 = MD5(this.method + ":" + this.uri);
-      // response = MD5(HA1:nonce:HA2)
-      this.response = MD5(ha1 + ":" + this.nonce + ":" + ha2);
+    if (!this.algorithm) {
+      throw new Error("algorithm field does not exist, cannot calculate response");
     }
+    const H = this.algorithm.hash;
+
+    // HA1 = H(A1) = H(username:realm:password)
+    let ha1 = this.algorithm.hash === MD5 && !this.algorithm.aka ? this.ha1 : undefined;
+    if (this.algorithm.aka && this.akaPassword) {
+      // The AKA password is bytes, which need not be valid UTF-8.
+      const encoder = new TextEncoder();
+      ha1 = md5Bytes(concatBytes(encoder.encode(this.username + ":" + this.realm + ":"), this.akaPassword));
+    } else if (ha1 === "" || ha1 === undefined) {
+      ha1 = H(this.username + ":" + this.realm + ":" + this.password);
+    }
+
+    this.response = digestResponse(this.algorithm, {
+      ha1,
+      nonce: this.nonce ? this.nonce : "",
+      cnonce: this.cnonce,
+      nc: this.ncHex,
+      qop: this.qop,
+      method: this.method ? this.method : "",
+      uri: this.uri ? this.uri.toString() : "",
+      body
+    });
   }
 }
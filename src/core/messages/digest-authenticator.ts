@@ -0,0 +1,241 @@
+import { ParsedCredentials } from "../../grammar/grammar-types.js";
+import { Grammar } from "../../grammar/grammar.js";
+import { Logger } from "../log/logger.js";
+import { LoggerFactory } from "../log/logger-factory.js";
+import { DIGEST_ALGORITHMS, digestResponse, MD5 } from "./digest-algorithms.js";
+import { IncomingRequestMessage } from "./incoming-request-message.js";
+import { ResponseOptions } from "./outgoing-response.js";
+import { createRandomToken } from "./utils.js";
+
+/**
+ * The secret of a user, as found by a {@link DigestCredentialLookup}.
+ * @public
+ */
+export interface DigestSecret {
+  /** Password. */
+  password?: string;
+  /** Precomputed HA1 = MD5(username:realm:password), used with MD5 only. */
+  ha1?: string;
+}
+
+/**
+ * Function which finds the secret of a user.
+ * @param username - The username of the credentials received.
+ * @param realm - The realm of the credentials received.
+ * @returns The secret of the user, or undefined if the user is unknown.
+ * @public
+ */
+export type DigestCredentialLookup = (username: string, realm: string) => Promise<DigestSecret | undefined>;
+
+/**
+ * Options for {@link DigestAuthenticator}.
+ * @public
+ */
+export interface DigestAuthenticatorOptions {
+  /** Realm of the challenges. */
+  realm: string;
+  /** Function which finds the secret of a user. */
+  credentialLookup: DigestCredentialLookup;
+  /**
+   * Algorithms offered, in order of preference. A challenge is sent for each.
+   * @defaultValue `["SHA-256", "MD5"]`
+   */
+  algorithms?: Array<string>;
+  /**
+   * Seconds a nonce may be used for, after which it is stale.
+   * @defaultValue `300`
+   */
+  nonceLifetime?: number;
+  /**
+   * Maximum number of nonces issued which may be used, beyond which the oldest is forgotten and
+   * its credentials found stale. Bounds the memory used by a flood of requests to be challenged.
+   * @defaultValue `10000`
+   */
+  maxNonces?: number;
+  /**
+   * If true, challenge as a proxy, with 407 (Proxy Authentication Required).
+   * @defaultValue `false`
+   */
+  proxy?: boolean;
+}
+
+/**
+ * The result of verifying the credentials of a request.
+ * @public
+ */
+export interface DigestVerification {
+  /** True if the request has valid credentials. */
+  authenticated: boolean;
+  /** The username of the credentials, if authenticated. */
+  username?: string;
+  /** True if the credentials are valid but their nonce is stale, in which case `stale=true` is to be challenged. */
+  stale: boolean;
+}
+
+/**
+ * A nonce issued, with the highest nonce count received for it.
+ */
+interface IssuedNonce {
+  expires: number;
+  nc: number;
+}
+
+/**
+ * Compare two strings in a time which depends on their lengths only, not on where they
+ * differ, so that a response may not be found a character at a time by timing its verification.
+ * @param expected - The string expected, whose length is not secret.
+ * @param actual - The string received.
+ */
+function timingSafeEqual(expected: string, actual: string): boolean {
+  let difference = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Digest Authenticator, which challenges incoming requests and verifies their credentials.
+ * @remarks
+ * A UAS that requires authentication rejects a request without valid credentials with a
+ * 401 (Unauthorized) response, or a 407 (Proxy Authentication Required) response if acting
+ * as a proxy, challenging the UAC to retry the request with credentials.
+ * https://tools.ietf.org/html/rfc3261#section-22.2
+ * https://tools.ietf.org/html/rfc7616#section-3.3
+ * @public
+ */
+export class DigestAuthenticator {
+  private logger: Logger;
+  private options: Required<DigestAuthenticatorOptions>;
+  private nonces = new Map<string, IssuedNonce>();
+
+  /**
+   * Constructor.
+   * @param loggerFactory - LoggerFactory.
+   * @param options - Options bucket.
+   */
+  constructor(loggerFactory: LoggerFactory, options: DigestAuthenticatorOptions) {
+    this.logger = loggerFactory.getLogger("sipjs.digestauthenticator");
+    this.options = {
+      algorithms: ["SHA-256", "MD5"],
+      nonceLifetime: 300,
+      maxNonces: 10000,
+      proxy: false,
+      ...options
+    };
+    // AKA algorithms are not supported, as the password is derived by the network from the subscriber key.
+    this.options.algorithms.forEach((algorithm) => {
+      const supported = DIGEST_ALGORITHMS[algorithm.toUpperCase()];
+      if (!supported || supported.aka) {
+        throw new TypeError(`Unsupported Digest algorithm ${algorithm}.`);
+      }
+    });
+  }
+
+  /**
+   * The options of a response challenging a request, to which the request is to be rejected with.
+   * @param stale - True if the request had valid credentials with a stale nonce.
+   */
+  public challenge(stale = false): ResponseOptions {
+    // Nonces are kept in the order issued, which is that in which they expire. The expired are
+    // forgotten, and the oldest of those not yet expired if need be to issue another.
+    const now = Date.now();
+    for (const [nonce, issued] of this.nonces) {
+      if (issued.expires > now && this.nonces.size < this.options.maxNonces) {
+        break;
+      }
+      this.nonces.delete(nonce);
+    }
+    const nonce = createRandomToken(32);
+    this.nonces.set(nonce, { expires: now + this.options.nonceLifetime * 1000, nc: 0 });
+
+    const headerName = this.options.proxy ? "Proxy-Authenticate" : "WWW-Authenticate";
+    const extraHeaders = this.options.algorithms.map((algorithm) => {
+      const name = DIGEST_ALGORITHMS[algorithm.toUpperCase()].name;
+      const params = [`realm="${this.options.realm}"`, `nonce="${nonce}"`, 'qop="auth"', `algorithm=${name}`];
+      if (stale) {
+        params.push("stale=true");
+      }
+      return `${headerName}: Digest ${params.join(", ")}`;
+    });
+    return { statusCode: this.options.proxy ? 407 : 401, extraHeaders };
+  }
+
+  /**
+   * Verify the credentials of a request.
+   * @param request - The request received.
+   */
+  public verify(request: IncomingRequestMessage): Promise<DigestVerification> {
+    const unauthenticated = (reason: string, stale = false): Promise<DigestVerification> => {
+      this.logger.log(`${request.method} not authenticated, ${reason}`);
+      return Promise.resolve({ authenticated: false, stale });
+    };
+
+    // Find the credentials for our realm. Iterate in reverse, as a header field
+    // which fails to parse is removed.
+    const headerName = this.options.proxy ? "proxy-authorization" : "authorization";
+    let credentials: ParsedCredentials | undefined;
+    for (let idx = request.getHeaders(headerName).length - 1; idx >= 0; idx--) {
+      const parsed = request.parseHeader(headerName, idx);
+      if (parsed && parsed.scheme === "Digest" && parsed.realm === this.options.realm) {
+        credentials = parsed;
+      }
+    }
+    if (!credentials) {
+      return unauthenticated("no credentials");
+    }
+    const { username, nonce, uri, response, cnonce, nc } = credentials;
+    if (!username || !nonce || !uri || !response || !cnonce || !nc || credentials.qop !== "auth") {
+      return unauthenticated("credentials incomplete");
+    }
+    const algorithmName = credentials.algorithm || "MD5";
+    if (!this.options.algorithms.some((offered) => offered.toUpperCase() === algorithmName)) {
+      return unauthenticated(`algorithm ${algorithmName} not offered`);
+    }
+    const algorithm = DIGEST_ALGORITHMS[algorithmName];
+
+    // The UAS SHOULD check that the Request-URI and the uri of the credentials are the same.
+    // https://tools.ietf.org/html/rfc3261#section-22.4
+    const ruri = request.ruri;
+    const digestURI = Grammar.URIParse(uri);
+    if (!ruri || (digestURI ? !digestURI.equals(ruri) : uri !== ruri.toString())) {
+      return unauthenticated("digest URI does not match Request-URI");
+    }
+
+    return this.options.credentialLookup(username, this.options.realm).then((secret) => {
+      if (!secret) {
+        return unauthenticated(`unknown user ${username}`);
+      }
+      let ha1: string;
+      if (secret.password !== undefined) {
+        ha1 = algorithm.hash(username + ":" + this.options.realm + ":" + secret.password);
+      } else if (secret.ha1 && algorithm.hash === MD5) {
+        ha1 = secret.ha1;
+      } else {
+        return unauthenticated(`no secret for user ${username} with algorithm ${algorithm.name}`);
+      }
+      const expected = digestResponse(algorithm, { ha1, nonce, cnonce, nc, qop: "auth", method: request.method, uri });
+      if (!timingSafeEqual(expected, response)) {
+        return unauthenticated(`wrong response for user ${username}`);
+      }
+
+      // A valid response to a nonce which was not issued by us, or has expired or been forgotten, is stale.
+      // https://tools.ietf.org/html/rfc7616#section-3.3
+      const issued = this.nonces.get(nonce);
+      if (!issued || issued.expires <= Date.now()) {
+        this.nonces.delete(nonce);
+        return unauthenticated(`stale nonce for user ${username}`, true);
+      }
+
+      // The nonce count must increase, otherwise the request is a replay.
+      // https://tools.ietf.org/html/rfc7616#section-3.4
+      const count = parseInt(nc, 16);
+      if (count <= issued.nc) {
+        return unauthenticated(`replayed nonce count for user ${username}`);
+      }
+      issued.nc = count;
+
+      return { authenticated: true, username, stale: false };
+    });
+  }
+}
@@ -0,0 +1,269 @@
+import { URI } from "../../grammar/uri.js";
+import { IncomingMessage } from "./incoming-message.js";
+import { headerize } from "./utils.js";
+
+/**
+ * Header field parameters, keyed by parameter name.
+ * @remarks
+ * A parameter with an undefined value is written without a value (for example ";lr").
+ * @public
+ */
+export interface HeaderParameters {
+  [name: string]: string | number | undefined;
+}
+
+/**
+ * Compact forms of header field names.
+ * https://tools.ietf.org/html/rfc3261#section-7.3.3
+ * https://www.iana.org/assignments/sip-parameters/sip-parameters.xhtml#sip-parameters-2
+ */
+const COMPACT_FORMS: { [compact: string]: string } = {
+  a: "Accept-Contact",
+  b: "Referred-By",
+  c: "Content-Type",
+  d: "Request-Disposition",
+  e: "Content-Encoding",
+  f: "From",
+  i: "Call-ID",
+  j: "Reject-Contact",
+  k: "Supported",
+  l: "Content-Length",
+  m: "Contact",
+  n: "Identity-Info",
+  o: "Event",
+  r: "Refer-To",
+  s: "Subject",
+  t: "To",
+  u: "Allow-Events",
+  v: "Via",
+  x: "Session-Expires",
+  y: "Identity"
+};
+
+/**
+ * token = 1*(alphanum / "-" / "." / "!" / "%" / "*" / "_" / "+" / "`" / "'" / "~" )
+ * https://tools.ietf.org/html/rfc3261#section-25.1
+ */
+const TOKEN = /^[A-Za-z0-9\-.!%*_+`'~]+$/;
+
+/**
+ * Header fields to include in an outgoing message.
+ * @remarks
+ * A typed alternative to an array of "Name: value" strings. Header field names are validated,
+ * values containing line breaks are rejected, parameter values are quoted and escaped as needed,
+ * and compact forms of header field names are expanded so that "i" and "Call-ID" are the same.
+ * Anywhere `extraHeaders` is accepted, either an array of strings or `Headers` may be used.
+ * ```ts
+ * const extraHeaders = new Headers()
+ *   .append("X-Account", accountId)
+ *   .append("Reason", "SIP", { cause: 480, text: "Temporarily Unavailable" })
+ *   .appendAddress("P-Asserted-Identity", uri, displayName);
+ * ```
+ * @public
+ */
+export class Headers {
+  private fields: Array<{ name: string; value: string }> = [];
+
+  /**
+   * Constructor.
+   * @param headers - Header fields to copy, either `Headers` or an array of "Name: value" strings.
+   * @throws {@link TypeError} if a string is not a valid header field.
+   */
+  constructor(headers?: Array<string> | Headers) {
+    if (headers instanceof Headers) {
+      this.fields = headers.fields.slice();
+    } else if (headers) {
+      headers.forEach((header) => {
+        const colon = header.indexOf(":");
+        if (colon === -1) {
+          throw new TypeError(`Invalid header field "${header}", missing colon.`);
+        }
+        this.append(header.substring(0, colon).trim(), header.substring(colon + 1).trim());
+      });
+    }
+  }
+
+  /**
+   * Make the header fields of an incoming message.
+   * @param message - The message.
+   */
+  public static fromMessage(message: IncomingMessage): Headers {
+    const headers = new Headers();
+    Object.keys(message.headers).forEach((name) => {
+      message.headers[name].forEach((header) =>
+        headers.fields.push({ name: normalizeHeaderName(name), value: header.raw })
+      );
+    });
+    return headers;
+  }
+
+  /**
+   * Number of header fields.
+   */
+  public get size(): number {
+    return this.fields.length;
+  }
+
+  /**
+   * Append a header field.
+   * @remarks
+   * A header field with multiple values (such as Supported) may be appended with an array of values,
+   * which are joined into a comma separated list. Appending a header field more than once adds
+   * more than one header field.
+   * https://tools.ietf.org/html/rfc3261#section-7.3.1
+   * @param name - Header field name.
+   * @param value - Header field value, or values.
+   * @param params - Header field parameters.
+   * @throws {@link TypeError} if a name is not a token, or if the value contains a line break.
+   */
+  public append(name: string, value: string | Array<string>, params?: HeaderParameters): this {
+    if (!TOKEN.test(name)) {
+      throw new TypeError(`Invalid header field name "${name}".`);
+    }
+    const text = (value instanceof Array ? value.join(", ") : value) + stringifyParameters(params);
+    if (/[\r\n]/.test(text)) {
+      throw new TypeError(`Invalid value for header field "${name}", line breaks are not allowed.`);
+    }
+    this.fields.push({ name: normalizeHeaderName(name), value: text });
+    return this;
+  }
+
+  /**
+   * Append a header field whose value is a name-addr, such as P-Asserted-Identity.
+   * @remarks
+   * The display name is quoted with quotes and backslashes escaped.
+   * https://tools.ietf.org/html/rfc3261#section-25.1
+   * @param name - Header field name.
+   * @param uri - URI.
+   * @param displayName - Display name.
+   * @param params - Header field parameters.
+   * @throws {@link TypeError} if the name is not a token, or if the display name contains a line break.
+   */
+  public appendAddress(name: string, uri: URI, displayName?: string, params?: HeaderParameters): this {
+    const value = (displayName ? quote(displayName) + " " : "") + "<" + uri.toString() + ">";
+    return this.append(name, value, params);
+  }
+
+  /**
+   * Replace any header fields of the given name with a header field.
+   * @param name - Header field name.
+   * @param value - Header field value, or values.
+   * @param params - Header field parameters.
+   * @throws {@link TypeError} if the name is not a token, or if the value contains a line break.
+   */
+  public set(name: string, value: string | Array<string>, params?: HeaderParameters): this {
+    return this.delete(name).append(name, value, params);
+  }
+
+  /**
+   * Remove any header fields of the given name.
+   * @param name - Header field name.
+   */
+  public delete(name: string): this {
+    const normalized = normalizeHeaderName(name);
+    this.fields = this.fields.filter((field) => field.name !== normalized);
+    return this;
+  }
+
+  /**
+   * True if there is a header field of the given name.
+   * @param name - Header field name.
+   */
+  public has(name: string): boolean {
+    const normalized = normalizeHeaderName(name);
+    return this.fields.some((field) => field.name === normalized);
+  }
+
+  /**
+   * Get the value of the first header field of the given name.
+   * @param name - Header field name.
+   * @returns The value, or undefined if there is no header field of the given name.
+   */
+  public get(name: string): string | undefined {
+    const normalized = normalizeHeaderName(name);
+    const field = this.fields.find((f) => f.name === normalized);
+    return field ? field.value : undefined;
+  }
+
+  /**
+   * Get the values of the header fields of the given name.
+   * @param name - Header field name.
+   * @returns The values, in order.
+   */
+  public getAll(name: string): Array<string> {
+    const normalized = normalizeHeaderName(name);
+    return this.fields.filter((field) => field.name === normalized).map((field) => field.value);
+  }
+
+  /**
+   * The header fields as an array of "Name: value" strings.
+   */
+  public toArray(): Array<string> {
+    return this.fields.map((field) => field.name + ": " + field.value);
+  }
+
+  /**
+   * The header fields, each followed by a CRLF.
+   */
+  public toString(): string {
+    return this.toArray()
+      .map((header) => header + "\r\n")
+      .join("");
+  }
+}
+
+/**
+ * Get extra headers as an array of "Name: value" strings.
+ * @remarks
+ * The array returned is a copy which may be modified.
+ * @param extraHeaders - Extra headers, either `Headers` or an array of "Name: value" strings.
+ * @public
+ */
+export function getExtraHeaders(extraHeaders: Array<string> | Headers | undefined): Array<string> {
+  if (extraHeaders instanceof Headers) {
+    return extraHeaders.toArray();
+  }
+  return extraHeaders ? extraHeaders.slice() : [];
+}
+
+/**
+ * Expand a compact form and normalize the case of a header field name.
+ * @param name - Header field name.
+ * @internal
+ */
+export function normalizeHeaderName(name: string): string {
+  const compact = COMPACT_FORMS[name.toLowerCase()];
+  return compact ? compact : headerize(name);
+}
+
+/**
+ * Quote a string, escaping quotes and backslashes.
+ * https://tools.ietf.org/html/rfc3261#section-25.1
+ * @param value - The string.
+ */
+function quote(value: string): string {
+  return '"' + value.replace(/["\\]/g, "\\$&") + '"';
+}
+
+/**
+ * Stringify header field parameters, quoting values which are not tokens.
+ * @param params - Header field parameters.
+ */
+function stringifyParameters(params: HeaderParameters | undefined): string {
+  if (!params) {
+    return "";
+  }
+  return Object.keys(params)
+    .map((name) => {
+      if (!TOKEN.test(name)) {
+        throw new TypeError(`Invalid header field parameter name "${name}".`);
+      }
+      const value = params[name];
+      if (value === undefined) {
+        return ";" + name;
+      }
+      const text = String(value);
+      return ";" + name + "=" + (TOKEN.test(text) ? text : quote(text));
+    })
+    .join("");
+}
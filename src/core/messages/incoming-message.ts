@@ -1,7 +1,18 @@
 import { Grammar } from "../../grammar/grammar.js";
+import { ParsedHeaders, ParsedVia } from "../../grammar/grammar-types.js";
 import { NameAddrHeader } from "../../grammar/name-addr-header.js";
 import { headerize } from "./utils.js";
 
+/**
+ * The type of a parsed header field, given its name.
+ * @remarks
+ * Header field names are case insensitive. Header fields which may not be parsed are unknown.
+ * @public
+ */
+export type ParsedHeader<N extends string> = Lowercase<N> extends keyof ParsedHeaders
+  ? ParsedHeaders[Lowercase<N>]
+  : unknown;
+
 /**
  * Incoming message.
  * @public
@@ -16,10 +27,10 @@ export class IncomingMessage {
   public from!: NameAddrHeader;
   public callId!: string;
   public cseq!: number;
-  public via!: { host: string; port: number };
+  public via!: ParsedVia;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   public headers: { [name: string]: Array<{ parsed?: any; raw: string }> } = {};
-  public referTo: string | undefined;
+  public referTo: NameAddrHeader | undefined;
   public data!: string;
 
   /**
@@ -86,14 +97,19 @@ export class IncomingMessage {
 
   /**
    * Parse the given header on the given index.
-   * @param name - header name
+   * @param headerName - header name
    * @param idx - header index
    * @returns Parsed header object, undefined if the
    *   header is not present or in case of a parsing error.
+   *
+   * @remarks
+   * The type of the parsed header object is that of the header field of the same name in {@link ParsedHeaders}.
+   *
+   * @example
+   * message.parseHeader("via").branch
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  public parseHeader(name: string, idx = 0): any | undefined {
-    name = headerize(name);
+  public parseHeader<N extends string>(headerName: N, idx = 0): ParsedHeader<N> | undefined {
+    const name = headerize(headerName);
 
     if (!this.headers[name]) {
       // this.logger.log("header '" + name + "' not present");
@@ -107,11 +123,11 @@ export class IncomingMessage {
     const value = header.raw;
 
     if (header.parsed) {
-      return header.parsed;
+      return header.parsed as ParsedHeader<N>;
     }
 
     // substitute '-' by '_' for grammar rule matching.
-    const parsed: string | -1 = Grammar.parse(value, name.replace(/-/g, "_"));
+    const parsed = Grammar.parse(value, name.replace(/-/g, "_"));
 
     if (parsed === -1) {
       this.headers[name].splice(idx, 1); // delete from headers
@@ -119,7 +135,7 @@ export class IncomingMessage {
       return;
     } else {
       header.parsed = parsed;
-      return parsed;
+      return parsed as ParsedHeader<N>;
     }
   }
 
@@ -133,8 +149,7 @@ export class IncomingMessage {
    * @example
    * message.s('via',3).port
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  public s(name: string, idx = 0): any | undefined {
+  public s<N extends string>(name: N, idx = 0): ParsedHeader<N> | undefined {
     return this.parseHeader(name, idx);
   }
 
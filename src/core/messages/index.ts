@@ -2,13 +2,18 @@
 export * from "./methods/index.js";
 
 // Files
+export * from "./aka.js";
+export * from "./bearer-authentication.js";
 export * from "./body.js";
 export * from "./digest-authentication.js";
+export * from "./digest-authenticator.js";
+export * from "./headers.js";
 export * from "./incoming-message.js";
 export * from "./incoming-request-message.js";
 export * from "./incoming-request.js";
 export * from "./incoming-response-message.js";
 export * from "./incoming-response.js";
+export * from "./multipart-body.js";
 export * from "./outgoing-request-message.js";
 export * from "./outgoing-request.js";
 export * from "./outgoing-response.js";
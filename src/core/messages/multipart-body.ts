@@ -0,0 +1,194 @@
+import { Body } from "./body.js";
+import { IncomingRequestMessage } from "./incoming-request-message.js";
+import { IncomingResponseMessage } from "./incoming-response-message.js";
+import { createRandomToken } from "./utils.js";
+
+/**
+ * A body part of a multipart message body.
+ * @remarks
+ * https://tools.ietf.org/html/rfc2046#section-5.1
+ * https://tools.ietf.org/html/rfc5621#section-3
+ * @public
+ */
+export interface BodyPart {
+  /**
+   * The value of the Content-Type header field of the body part.
+   * If the header field is missing, the content type is "text/plain".
+   * https://tools.ietf.org/html/rfc2046#section-5.1
+   */
+  contentType: string;
+
+  /**
+   * The content of the body part.
+   */
+  content: string;
+
+  /**
+   * The value of the Content-Disposition header field of the body part, if any.
+   * For example "session" or "by-reference;handling=optional".
+   * https://tools.ietf.org/html/rfc5621#section-3.2
+   */
+  contentDisposition?: string;
+
+  /**
+   * The value of the Content-ID header field of the body part without the angle brackets, if any.
+   * A body part may be referenced with a "cid" URL using this value.
+   * https://tools.ietf.org/html/rfc2392
+   */
+  contentId?: string;
+}
+
+/**
+ * A multipart message body.
+ * @remarks
+ * https://tools.ietf.org/html/rfc2046#section-5.1
+ * @public
+ */
+export interface MultipartBody {
+  /**
+   * The media subtype, such as "mixed", "alternative" or "related".
+   */
+  subtype: string;
+
+  /**
+   * The boundary delimiting the body parts.
+   */
+  boundary: string;
+
+  /**
+   * The body parts.
+   */
+  parts: Array<BodyPart>;
+}
+
+/**
+ * Make a multipart message body.
+ * @remarks
+ * The boundary is generated so that it does not occur in any of the body parts.
+ * https://tools.ietf.org/html/rfc2046#section-5.1.1
+ * @param parts - The body parts.
+ * @param subtype - The media subtype. Default is "mixed".
+ * @public
+ */
+export function makeMultipartBody(parts: Array<BodyPart>, subtype = "mixed"): Body {
+  let boundary = "boundary" + createRandomToken(16);
+  while (parts.some((part) => part.content.includes(boundary))) {
+    boundary = "boundary" + createRandomToken(16);
+  }
+  const content =
+    parts
+      .map((part) => {
+        let headers = "Content-Type: " + part.contentType + "\r\n";
+        if (part.contentId) {
+          headers += "Content-ID: <" + part.contentId + ">\r\n";
+        }
+        if (part.contentDisposition) {
+          headers += "Content-Disposition: " + part.contentDisposition + "\r\n";
+        }
+        return "--" + boundary + "\r\n" + headers + "\r\n" + part.content + "\r\n";
+      })
+      .join("") +
+    "--" +
+    boundary +
+    "--";
+  return {
+    contentDisposition: "render",
+    contentType: "multipart/" + subtype + ";boundary=" + boundary,
+    content
+  };
+}
+
+/**
+ * Parse a multipart message body.
+ * @remarks
+ * Returns undefined if the content type is not a multipart type with a boundary,
+ * or if the content has no body parts delimited by the boundary. The preamble and
+ * the epilogue are discarded. Line breaks may be either CRLF or LF.
+ * https://tools.ietf.org/html/rfc2046#section-5.1.1
+ * @param body - The content type and content of the message body.
+ * @public
+ */
+export function parseMultipartBody(body: { contentType: string; content: string }): MultipartBody | undefined {
+  const type = body.contentType.match(/^\s*multipart\/([^\s;]+)/i);
+  const parameter = body.contentType.match(/;\s*boundary\s*=\s*(?:"([^"]+)"|([^\s;]+))/i);
+  if (!type || !parameter) {
+    return undefined;
+  }
+  const subtype = type[1].toLowerCase();
+  const boundary = parameter[1] || parameter[2];
+
+  // The CRLF preceding the boundary delimiter line is conceptually attached
+  // to the boundary so that it is possible to have a part that does not end
+  // with a CRLF (line break).
+  // https://tools.ietf.org/html/rfc2046#section-5.1.1
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const delimiter = new RegExp("(?:^|\\r?\\n)--" + escaped + "(--)?[ \\t]*(?:\\r?\\n|$)", "g");
+  const parts: Array<BodyPart> = [];
+  let start: number | undefined;
+  let match: RegExpExecArray | null;
+  while ((match = delimiter.exec(body.content))) {
+    if (start !== undefined) {
+      parts.push(parseBodyPart(body.content.substring(start, match.index)));
+    }
+    if (match[1]) {
+      break;
+    }
+    start = delimiter.lastIndex;
+  }
+  if (parts.length === 0) {
+    return undefined;
+  }
+  return { subtype, boundary, parts };
+}
+
+/**
+ * Get the body parts of a message with a multipart body.
+ * @param message - The message.
+ * @returns The body parts, or undefined if the message does not have a multipart body.
+ * @public
+ */
+export function getBodyParts(message: IncomingRequestMessage | IncomingResponseMessage): Array<BodyPart> | undefined {
+  const contentType = message.getHeader("Content-Type");
+  if (!message.body || !contentType) {
+    return undefined;
+  }
+  const multipart = parseMultipartBody({ contentType, content: message.body });
+  return multipart ? multipart.parts : undefined;
+}
+
+/**
+ * Parse a body part, its header fields followed by an empty line and its content.
+ * @param part - The body part.
+ */
+function parseBodyPart(part: string): BodyPart {
+  // A body part without header fields starts with the empty line.
+  const separator = part.match(/^\r?\n/) || part.match(/\r?\n\r?\n/);
+  const end = separator && separator.index !== undefined ? separator.index : part.length;
+  const headers = part.substring(0, end);
+  const content = separator ? part.substring(end + separator[0].length) : "";
+  const bodyPart: BodyPart = { contentType: "text/plain", content };
+  // Header fields may be folded onto multiple lines.
+  headers
+    .split(/\r?\n(?![ \t])/)
+    .map((line) => line.replace(/\r?\n[ \t]+/g, " "))
+    .forEach((line) => {
+      const colon = line.indexOf(":");
+      if (colon === -1) {
+        return;
+      }
+      const value = line.substring(colon + 1).trim();
+      switch (line.substring(0, colon).trim().toLowerCase()) {
+        case "content-type":
+        case "c":
+          bodyPart.contentType = value;
+          break;
+        case "content-id":
+          bodyPart.contentId = value.replace(/^<|>$/g, "");
+          break;
+        case "content-disposition":
+          bodyPart.contentDisposition = value;
+          break;
+      }
+    });
+  return bodyPart;
+}
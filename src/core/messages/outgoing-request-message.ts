@@ -1,6 +1,7 @@
 import { NameAddrHeader } from "../../grammar/name-addr-header.js";
 import { URI } from "../../grammar/uri.js";
 import { Body } from "./body.js";
+import { getExtraHeaders, Headers } from "./headers.js";
 import { createRandomToken, headerize, newTag, utf8Length } from "./utils.js";
 
 /**
@@ -31,7 +32,7 @@ export class OutgoingRequestMessage {
   public readonly headers: { [name: string]: Array<string> } = {};
 
   public readonly method: string;
-  public readonly ruri: URI;
+  public ruri: URI;
   public readonly from: NameAddrHeader;
   public readonly fromTag: string;
   public readonly fromURI: URI;
@@ -52,7 +53,7 @@ export class OutgoingRequestMessage {
     fromURI: URI,
     toURI: URI,
     options?: OutgoingRequestMessageOptions,
-    extraHeaders?: Array<string>,
+    extraHeaders?: Array<string> | Headers,
     body?: Body
   ) {
     // Initialize default options
@@ -73,8 +74,8 @@ export class OutgoingRequestMessage {
     }
 
     // Extra headers - deep copy
-    if (extraHeaders && extraHeaders.length) {
-      this.extraHeaders = extraHeaders.slice();
+    if (extraHeaders) {
+      this.extraHeaders = getExtraHeaders(extraHeaders);
     }
 
     // Body - deep copy
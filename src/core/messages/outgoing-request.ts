@@ -1,4 +1,5 @@
 import { Body } from "./body.js";
+import { Headers } from "./headers.js";
 import { IncomingResponse } from "./incoming-response.js";
 import { OutgoingRequestMessage } from "./outgoing-request-message.js";
 
@@ -71,7 +72,7 @@ export interface OutgoingRequestDelegate {
  */
 export interface RequestOptions {
   /** Extra headers to include in the message. */
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   /** Body to include in the message. */
   body?: Body;
 }
@@ -1,4 +1,5 @@
 import { Body } from "./body.js";
+import { getExtraHeaders, Headers } from "./headers.js";
 import { IncomingRequestMessage } from "./incoming-request-message.js";
 import { getReasonPhrase, newTag, utf8Length } from "./utils.js";
 
@@ -30,7 +31,7 @@ export interface ResponseOptions {
   /** Support options tags for Supported header. */
   supported?: Array<string>;
   /** Extra headers to include in the message. */
-  extraHeaders?: Array<string>;
+  extraHeaders?: Array<string> | Headers;
   /** Body to include in the message. */
   body?: Body;
 }
@@ -104,7 +105,7 @@ export function constructOutgoingResponse(message: IncomingRequestMessage, optio
   // and provisional (again excepting the 100 (Trying)).
   // https://tools.ietf.org/html/rfc3261#section-8.2.6.2
   let toHeader = "To: " + message.getHeader("to");
-  if (options.statusCode > 100 && !message.parseHeader("to").hasParam("tag")) {
+  if (options.statusCode > 100 && !message.parseHeader("to")?.hasParam("tag")) {
     let toTag = options.toTag;
     if (!toTag) {
       // Stateless UAS Behavior...
@@ -141,7 +142,7 @@ export function constructOutgoingResponse(message: IncomingRequestMessage, optio
 
   let extensionHeaders = "";
   if (options.extraHeaders) {
-    extensionHeaders = options.extraHeaders.reduce((previous, current) => {
+    extensionHeaders = getExtraHeaders(options.extraHeaders).reduce((previous, current) => {
       return previous + current.trim() + CRLF;
     }, "");
   }
@@ -2,9 +2,16 @@
 /* eslint-disable @typescript-eslint/no-namespace */
 import { Grammar } from "../../grammar/grammar.js";
 import { Logger } from "../log/logger.js";
+import { normalizeHeaderName } from "./headers.js";
 import { IncomingRequestMessage } from "./incoming-request-message.js";
 import { IncomingResponseMessage } from "./incoming-response-message.js";
 
+/**
+ * Header fields without which a message cannot be processed, in normalized form.
+ * https://tools.ietf.org/html/rfc3261#section-8.1.1
+ */
+const MANDATORY_HEADERS = ["Via", "From", "To", "Call-ID", "CSeq", "Max-Forwards", "Content-Length"];
+
 /**
  * Extract and parse every header of a SIP message.
  * @internal
@@ -58,58 +65,64 @@ export namespace Parser {
     const headerName: string = data.substring(headerStart, hcolonIndex).trim();
     const headerValue: string = data.substring(hcolonIndex + 1, headerEnd).trim();
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let parsed: any;
+    let parsed: unknown;
     // If header-field is well-known, parse it.
     switch (headerName.toLowerCase()) {
       case "via":
       case "v":
         message.addHeader("via", headerValue);
         if (message.getHeaders("via").length === 1) {
-          parsed = message.parseHeader("Via");
-          if (parsed) {
-            message.via = parsed;
-            message.viaBranch = parsed.branch;
+          const via = message.parseHeader("Via");
+          parsed = via;
+          if (via) {
+            message.via = via;
+            message.viaBranch = via.branch as string;
           }
         } else {
           parsed = 0;
         }
         break;
       case "from":
-      case "f":
+      case "f": {
         message.setHeader("from", headerValue);
-        parsed = message.parseHeader("from");
-        if (parsed) {
-          message.from = parsed;
-          message.fromTag = parsed.getParam("tag");
+        const from = message.parseHeader("from");
+        parsed = from;
+        if (from) {
+          message.from = from;
+          message.fromTag = from.getParam("tag") as string;
         }
         break;
+      }
       case "to":
-      case "t":
+      case "t": {
         message.setHeader("to", headerValue);
-        parsed = message.parseHeader("to");
-        if (parsed) {
-          message.to = parsed;
-          message.toTag = parsed.getParam("tag");
+        const to = message.parseHeader("to");
+        parsed = to;
+        if (to) {
+          message.to = to;
+          message.toTag = to.getParam("tag") as string;
         }
         break;
-      case "record-route":
-        parsed = Grammar.parse(headerValue, "Record_Route");
+      }
+      case "record-route": {
+        const recordRoute = Grammar.parse(headerValue, "Record_Route");
 
-        if (parsed === -1) {
+        if (recordRoute === -1) {
           parsed = undefined;
           break;
         }
-        if (!(parsed instanceof Array)) {
+        if (!(recordRoute instanceof Array)) {
           parsed = undefined;
           break;
         }
 
-        parsed.forEach((header) => {
+        recordRoute.forEach((header) => {
           message.addHeader("record-route", headerValue.substring(header.position, header.offset));
           message.headers["Record-Route"][message.getHeaders("record-route").length - 1].parsed = header.parsed;
         });
+        parsed = recordRoute;
         break;
+      }
       case "call-id":
       case "i":
         message.setHeader("call-id", headerValue);
@@ -119,23 +132,25 @@ export namespace Parser {
         }
         break;
       case "contact":
-      case "m":
-        parsed = Grammar.parse(headerValue, "Contact");
+      case "m": {
+        const contact = Grammar.parse(headerValue, "Contact");
 
-        if (parsed === -1) {
+        if (contact === -1) {
           parsed = undefined;
           break;
         }
-        if (!(parsed instanceof Array)) {
+        if (!(contact instanceof Array)) {
           parsed = undefined;
           break;
         }
 
-        parsed.forEach((header) => {
+        contact.forEach((header) => {
           message.addHeader("contact", headerValue.substring(header.position, header.offset));
           message.headers.Contact[message.getHeaders("contact").length - 1].parsed = header.parsed;
         });
+        parsed = contact;
         break;
+      }
       case "content-length":
       case "l":
         message.setHeader("content-length", headerValue);
@@ -146,36 +161,40 @@ export namespace Parser {
         message.setHeader("content-type", headerValue);
         parsed = message.parseHeader("content-type");
         break;
-      case "cseq":
+      case "cseq": {
         message.setHeader("cseq", headerValue);
-        parsed = message.parseHeader("cseq");
-        if (parsed) {
-          message.cseq = parsed.value;
-        }
-        if (message instanceof IncomingResponseMessage) {
-          message.method = parsed.method;
+        const cseq = message.parseHeader("cseq");
+        parsed = cseq;
+        if (cseq) {
+          message.cseq = cseq.value;
+          if (message instanceof IncomingResponseMessage) {
+            message.method = cseq.method;
+          }
         }
         break;
+      }
       case "max-forwards":
         message.setHeader("max-forwards", headerValue);
         parsed = message.parseHeader("max-forwards");
         break;
       case "www-authenticate":
-        message.setHeader("www-authenticate", headerValue);
-        parsed = message.parseHeader("www-authenticate");
+        message.addHeader("www-authenticate", headerValue);
+        parsed = message.parseHeader("www-authenticate", message.getHeaders("www-authenticate").length - 1);
         break;
       case "proxy-authenticate":
-        message.setHeader("proxy-authenticate", headerValue);
-        parsed = message.parseHeader("proxy-authenticate");
+        message.addHeader("proxy-authenticate", headerValue);
+        parsed = message.parseHeader("proxy-authenticate", message.getHeaders("proxy-authenticate").length - 1);
         break;
       case "refer-to":
-      case "r":
+      case "r": {
         message.setHeader("refer-to", headerValue);
-        parsed = message.parseHeader("refer-to");
-        if (parsed) {
-          message.referTo = parsed;
+        const referTo = message.parseHeader("refer-to");
+        parsed = referTo;
+        if (referTo) {
+          message.referTo = referTo;
         }
         break;
+      }
       default:
         // Do not parse this header.
         message.addHeader(headerName.toLowerCase(), headerValue);
@@ -191,16 +210,88 @@ export namespace Parser {
     }
   }
 
-  export function parseMessage(
-    data: string,
-    logger: Logger
-  ): IncomingRequestMessage | IncomingResponseMessage | undefined {
+  /**
+   * A problem found parsing a message.
+   */
+  export interface Diagnostic {
+    /** Name of the header field with the problem, if any. */
+    header?: string;
+    /** Offset in the message at which the problem was found. */
+    offset: number;
+    /** Why the message is malformed. */
+    reason: string;
+    /** Status code of a response to a request with the problem. */
+    statusCode: number;
+    /**
+     * True if the message cannot be processed, the problem being with a mandatory header field,
+     * the size of the message or its framing. Otherwise the header field with the problem is
+     * kept unparsed, or ignored if it has no valid name, and the message may be processed.
+     */
+    fatal: boolean;
+  }
+
+  /**
+   * Limits on the size of a message.
+   */
+  export interface Limits {
+    /** Maximum length of the start-line. */
+    maxStartLineLength: number;
+    /** Maximum number of header fields. */
+    maxHeaderCount: number;
+    /** Maximum length of the message body. */
+    maxBodyLength: number;
+  }
+
+  /**
+   * Default limits on the size of a message.
+   */
+  export const defaultLimits: Limits = {
+    maxStartLineLength: 4096,
+    maxHeaderCount: 256,
+    maxBodyLength: 1048576
+  };
+
+  /**
+   * Result of parsing a message.
+   */
+  export interface Result {
+    /**
+     * The message, if the start-line parsed. A message with problems may be missing
+     * header fields which did not parse and may not have a body.
+     */
+    message?: IncomingRequestMessage | IncomingResponseMessage;
+    /**
+     * Problems found parsing the message. Empty if the message is well formed.
+     * The message may be processed unless one of them is fatal.
+     */
+    diagnostics: Array<Diagnostic>;
+  }
+
+  /**
+   * Parse a message, finding every problem with its header fields.
+   * @remarks
+   * Parsing continues after a header field which does not parse, so that enough of
+   * a malformed request may be available to respond to it.
+   * https://tools.ietf.org/html/rfc3261#section-7
+   * @param data - The message.
+   * @param limits - Limits on the size of the message.
+   */
+  export function parse(data: string, limits: Limits = defaultLimits): Result {
+    const diagnostics: Array<Diagnostic> = [];
+    const diagnose = (offset: number, reason: string, header?: string, statusCode = 400, fatal = true): void => {
+      diagnostics.push({ header, offset, reason, statusCode, fatal });
+    };
+
     let headerStart = 0;
     let headerEnd: number = data.indexOf("\r\n");
 
     if (headerEnd === -1) {
-      logger.warn("no CRLF found, not a SIP message, discarded");
-      return;
+      diagnose(0, "no CRLF found, not a SIP message");
+      return { diagnostics };
+    }
+    if (headerEnd > limits.maxStartLineLength) {
+      diagnose(limits.maxStartLineLength, "start-line is too long");
+      return { diagnostics };
     }
 
     // Parse first line. Check if it is a Request or a Reply.
@@ -209,9 +300,10 @@ export namespace Parser {
     let message: IncomingRequestMessage | IncomingResponseMessage;
 
     if (parsed === -1) {
-      logger.warn('error parsing first line of SIP message: "' + firstLine + '"');
-      return;
-    } else if (!parsed.status_code) {
+      const error = Grammar.diagnose(firstLine, "Request_Response");
+      diagnose(error ? error.offset : 0, "invalid start-line" + (error ? ": " + error.reason : ""));
+      return { diagnostics };
+    } else if (parsed.status_code === undefined) {
       message = new IncomingRequestMessage();
       message.method = parsed.method;
       message.ruri = parsed.uri;
@@ -222,13 +314,14 @@ export namespace Parser {
     }
 
     message.data = data;
+    message.body = "";
     headerStart = headerEnd + 2;
 
     // Loop over every line in data. Detect the end of each header and parse
     // it or simply add to the headers collection.
-    let bodyStart: number;
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
+    let bodyStart: number | undefined;
+    let headerCount = 0;
+    while (bodyStart === undefined) {
       headerEnd = getHeader(data, headerStart);
 
       // The SIP message has normally finished.
@@ -237,15 +330,37 @@ export namespace Parser {
         break;
       } else if (headerEnd === -1) {
         // data.indexOf returned -1 due to a malformed message.
-        logger.error("malformed message");
-        return;
+        diagnose(headerStart, "header fields are not followed by an empty line");
+        return { message, diagnostics };
       }
 
-      const parsedHeader = parseHeader(message, data, headerStart, headerEnd);
+      if (++headerCount > limits.maxHeaderCount) {
+        diagnose(headerStart, "too many header fields");
+        return { message, diagnostics };
+      }
 
-      if (parsedHeader && parsedHeader !== true) {
-        logger.error(parsedHeader.error);
-        return;
+      const colon = data.indexOf(":", headerStart);
+      const headerName = colon === -1 || colon > headerEnd ? undefined : data.substring(headerStart, colon).trim();
+      if (headerName === undefined) {
+        diagnose(headerStart, "header field has no colon", undefined, 400, false);
+      } else if (!/^[A-Za-z0-9\-.!%*_+`'~]+$/.test(headerName)) {
+        diagnose(headerStart, "invalid header field name", headerName, 400, false);
+      } else {
+        const parsedHeader = parseHeader(message, data, headerStart, headerEnd);
+        if (parsedHeader && parsedHeader !== true) {
+          const rawValue = data.substring(colon + 1, headerEnd);
+          const valueStart = colon + 1 + rawValue.search(/\S|$/);
+          const rule = ruleName(headerName);
+          const error = Grammar.diagnose(rawValue.trim(), rule);
+          const reason = "invalid " + rule.replace(/_/g, "-") + " header field" + (error ? ": " + error.reason : "");
+          const name = normalizeHeaderName(headerName);
+          const mandatory = MANDATORY_HEADERS.includes(name);
+          diagnose(valueStart + (error ? error.offset : 0), reason, headerName, 400, mandatory);
+          // An optional header field which does not parse is kept as is, so that the message may be processed.
+          if (!mandatory) {
+            message.addHeader(name, rawValue.trim());
+          }
+        }
       }
 
       headerStart = headerEnd + 2;
@@ -254,12 +369,42 @@ export namespace Parser {
     // RFC3261 18.3.
     // If there are additional bytes in the transport packet
     // beyond the end of the body, they MUST be discarded.
-    if (message.hasHeader("content-length")) {
-      message.body = data.substr(bodyStart, Number(message.getHeader("content-length")));
-    } else {
-      message.body = data.substring(bodyStart);
+    const contentLength = message.hasHeader("content-length") ? Number(message.getHeader("content-length")) : undefined;
+    const bodyLength = contentLength !== undefined ? contentLength : data.length - bodyStart;
+    if (bodyLength > limits.maxBodyLength) {
+      diagnose(bodyStart, "message body is too large", contentLength !== undefined ? "Content-Length" : undefined, 513);
+      return { message, diagnostics };
     }
+    message.body = contentLength !== undefined ? data.substr(bodyStart, contentLength) : data.substring(bodyStart);
+
+    return { message, diagnostics };
+  }
+
+  export function parseMessage(
+    data: string,
+    logger: Logger
+  ): IncomingRequestMessage | IncomingResponseMessage | undefined {
+    const result = parse(data);
+    if (result.diagnostics.length) {
+      result.diagnostics.forEach((diagnostic) => logger.warn(describe(diagnostic)));
+      return;
+    }
+    return result.message;
+  }
+
+  /**
+   * Describe a problem found parsing a message.
+   * @param diagnostic - The problem.
+   */
+  export function describe(diagnostic: Diagnostic): string {
+    return (diagnostic.header ? `${diagnostic.header}: ` : "") + `${diagnostic.reason} (offset ${diagnostic.offset})`;
+  }
 
-    return message;
+  /**
+   * The grammar rule of a header field.
+   * @param headerName - Header field name, possibly in compact form.
+   */
+  function ruleName(headerName: string): string {
+    return normalizeHeaderName(headerName).replace(/-/g, "_");
   }
 }
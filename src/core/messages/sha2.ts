@@ -0,0 +1,207 @@
+/**
+ * SHA-2 hash functions used by Digest authentication.
+ * https://tools.ietf.org/html/rfc8760
+ * https://nvlpubs.nist.gov/nistpubs/FIPS/NIST.FIPS.180-4.pdf
+ */
+
+/**
+ * SHA-256 round constants.
+ */
+const K256 = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+  0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+  0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+  0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+];
+
+/**
+ * SHA-256 initial hash value.
+ */
+const H256 = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+/**
+ * SHA-512 round constants, each as a high and a low 32 bit word.
+ */
+const K512 = [
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc, 0x3956c25b,
+  0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118, 0xd807aa98, 0xa3030242,
+  0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2, 0x72be5d74, 0xf27b896f, 0x80deb1fe,
+  0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694, 0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3,
+  0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65, 0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc,
+  0xbd41fbd4, 0x76f988da, 0x831153b5, 0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f,
+  0xbf597fc7, 0xbeef0ee4, 0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967,
+  0x0a0e6e70, 0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b, 0xa2bfe8a1,
+  0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30, 0xd192e819, 0xd6ef5218,
+  0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8, 0x19a4c116, 0xb8d2d0c8, 0x1e376c08,
+  0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8, 0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb,
+  0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3, 0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814,
+  0xa1f0ab72, 0x8cc70208, 0x1a6439ec, 0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915,
+  0xc67178f2, 0xe372532b, 0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f,
+  0xee6ed178, 0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c, 0x4cc5d4be,
+  0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817
+];
+
+/**
+ * SHA-512/256 initial hash value, each word as a high and a low 32 bit word.
+ */
+const H512_256 = [
+  0x22312194, 0xfc2bf72c, 0x9f555fa3, 0xc84c64c2, 0x2393b86b, 0x6f53b151, 0x96387719, 0x5940eabd, 0x96283ee2,
+  0xa88effe3, 0xbe5e1e25, 0x53863992, 0x2b0199fc, 0x2c85b8aa, 0x0eb72ddc, 0x81c52ca2
+];
+
+/**
+ * Hash a string with SHA-256.
+ * @param str - The string, which is UTF-8 encoded.
+ * @returns The hash as lowercase hexadecimal.
+ */
+export function sha256(str: string): string {
+  const blocks = pad(new TextEncoder().encode(str), 64);
+  const h = H256.slice();
+  const w = new Array<number>(64);
+  for (let offset = 0; offset < blocks.byteLength; offset += 64) {
+    for (let t = 0; t < 16; t++) {
+      w[t] = blocks.getInt32(offset + t * 4);
+    }
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let t = 0; t < 64; t++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K256[t] + w[t]) | 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    [a, b, c, d, e, f, g, hh].forEach((value, i) => (h[i] = (h[i] + value) | 0));
+  }
+  return toHex(h);
+}
+
+/**
+ * Hash a string with SHA-512/256, which is SHA-512 with a distinct initial hash value truncated to 256 bits.
+ * @param str - The string, which is UTF-8 encoded.
+ * @returns The hash as lowercase hexadecimal.
+ */
+export function sha512_256(str: string): string {
+  const blocks = pad(new TextEncoder().encode(str), 128);
+  const h = H512_256.slice();
+  // Each 64 bit word is held as a high and a low 32 bit word.
+  const w = new Array<number>(160);
+  for (let offset = 0; offset < blocks.byteLength; offset += 128) {
+    for (let t = 0; t < 32; t++) {
+      w[t] = blocks.getInt32(offset + t * 4);
+    }
+    for (let t = 16; t < 80; t++) {
+      const [s0h, s0l] = xor3(rotr64(w, t - 15, 1), rotr64(w, t - 15, 8), shr64(w, t - 15, 7));
+      const [s1h, s1l] = xor3(rotr64(w, t - 2, 19), rotr64(w, t - 2, 61), shr64(w, t - 2, 6));
+      [w[t * 2], w[t * 2 + 1]] = add64(
+        [w[(t - 16) * 2], w[(t - 16) * 2 + 1]],
+        [s0h, s0l],
+        [w[(t - 7) * 2], w[(t - 7) * 2 + 1]],
+        [s1h, s1l]
+      );
+    }
+    const v = h.slice();
+    for (let t = 0; t < 80; t++) {
+      // v holds a, b, c, d, e, f, g, h
+      const sigma1 = xor3(rotr64(v, 4, 14), rotr64(v, 4, 18), rotr64(v, 4, 41));
+      const ch: [number, number] = [(v[8] & v[10]) ^ (~v[8] & v[12]), (v[9] & v[11]) ^ (~v[9] & v[13])];
+      const t1 = add64([v[14], v[15]], sigma1, ch, [K512[t * 2], K512[t * 2 + 1]], [w[t * 2], w[t * 2 + 1]]);
+      const sigma0 = xor3(rotr64(v, 0, 28), rotr64(v, 0, 34), rotr64(v, 0, 39));
+      const maj: [number, number] = [
+        (v[0] & v[2]) ^ (v[0] & v[4]) ^ (v[2] & v[4]),
+        (v[1] & v[3]) ^ (v[1] & v[5]) ^ (v[3] & v[5])
+      ];
+      const t2 = add64(sigma0, maj);
+      v.copyWithin(2, 0, 14);
+      [v[8], v[9]] = add64([v[8], v[9]], t1);
+      [v[0], v[1]] = add64(t1, t2);
+    }
+    for (let i = 0; i < 16; i += 2) {
+      [h[i], h[i + 1]] = add64([h[i], h[i + 1]], [v[i], v[i + 1]]);
+    }
+  }
+  return toHex(h.slice(0, 8));
+}
+
+/**
+ * Pad a message to a multiple of the block size, appending a one bit and the length in bits.
+ * @param bytes - The message.
+ * @param blockSize - Block size in bytes, 64 or 128.
+ */
+function pad(bytes: Uint8Array, blockSize: number): DataView {
+  const lengthSize = blockSize / 8;
+  const length = Math.ceil((bytes.length + 1 + lengthSize) / blockSize) * blockSize;
+  const padded = new Uint8Array(length);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bits = bytes.length * 8;
+  view.setUint32(length - 8, Math.floor(bits / 0x100000000));
+  view.setUint32(length - 4, bits >>> 0);
+  return view;
+}
+
+function rotr(x: number, n: number): number {
+  return (x >>> n) | (x << (32 - n));
+}
+
+/**
+ * Rotate right the 64 bit word at index i of an array of high and low 32 bit words.
+ */
+function rotr64(words: Array<number>, i: number, n: number): [number, number] {
+  let hi = words[i * 2];
+  let lo = words[i * 2 + 1];
+  if (n >= 32) {
+    [hi, lo] = [lo, hi];
+    n -= 32;
+  }
+  if (n === 0) {
+    return [hi, lo];
+  }
+  return [(hi >>> n) | (lo << (32 - n)), (lo >>> n) | (hi << (32 - n))];
+}
+
+/**
+ * Shift right the 64 bit word at index i of an array of high and low 32 bit words, for n less than 32.
+ */
+function shr64(words: Array<number>, i: number, n: number): [number, number] {
+  const hi = words[i * 2];
+  const lo = words[i * 2 + 1];
+  return [hi >>> n, (lo >>> n) | (hi << (32 - n))];
+}
+
+function xor3(a: [number, number], b: [number, number], c: [number, number]): [number, number] {
+  return [a[0] ^ b[0] ^ c[0], a[1] ^ b[1] ^ c[1]];
+}
+
+/**
+ * Add 64 bit words, modulo 2^64.
+ */
+function add64(...words: Array<[number, number]>): [number, number] {
+  let lo = 0;
+  let hi = 0;
+  words.forEach((word) => {
+    lo += word[1] >>> 0;
+    hi += word[0] >>> 0;
+  });
+  hi += Math.floor(lo / 0x100000000);
+  return [hi | 0, lo | 0];
+}
+
+function toHex(words: Array<number>): string {
+  return words.map((word) => (word >>> 0).toString(16).padStart(8, "0")).join("");
+}
@@ -6,6 +6,7 @@ import { IncomingMessageRequest } from "../messages/methods/message.js";
 import { IncomingNotifyRequest } from "../messages/methods/notify.js";
 import { IncomingPrackRequest } from "../messages/methods/prack.js";
 import { IncomingReferRequest } from "../messages/methods/refer.js";
+import { IncomingUpdateRequest } from "../messages/methods/update.js";
 
 /**
  * Session delegate.
@@ -83,4 +84,12 @@ export interface SessionDelegate {
    * @param request - Incoming REFER request.
    */
   onRefer?(request: IncomingReferRequest): void;
+
+  /**
+   * Receive UPDATE request.
+   * If no handler is provided the request is rejected with a 488.
+   * https://tools.ietf.org/html/rfc3311#section-5.2
+   * @param request - Incoming UPDATE request.
+   */
+  onUpdate?(request: IncomingUpdateRequest): void;
 }
@@ -7,6 +7,7 @@ import { OutgoingMessageRequest } from "../messages/methods/message.js";
 import { OutgoingNotifyRequest } from "../messages/methods/notify.js";
 import { OutgoingPrackRequest } from "../messages/methods/prack.js";
 import { OutgoingReferRequest } from "../messages/methods/refer.js";
+import { OutgoingUpdateRequest } from "../messages/methods/update.js";
 import { OutgoingRequestDelegate, RequestOptions } from "../messages/outgoing-request.js";
 import { SessionDelegate } from "./session-delegate.js";
 
@@ -111,6 +112,15 @@ export interface Session {
    * @param options - Options bucket.
    */
   refer(delegate?: OutgoingRequestDelegate, options?: RequestOptions): OutgoingReferRequest;
+
+  /**
+   * Send UPDATE request.
+   * Modifying a session, in an early or confirmed dialog.
+   * https://tools.ietf.org/html/rfc3311#section-5.1
+   * @param delegate - Request delegate.
+   * @param options - Options bucket.
+   */
+  update(delegate?: OutgoingRequestDelegate, options?: RequestOptions): OutgoingUpdateRequest;
 }
 
 /**
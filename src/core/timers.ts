@@ -4,19 +4,26 @@ const T4 = 5000;
 
 /**
  * Timers.
+ * @remarks
+ * The values of timers D, I, J and K herein are those for unreliable transports.
+ * For reliable transports the transactions use a value of zero seconds.
+ * https://tools.ietf.org/html/rfc3261#appendix-A
  * @public
  */
 export const Timers = {
   T1,
   T2,
   T4,
+  TIMER_A: T1,
   TIMER_B: 64 * T1,
-  TIMER_D: 0 * T1, // Not correct for unreliable transports
+  TIMER_D: 32000,
+  TIMER_E: T1,
   TIMER_F: 64 * T1,
+  TIMER_G: T1,
   TIMER_H: 64 * T1,
-  TIMER_I: 0 * T4, // Not correct for unreliable transports
-  TIMER_J: 0 * T1, // Not correct for unreliable transports
-  TIMER_K: 0 * T4, // Not correct for unreliable transports
+  TIMER_I: T4,
+  TIMER_J: 64 * T1,
+  TIMER_K: T4,
   TIMER_L: 64 * T1,
   TIMER_M: 64 * T1,
   TIMER_N: 64 * T1,
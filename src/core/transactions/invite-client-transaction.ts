@@ -17,10 +17,14 @@ import { ClientTransactionUser } from "./transaction-user.js";
  * @public
  */
 export class InviteClientTransaction extends ClientTransaction {
+  private A: number | undefined;
   private B: number | undefined;
   private D: number | undefined;
   private M: number | undefined;
 
+  /** Current interval of timer A, doubles after each request retransmission. */
+  private timerAInterval: number = Timers.TIMER_A;
+
   /**
    * Map of 2xx to-tag to ACK.
    * If value is not undefined, value is the ACK which was sent.
@@ -42,8 +46,6 @@ export class InviteClientTransaction extends ClientTransaction {
    */
   constructor(request: OutgoingRequestMessage, transport: Transport, user: ClientTransactionUser) {
     super(request, transport, user, TransactionState.Calling, "sip.transaction.ict");
-    // FIXME: Timer A for unreliable transport not implemented
-    //
     // If an unreliable transport is being used, the client transaction
     // MUST start timer A with a value of T1. If a reliable transport is being used,
     // the client transaction SHOULD NOT start timer A (Timer A controls request retransmissions).
@@ -54,6 +56,9 @@ export class InviteClientTransaction extends ClientTransaction {
     // While not spelled out in the RFC, Timer B is the maximum amount of time that a sender
     // will wait for an INVITE message to be acknowledged (a SIP response message is received).
     // So Timer B should be cleared when the transaction state proceeds from "Calling".
+    if (!this.reliable) {
+      this.A = setTimeout(() => this.timerA(), this.timerAInterval);
+    }
     this.B = setTimeout(() => this.timerB(), Timers.TIMER_B);
     this.send(request.toString()).catch((error: TransportError) => {
       this.logTransportError(error, "Failed to send initial outgoing request.");
@@ -64,6 +69,10 @@ export class InviteClientTransaction extends ClientTransaction {
    * Destructor.
    */
   public dispose(): void {
+    if (this.A) {
+      clearTimeout(this.A);
+      this.A = undefined;
+    }
     if (this.B) {
       clearTimeout(this.B);
       this.B = undefined;
@@ -416,6 +425,14 @@ export class InviteClientTransaction extends ClientTransaction {
       this.B = undefined;
     }
 
+    // Request retransmissions SHOULD only be done while the client transaction
+    // is in the "Calling" state, so Timer A is cleared on any state transition.
+    // https://tools.ietf.org/html/rfc3261#section-17.1.1.2
+    if (this.A) {
+      clearTimeout(this.A);
+      this.A = undefined;
+    }
+
     if (newState === TransactionState.Proceeding) {
       // Timers have no effect on "Proceeding" state.
       // In the "Proceeding" state, the client transaction
@@ -428,7 +445,7 @@ export class InviteClientTransaction extends ClientTransaction {
     // and a value of zero seconds for reliable transports.
     // https://tools.ietf.org/html/rfc6026#section-8.4
     if (newState === TransactionState.Completed) {
-      this.D = setTimeout(() => this.timerD(), Timers.TIMER_D);
+      this.D = setTimeout(() => this.timerD(), this.reliable ? 0 : Timers.TIMER_D);
     }
 
     // The client transaction MUST transition to the "Accepted" state,
@@ -461,7 +478,14 @@ export class InviteClientTransaction extends ClientTransaction {
    * https://tools.ietf.org/html/rfc3261#section-17.1.1.2
    */
   private timerA(): void {
-    // TODO
+    this.logger.debug(`Timer A expired for INVITE client transaction ${this.id}.`);
+    if (this.state === TransactionState.Calling) {
+      this.send(this.request.toString()).catch((error: TransportError) => {
+        this.logTransportError(error, "Failed to send retransmission of outgoing request.");
+      });
+      this.timerAInterval = this.timerAInterval * 2;
+      this.A = setTimeout(() => this.timerA(), this.timerAInterval);
+    }
   }
 
   /**
@@ -16,10 +16,14 @@ import { ServerTransactionUser } from "./transaction-user.js";
 export class InviteServerTransaction extends ServerTransaction {
   private lastFinalResponse: string | undefined;
   private lastProvisionalResponse: string | undefined;
+  private G: number | undefined;
   private H: number | undefined;
   private I: number | undefined;
   private L: number | undefined;
 
+  /** Current interval of timer G, doubles after each response retransmission up to T2. */
+  private timerGInterval: number = Timers.TIMER_G;
+
   /**
    * FIXME: This should not be here. It should be in the UAS.
    *
@@ -59,6 +63,10 @@ export class InviteServerTransaction extends ServerTransaction {
    */
   public dispose(): void {
     this.stopProgressExtensionTimer();
+    if (this.G) {
+      clearTimeout(this.G);
+      this.G = undefined;
+    }
     if (this.H) {
       clearTimeout(this.H);
       this.H = undefined;
@@ -322,7 +330,9 @@ export class InviteServerTransaction extends ServerTransaction {
     // the server transaction MUST transition to the "Confirmed" state.
     // https://tools.ietf.org/html/rfc3261#section-17.2.1
     if (newState === TransactionState.Completed) {
-      // FIXME: Missing timer G for unreliable transports.
+      if (!this.reliable) {
+        this.G = setTimeout(() => this.timerG(), this.timerGInterval);
+      }
       this.H = setTimeout(() => this.timerH(), Timers.TIMER_H);
     }
 
@@ -332,8 +342,11 @@ export class InviteServerTransaction extends ServerTransaction {
     // transports. Once timer I fires, the server MUST transition to the "Terminated" state.
     // https://tools.ietf.org/html/rfc3261#section-17.2.1
     if (newState === TransactionState.Confirmed) {
-      // FIXME: This timer is not getting set correctly for unreliable transports.
-      this.I = setTimeout(() => this.timerI(), Timers.TIMER_I);
+      if (this.G) {
+        clearTimeout(this.G);
+        this.G = undefined;
+      }
+      this.I = setTimeout(() => this.timerI(), this.reliable ? 0 : Timers.TIMER_I);
     }
 
     // Once the transaction is in the "Terminated" state, it MUST be destroyed immediately.
@@ -389,7 +402,17 @@ export class InviteServerTransaction extends ServerTransaction {
    * https://tools.ietf.org/html/rfc3261#section-17.2.1
    */
   private timerG(): void {
-    // TODO
+    this.logger.debug(`Timer G expired for INVITE server transaction ${this.id}.`);
+    if (this.state === TransactionState.Completed) {
+      if (!this.lastFinalResponse) {
+        throw new Error("Last final response undefined.");
+      }
+      this.send(this.lastFinalResponse).catch((error: TransportError) => {
+        this.logTransportError(error, "Failed to send retransmission of final response.");
+      });
+      this.timerGInterval = Math.min(this.timerGInterval * 2, Timers.T2);
+      this.G = setTimeout(() => this.timerG(), this.timerGInterval);
+    }
   }
 
   /**
@@ -16,9 +16,13 @@ import { ClientTransactionUser } from "./transaction-user.js";
  * @public
  */
 export class NonInviteClientTransaction extends ClientTransaction {
+  private E: number | undefined;
   private F: number | undefined;
   private K: number | undefined;
 
+  /** Current interval of timer E, doubles after each request retransmission up to T2. */
+  private timerEInterval: number = Timers.TIMER_E;
+
   /**
    * Constructor
    * Upon construction, the outgoing request's Via header is updated by calling `setViaHeader`.
@@ -32,13 +36,16 @@ export class NonInviteClientTransaction extends ClientTransaction {
    */
   constructor(request: OutgoingRequestMessage, transport: Transport, user: ClientTransactionUser) {
     super(request, transport, user, TransactionState.Trying, "sip.transaction.nict");
-    // FIXME: Timer E for unreliable transports not implemented.
-    //
     // The "Trying" state is entered when the TU initiates a new client
     // transaction with a request.  When entering this state, the client
     // transaction SHOULD set timer F to fire in 64*T1 seconds. The request
-    // MUST be passed to the transport layer for transmission.
+    // MUST be passed to the transport layer for transmission.  If an
+    // unreliable transport is in use, the client transaction MUST set timer
+    // E to fire in T1 seconds.
     // https://tools.ietf.org/html/rfc3261#section-17.1.2.2
+    if (!this.reliable) {
+      this.E = setTimeout(() => this.timerE(), this.timerEInterval);
+    }
     this.F = setTimeout(() => this.timerF(), Timers.TIMER_F);
     this.send(request.toString()).catch((error: TransportError) => {
       this.logTransportError(error, "Failed to send initial outgoing request.");
@@ -49,6 +56,10 @@ export class NonInviteClientTransaction extends ClientTransaction {
    * Destructor.
    */
   public dispose(): void {
+    if (this.E) {
+      clearTimeout(this.E);
+      this.E = undefined;
+    }
     if (this.F) {
       clearTimeout(this.F);
       this.F = undefined;
@@ -212,11 +223,15 @@ export class NonInviteClientTransaction extends ClientTransaction {
     // (which is why the client transaction remains there only for unreliable transports).
     // https://tools.ietf.org/html/rfc3261#section-17.1.2.2
     if (newState === TransactionState.Completed) {
+      if (this.E) {
+        clearTimeout(this.E);
+        this.E = undefined;
+      }
       if (this.F) {
         clearTimeout(this.F);
         this.F = undefined;
       }
-      this.K = setTimeout(() => this.timerK(), Timers.TIMER_K);
+      this.K = setTimeout(() => this.timerK(), this.reliable ? 0 : Timers.TIMER_K);
     }
 
     // Once the transaction is in the terminated state, it MUST be destroyed immediately.
@@ -229,6 +244,27 @@ export class NonInviteClientTransaction extends ClientTransaction {
     this.setState(newState);
   }
 
+  /**
+   * If timer E fires while still in the "Trying" state, the timer is reset, but this
+   * time with a value of MIN(2*T1, T2).  When the timer fires again, it is reset to
+   * a MIN(4*T1, T2).  This process continues so that retransmissions occur with an
+   * exponentially increasing interval that caps at T2.
+   * If Timer E fires while in the "Proceeding" state, the request MUST be passed to
+   * the transport layer for retransmission, and Timer E MUST be reset with a value of T2 seconds.
+   * https://tools.ietf.org/html/rfc3261#section-17.1.2.2
+   */
+  private timerE(): void {
+    this.logger.debug(`Timer E expired for non-INVITE client transaction ${this.id}.`);
+    if (this.state === TransactionState.Trying || this.state === TransactionState.Proceeding) {
+      this.send(this.request.toString()).catch((error: TransportError) => {
+        this.logTransportError(error, "Failed to send retransmission of outgoing request.");
+      });
+      this.timerEInterval =
+        this.state === TransactionState.Trying ? Math.min(this.timerEInterval * 2, Timers.T2) : Timers.T2;
+      this.E = setTimeout(() => this.timerE(), this.timerEInterval);
+    }
+  }
+
   /**
    * If Timer F fires while the client transaction is still in the
    * "Trying" state, the client transaction SHOULD inform the TU about the
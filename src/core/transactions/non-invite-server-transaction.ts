@@ -215,7 +215,7 @@ export class NonInviteServerTransaction extends ServerTransaction {
     // in 64*T1 seconds for unreliable transports, and zero seconds for reliable transports.
     // https://tools.ietf.org/html/rfc3261#section-17.2.2
     if (newState === TransactionState.Completed) {
-      this.J = setTimeout(() => this.timerJ(), Timers.TIMER_J);
+      this.J = setTimeout(() => this.timerJ(), this.reliable ? 0 : Timers.TIMER_J);
     }
 
     // The server transaction MUST be destroyed the instant it enters the "Terminated" state.
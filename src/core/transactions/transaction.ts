@@ -69,6 +69,20 @@ export abstract class Transaction {
     return this._transport;
   }
 
+  /**
+   * True if the transaction transport is reliable.
+   * @remarks
+   * Timers controlling retransmissions are only started for unreliable transports,
+   * and timers absorbing retransmissions fire immediately for reliable transports.
+   * https://tools.ietf.org/html/rfc3261#section-17
+   */
+  get reliable(): boolean {
+    if (this._transport.reliable !== undefined) {
+      return this._transport.reliable;
+    }
+    return this._transport.protocol.toUpperCase() !== "UDP";
+  }
+
   /**
    * Sets up a function that will be called whenever the transaction state changes.
    * @param listener - Callback function.
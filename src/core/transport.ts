@@ -20,6 +20,18 @@ export interface Transport {
    */
   readonly protocol: string;
 
+  /**
+   * True if the transport is reliable.
+   *
+   * @remarks
+   * Unreliable transports (UDP for example) require the transaction layer to
+   * retransmit requests and responses and to absorb retransmissions for a period
+   * of time once a transaction completes. If undefined, the transport is assumed
+   * to be unreliable if the `protocol` is "UDP" and reliable otherwise.
+   * https://tools.ietf.org/html/rfc3261#section-17
+   */
+  readonly reliable?: boolean;
+
   /**
    * Send a message.
    *
@@ -1,3 +1,4 @@
 export * from "./user-agent-core.js";
 export * from "./user-agent-core-configuration.js";
 export * from "./user-agent-core-delegate.js";
+export * from "./message-interceptor.js";
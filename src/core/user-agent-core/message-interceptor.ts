@@ -0,0 +1,105 @@
+import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
+import { IncomingResponseMessage } from "../messages/incoming-response-message.js";
+import { OutgoingRequestMessage } from "../messages/outgoing-request-message.js";
+import { OutgoingResponse, ResponseOptions } from "../messages/outgoing-response.js";
+
+/**
+ * What to do with an intercepted message.
+ * @public
+ */
+export interface MessageInterceptorResult {
+  /**
+   * If true, the message is dropped.
+   *
+   * @remarks
+   * A dropped incoming message is not processed. A dropped outgoing message is not sent,
+   * so the transaction layer behaves as if it was lost in the network.
+   */
+  drop?: boolean;
+
+  /**
+   * If defined, the request is answered locally with a response constructed using these options.
+   *
+   * @remarks
+   * Applies to requests only. An incoming request is answered statelessly and not processed further.
+   * An outgoing request is not sent and the response is delivered to the request's delegate
+   * as if it had been received from the network. An outgoing INVITE may not be answered with a 2xx
+   * response, as the dialog it would establish has no remote target, and fails with a transport error.
+   */
+  reply?: ResponseOptions;
+
+  /**
+   * If defined, the response is sent as this message instead.
+   *
+   * @remarks
+   * Applies to outgoing responses only. The interceptors which follow are given the rewritten response.
+   */
+  rewrite?: string;
+}
+
+/**
+ * Intercepts the messages received and sent by the user agent core.
+ *
+ * @remarks
+ * Interceptors are called in the order in which they were added. Each interceptor may inspect
+ * a message, rewrite its header fields, or stop the message from going any further by returning
+ * a {@link MessageInterceptorResult} which drops it or answers it locally, in which case the
+ * remaining interceptors are not called. Returning nothing passes the message on to the next
+ * interceptor, then on to the user agent core (incoming messages) or transport (outgoing messages).
+ *
+ * Incoming messages are intercepted after parsing, before any other processing. Note that rewriting
+ * a header field value does not update the properties already parsed from it (`via` for example).
+ *
+ * Outgoing requests are intercepted once, before being passed to the transaction layer, so
+ * retransmissions are not intercepted again. ACK requests for non-2xx final responses, which
+ * are generated by the transaction layer, are not intercepted. Outgoing responses are intercepted
+ * each time they are passed to the transport, including retransmissions.
+ * @public
+ */
+export interface MessageInterceptor {
+  /**
+   * Intercept an incoming request.
+   * @param message - Incoming request message.
+   */
+  onIncomingRequest?(message: IncomingRequestMessage): MessageInterceptorResult | void;
+
+  /**
+   * Intercept an incoming response.
+   * @param message - Incoming response message.
+   */
+  onIncomingResponse?(message: IncomingResponseMessage): MessageInterceptorResult | void;
+
+  /**
+   * Intercept an outgoing request.
+   * @param message - Outgoing request message.
+   */
+  onOutgoingRequest?(message: OutgoingRequestMessage): MessageInterceptorResult | void;
+
+  /**
+   * Intercept an outgoing response.
+   * @remarks
+   * The response may be rewritten by returning a result with the new message as `rewrite`.
+   * @param response - Outgoing response.
+   */
+  onOutgoingResponse?(response: OutgoingResponse): MessageInterceptorResult | void;
+}
+
+/**
+ * Pass a message through interceptors in order.
+ * @param interceptors - Interceptors.
+ * @param call - Function calling the appropriate method of an interceptor.
+ * @returns The result of the interceptor which dropped or answered the message, otherwise undefined.
+ * @internal
+ */
+export function intercept(
+  interceptors: Array<MessageInterceptor>,
+  call: (interceptor: MessageInterceptor) => MessageInterceptorResult | void
+): MessageInterceptorResult | undefined {
+  for (const interceptor of interceptors.slice()) {
+    const result = call(interceptor);
+    if (result && (result.drop || result.reply)) {
+      return result;
+    }
+  }
+  return undefined;
+}
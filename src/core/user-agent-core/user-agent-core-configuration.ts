@@ -1,6 +1,10 @@
+import { ParsedChallenge } from "../../grammar/grammar-types.js";
 import { URI } from "../../grammar/uri.js";
 import { LoggerFactory } from "../log/logger-factory.js";
+import { BearerAuthentication } from "../messages/bearer-authentication.js";
 import { DigestAuthentication } from "../messages/digest-authentication.js";
+import { IncomingResponseMessage } from "../messages/incoming-response-message.js";
+import { OutgoingRequestMessage } from "../messages/outgoing-request-message.js";
 import { Transport } from "../transport.js";
 
 /**
@@ -16,7 +20,7 @@ export interface Contact {
   pubGruu: URI | undefined;
   tempGruu: URI | undefined;
   uri: URI;
-  toString: (options?: { anonymous?: boolean; outbound?: boolean; register?: boolean }) => string;
+  toString: (options?: { anonymous?: boolean; outbound?: boolean; register?: boolean; secure?: boolean }) => string;
 }
 
 /**
@@ -104,6 +108,42 @@ export interface UserAgentCoreConfiguration {
    */
   authenticationFactory(): DigestAuthentication | undefined;
 
+  /**
+   * Authentication provider function.
+   * @remarks
+   * If defined, used instead of the authentication factory to answer a challenge.
+   * @param challenge - The challenge received.
+   * @param method - The method of the request challenged.
+   * @returns Credentials to answer the challenge with, or undefined to not answer it.
+   */
+  authenticationProvider?(
+    challenge: ParsedChallenge,
+    method: string
+  ): Promise<DigestAuthentication | BearerAuthentication | undefined>;
+
+  /**
+   * If true, credentials answering a challenge are sent preemptively in subsequent requests,
+   * reusing the nonce of the challenge with an incremented nonce count.
+   */
+  preemptiveAuthorization?: boolean;
+
+  /**
+   * Maximum number of targets of 3xx responses a request outside of a dialog is retried to.
+   * If zero or undefined, 3xx responses are delivered as they are.
+   */
+  maxRedirects?: number;
+
+  /**
+   * Redirect filter function.
+   * @remarks
+   * If defined, called for each target of a 3xx response before it is added to the target set.
+   * @param target - The target.
+   * @param response - The 3xx response.
+   * @param request - The request to be retried.
+   * @returns True to try the target, false to discard it.
+   */
+  redirectFilter?(target: URI, response: IncomingResponseMessage, request: OutgoingRequestMessage): boolean;
+
   /**
    * DEPRECATED: This is a hack to get around `Transport`
    * requiring the `UA` to start for construction.
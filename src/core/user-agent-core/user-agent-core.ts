@@ -1,9 +1,13 @@
+import { ParsedChallenge } from "../../grammar/grammar-types.js";
 import { URI } from "../../grammar/uri.js";
 import { Dialog } from "../dialogs/dialog.js";
 import { Logger } from "../log/logger.js";
 import { LoggerFactory } from "../log/logger-factory.js";
+import { BearerAuthentication } from "../messages/bearer-authentication.js";
 import { Body } from "../messages/body.js";
 import { C } from "../messages/methods/constants.js";
+import { DigestAuthentication } from "../messages/digest-authentication.js";
+import { Headers } from "../messages/headers.js";
 import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
 import { IncomingResponseMessage } from "../messages/incoming-response-message.js";
 import { OutgoingRequest, OutgoingRequestDelegate } from "../messages/outgoing-request.js";
@@ -32,6 +36,7 @@ import { SubscribeUserAgentServer } from "../user-agents/subscribe-user-agent-se
 import { UserAgentClient } from "../user-agents/user-agent-client.js";
 import { UserAgentServer } from "../user-agents/user-agent-server.js";
 import { AllowedMethods } from "./allowed-methods.js";
+import { intercept, MessageInterceptor } from "./message-interceptor.js";
 import { UserAgentCoreConfiguration } from "./user-agent-core-configuration.js";
 import { UserAgentCoreDelegate } from "./user-agent-core-delegate.js";
 /**
@@ -40,6 +45,26 @@ import { UserAgentCoreDelegate } from "./user-agent-core-delegate.js";
  */
 const acceptedBodyTypes = ["application/sdp", "application/dtmf-relay"];
 
+/**
+ * Credentials answering a challenge, cached so that they may be sent preemptively.
+ * @internal
+ */
+export interface CachedAuthorization {
+  /** Name of the header field the credentials are sent in, "authorization" or "proxy-authorization". */
+  headerName: string;
+  /** Realm of the challenge. */
+  realm: string;
+  /**
+   * Host the credentials apply to, that of the Request-URI if challenged by a UAS,
+   * or that of the next hop if challenged by a proxy.
+   */
+  host: string;
+  /** The challenge answered. */
+  challenge: ParsedChallenge;
+  /** The credentials, which keep count of the nonce. */
+  credentials: DigestAuthentication | BearerAuthentication;
+}
+
 /**
  * User Agent Core.
  * @remarks
@@ -71,8 +96,13 @@ export class UserAgentCore {
   public userAgentClients = new Map<string, UserAgentClient>();
   /** UASs. */
   public userAgentServers = new Map<string, UserAgentServer>();
+  /** Message interceptors, in the order in which they are called. */
+  public interceptors: Array<MessageInterceptor> = [];
+  /** Credentials answering challenges, by host and realm, if sent preemptively. */
+  public authorizations = new Map<string, CachedAuthorization>();
 
   private logger: Logger;
+  private interceptingTransport: Transport;
 
   /**
    * Constructor.
@@ -85,6 +115,7 @@ export class UserAgentCore {
     this.dialogs = new Map<string, Dialog>();
     this.subscribers = new Map<string, SubscribeUserAgentClient>();
     this.logger = configuration.loggerFactory.getLogger("sip.user-agent-core");
+    this.interceptingTransport = this.makeInterceptingTransport();
   }
 
   /** Destructor. */
@@ -102,6 +133,7 @@ export class UserAgentCore {
     this.userAgentClients.clear();
     this.userAgentServers.forEach((uac) => uac.dispose());
     this.userAgentServers.clear();
+    this.authorizations.clear();
   }
 
   /** Logger factory. */
@@ -109,13 +141,14 @@ export class UserAgentCore {
     return this.configuration.loggerFactory;
   }
 
-  /** Transport. */
+  /**
+   * Transport.
+   * @remarks
+   * Outgoing responses are passed through the interceptors on their way to the transport.
+   */
   get transport(): Transport {
-    const transport = this.configuration.transportAccessor();
-    if (!transport) {
-      throw new Error("Transport undefined.");
-    }
-    return transport;
+    this.currentTransport(); // throws if undefined
+    return this.interceptingTransport;
   }
 
   /**
@@ -191,7 +224,7 @@ export class UserAgentCore {
     fromURI: URI,
     toURI: URI,
     options: OutgoingRequestMessageOptions,
-    extraHeaders?: Array<string>,
+    extraHeaders?: Array<string> | Headers,
     body?: Body
   ): OutgoingRequestMessage {
     // default values from user agent configuration
@@ -464,7 +497,16 @@ export class UserAgentCore {
     // If the Request-URI uses a scheme not supported by the UAS, it SHOULD
     // reject the request with a 416 (Unsupported URI Scheme) response.
     // https://tools.ietf.org/html/rfc3261#section-8.2.2.1
-    if (message.ruri.scheme !== "sip") {
+    if (!["sip", "sips", "tel"].includes(message.ruri.scheme)) {
+      this.replyStateless(message, { statusCode: 416 });
+      return;
+    }
+
+    // A SIPS URI specifies that the resource be contacted securely, so a
+    // request with a SIPS Request-URI received over a transport which is not
+    // secure is rejected as if the scheme were not supported.
+    // https://tools.ietf.org/html/rfc3261#section-19.1
+    if (message.ruri.scheme === "sips" && !["TLS", "WSS"].includes(this.transport.protocol.toUpperCase())) {
       this.replyStateless(message, { statusCode: 416 });
       return;
     }
@@ -478,12 +520,17 @@ export class UserAgentCore {
     const ruriMatches = (uri: URI | undefined): boolean => {
       return !!uri && uri.user === ruri.user;
     };
+    // A GRUU is matched using the URI comparison rules.
+    // https://tools.ietf.org/html/rfc3261#section-19.1.4
+    const gruuMatches = (uri: URI | undefined): boolean => {
+      return !!uri && ruri.equals(uri);
+    };
     if (
       !ruriMatches(this.configuration.aor) &&
       !(
         ruriMatches(this.configuration.contact.uri) ||
-        ruriMatches(this.configuration.contact.pubGruu) ||
-        ruriMatches(this.configuration.contact.tempGruu)
+        gruuMatches(this.configuration.contact.pubGruu) ||
+        gruuMatches(this.configuration.contact.tempGruu)
       )
     ) {
       this.logger.warn("Request-URI does not point to us.");
@@ -498,7 +545,8 @@ export class UserAgentCore {
     // the Contact header fields of requests and responses sent by the UA
     // that establish or refresh dialogs.
     // https://tools.ietf.org/html/rfc3261#section-8.2.2.1
-    if (message.method === C.INVITE) {
+    // https://tools.ietf.org/html/rfc3311#section-5.1
+    if (message.method === C.INVITE || message.method === C.UPDATE) {
       if (!message.hasHeader("Contact")) {
         this.replyStateless(message, {
           statusCode: 400,
@@ -822,6 +870,12 @@ export class UserAgentCore {
           this.delegate.onSubscribe ? this.delegate.onSubscribe(uas) : uas.reject({ statusCode: 480 });
         }
         break;
+      case C.UPDATE:
+        // The UPDATE method may only be sent within an early or confirmed
+        // dialog, so one without a matching dialog is rejected.
+        // https://tools.ietf.org/html/rfc3311#section-5.2
+        this.replyStateless(message, { statusCode: 481 });
+        break;
       default:
         throw new Error(`Unexpected out of dialog request method ${message.method}.`);
     }
@@ -855,7 +909,7 @@ export class UserAgentCore {
 
     // 8.1.3.4 Processing 3xx Responses
     // https://tools.ietf.org/html/rfc3261#section-8.1.3.4
-    // TODO
+    // Handled by user agent client redirect guard.
 
     // 8.1.3.5 Processing 4xx Responses
     // https://tools.ietf.org/html/rfc3261#section-8.1.3.5
@@ -895,4 +949,51 @@ export class UserAgentCore {
       );
     }
   }
+
+  /**
+   * The transport of the user agent.
+   */
+  private currentTransport(): Transport {
+    const transport = this.configuration.transportAccessor();
+    if (!transport) {
+      throw new Error("Transport undefined.");
+    }
+    return transport;
+  }
+
+  /**
+   * Make the transport passing outgoing responses through the interceptors on their way to the transport
+   * of the user agent. Each interceptor is given the response as rewritten by the interceptors before it.
+   */
+  private makeInterceptingTransport(): Transport {
+    const current = (): Transport => this.currentTransport();
+    return {
+      get protocol(): string {
+        return current().protocol;
+      },
+      get reliable(): boolean | undefined {
+        return current().reliable;
+      },
+      send: (message: string): Promise<void> => {
+        const transport = current();
+        if (!/^SIP\/2\.0 /.test(message)) {
+          return transport.send(message);
+        }
+        let outgoing = message;
+        const interception = intercept(this.interceptors, (interceptor) => {
+          const result = interceptor.onOutgoingResponse
+            ? interceptor.onOutgoingResponse({ message: outgoing })
+            : undefined;
+          if (result && result.rewrite !== undefined) {
+            outgoing = result.rewrite;
+          }
+          return result;
+        });
+        if (interception) {
+          return Promise.resolve();
+        }
+        return transport.send(outgoing);
+      }
+    };
+  }
 }
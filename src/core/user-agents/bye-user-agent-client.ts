@@ -12,7 +12,7 @@ import { UserAgentClient } from "./user-agent-client.js";
 export class ByeUserAgentClient extends UserAgentClient implements OutgoingByeRequest {
   constructor(dialog: SessionDialog, delegate?: OutgoingRequestDelegate, options?: RequestOptions) {
     const message = dialog.createOutgoingRequestMessage(C.BYE, options);
-    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate);
+    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate, dialog);
     dialog.dispose();
   }
 }
@@ -22,5 +22,7 @@ export * from "./register-user-agent-client.js";
 export * from "./register-user-agent-server.js";
 export * from "./subscribe-user-agent-client.js";
 export * from "./subscribe-user-agent-server.js";
+export * from "./update-user-agent-client.js";
+export * from "./update-user-agent-server.js";
 export * from "./user-agent-client.js";
 export * from "./user-agent-server.js";
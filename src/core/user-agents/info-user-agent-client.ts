@@ -12,6 +12,6 @@ import { UserAgentClient } from "./user-agent-client.js";
 export class InfoUserAgentClient extends UserAgentClient implements OutgoingInfoRequest {
   constructor(dialog: SessionDialog, delegate?: OutgoingRequestDelegate, options?: RequestOptions) {
     const message = dialog.createOutgoingRequestMessage(C.INFO, options);
-    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate);
+    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate, dialog);
   }
 }
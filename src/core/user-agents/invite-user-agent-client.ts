@@ -75,6 +75,15 @@ export class InviteUserAgentClient extends UserAgentClient implements OutgoingIn
     if (!this.authenticationGuard(message)) {
       return;
     }
+    if (!this.sessionIntervalGuard(message)) {
+      return;
+    }
+    if (!this.redirectGuard(message)) {
+      // The early dialogs created by the previous target are terminated by its final response.
+      this.earlyDialogs.forEach((earlyDialog) => earlyDialog.dispose());
+      this.earlyDialogs.clear();
+      return;
+    }
 
     const statusCode = message.statusCode ? message.statusCode.toString() : "";
     if (!statusCode) {
@@ -2,6 +2,7 @@ import { URI } from "../../grammar/uri.js";
 import { Dialog } from "../dialogs/dialog.js";
 import { SessionDialog } from "../dialogs/session-dialog.js";
 import { TransactionStateError } from "../exceptions/transaction-state-error.js";
+import { getExtraHeaders } from "../messages/headers.js";
 import { IncomingInviteRequest, OutgoingResponseWithSession } from "../messages/methods/invite.js";
 import { IncomingRequestDelegate } from "../messages/incoming-request.js";
 import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
@@ -125,8 +126,7 @@ export class InviteUserAgentServer extends UserAgentServer implements IncomingIn
     }
 
     options.statusCode = options.statusCode || 200;
-    options.extraHeaders = options.extraHeaders || [];
-    options.extraHeaders = options.extraHeaders.concat(recordRouteHeader);
+    options.extraHeaders = getExtraHeaders(options.extraHeaders).concat(recordRouteHeader);
     options.extraHeaders.push(allowHeader);
     options.extraHeaders.push(contactHeader);
 
@@ -212,8 +212,7 @@ export class InviteUserAgentServer extends UserAgentServer implements IncomingIn
     const recordRouteHeader = this.message.getHeaders("record-route").map((header) => `Record-Route: ${header}`);
     const contactHeader = `Contact: ${this.core.configuration.contact}`;
 
-    options.extraHeaders = options.extraHeaders || [];
-    options.extraHeaders = options.extraHeaders.concat(recordRouteHeader);
+    options.extraHeaders = getExtraHeaders(options.extraHeaders).concat(recordRouteHeader);
     options.extraHeaders.push(contactHeader);
 
     const response = super.progress(options);
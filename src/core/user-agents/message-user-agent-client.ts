@@ -1,3 +1,4 @@
+import { Dialog } from "../dialogs/dialog.js";
 import { OutgoingMessageRequest } from "../messages/methods/message.js";
 import { OutgoingRequestDelegate } from "../messages/outgoing-request.js";
 import { OutgoingRequestMessage } from "../messages/outgoing-request-message.js";
@@ -10,7 +11,12 @@ import { UserAgentClient } from "./user-agent-client.js";
  * @public
  */
 export class MessageUserAgentClient extends UserAgentClient implements OutgoingMessageRequest {
-  constructor(core: UserAgentCore, message: OutgoingRequestMessage, delegate?: OutgoingRequestDelegate) {
-    super(NonInviteClientTransaction, core, message, delegate);
+  constructor(
+    core: UserAgentCore,
+    message: OutgoingRequestMessage,
+    delegate?: OutgoingRequestDelegate,
+    dialog?: Dialog
+  ) {
+    super(NonInviteClientTransaction, core, message, delegate, dialog);
   }
 }
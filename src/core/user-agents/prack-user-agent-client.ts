@@ -12,7 +12,7 @@ import { UserAgentClient } from "./user-agent-client.js";
 export class PrackUserAgentClient extends UserAgentClient implements OutgoingPrackRequest {
   constructor(dialog: SessionDialog, delegate?: OutgoingRequestDelegate, options?: RequestOptions) {
     const message = dialog.createOutgoingRequestMessage(C.PRACK, options);
-    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate);
+    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate, dialog);
     dialog.signalingStateTransition(message);
   }
 }
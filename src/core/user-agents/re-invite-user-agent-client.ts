@@ -24,7 +24,7 @@ export class ReInviteUserAgentClient extends UserAgentClient implements Outgoing
 
   constructor(dialog: SessionDialog, delegate?: OutgoingInviteRequestDelegate, options?: RequestOptions) {
     const message = dialog.createOutgoingRequestMessage(C.INVITE, options);
-    super(InviteClientTransaction, dialog.userAgentCore, message, delegate);
+    super(InviteClientTransaction, dialog.userAgentCore, message, delegate, dialog);
     this.delegate = delegate;
     dialog.signalingStateTransition(message);
     // FIXME: TODO: next line obviously needs to be improved...
@@ -36,6 +36,9 @@ export class ReInviteUserAgentClient extends UserAgentClient implements Outgoing
     if (!this.authenticationGuard(message, this.dialog)) {
       return;
     }
+    if (!this.sessionIntervalGuard(message, this.dialog)) {
+      return;
+    }
 
     const statusCode = message.statusCode ? message.statusCode.toString() : "";
     if (!statusCode) {
@@ -1,5 +1,6 @@
 import { URI } from "../../grammar/uri.js";
 import { SessionDialog } from "../dialogs/session-dialog.js";
+import { getExtraHeaders } from "../messages/headers.js";
 import { IncomingInviteRequest, OutgoingResponseWithSession } from "../messages/methods/invite.js";
 import { IncomingRequestDelegate } from "../messages/incoming-request.js";
 import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
@@ -40,8 +41,9 @@ export class ReInviteUserAgentServer extends UserAgentServer implements Incoming
     // the Record-Route headers with the correct values (would be weird not too, but...).
     // Anyway, for now the technically useless Record-Route headers are being added
     // to maintain "backwards compatibility" with the older broken versions of SIP.js.
-    options.extraHeaders = options.extraHeaders || [];
-    options.extraHeaders = options.extraHeaders.concat(this.dialog.routeSet.map((route) => `Record-Route: ${route}`));
+    options.extraHeaders = getExtraHeaders(options.extraHeaders).concat(
+      this.dialog.routeSet.map((route) => `Record-Route: ${route}`)
+    );
 
     // Send and return the response
     const response = super.accept(options);
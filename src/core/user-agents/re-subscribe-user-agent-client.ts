@@ -15,7 +15,7 @@ export class ReSubscribeUserAgentClient extends UserAgentClient implements Outgo
 
   constructor(dialog: SubscriptionDialog, delegate?: OutgoingRequestDelegate, options?: RequestOptions) {
     const message = dialog.createOutgoingRequestMessage(C.SUBSCRIBE, options);
-    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate);
+    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate, dialog);
     this.dialog = dialog;
   }
 
@@ -12,6 +12,6 @@ import { UserAgentClient } from "./user-agent-client.js";
 export class ReferUserAgentClient extends UserAgentClient implements OutgoingReferRequest {
   constructor(dialog: SessionDialog, delegate?: OutgoingRequestDelegate, options?: RequestOptions) {
     const message = dialog.createOutgoingRequestMessage(C.REFER, options);
-    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate);
+    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate, dialog);
   }
 }
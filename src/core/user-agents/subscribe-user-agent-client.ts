@@ -86,7 +86,7 @@ export class SubscribeUserAgentClient extends UserAgentClient implements Outgoin
     // request, and the same "Event" header field.  Rules for comparisons of
     // the "Event" header fields are described in Section 8.2.1.
     // https://tools.ietf.org/html/rfc6665#section-4.4.1
-    const event: string = uas.message.parseHeader("Event").event;
+    const event = uas.message.parseHeader("Event")?.event;
     if (!event || event !== this.subscriptionEvent) {
       this.logger.warn(`Failed to parse event.`);
       uas.reject({ statusCode: 489 });
@@ -266,6 +266,9 @@ export class SubscribeUserAgentClient extends UserAgentClient implements Outgoin
     if (!this.authenticationGuard(message)) {
       return;
     }
+    if (!this.redirectGuard(message)) {
+      return;
+    }
 
     if (message.statusCode && message.statusCode >= 200 && message.statusCode < 300) {
       //  The "Expires" header field in a 200-class response to SUBSCRIBE
@@ -0,0 +1,93 @@
+import { SessionDialog } from "../dialogs/session-dialog.js";
+import { getBody } from "../messages/body.js";
+import { C } from "../messages/methods/constants.js";
+import { IncomingResponseMessage } from "../messages/incoming-response-message.js";
+import { OutgoingUpdateRequest } from "../messages/methods/update.js";
+import { OutgoingRequestDelegate, RequestOptions } from "../messages/outgoing-request.js";
+import { NonInviteClientTransaction } from "../transactions/non-invite-client-transaction.js";
+import { UserAgentClient } from "./user-agent-client.js";
+
+/**
+ * UPDATE UAC.
+ * @remarks
+ * 5.1 Sending an UPDATE
+ * https://tools.ietf.org/html/rfc3311#section-5.1
+ * @public
+ */
+export class UpdateUserAgentClient extends UserAgentClient implements OutgoingUpdateRequest {
+  private dialog: SessionDialog;
+
+  constructor(dialog: SessionDialog, delegate?: OutgoingRequestDelegate, options?: RequestOptions) {
+    const message = dialog.createOutgoingRequestMessage(C.UPDATE, options);
+    super(NonInviteClientTransaction, dialog.userAgentCore, message, delegate, dialog);
+    // Update dialog signaling state with offer in body
+    dialog.signalingStateTransition(message);
+    this.dialog = dialog;
+  }
+
+  protected receiveResponse(message: IncomingResponseMessage): void {
+    if (!this.authenticationGuard(message, this.dialog)) {
+      return;
+    }
+    if (!this.sessionIntervalGuard(message, this.dialog)) {
+      return;
+    }
+
+    const statusCode = message.statusCode ? message.statusCode.toString() : "";
+    if (!statusCode) {
+      throw new Error("Response status code undefined.");
+    }
+
+    switch (true) {
+      case /^100$/.test(statusCode):
+        if (this.delegate && this.delegate.onTrying) {
+          this.delegate.onTrying({ message });
+        }
+        break;
+      case /^1[0-9]{2}$/.test(statusCode):
+        if (this.delegate && this.delegate.onProgress) {
+          this.delegate.onProgress({ message });
+        }
+        break;
+      case /^2[0-9]{2}$/.test(statusCode):
+        // Update dialog signaling state with answer in body
+        this.dialog.signalingStateTransition(message);
+
+        if (this.delegate && this.delegate.onAccept) {
+          this.delegate.onAccept({ message });
+        }
+        break;
+      case /^3[0-9]{2}$/.test(statusCode):
+        this.rollback();
+
+        if (this.delegate && this.delegate.onRedirect) {
+          this.delegate.onRedirect({ message });
+        }
+        break;
+      case /^[4-6][0-9]{2}$/.test(statusCode):
+        // If the UAC receives a non-2xx final response to an UPDATE with an
+        // offer, the session parameters MUST remain unchanged, as if no UPDATE
+        // had been issued.
+        // https://tools.ietf.org/html/rfc3311#section-5.1
+        this.rollback();
+
+        if (this.delegate && this.delegate.onReject) {
+          this.delegate.onReject({ message });
+        }
+        break;
+      default:
+        throw new Error(`Invalid status code ${statusCode}`);
+    }
+  }
+
+  /**
+   * Rollback the dialog signaling state, if an offer was sent.
+   * An UPDATE without an offer must not rollback an offer of another transaction.
+   */
+  private rollback(): void {
+    const body = getBody(this.message);
+    if (body && body.contentDisposition === "session") {
+      this.dialog.signalingStateRollback();
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { SessionDialog } from "../dialogs/session-dialog.js";
+import { getBody } from "../messages/body.js";
+import { IncomingUpdateRequest } from "../messages/methods/update.js";
+import { IncomingRequestDelegate } from "../messages/incoming-request.js";
+import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
+import { OutgoingResponse, ResponseOptions } from "../messages/outgoing-response.js";
+import { NonInviteServerTransaction } from "../transactions/non-invite-server-transaction.js";
+import { UserAgentServer } from "./user-agent-server.js";
+
+/**
+ * UPDATE UAS.
+ * @remarks
+ * 5.2 Receiving an UPDATE
+ * https://tools.ietf.org/html/rfc3311#section-5.2
+ * @public
+ */
+export class UpdateUserAgentServer extends UserAgentServer implements IncomingUpdateRequest {
+  private dialog: SessionDialog;
+
+  constructor(dialog: SessionDialog, message: IncomingRequestMessage, delegate?: IncomingRequestDelegate) {
+    super(NonInviteServerTransaction, dialog.userAgentCore, message, delegate);
+    // Update dialog signaling state with offer in body
+    dialog.signalingStateTransition(message);
+    this.dialog = dialog;
+  }
+
+  /**
+   * Update the dialog signaling state on a 2xx response.
+   * @param options - Options bucket.
+   */
+  public accept(options: ResponseOptions = { statusCode: 200 }): OutgoingResponse {
+    if (options.body) {
+      // Update dialog signaling state with answer in body
+      this.dialog.signalingStateTransition(options.body);
+    }
+    return super.accept(options);
+  }
+
+  /**
+   * Rollback the dialog signaling state on a non-2xx response, if an offer was received.
+   * @param options - Options bucket.
+   */
+  public reject(options: ResponseOptions = { statusCode: 488 }): OutgoingResponse {
+    const body = getBody(this.message);
+    if (body && body.contentDisposition === "session") {
+      this.dialog.signalingStateRollback();
+    }
+    return super.reject(options);
+  }
+}
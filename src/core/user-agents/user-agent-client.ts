@@ -1,17 +1,34 @@
+import { Grammar } from "../../grammar/grammar.js";
+import { ParsedChallenge } from "../../grammar/grammar-types.js";
+import { NameAddrHeader } from "../../grammar/name-addr-header.js";
+import { URI } from "../../grammar/uri.js";
 import { Dialog } from "../dialogs/dialog.js";
 import { TransportError } from "../exceptions/transport-error.js";
 import { Logger } from "../log/logger.js";
 import { LoggerFactory } from "../log/logger-factory.js";
+import { BearerAuthentication } from "../messages/bearer-authentication.js";
 import { C } from "../messages/methods/constants.js";
+import { DigestAuthentication } from "../messages/digest-authentication.js";
+import { getExtraHeaders } from "../messages/headers.js";
 import { IncomingResponseMessage } from "../messages/incoming-response-message.js";
 import { OutgoingRequest, OutgoingRequestDelegate, RequestOptions } from "../messages/outgoing-request.js";
 import { OutgoingRequestMessage } from "../messages/outgoing-request-message.js";
+import { ResponseOptions } from "../messages/outgoing-response.js";
+import { Parser } from "../messages/parser.js";
+import { getReasonPhrase, newTag } from "../messages/utils.js";
 import { ClientTransaction } from "../transactions/client-transaction.js";
 import { ClientTransactionUser } from "../transactions/transaction-user.js";
 import { NonInviteClientTransaction } from "../transactions/non-invite-client-transaction.js";
 import { TransactionState } from "../transactions/transaction-state.js";
 import { Transport } from "../transport.js";
+import { intercept } from "../user-agent-core/message-interceptor.js";
 import { UserAgentCore } from "../user-agent-core/user-agent-core.js";
+import { UserAgentCoreConfiguration } from "../user-agent-core/user-agent-core-configuration.js";
+
+/**
+ * Maximum number of times a request is retried with credentials.
+ */
+const MAX_AUTHENTICATION_ATTEMPTS = 3;
 
 type ClientTransactionConstructor = new (
   message: OutgoingRequestMessage,
@@ -19,6 +36,8 @@ type ClientTransactionConstructor = new (
   user: ClientTransactionUser
 ) => ClientTransaction;
 
+type AuthenticationProvider = NonNullable<UserAgentCoreConfiguration["authenticationProvider"]>;
+
 /**
  * User Agent Client (UAC).
  * @remarks
@@ -38,22 +57,45 @@ export class UserAgentClient implements OutgoingRequest {
 
   private _transaction: ClientTransaction | undefined;
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private credentials: any;
-  private challenged = false;
+  /** Realms of the challenges for which credentials have been sent. */
+  private challengedRealms: Array<string> = [];
+  private authenticationAttempts = 0;
   private stale = false;
+  /** Credentials sent, by authorization header field name and realm. */
+  private authorizations = new Map<string, Map<string, string>>();
+  /** A challenge for which no credentials were provided, delivered as is. */
+  private unauthenticatedResponse: IncomingResponseMessage | undefined;
+  /** The dialog within which the request is sent, if any. */
+  private requestDialog: Dialog | undefined;
+  /** True once the request has been retried after a 422 (Session Interval Too Small) response. */
+  private sessionIntervalRetried = false;
+  /** Targets of redirect responses not yet tried, in order of preference. */
+  private redirectTargets: Array<{ uri: URI; q: number }> = [];
+  /** Targets already tried or discarded, including the original Request-URI. */
+  private redirectTargetsSeen: Array<string> = [];
+  private redirects = 0;
+  /** True once disposed, after which credentials obtained from the provider are dropped. */
+  private disposed = false;
+  /** True once canceled, after which the request is not retried with credentials. */
+  private canceled = false;
 
   constructor(
     private transactionConstructor: ClientTransactionConstructor,
     protected core: UserAgentCore,
     public message: OutgoingRequestMessage,
-    public delegate?: OutgoingRequestDelegate
+    public delegate?: OutgoingRequestDelegate,
+    dialog?: Dialog
   ) {
     this.logger = this.loggerFactory.getLogger("sip.user-agent-client");
+    this.requestDialog = dialog;
+    if (this.core.configuration.preemptiveAuthorization && this.message.method !== C.CANCEL) {
+      this.authorizePreemptively();
+    }
     this.init();
   }
 
   public dispose(): void {
+    this.disposed = true;
     this.transaction.dispose();
   }
 
@@ -87,6 +129,10 @@ export class UserAgentClient implements OutgoingRequest {
       throw new Error("From undefined.");
     }
 
+    // A request which is canceled is not retried to further redirect targets, nor with credentials.
+    this.redirectTargets = [];
+    this.canceled = true;
+
     // The following procedures are used to construct a CANCEL request.  The
     // Request-URI, Call-ID, To, the numeric part of CSeq, and From header
     // fields in the CANCEL request MUST be identical to those in the
@@ -167,14 +213,21 @@ export class UserAgentClient implements OutgoingRequest {
    * 22.3 Proxy-to-User Authentication
    * https://tools.ietf.org/html/rfc3261#section-22.3
    *
-   * FIXME: This "guard for and retry the request with credentials"
-   * implementation is not complete and at best minimally passable.
+   * The request is retried at most once for each realm challenged, unless the
+   * nonce was stale, and at most MAX_AUTHENTICATION_ATTEMPTS times overall.
+   * If the request is sent within a dialog, the retried request uses the next
+   * local sequence number of the dialog. If credentials are obtained from an
+   * authentication provider, the response is held back until they are provided.
    * @param response - The incoming response to guard.
    * @param dialog - If defined, the dialog within which the response was received.
    * @returns True if the program execution is to continue in the branch in question.
    *          Otherwise the request is retried with credentials and current request processing must stop.
    */
   protected authenticationGuard(message: IncomingResponseMessage, dialog?: Dialog): boolean {
+    if (message === this.unauthenticatedResponse) {
+      return true;
+    }
+
     const statusCode = message.statusCode;
     if (!statusCode) {
       throw new Error("Response status code undefined.");
@@ -189,49 +242,268 @@ export class UserAgentClient implements OutgoingRequest {
       return true;
     }
 
-    // Get and parse the appropriate WWW-Authenticate or Proxy-Authenticate header.
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let challenge: any;
-    let authorizationHeaderName: string;
-    if (statusCode === 401) {
-      challenge = message.parseHeader("www-authenticate");
-      authorizationHeaderName = "authorization";
-    } else {
-      challenge = message.parseHeader("proxy-authenticate");
-      authorizationHeaderName = "proxy-authorization";
-    }
+    // Get and parse the appropriate WWW-Authenticate or Proxy-Authenticate headers.
+    const challengeHeaderName = statusCode === 401 ? "www-authenticate" : "proxy-authenticate";
+    const challenges: Array<ParsedChallenge> = [];
+    message.getHeaders(challengeHeaderName).forEach((header, idx) => {
+      const challenge = message.parseHeader(challengeHeaderName, idx);
+      if (challenge) {
+        challenges.push(challenge);
+      }
+    });
 
     // Verify it seems a valid challenge.
-    if (!challenge) {
+    if (!challenges.length) {
       this.logger.warn(statusCode + " with wrong or missing challenge, cannot authenticate");
       return true;
     }
 
-    // Avoid infinite authentications.
-    if (this.challenged && (this.stale || challenge.stale !== true)) {
-      this.logger.warn(statusCode + " apparently in authentication loop, cannot authenticate");
+    // Get credentials from the provider, if any, which may take a while. Meanwhile the
+    // response is held back. If no credentials are provided, it is then delivered as is.
+    const authenticationProvider = this.core.configuration.authenticationProvider;
+    if (authenticationProvider) {
+      const candidates = challenges.filter((challenge) => !this.authenticationLoop(challenge));
+      if (!candidates.length) {
+        this.logger.warn(statusCode + " apparently in authentication loop, cannot authenticate");
+        return true;
+      }
+      this.provideCredentials(authenticationProvider, candidates)
+        .catch((error: Error) => {
+          this.logger.error(`Unable to obtain credentials, ${error.message}`);
+          return undefined;
+        })
+        .then((provided) => {
+          if (this.disposed) {
+            this.logger.warn(statusCode + " challenge dropped, user agent client disposed while obtaining credentials");
+            return;
+          }
+          if (provided && !this.canceled) {
+            // Only challenges of the scheme and realm the credentials were provided for are answered.
+            const answerable = challenges.filter(
+              (challenge) =>
+                challenge.scheme === provided.challenge.scheme && challenge.realm === provided.challenge.realm
+            );
+            if (this.retryWithCredentials(statusCode, answerable, provided.credentials, dialog)) {
+              return;
+            }
+          }
+          this.unauthenticatedResponse = message;
+          this.receiveResponse(message);
+        });
+      return false;
+    }
+
+    // Get credentials. Each challenge answered gets its own, as they may be cached.
+    const credentials = this.core.configuration.authenticationFactory();
+    if (!credentials) {
+      this.logger.warn("Unable to obtain credentials, cannot authenticate");
       return true;
     }
 
-    // Get credentials.
-    if (!this.credentials) {
-      this.credentials = this.core.configuration.authenticationFactory();
-      if (!this.credentials) {
-        this.logger.warn("Unable to obtain credentials, cannot authenticate");
-        return true;
+    return !this.retryWithCredentials(statusCode, challenges, credentials, dialog);
+  }
+
+  /**
+   * 422 (Session Interval Too Small) guard.
+   * @remarks
+   * If a 422 response is received, the UAC retries the request with a Session-Expires
+   * header field value, and a Min-SE header field value, equal to the Min-SE of the response.
+   * The request is retried at most once.
+   * https://tools.ietf.org/html/rfc4028#section-7.4
+   * @param message - The incoming response to guard.
+   * @param dialog - If defined, the dialog within which the response was received.
+   * @returns True if the program execution is to continue in the branch in question.
+   *          Otherwise the request is retried and current request processing must stop.
+   */
+  protected sessionIntervalGuard(message: IncomingResponseMessage, dialog?: Dialog): boolean {
+    if (message.statusCode !== 422 || this.sessionIntervalRetried) {
+      return true;
+    }
+    const minSE = message.parseHeader("min-se");
+    const sessionExpires = this.message.getHeader("session-expires");
+    const interval = sessionExpires ? parseInt(sessionExpires, 10) : NaN;
+    if (typeof minSE !== "number" || !(minSE > interval)) {
+      this.logger.warn("422 without a greater Min-SE, cannot retry");
+      return true;
+    }
+    this.sessionIntervalRetried = true;
+
+    // The parameters of the Session-Expires header field, such as the refresher, are kept.
+    const params = (sessionExpires as string).split(";").slice(1);
+    this.message.extraHeaders = this.message.extraHeaders.filter(
+      (header) => !/^\s*(session-expires|x|min-se)\s*:/i.test(header)
+    );
+    this.message.setHeader("session-expires", [minSE.toString(), ...params].join(";"));
+    this.message.setHeader("min-se", minSE.toString());
+    this.retry(dialog);
+    return false;
+  }
+
+  /**
+   * 3xx guard.
+   * @remarks
+   * The Contact header field values of a 300, 301 or 302 response to a request outside of
+   * a dialog are added to the target set, ordered by q-value. The request is then retried
+   * to the next target, until a target does not fail with a non-2xx final response.
+   * Each location is tried only once, and at most `maxRedirects` targets are tried.
+   * A target may be discarded by the redirect filter.
+   * https://tools.ietf.org/html/rfc3261#section-8.1.3.4
+   * @param message - The incoming response to guard.
+   * @returns True if the program execution is to continue in the branch in question.
+   *          Otherwise the request is retried to the next target and current request processing must stop.
+   */
+  protected redirectGuard(message: IncomingResponseMessage): boolean {
+    const statusCode = message.statusCode;
+    const maxRedirects = this.core.configuration.maxRedirects || 0;
+    if (!statusCode || statusCode < 300 || this.message.toTag || maxRedirects <= 0) {
+      return true;
+    }
+
+    if (statusCode === 300 || statusCode === 301 || statusCode === 302) {
+      if (!this.redirectTargetsSeen.length) {
+        this.redirectTargetsSeen.push(this.message.ruri.toString());
       }
+      message.getHeaders("contact").forEach((header, idx) => {
+        const contact = message.parseHeader("contact", idx);
+        if (!(contact instanceof NameAddrHeader)) {
+          return;
+        }
+        const uri = contact.uri;
+        if (this.redirectTargetsSeen.includes(uri.toString())) {
+          this.logger.warn(`Redirect target ${uri} already tried, discarding`);
+          return;
+        }
+        this.redirectTargetsSeen.push(uri.toString());
+        const redirectFilter = this.core.configuration.redirectFilter;
+        if (redirectFilter && !redirectFilter(uri, message, this.message)) {
+          this.logger.log(`Redirect target ${uri} discarded by filter`);
+          return;
+        }
+        const q = Number(contact.getParam("q"));
+        this.redirectTargets.push({ uri, q: contact.hasParam("q") && !isNaN(q) ? q : 1 });
+      });
+      this.redirectTargets.sort((a, b) => b.q - a.q);
     }
 
-    // Verify that the challenge is really valid.
-    if (!this.credentials.authenticate(this.message, challenge)) {
+    const target = this.redirectTargets.shift();
+    if (!target) {
+      return true;
+    }
+    if (this.redirects >= maxRedirects) {
+      this.logger.warn(`Maximum of ${maxRedirects} redirects reached, not retrying`);
+      this.redirectTargets = [];
       return true;
     }
+    this.redirects += 1;
+    this.logger.log(`Redirected by ${statusCode}, retrying to ${target.uri}`);
+    this.message.ruri = target.uri;
+    this.retry();
+    return false;
+  }
 
-    this.challenged = true;
-    if (challenge.stale) {
-      this.stale = true;
+  /**
+   * True if answering the challenge would be an authentication loop. A challenge for a
+   * realm already answered is a loop unless the nonce was stale, which may only happen once.
+   * An invalid Bearer token is treated as a stale nonce, so that it may be replaced.
+   * https://tools.ietf.org/html/rfc6750#section-3.1
+   * @param challenge - The challenge to answer.
+   */
+  private authenticationLoop(challenge: ParsedChallenge): boolean {
+    const realm = challenge.realm ? challenge.realm : "";
+    const stale = challenge.stale === true || challenge.error === "invalid_token";
+    return (
+      (this.challengedRealms.includes(realm) && (this.stale || !stale)) ||
+      this.authenticationAttempts >= MAX_AUTHENTICATION_ATTEMPTS
+    );
+  }
+
+  /**
+   * Call the authentication provider for each challenge in turn until it provides credentials.
+   * @param authenticationProvider - The authentication provider.
+   * @param challenges - The challenges to answer.
+   * @returns The credentials and the challenge they were provided for, or undefined if none were provided.
+   */
+  private provideCredentials(
+    authenticationProvider: AuthenticationProvider,
+    challenges: Array<ParsedChallenge>
+  ): Promise<{ challenge: ParsedChallenge; credentials: DigestAuthentication | BearerAuthentication } | undefined> {
+    const challenge = challenges[0];
+    if (!challenge) {
+      return Promise.resolve(undefined);
+    }
+    return authenticationProvider(challenge, this.message.method).then((credentials) =>
+      credentials ? { challenge, credentials } : this.provideCredentials(authenticationProvider, challenges.slice(1))
+    );
+  }
+
+  /**
+   * Retry the request with credentials answering one of the challenges.
+   * @param statusCode - The status code of the response challenging the request.
+   * @param challenges - The challenges received.
+   * @param credentials - The credentials to answer a challenge with.
+   * @param dialog - If defined, the dialog within which the response was received.
+   * @returns True if the request was retried with credentials.
+   */
+  private retryWithCredentials(
+    statusCode: number,
+    challenges: Array<ParsedChallenge>,
+    credentials: DigestAuthentication | BearerAuthentication,
+    dialog?: Dialog
+  ): boolean {
+    const authorizationHeaderName = statusCode === 401 ? "authorization" : "proxy-authorization";
+
+    // If more than one challenge is received, use the strongest supported algorithm.
+    // https://tools.ietf.org/html/rfc8760#section-2.4
+    const challenge = credentials.selectChallenge(challenges) || challenges[0];
+
+    // Avoid infinite authentications.
+    if (this.authenticationLoop(challenge)) {
+      this.logger.warn(statusCode + " apparently in authentication loop, cannot authenticate");
+      return false;
     }
 
+    // Verify that the challenge is really valid.
+    if (!credentials.authenticate(this.message, challenge)) {
+      return false;
+    }
+
+    // After an AKA synchronization failure the network challenges again with a fresh nonce,
+    // so the realm is not yet answered.
+    // https://tools.ietf.org/html/rfc3310#section-3.4
+    const realm = challenge.realm ? challenge.realm : "";
+    if (!(credentials instanceof DigestAuthentication && credentials.synchronizationFailure)) {
+      if (this.challengedRealms.includes(realm)) {
+        this.stale = true;
+      }
+      this.challengedRealms.push(realm);
+    }
+    this.authenticationAttempts += 1;
+
+    this.setAuthorization(authorizationHeaderName, realm, credentials.toString());
+
+    // The credentials are cached so that subsequent requests may send them preemptively.
+    // They are only sent in requests to the same host, as other servers may share the realm.
+    if (this.core.configuration.preemptiveAuthorization) {
+      const host = this.authorizationHost(authorizationHeaderName);
+      this.core.authorizations.set(host + " " + realm, {
+        headerName: authorizationHeaderName,
+        realm,
+        host,
+        challenge,
+        credentials
+      });
+    }
+
+    this.retry(dialog);
+
+    return true;
+  }
+
+  /**
+   * Send the request again, in a new client transaction with the next sequence number.
+   * @param dialog - If defined, the dialog within which the request is sent.
+   */
+  private retry(dialog?: Dialog): void {
     // If response to out of dialog request, assume incrementing the CSeq will suffice.
     let cseq = (this.message.cseq += 1);
 
@@ -242,15 +514,60 @@ export class UserAgentClient implements OutgoingRequest {
     }
 
     this.message.setHeader("cseq", cseq + " " + this.message.method);
-    this.message.setHeader(authorizationHeaderName, this.credentials.toString());
 
     // Calling init (again) will swap out our existing client transaction with a new one.
     // FIXME: HACK: An assumption is being made here that there is nothing that needs to
     // be cleaned up beyond the client transaction which is being replaced. For example,
     // it is assumed that no early dialogs have been created.
     this.init();
+  }
 
-    return false;
+  /**
+   * Send the cached credentials of each realm which apply to the request, so that
+   * it need not be challenged. If a nonce is stale, the request is challenged as usual.
+   * https://tools.ietf.org/html/rfc3261#section-22.3
+   */
+  private authorizePreemptively(): void {
+    this.core.authorizations.forEach((cached) => {
+      if (cached.host !== this.authorizationHost(cached.headerName)) {
+        return;
+      }
+      if (cached.credentials.authenticate(this.message, cached.challenge)) {
+        this.setAuthorization(cached.headerName, cached.realm, cached.credentials.toString());
+      }
+    });
+  }
+
+  /**
+   * Host to which credentials sent in an authorization header field of the request apply.
+   * @remarks
+   * Credentials in the Authorization header field are for the UAS, the host of the Request-URI.
+   * Those in the Proxy-Authorization header field are for the proxy of the next hop, the host
+   * of the first Route header field value if any, otherwise that of the Request-URI.
+   * https://tools.ietf.org/html/rfc3261#section-8.1.2
+   * @param headerName - Name of the header field, "authorization" or "proxy-authorization".
+   */
+  private authorizationHost(headerName: string): string {
+    const route = headerName === "proxy-authorization" ? this.message.getHeader("route") : undefined;
+    const nameAddr = route ? Grammar.nameAddrHeaderParse(route) : undefined;
+    return nameAddr ? nameAddr.uri.host : this.message.ruri.host;
+  }
+
+  /**
+   * Set the credentials for a realm in an authorization header field.
+   * @remarks
+   * Credentials for other realms are kept, as a request challenged by more than one
+   * proxy must carry credentials for each of them.
+   * https://tools.ietf.org/html/rfc3261#section-22.3
+   * @param headerName - Name of the header field, "authorization" or "proxy-authorization".
+   * @param realm - The realm of the credentials.
+   * @param value - The credentials.
+   */
+  private setAuthorization(headerName: string, realm: string, value: string): void {
+    const authorizations = this.authorizations.get(headerName) || new Map<string, string>();
+    authorizations.set(realm, value);
+    this.authorizations.set(headerName, authorizations);
+    this.message.setHeader(headerName, Array.from(authorizations.values()));
   }
 
   /**
@@ -301,7 +618,10 @@ export class UserAgentClient implements OutgoingRequest {
    * @param message - Incoming response message.
    */
   protected receiveResponse(message: IncomingResponseMessage): void {
-    if (!this.authenticationGuard(message)) {
+    if (!this.authenticationGuard(message, this.requestDialog)) {
+      return;
+    }
+    if (!this.redirectGuard(message)) {
       return;
     }
 
@@ -357,17 +677,93 @@ export class UserAgentClient implements OutgoingRequest {
           // eslint-disable-next-line @typescript-eslint/no-use-before-define
           if (transaction === this._transaction) {
             this.dispose();
+            // Over a reliable transport the transaction terminates before its final response is delivered,
+            // so a request challenged may yet be retried with credentials being obtained from the provider.
+            this.disposed = false;
           }
         }
       },
       onTransportError: (error) => this.onTransportError(error),
       receiveResponse: (message) => this.receiveResponse(message)
     };
+    // Pass the request through the interceptors before handing it to the transaction layer.
+    // If the request is dropped or answered locally, the transaction sends nothing.
+    const interception = intercept(this.core.interceptors, (interceptor) =>
+      interceptor.onOutgoingRequest ? interceptor.onOutgoingRequest(this.message) : undefined
+    );
+    const coreTransport = this.core.transport;
+    let transport: Transport = !interception
+      ? coreTransport
+      : {
+          protocol: coreTransport.protocol,
+          reliable: coreTransport.reliable,
+          send: (): Promise<void> => Promise.resolve()
+        };
+    // A request targeting a SIPS URI must be sent over a secure transport. Otherwise the
+    // transaction fails with a transport error rather than sending the request insecurely.
+    // https://tools.ietf.org/html/rfc3261#section-26.2.2
+    const secure = ["TLS", "WSS"].includes(coreTransport.protocol.toUpperCase());
+    if (!interception && this.message.ruri.scheme === "sips" && !secure) {
+      transport = {
+        protocol: coreTransport.protocol,
+        reliable: coreTransport.reliable,
+        send: (): Promise<void> =>
+          Promise.reject(new TransportError(`SIPS URI ${this.message.ruri} requires a secure transport.`))
+      };
+    }
+    // A 2xx response to an INVITE establishes a dialog, which cannot be done without the
+    // remote target (Contact) and session description of a peer. So the INVITE cannot be
+    // answered locally with one, and the transaction fails with a transport error instead.
+    // https://tools.ietf.org/html/rfc3261#section-13.2.2.4
+    let reply = interception && interception.reply;
+    if (reply && this.message.method === C.INVITE && reply.statusCode >= 200 && reply.statusCode < 300) {
+      this.logger.error(`Interceptor answered INVITE locally with a ${reply.statusCode}, which is not supported.`);
+      reply = undefined;
+      transport = {
+        protocol: coreTransport.protocol,
+        reliable: coreTransport.reliable,
+        send: (): Promise<void> =>
+          Promise.reject(new TransportError("An INVITE cannot be answered locally with a 2xx response."))
+      };
+    }
     // Create a new transaction with us as the user.
-    const transaction = new this.transactionConstructor(this.message, this.core.transport, user);
+    const transaction = new this.transactionConstructor(this.message, transport, user);
     this._transaction = transaction;
     // Add the new transaction to the core.
     const userAgentClientId = transaction.id + transaction.request.method;
     this.core.userAgentClients.set(userAgentClientId, this);
+    // Deliver the local answer to the transaction as if it had been received.
+    if (reply) {
+      const response = this.makeLocalResponse(reply);
+      Promise.resolve().then(() => transaction.receiveResponse(response));
+    }
+  }
+
+  /**
+   * Construct a response to the request which has been answered locally.
+   * @param options - Response options.
+   */
+  private makeLocalResponse(options: ResponseOptions): IncomingResponseMessage {
+    const CRLF = "\r\n";
+    const reasonPhrase = options.reasonPhrase ? options.reasonPhrase : getReasonPhrase(options.statusCode);
+    let response = "SIP/2.0 " + options.statusCode + " " + reasonPhrase + CRLF;
+    response += "Via: " + this.message.getHeader("via") + CRLF;
+    response += "From: " + this.message.getHeader("from") + CRLF;
+    let to = this.message.getHeader("to");
+    if (!this.message.toTag && options.statusCode > 100) {
+      to += ";tag=" + (options.toTag ? options.toTag : newTag());
+    }
+    response += "To: " + to + CRLF;
+    response += "Call-ID: " + this.message.callId + CRLF;
+    response += "CSeq: " + this.message.cseq + " " + this.message.method + CRLF;
+    getExtraHeaders(options.extraHeaders).forEach((header) => {
+      response += header.trim() + CRLF;
+    });
+    response += "Content-Length: 0" + CRLF + CRLF;
+    const message = Parser.parseMessage(response, this.logger);
+    if (!(message instanceof IncomingResponseMessage)) {
+      throw new Error("Failed to construct local response.");
+    }
+    return message;
   }
 }
@@ -2,6 +2,7 @@ import { TransactionStateError } from "../exceptions/transaction-state-error.js"
 import { URI } from "../../grammar/uri.js";
 import { Logger } from "../log/logger.js";
 import { LoggerFactory } from "../log/logger-factory.js";
+import { getExtraHeaders } from "../messages/headers.js";
 import { IncomingRequestDelegate } from "../messages/incoming-request.js";
 import { IncomingRequestMessage } from "../messages/incoming-request-message.js";
 import { IncomingRequest } from "../messages/incoming-request.js";
@@ -102,7 +103,7 @@ export class UserAgentServer implements IncomingRequest {
     }
     const contactHeaders = new Array<string>();
     contacts.forEach((contact) => contactHeaders.push(`Contact: ${contact.toString()}`));
-    options.extraHeaders = (options.extraHeaders || []).concat(contactHeaders);
+    options.extraHeaders = getExtraHeaders(options.extraHeaders).concat(contactHeaders);
     const response = this.reply(options);
     return response;
   }
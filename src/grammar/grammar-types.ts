@@ -0,0 +1,381 @@
+import { NameAddrHeader } from "./name-addr-header.js";
+import { URI } from "./uri.js";
+
+/**
+ * Generic parameters, keyed by lowercase parameter name.
+ * @remarks
+ * The value of a parameter without a value is undefined.
+ * @public
+ */
+export interface ParsedParameters {
+  [name: string]: string | undefined;
+}
+
+/**
+ * Host, as parsed by the `host` rule.
+ * @public
+ */
+export interface ParsedHost {
+  /** Host. An IPv6 address is enclosed in brackets. */
+  host: string;
+  /** Type of host. */
+  host_type: "domain" | "IPv4" | "IPv6";
+}
+
+/**
+ * Absolute URI, as parsed by the `absoluteURI` rule.
+ * @public
+ */
+export interface ParsedAbsoluteURI {
+  /** Scheme. */
+  scheme: string;
+  /** Host, if the URI has an authority. */
+  host?: string;
+  /** Type of host, if the URI has an authority. */
+  host_type?: "domain" | "IPv4" | "IPv6";
+  /** Port, if present. */
+  port?: number;
+}
+
+/**
+ * Request-Line, as parsed by the `Request_Response` rule.
+ * @public
+ */
+export interface ParsedRequestLine {
+  /** Method. */
+  method: string;
+  /** Request-URI, if a SIP or SIPS URI. */
+  uri?: URI;
+  /** Scheme of the Request-URI, if not a SIP or SIPS URI. */
+  scheme?: string;
+  /** SIP-Version. */
+  sip_version: string;
+  /** Never present on a request. */
+  status_code?: undefined;
+}
+
+/**
+ * Status-Line, as parsed by the `Request_Response` rule.
+ * @public
+ */
+export interface ParsedStatusLine {
+  /** SIP-Version. */
+  sip_version: string;
+  /** Status-Code. */
+  status_code: number;
+  /** Reason-Phrase. */
+  reason_phrase: string;
+}
+
+/**
+ * One of the header field values of a header field parsed as a list (Contact, Record-Route).
+ * @public
+ */
+export interface ParsedMultiHeader {
+  /** Offset of the end of the value in the header field. */
+  position: number;
+  /** Offset of the start of the value in the header field. */
+  offset: number;
+  /** The value. */
+  parsed: NameAddrHeader;
+}
+
+/**
+ * Content-Disposition header field value.
+ * https://tools.ietf.org/html/rfc3261#section-20.11
+ * @public
+ */
+export interface ParsedContentDisposition {
+  /** Disposition type, in lowercase. */
+  type: string;
+  /** Generic parameters. The "handling" parameter is not included. */
+  params?: ParsedParameters;
+}
+
+/**
+ * CSeq header field value.
+ * https://tools.ietf.org/html/rfc3261#section-20.16
+ * @public
+ */
+export interface ParsedCSeq {
+  /** Sequence number. */
+  value: number;
+  /** Method. */
+  method: string;
+}
+
+/**
+ * Challenge, the value of a WWW-Authenticate or Proxy-Authenticate header field.
+ * https://tools.ietf.org/html/rfc3261#section-25.1
+ *
+ * @remarks
+ * A challenge using a scheme other than "Digest" or "Bearer" parses as a challenge
+ * with only a scheme and realm.
+ * @public
+ */
+export interface ParsedChallenge {
+  /** Scheme, "Digest" or as received. */
+  scheme?: string;
+  /** Realm. */
+  realm?: string;
+  /** Nonce. */
+  nonce?: string;
+  /** Opaque. */
+  opaque?: string;
+  /** Stale. */
+  stale?: boolean;
+  /** Algorithm, in uppercase. */
+  algorithm?: string;
+  /** Quality of protection options, in lowercase. */
+  qop?: Array<string>;
+  /** Userhash. https://tools.ietf.org/html/rfc7616#section-3.3 */
+  userhash?: boolean;
+  /** Bearer authorization server. https://tools.ietf.org/html/rfc8898#section-2.3 */
+  authzServer?: string;
+  /** Bearer scope. https://tools.ietf.org/html/rfc8898#section-2.3 */
+  scope?: string;
+  /** Bearer error code. https://tools.ietf.org/html/rfc6750#section-3 */
+  error?: string;
+}
+
+/**
+ * Credentials, the value of an Authorization or Proxy-Authorization header field.
+ * https://tools.ietf.org/html/rfc3261#section-25.1
+ *
+ * @remarks
+ * Credentials using a scheme other than "Digest" parse as credentials with only a scheme.
+ * @public
+ */
+export interface ParsedCredentials {
+  /** Scheme, "Digest" or as received. */
+  scheme?: string;
+  /** Username. */
+  username?: string;
+  /** Realm. */
+  realm?: string;
+  /** Nonce. */
+  nonce?: string;
+  /** Digest URI. */
+  uri?: string;
+  /** Response. */
+  response?: string;
+  /** Algorithm, in uppercase. */
+  algorithm?: string;
+  /** Client nonce. */
+  cnonce?: string;
+  /** Opaque. */
+  opaque?: string;
+  /** Quality of protection, in lowercase. */
+  qop?: string;
+  /** Nonce count, as 8 hex digits. */
+  nc?: string;
+  /** Userhash. https://tools.ietf.org/html/rfc7616#section-3.4.4 */
+  userhash?: boolean;
+}
+
+/**
+ * Event header field value.
+ * https://tools.ietf.org/html/rfc6665#section-8.2.1
+ * @public
+ */
+export interface ParsedEvent {
+  /** Event type, in lowercase. */
+  event: string;
+  /** Generic parameters, such as "id". */
+  params?: ParsedParameters;
+}
+
+/**
+ * Replaces header field value.
+ * https://tools.ietf.org/html/rfc3891#section-6.1
+ * @public
+ */
+export interface ParsedReplaces {
+  /** Call-ID. */
+  call_id: string;
+  /** From tag. */
+  replaces_from_tag: string;
+  /** To tag. */
+  replaces_to_tag: string;
+  /** True if the "early-only" parameter is present. */
+  early_only?: boolean;
+  /** Generic parameters. */
+  params?: ParsedParameters;
+}
+
+/**
+ * Session-Expires header field value.
+ * https://tools.ietf.org/html/rfc4028#section-4
+ * @public
+ */
+export interface ParsedSessionExpires {
+  /** Session interval in seconds. */
+  deltaSeconds: number;
+  /** Refresher, if present. */
+  refresher?: "uac" | "uas";
+  /** Generic parameters. */
+  params?: ParsedParameters;
+}
+
+/**
+ * Subscription-State header field value.
+ * https://tools.ietf.org/html/rfc6665#section-8.2.3
+ * @public
+ */
+export interface ParsedSubscriptionState {
+  /** Substate value, such as "active". */
+  state: string;
+  /** Reason, if present. */
+  reason?: string;
+  /** Expires, if present. */
+  expires?: number;
+  /** Retry-after, if present as a "retry_after" parameter. A "retry-after" parameter is in the generic parameters. */
+  retry_after?: number;
+  /** Generic parameters. */
+  params?: ParsedParameters;
+}
+
+/**
+ * Via header field value.
+ * https://tools.ietf.org/html/rfc3261#section-20.42
+ *
+ * @remarks
+ * A header field value containing more than one via-parm parses as the via-parms merged,
+ * so only the first header field value of the first Via header field should be relied upon.
+ * @public
+ */
+export interface ParsedVia {
+  /** Protocol name, such as "SIP". */
+  protocol: string;
+  /** Transport, such as "UDP". */
+  transport: string;
+  /** Sent-by host. An IPv6 address is enclosed in brackets. */
+  host: string;
+  /** Type of sent-by host. */
+  host_type: "domain" | "IPv4" | "IPv6";
+  /** Sent-by port, if present. */
+  port?: number;
+  /** Branch parameter, if present. */
+  branch?: string;
+  /** Received parameter, if present. */
+  received?: string;
+  /** Rport parameter, if present. Empty if the parameter has no value. */
+  rport?: string;
+  /** TTL parameter, if present. */
+  ttl?: number;
+  /** Maddr parameter, if present. */
+  maddr?: string;
+  /** Extension parameters. */
+  params?: ParsedParameters;
+}
+
+/**
+ * Referred-By header field, as parsed by the `Referred_By` rule.
+ * https://tools.ietf.org/html/rfc3892#section-3
+ *
+ * @remarks
+ * The rule parses the header field name as well as its value.
+ * @public
+ */
+export interface ParsedReferredBy {
+  /** Referrer URI. */
+  uri: URI;
+  /** Display name, if present. */
+  displayName?: string;
+  /** Generic parameters. */
+  params?: ParsedParameters;
+}
+
+/**
+ * STUN or TURN URI, as parsed by the `stun_URI` and `turn_URI` rules.
+ * @public
+ */
+export interface ParsedStunURI {
+  /** Scheme, such as "stun". */
+  scheme: string;
+  /** Host. A host name is parsed as an array of characters. */
+  host: string | Array<string>;
+  /** Type of host, if an IP address. */
+  host_type?: "IPv4" | "IPv6";
+  /** Port, if present. */
+  port?: number;
+  /** Transport, if present. */
+  transport?: string;
+}
+
+/**
+ * The result of each start rule of the grammar, keyed by rule name.
+ * @public
+ */
+export interface GrammarRules {
+  absoluteURI: ParsedAbsoluteURI;
+  Authorization: ParsedCredentials;
+  Call_ID: string;
+  challenge: ParsedChallenge;
+  Contact: Array<ParsedMultiHeader>;
+  Content_Disposition: ParsedContentDisposition;
+  Content_Length: number;
+  Content_Type: string;
+  CSeq: ParsedCSeq;
+  displayName: { displayName: string };
+  Event: ParsedEvent;
+  From: NameAddrHeader;
+  host: ParsedHost;
+  Max_Forwards: number;
+  Min_SE: number;
+  Name_Addr_Header: NameAddrHeader;
+  Proxy_Authenticate: ParsedChallenge;
+  Proxy_Authorization: ParsedCredentials;
+  quoted_string: Record<string, never>;
+  Record_Route: Array<ParsedMultiHeader>;
+  Refer_To: NameAddrHeader;
+  Referred_By: ParsedReferredBy;
+  Replaces: ParsedReplaces;
+  Request_Response: ParsedRequestLine | ParsedStatusLine;
+  Require: Array<string>;
+  Session_Expires: ParsedSessionExpires;
+  SIP_URI: URI;
+  TEL_URI: URI;
+  sipfrag: ParsedRequestLine | ParsedStatusLine;
+  stun_URI: ParsedStunURI;
+  Subscription_State: ParsedSubscriptionState;
+  Supported: Array<string>;
+  To: NameAddrHeader;
+  turn_URI: ParsedStunURI;
+  uuid: string;
+  Via: ParsedVia;
+  WWW_Authenticate: ParsedChallenge;
+}
+
+/**
+ * The parsed value of each header field which may be parsed, keyed by lowercase header field name.
+ * @remarks
+ * See `IncomingMessage.parseHeader()`. The Contact and Record-Route header fields are
+ * split into their values when a message is parsed, so each value parses as a `NameAddrHeader`.
+ * @public
+ */
+export interface ParsedHeaders {
+  authorization: ParsedCredentials;
+  "call-id": string;
+  contact: NameAddrHeader;
+  "content-disposition": ParsedContentDisposition;
+  "content-length": number;
+  "content-type": string;
+  cseq: ParsedCSeq;
+  event: ParsedEvent;
+  from: NameAddrHeader;
+  "max-forwards": number;
+  "min-se": number;
+  "proxy-authenticate": ParsedChallenge;
+  "proxy-authorization": ParsedCredentials;
+  "record-route": NameAddrHeader;
+  "refer-to": NameAddrHeader;
+  replaces: ParsedReplaces;
+  require: Array<string>;
+  "session-expires": ParsedSessionExpires;
+  "subscription-state": ParsedSubscriptionState;
+  supported: Array<string>;
+  to: NameAddrHeader;
+  via: ParsedVia;
+  "www-authenticate": ParsedChallenge;
+}
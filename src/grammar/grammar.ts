@@ -2,6 +2,7 @@
 /* eslint-disable no-inner-declarations */
 import * as pegGrammar from "./pegjs/dist/grammar.js";
 
+import { GrammarRules } from "./grammar-types.js";
 import { NameAddrHeader } from "./name-addr-header.js";
 import { URI } from "./uri.js";
 
@@ -13,11 +14,13 @@ export namespace Grammar {
 
   /**
    * Parse.
-   * @param input -
-   * @param startRule -
+   * @param input - Input to parse.
+   * @param startRule - Start rule of the grammar. See {@link GrammarRules}.
+   * @returns The result of the start rule, or -1 if the input is invalid.
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  export function parse(input: string, startRule: string): any {
+  export function parse<R extends keyof GrammarRules>(input: string, startRule: R): GrammarRules[R] | -1;
+  export function parse(input: string, startRule: string): unknown;
+  export function parse(input: string, startRule: string): unknown {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const options: any = {startRule};
 
@@ -29,27 +32,45 @@ export namespace Grammar {
     return options.data;
   }
 
+  /**
+   * Find why an input is invalid.
+   * @param input - Input to parse.
+   * @param startRule - Start rule of the grammar. See {@link GrammarRules}.
+   * @returns The offset in the input at which parsing failed and why, or undefined if the input parses.
+   */
+  export function diagnose(input: string, startRule: string): { offset: number; reason: string } | undefined {
+    try {
+      pegGrammar.parse(input, { startRule });
+    } catch (e) {
+      if (e instanceof pegGrammar.SyntaxError) {
+        return { offset: e.location.start.offset, reason: e.message };
+      }
+      return { offset: 0, reason: e instanceof Error ? e.message : String(e) };
+    }
+    return undefined;
+  }
+
   /**
    * Parse the given string and returns a SIP.NameAddrHeader instance or undefined if
    * it is an invalid NameAddrHeader.
    * @param name_addr_header -
    */
   export function nameAddrHeaderParse(nameAddrHeader: string): NameAddrHeader | undefined {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const parsedNameAddrHeader: any = Grammar.parse(nameAddrHeader, "Name_Addr_Header");
+    const parsedNameAddrHeader = Grammar.parse(nameAddrHeader, "Name_Addr_Header");
 
-    return parsedNameAddrHeader !== -1 ? (parsedNameAddrHeader as NameAddrHeader) : undefined;
+    return parsedNameAddrHeader !== -1 ? parsedNameAddrHeader : undefined;
   }
 
   /**
    * Parse the given string and returns a SIP.URI instance or undefined if
    * it is an invalid URI.
+   * @remarks
+   * SIP, SIPS and tel URIs are supported.
    * @param uri -
    */
   export function URIParse(uri: string): URI | undefined {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const parsedUri: any = Grammar.parse(uri, "SIP_URI");
+    const parsedUri = /^tel:/i.test(uri) ? Grammar.parse(uri, "TEL_URI") : Grammar.parse(uri, "SIP_URI");
 
-    return parsedUri !== -1 ? (parsedUri as URI) : undefined;
+    return parsedUri !== -1 ? parsedUri : undefined;
   }
 }
@@ -1,4 +1,5 @@
 export * from "./grammar.js";
+export * from "./grammar-types.js";
 export * from "./name-addr-header.js";
 export * from "./parameters.js";
 export * from "./uri.js";
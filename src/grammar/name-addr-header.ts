@@ -38,6 +38,32 @@ export class NameAddrHeader extends Parameters {
       JSON.parse(JSON.stringify(this.parameters)));
   }
 
+  /**
+   * Returns true if this header field value is equivalent to the given header field value.
+   * @remarks
+   * The URIs must be equivalent per RFC 3261 Section 19.1.4 and any header field parameter
+   * appearing in both must match. Parameters appearing in only one are ignored, as are display names.
+   * Parameter values are compared case-insensitively, except for the "tag" parameter which is
+   * compared as is, as it is when matching dialogs.
+   * https://tools.ietf.org/html/rfc3261#section-20.20
+   * @param nameAddrHeader - Header field value to compare.
+   */
+  public equals(nameAddrHeader: NameAddrHeader): boolean {
+    if (!this.uri.equals(nameAddrHeader.uri)) {
+      return false;
+    }
+    return Object.keys(this.parameters)
+      .filter((key) => nameAddrHeader.hasParam(key))
+      .every((key) => {
+        const a = this.parameters[key];
+        const b = nameAddrHeader.getParam(key);
+        if (key === "tag" || a === null || b === null || b === undefined) {
+          return a === b;
+        }
+        return a.toLowerCase() === b.toLowerCase();
+      });
+  }
+
   public toString(): string {
     let body: string = (this.displayName || this.displayName === "0") ? '"' + this.displayName + '" ' : "";
     body += "<" + this.uri.toString() + ">";
@@ -10,6 +10,11 @@ interface URIObject {
 
 /**
  * URI.
+ *
+ * @remarks
+ * A SIP or SIPS URI, or a tel URI (RFC 3966). The telephone number of a tel URI is its `user`
+ * and its `host` is empty. A local number has a "phone-context" parameter.
+ * https://tools.ietf.org/html/rfc3966
  * @public
  */
 export class URI extends Parameters {
@@ -36,7 +41,7 @@ export class URI extends Parameters {
   ) {
     super(parameters || {});
     // Checks
-    if (!host) {
+    if (!host && scheme.toLowerCase() !== "tel") {
       throw new TypeError('missing or invalid "host" parameter');
     }
 
@@ -58,7 +63,7 @@ export class URI extends Parameters {
     // Normalized URI
     this.normal = {
       scheme: scheme.toLowerCase(),
-      user,
+      user: URI.normalizeUser(scheme, user),
       host: host.toLowerCase(),
       port
     };
@@ -68,11 +73,13 @@ export class URI extends Parameters {
   set scheme(value: string) {
     this.raw.scheme = value;
     this.normal.scheme = value.toLowerCase();
+    this.normal.user = URI.normalizeUser(value, this.raw.user);
   }
 
   get user(): string | undefined { return this.normal.user; }
   set user(value: string | undefined) {
-    this.normal.user = this.raw.user = value;
+    this.raw.user = value;
+    this.normal.user = URI.normalizeUser(this.raw.scheme, value);
   }
 
   get host(): string { return this.normal.host; }
@@ -128,6 +135,17 @@ export class URI extends Parameters {
       JSON.parse(JSON.stringify(this.headers)));
   }
 
+  /**
+   * Returns true if this URI is equivalent to the given URI.
+   * @remarks
+   * SIP and SIPS URIs are compared per RFC 3261 Section 19.1.4,
+   * tel URIs per RFC 3966 Section 4.
+   * @param uri - URI to compare.
+   */
+  public equals(uri: URI): boolean {
+    return equivalentURI(this, uri);
+  }
+
   public toRaw(): string {
     return this._toString(this._raw);
   }
@@ -142,16 +160,20 @@ export class URI extends Parameters {
 
   private _toString(uri: any): string {
     let uriString: string  = uri.scheme + ":";
-    // add slashes if it's not a sip(s) URI
-    if (!uri.scheme.toLowerCase().match("^sips?$")) {
-      uriString += "//";
-    }
-    if (uri.user) {
-      uriString += this.escapeUser(uri.user) + "@";
-    }
-    uriString += uri.host;
-    if (uri.port || uri.port === 0) {
-      uriString += ":" + uri.port;
+    if (uri.scheme.toLowerCase() === "tel") {
+      uriString += this.escapeUser(uri.user || "");
+    } else {
+      // add slashes if it's not a sip(s) URI
+      if (!uri.scheme.toLowerCase().match("^sips?$")) {
+        uriString += "//";
+      }
+      if (uri.user) {
+        uriString += this.escapeUser(uri.user) + "@";
+      }
+      uriString += uri.host;
+      if (uri.port || uri.port === 0) {
+        uriString += ":" + uri.port;
+      }
     }
 
     for (const parameter in this.parameters) {
@@ -239,6 +261,14 @@ export class URI extends Parameters {
     }
     return hname;
   }
+
+  /**
+   * Visual separators are ignored in the telephone number of a tel URI.
+   * https://tools.ietf.org/html/rfc3966#section-5.1.1
+   */
+  private static normalizeUser(scheme: string, user: string | undefined): string | undefined {
+    return user && scheme.toLowerCase() === "tel" ? user.replace(/[-.()]/g, "") : user;
+  }
 }
 
 /**
@@ -297,10 +327,22 @@ export function equivalentURI(a: URI, b: URI): boolean {
   // resolve to port 5060.  The URI sip:user@host may resolve to
   // other ports through the DNS SRV mechanisms detailed in [4].
 
-  // FIXME: TODO:
-  // - character compared to hex encoding is not handled
-  // - password does not exist on URI currently
-  if (a.user !== b.user || a.host !== b.host || a.port !== b.port) {
+  // The telephone number of a tel URI is compared digit by digit, ignoring
+  // visual separators, and its parameters must appear in both URIs and match.
+  // https://tools.ietf.org/html/rfc3966#section-4
+  if (a.scheme === "tel") {
+    return (
+      (a.user || "").toLowerCase() === (b.user || "").toLowerCase() &&
+      Object.keys(a.parameters).length === Object.keys(b.parameters).length &&
+      Object.keys(a.parameters).every((key) => b.hasParam(key) && equivalentValue(a.getParam(key), b.getParam(key)))
+    );
+  }
+
+  // The password, if any, is part of the user.
+  if (unescapeURIComponent(a.user || "") !== unescapeURIComponent(b.user || "")) {
+    return false;
+  }
+  if (a.host !== b.host || a.port !== b.port) {
     return false;
   }
 
@@ -310,7 +352,7 @@ export function equivalentURI(a: URI, b: URI): boolean {
     const parameterKeysA = Object.keys(a.parameters);
     const parameterKeysB = Object.keys(b.parameters);
     const intersection = parameterKeysA.filter(x => parameterKeysB.includes(x));
-    if (!intersection.every(key => a.parameters[key] === b.parameters[key])) {
+    if (!intersection.every(key => equivalentValue(a.parameters[key], b.parameters[key]))) {
       return false;
     }
 
@@ -342,29 +384,40 @@ export function equivalentURI(a: URI, b: URI): boolean {
   const headerKeysA = Object.keys(a.headers);
   const headerKeysB = Object.keys(b.headers);
 
-  // No need to check if no headers
-  if (headerKeysA.length !== 0 || headerKeysB.length !== 0) {
-
-    // Must have same number of headers
-    if (headerKeysA.length !== headerKeysB.length) {
-      return false;
-    }
+  // Must have same headers
+  if (headerKeysA.length !== headerKeysB.length || !headerKeysA.every(x => headerKeysB.includes(x))) {
+    return false;
+  }
 
-    // Must have same headers
-    const intersection = headerKeysA.filter(x => headerKeysB.includes(x));
-    if (intersection.length !== headerKeysB.length) {
-      return false;
-    }
+  // Must have same header values, in the same order. The header values are compared as strings
+  // rather than according to the rules of each header field.
+  return headerKeysA.every(key =>
+    a.headers[key].length === b.headers[key].length &&
+    a.headers[key].every((value, i) => unescapeURIComponent(value) === unescapeURIComponent(b.headers[key][i]))
+  );
+}
 
-    // FIXME: Not to spec. But perhaps not worth fixing?
-    // Must have same header values
-    // It seems too much to consider multiple headers with same name.
-    // It seems too much to compare two header params according to the rule of each header.
-    // We'll assume a single header and compare them string to string...
-    if (!intersection.every(key => a.headers[key].length && b.headers[key].length && a.headers[key][0] === b.headers[key][0])) {
-      return false;
-    }
+/**
+ * Returns true if parameter values are equivalent, ignoring case and escaping.
+ * @param a - Parameter value.
+ * @param b - Parameter value.
+ */
+function equivalentValue(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (typeof a !== "string" || typeof b !== "string") {
+    return a === b;
   }
+  return unescapeURIComponent(a).toLowerCase() === unescapeURIComponent(b).toLowerCase();
+}
 
-  return true;
-}
\ No newline at end of file
+/**
+ * Characters other than those in the "reserved" set are equivalent to their "%" HEX HEX encoding,
+ * so such characters are unescaped. Escaped reserved characters remain escaped, in uppercase.
+ * https://tools.ietf.org/html/rfc3261#section-19.1.4
+ * @param value - URI component.
+ */
+function unescapeURIComponent(value: string): string {
+  return value.replace(/%([0-9A-Fa-f]{2})/g, (escaped, hex: string) => {
+    const char = String.fromCharCode(parseInt(hex, 16));
+    return /[;/?:@&=+$,%]/.test(char) || !/[\x21-\x7e]/.test(char) ? escaped.toUpperCase() : char;
+  });
+}
@@ -0,0 +1,5 @@
+/**
+ * Capture sinks for Node.js.
+ * @packageDocumentation
+ */
+export * from "./udp-hep-sink.js";
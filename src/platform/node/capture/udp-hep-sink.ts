@@ -0,0 +1,60 @@
+import * as dgram from "dgram";
+
+import { HepSink } from "../../../core/capture/hep-capture.js";
+import { Logger } from "../../../core/log/logger.js";
+
+/**
+ * Sends HEP packets to a collector, such as Homer, over UDP.
+ *
+ * @remarks
+ * Packets are sent on a best effort basis. A packet which fails to be sent is logged and discarded.
+ * @example
+ * ```ts
+ * const capture = new HepCapture(new UdpHepSink("192.0.2.10", 9060), { captureId: 2001 });
+ * ```
+ * @public
+ */
+export class UdpHepSink implements HepSink {
+  private socket: dgram.Socket | undefined;
+
+  /**
+   * Constructs a new instance of the `UdpHepSink` class.
+   * @param host - IP address of the collector.
+   * @param port - Port of the collector.
+   * @param logger - Logger used to report packets which fail to be sent.
+   */
+  public constructor(private host: string, private port = 9060, private logger?: Logger) {}
+
+  /**
+   * Close the socket used to send packets.
+   * @remarks
+   * A socket is opened again if another packet is sent.
+   */
+  public close(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    if (socket) {
+      socket.close();
+    }
+  }
+
+  public send(packet: Uint8Array): void {
+    if (!this.socket) {
+      const socket = dgram.createSocket(this.host.includes(":") ? "udp6" : "udp4");
+      socket.on("error", (error: Error) => {
+        if (this.logger) {
+          this.logger.error(`HEP socket error: ${error.message}`);
+        }
+        if (socket === this.socket) {
+          this.close();
+        }
+      });
+      this.socket = socket;
+    }
+    this.socket.send(packet, this.port, this.host, (error: Error | null) => {
+      if (error && this.logger) {
+        this.logger.error(`Failed to send HEP packet: ${error.message}`);
+      }
+    });
+  }
+}
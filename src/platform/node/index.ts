@@ -0,0 +1,3 @@
+export * from "./capture/index.js";
+export * from "./resolver/index.js";
+export * from "./transport/index.js";
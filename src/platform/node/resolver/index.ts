@@ -0,0 +1,5 @@
+/**
+ * DNS resolver implementation for Node.js.
+ * @packageDocumentation
+ */
+export * from "./node-resolver.js";
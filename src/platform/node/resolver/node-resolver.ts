@@ -0,0 +1,25 @@
+import { promises as dns } from "dns";
+
+import { NaptrRecord, Resolver, SrvRecord } from "../../../core/locator/resolver.js";
+
+/**
+ * DNS resolver using the Node.js `dns` module.
+ * @public
+ */
+export class NodeResolver implements Resolver {
+  public resolveNaptr(name: string): Promise<Array<NaptrRecord>> {
+    return dns.resolveNaptr(name);
+  }
+
+  public resolveSrv(name: string): Promise<Array<SrvRecord>> {
+    return dns.resolveSrv(name);
+  }
+
+  public resolveAddresses(name: string): Promise<Array<string>> {
+    // A domain name having no A records does not preclude it having AAAA records, and vice versa.
+    return Promise.all([
+      dns.resolve4(name).catch(() => [] as Array<string>),
+      dns.resolve6(name).catch(() => [] as Array<string>)
+    ]).then(([ipv4, ipv6]) => ipv4.concat(ipv6));
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Transport implementations for Node.js.
+ * @packageDocumentation
+ */
+export * from "./node-transport.js";
+export * from "./stream-parser.js";
+export * from "./stream-transport.js";
+export * from "./tcp-transport.js";
+export * from "./tls-transport.js";
+export * from "./transport-address.js";
+export * from "./transport-options.js";
+export * from "./udp-transport.js";
@@ -0,0 +1,799 @@
+import { Emitter, EmitterImpl } from "../../../api/emitter.js";
+import { StateTransitionError } from "../../../api/exceptions/state-transition.js";
+import { Transport as TransportDefinition } from "../../../api/transport.js";
+import { TransportState } from "../../../api/transport-state.js";
+import { Grammar } from "../../../grammar/grammar.js";
+import { URI } from "../../../grammar/uri.js";
+import { makeCaptureRecord } from "../../../core/capture/capture-record.js";
+import { Locator } from "../../../core/locator/locator.js";
+import { Logger } from "../../../core/log/logger.js";
+import { NodeResolver } from "../resolver/node-resolver.js";
+import { TransportAddress } from "./transport-address.js";
+import { TransportOptions } from "./transport-options.js";
+
+/**
+ * Base class of the Node.js transports.
+ *
+ * @remarks
+ * Implements the transport state machine required by the `UserAgent` and the routing
+ * of outgoing messages. Requests are sent to the configured server and responses are
+ * sent to the address indicated by the top Via header field. If the server is configured
+ * as a SIP or SIPS URI, it is located using DNS each time the transport connects.
+ * https://tools.ietf.org/html/rfc3261#section-18
+ * https://tools.ietf.org/html/rfc3263
+ * @public
+ */
+export abstract class NodeTransport implements TransportDefinition {
+  private static defaultOptions(): Required<TransportOptions> {
+    return {
+      server: "",
+      capture: {
+        capture: (): void => {
+          /* noop */
+        }
+      },
+      connectionTimeout: 5,
+      keepAliveInterval: 0,
+      keepAliveTimeout: 10,
+      localAddress: "",
+      localPort: 0,
+      resolver: new NodeResolver(),
+      traceSip: true
+    };
+  }
+
+  public onConnect: (() => void) | undefined;
+  public onDisconnect: ((error?: Error) => void) | undefined;
+  public onMessage: ((message: string) => void) | undefined;
+
+  protected configuration: Required<TransportOptions>;
+  protected logger: Logger;
+
+  private _protocol: string;
+  private _serverAddress: TransportAddress | undefined;
+  private _serverUri: URI | undefined;
+  private locator: Locator | undefined;
+  private _state: TransportState = TransportState.Disconnected;
+  private _stateEventEmitter: EmitterImpl<TransportState>;
+
+  private connectPromise: Promise<void> | undefined;
+  private connectResolve: (() => void) | undefined;
+  private connectReject: ((error: Error) => void) | undefined;
+  private connectTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  private disconnectPromise: Promise<void> | undefined;
+  private disconnectResolve: (() => void) | undefined;
+  private disconnectReject: ((error?: Error) => void) | undefined;
+
+  private keepAliveInterval = 0;
+  private keepAliveTimeout: ReturnType<typeof setTimeout> | undefined;
+  private pongTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  private transitioningState = false;
+
+  protected constructor(logger: Logger, protocol: string, private defaultPort: number, options?: TransportOptions) {
+    // state emitter
+    this._stateEventEmitter = new EmitterImpl<TransportState>();
+
+    // logger
+    this.logger = logger;
+
+    // protocol
+    this._protocol = protocol;
+
+    // initialize configuration
+    this.configuration = {
+      // start with the default option values
+      ...NodeTransport.defaultOptions(),
+      // apply any options passed in via the constructor
+      ...options
+    };
+
+    // validate server URI
+    const url = this.configuration.server;
+    if (/^sips?:/i.test(url)) {
+      const uri = Grammar.URIParse(url);
+      if (!uri) {
+        this.logger.error(`Invalid Server URI "${url}"`);
+        throw new Error("Invalid Server URI");
+      }
+      this._serverUri = uri;
+      this.locator = new Locator(this.configuration.resolver, logger);
+      return;
+    }
+
+    // validate server URL
+    const parsed = url.match(/^([a-zA-Z]+):\/\/(\[[0-9a-fA-F:.]+\]|[^:/[\]]+)(?::(\d{1,5}))?\/?$/);
+    if (!parsed) {
+      this.logger.error(`Invalid Server URL "${url}"`);
+      throw new Error("Invalid Server URL");
+    }
+    if (parsed[1].toUpperCase() !== protocol) {
+      this.logger.error(`Invalid scheme in Server URL "${url}"`);
+      throw new Error("Invalid scheme in Server URL");
+    }
+    this._serverAddress = {
+      host: parsed[2].replace(/^\[|\]$/g, ""),
+      port: parsed[3] ? Number(parsed[3]) : defaultPort
+    };
+  }
+
+  public dispose(): Promise<void> {
+    return this.disconnect();
+  }
+
+  /**
+   * The protocol.
+   *
+   * @remarks
+   * Formatted as defined for the Via header sent-protocol transport.
+   * https://tools.ietf.org/html/rfc3261#section-20.42
+   */
+  public get protocol(): string {
+    return this._protocol;
+  }
+
+  /**
+   * True if the transport is reliable.
+   */
+  public abstract get reliable(): boolean;
+
+  /**
+   * The URL of the server.
+   */
+  public get server(): string {
+    return this.configuration.server;
+  }
+
+  /**
+   * The address of the server.
+   *
+   * @remarks
+   * Undefined if the server is configured as a SIP or SIPS URI and has yet to be located.
+   */
+  public get serverAddress(): TransportAddress | undefined {
+    return this._serverAddress;
+  }
+
+  /**
+   * Transport state.
+   */
+  public get state(): TransportState {
+    return this._state;
+  }
+
+  /**
+   * Transport state change emitter.
+   */
+  public get stateChange(): Emitter<TransportState> {
+    return this._stateEventEmitter;
+  }
+
+  /**
+   * Connect to network.
+   * Resolves once connected. Otherwise rejects with an Error.
+   */
+  public connect(): Promise<void> {
+    return this._connect();
+  }
+
+  /**
+   * Disconnect from network.
+   * Resolves once disconnected. Otherwise rejects with an Error.
+   */
+  public disconnect(): Promise<void> {
+    return this._disconnect();
+  }
+
+  /**
+   * Returns true if the `state` equals "Connected".
+   * @remarks
+   * This is equivalent to `state === TransportState.Connected`.
+   */
+  public isConnected(): boolean {
+    return this.state === TransportState.Connected;
+  }
+
+  /**
+   * Sends a message.
+   * Resolves once message is sent. Otherwise rejects with an Error.
+   * @param message - Message to send.
+   */
+  public send(message: string): Promise<void> {
+    if (this.configuration.traceSip === true) {
+      this.logger.log(`Sending ${this.protocol} message:\n\n` + message + "\n");
+    }
+
+    if (this._state !== TransportState.Connected) {
+      return Promise.reject(new Error("Not connected."));
+    }
+
+    let destination: TransportAddress;
+    try {
+      destination = this.getDestination(message);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    return this.write(new TextEncoder().encode(message), destination).then(() =>
+      this.capture(true, message, destination)
+    );
+  }
+
+  /**
+   * Set the interval at which keep-alives are sent.
+   * @remarks
+   * Overrides the configured `keepAliveInterval`. Zero reverts to the configured `keepAliveInterval`.
+   * @param interval - Seconds between keep-alives.
+   */
+  public setKeepAliveInterval(interval: number): void {
+    this.keepAliveInterval = interval;
+    if (this.state === TransportState.Connected) {
+      this.stopSendingKeepAlives();
+      this.startSendingKeepAlives();
+    }
+  }
+
+  /**
+   * Open the sockets needed to send messages to, and receive messages from, the server.
+   * @remarks
+   * Resolves once the transport is ready to send and receive messages. Otherwise rejects with an Error.
+   */
+  protected abstract open(): Promise<void>;
+
+  /**
+   * Close all sockets.
+   * @remarks
+   * Resolves once all sockets are closed. The sockets MUST be forgotten before returning
+   * so that a subsequent call to `open()` starts afresh, and events from the sockets
+   * being closed MUST be ignored.
+   */
+  protected abstract close(): Promise<void>;
+
+  /**
+   * Write data to the network.
+   * @remarks
+   * Resolves once data is written. Otherwise rejects with an Error.
+   * @param data - Data to write.
+   * @param destination - Remote address to write to.
+   */
+  protected abstract write(data: Uint8Array, destination: TransportAddress): Promise<void>;
+
+  /**
+   * The local address of the socket used to reach a remote address.
+   * @remarks
+   * Used to capture messages. Undefined if not known.
+   * @param remote - Remote address.
+   */
+  protected abstract getLocalAddress(remote: TransportAddress): TransportAddress | undefined;
+
+  /**
+   * To be called by subclasses upon receipt of a message.
+   * @param message - Message received.
+   * @param source - Remote address the message was received from.
+   */
+  protected receive(message: string, source: TransportAddress): void {
+    // CRLF Keep Alive request or response.
+    // https://tools.ietf.org/html/rfc5626#section-3.5.1
+    if (/^(\r\n)+$/.test(message)) {
+      if (message === "\r\n\r\n" && this.reliable && this.state === TransportState.Connected) {
+        if (this.configuration.traceSip === true) {
+          this.logger.log(`Received ${this.protocol} message with CRLF Keep Alive request`);
+        }
+        this.write(new TextEncoder().encode("\r\n"), source).catch((error: Error) => {
+          this.logger.error(`Failed to send CRLF Keep Alive response: ${error.message}`);
+        });
+        return;
+      }
+      if (this.configuration.traceSip === true) {
+        this.logger.log(`Received ${this.protocol} message with CRLF Keep Alive response`);
+      }
+      this.clearPongTimeout();
+      return;
+    }
+
+    if (this.configuration.traceSip === true) {
+      this.logger.log(`Received ${this.protocol} message from ${source.host}:${source.port}:\n\n` + message + "\n");
+    }
+
+    if (this.state !== TransportState.Connected) {
+      this.logger.warn("Received message while not connected, discarding...");
+      return;
+    }
+
+    this.capture(false, message, source);
+
+    if (this.onMessage) {
+      try {
+        this.onMessage(message);
+      } catch (e) {
+        this.logger.error((e as Error).toString());
+        this.logger.error("Exception thrown by onMessage callback");
+        throw e; // rethrow unhandled exception
+      }
+    }
+  }
+
+  /**
+   * Capture a message sent or received.
+   * @param sent - True if sent, false if received.
+   * @param message - The message.
+   * @param remote - Remote address the message was sent to or received from.
+   */
+  private capture(sent: boolean, message: string, remote: TransportAddress): void {
+    const local = this.getLocalAddress(remote) || { host: this.configuration.localAddress, port: 0 };
+    try {
+      const record = makeCaptureRecord(sent, message, this.protocol, local, { host: remote.host, port: remote.port });
+      this.configuration.capture.capture(record);
+    } catch (error) {
+      this.logger.error("Exception thrown by capture");
+      this.logger.error((error as Error).toString());
+    }
+  }
+
+  /**
+   * To be called by subclasses upon the unexpected loss of the socket used to reach the server.
+   * @param error - Error describing the loss.
+   */
+  protected lost(error: Error): void {
+    if (this.state !== TransportState.Connecting && this.state !== TransportState.Connected) {
+      return;
+    }
+    this.logger.warn(`${this.protocol} transport lost: ${error.message}`);
+    this.close().catch((e: Error) => this.logger.error(e.toString()));
+    this.transitionState(TransportState.Disconnected, error);
+  }
+
+  /**
+   * Determine where to send a message.
+   *
+   * @remarks
+   * Requests are sent to the server. Responses are sent to the address in the "received"
+   * parameter of the top Via header field if present (the "sent-by" host otherwise) using
+   * the port in the "rport" parameter if present (the "sent-by" port otherwise).
+   * https://tools.ietf.org/html/rfc3261#section-18.2.2
+   * https://tools.ietf.org/html/rfc3581#section-4
+   * @param message - Message to send.
+   */
+  protected getDestination(message: string): TransportAddress {
+    if (!/^SIP\/2\.0 /.test(message)) {
+      if (!this.serverAddress) {
+        throw new Error("Server address undefined.");
+      }
+      return this.serverAddress;
+    }
+    const match = message.match(/\r\n(?:via|v)[ \t]*:[ \t]*([^,\r\n]*)/i);
+    if (!match) {
+      throw new Error("Response has no Via header field.");
+    }
+    const via = Grammar.parse(match[1].trim(), "Via");
+    if (via === -1) {
+      throw new Error("Response has an invalid Via header field.");
+    }
+    const host = via.received ? via.received : via.host;
+    const port = via.rport ? Number(via.rport) : via.port;
+    return {
+      host: host.replace(/^\[|\]$/g, ""),
+      port: port ? port : this.defaultPort
+    };
+  }
+
+  private _connect(): Promise<void> {
+    this.logger.log(`Connecting ${this.server}`);
+
+    switch (this.state) {
+      case TransportState.Connecting:
+        // If `state` is "Connecting", `state` MUST NOT transition before returning.
+        if (this.transitioningState) {
+          return Promise.reject(this.transitionLoopDetectedError(TransportState.Connecting));
+        }
+        if (!this.connectPromise) {
+          throw new Error("Connect promise must be defined.");
+        }
+        return this.connectPromise; // Already connecting
+      case TransportState.Connected:
+        // If `state` is "Connected", `state` MUST NOT transition before returning.
+        if (this.transitioningState) {
+          return Promise.reject(this.transitionLoopDetectedError(TransportState.Connecting));
+        }
+        if (this.connectPromise) {
+          throw new Error("Connect promise must not be defined.");
+        }
+        return Promise.resolve(); // Already connected
+      case TransportState.Disconnecting:
+      case TransportState.Disconnected:
+        // If `state` is "Disconnecting" or "Disconnected", `state` MUST transition to "Connecting" before returning
+        if (this.connectPromise) {
+          throw new Error("Connect promise must not be defined.");
+        }
+        try {
+          this.transitionState(TransportState.Connecting);
+        } catch (e) {
+          if (e instanceof StateTransitionError) {
+            return Promise.reject(e); // Loop detected
+          }
+          throw e;
+        }
+        break;
+      default:
+        throw new Error("Unknown state");
+    }
+
+    const connectPromise = new Promise<void>((resolve, reject) => {
+      this.connectResolve = resolve;
+      this.connectReject = reject;
+    });
+    this.connectPromise = connectPromise;
+
+    this.locate()
+      .then((addresses) => this.openFirst(addresses, connectPromise))
+      .then(() => {
+        if (this.connectPromise === connectPromise && this.state === TransportState.Connecting) {
+          this.logger.log(`${this.protocol} transport opened ${this.server}`);
+          this.transitionState(TransportState.Connected);
+        }
+      })
+      .catch((error: Error) => {
+        if (this.connectPromise === connectPromise) {
+          this.lost(error);
+        }
+      });
+
+    return connectPromise;
+  }
+
+  /**
+   * Determine the addresses of the server.
+   * @remarks
+   * If the server is configured as a SIP or SIPS URI, the addresses reachable using
+   * this transport's protocol are located as described in RFC 3263, in the order
+   * in which they should be tried.
+   * https://tools.ietf.org/html/rfc3263#section-4
+   */
+  private locate(): Promise<Array<TransportAddress>> {
+    if (!this._serverUri || !this.locator) {
+      if (!this._serverAddress) {
+        return Promise.reject(new Error("Server address undefined."));
+      }
+      return Promise.resolve([this._serverAddress]);
+    }
+    const name = this._serverUri.host.replace(/^\[|\]$/g, "");
+    return this.locator.locate(this._serverUri, [this.protocol]).then((targets) => {
+      const addresses = targets
+        .filter((target) => target.transport === this.protocol)
+        .map((target) => ({ host: target.address, port: target.port, name }));
+      if (addresses.length === 0) {
+        throw new Error(`Failed to locate ${this.protocol} server ${this.server}`);
+      }
+      this.logger.log(`Located ${this.server} at ${addresses.map((a) => `${a.host}:${a.port}`).join(", ")}`);
+      return addresses;
+    });
+  }
+
+  /**
+   * Open the transport using the first of the server addresses which succeeds.
+   * @param addresses - Server addresses in the order in which they should be tried.
+   * @param connectPromise - The connect promise of the attempt, opening stops if it is no longer current.
+   */
+  private openFirst(addresses: Array<TransportAddress>, connectPromise: Promise<void>): Promise<void> {
+    // Open nothing if the attempt is no longer current, the transport having been disconnected
+    // (and possibly connected again) while the server was being located for example.
+    // The sockets are left alone, those open belonging to the current attempt if any.
+    if (this.connectPromise !== connectPromise || this.state !== TransportState.Connecting) {
+      return Promise.reject(new Error("Connect attempt abandoned."));
+    }
+    const [address, ...rest] = addresses;
+    this._serverAddress = address;
+    return new Promise<void>((resolve, reject) => {
+      this.connectTimeout = setTimeout(() => {
+        this.connectTimeout = undefined;
+        this.logger.warn(
+          "Connect timed out. " +
+            "Exceeded time set in configuration.connectionTimeout: " +
+            this.configuration.connectionTimeout +
+            "s."
+        );
+        reject(new Error("Connect timed out."));
+      }, this.configuration.connectionTimeout * 1000);
+      this.open().then(resolve, reject);
+    })
+      .then(() => this.clearConnectTimeout())
+      .catch((error: Error) => {
+        this.clearConnectTimeout();
+        if (rest.length === 0 || this.connectPromise !== connectPromise) {
+          throw error;
+        }
+        this.logger.warn(`Failed to open ${address.host}:${address.port}, trying next server address`);
+        return this.close().then(() => this.openFirst(rest, connectPromise));
+      });
+  }
+
+  private clearConnectTimeout(): void {
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = undefined;
+    }
+  }
+
+  private _disconnect(): Promise<void> {
+    this.logger.log(`Disconnecting ${this.server}`);
+
+    switch (this.state) {
+      case TransportState.Connecting:
+      case TransportState.Connected:
+        // If `state` is "Connecting" or "Connected", `state` MUST transition to "Disconnecting" before returning.
+        if (this.disconnectPromise) {
+          throw new Error("Disconnect promise must not be defined.");
+        }
+        try {
+          this.transitionState(TransportState.Disconnecting);
+        } catch (e) {
+          if (e instanceof StateTransitionError) {
+            return Promise.reject(e); // Loop detected
+          }
+          throw e;
+        }
+        break;
+      case TransportState.Disconnecting:
+        // If `state` is "Disconnecting", `state` MUST NOT transition before returning.
+        if (this.transitioningState) {
+          return Promise.reject(this.transitionLoopDetectedError(TransportState.Disconnecting));
+        }
+        if (!this.disconnectPromise) {
+          throw new Error("Disconnect promise must be defined.");
+        }
+        return this.disconnectPromise; // Already disconnecting
+      case TransportState.Disconnected:
+        // If `state` is "Disconnected", `state` MUST NOT transition before returning.
+        if (this.transitioningState) {
+          return Promise.reject(this.transitionLoopDetectedError(TransportState.Disconnecting));
+        }
+        if (this.disconnectPromise) {
+          throw new Error("Disconnect promise must not be defined.");
+        }
+        return Promise.resolve(); // Already disconnected
+      default:
+        throw new Error("Unknown state");
+    }
+
+    const disconnectPromise = new Promise<void>((resolve, reject) => {
+      this.disconnectResolve = resolve;
+      this.disconnectReject = reject;
+    });
+    this.disconnectPromise = disconnectPromise;
+
+    this.close()
+      .catch((error: Error) => {
+        this.logger.error(`${this.protocol} transport close failed.`);
+        this.logger.error(error.toString());
+      })
+      .then(() => {
+        if (this.disconnectPromise === disconnectPromise && this.state === TransportState.Disconnecting) {
+          this.logger.log(`${this.protocol} transport closed ${this.server}`);
+          this.transitionState(TransportState.Disconnected);
+        }
+      });
+
+    return disconnectPromise;
+  }
+
+  /**
+   * Helper function to generate an Error.
+   * @param state - State transitioning to.
+   */
+  private transitionLoopDetectedError(state: string): StateTransitionError {
+    let message = `A state transition loop has been detected.`;
+    message += ` An attempt to transition from ${this._state} to ${state} before the prior transition completed.`;
+    message += ` Perhaps you are synchronously calling connect() or disconnect() from a callback or state change handler?`;
+    this.logger.error(message);
+    return new StateTransitionError("Loop detected.");
+  }
+
+  /**
+   * Transition transport state.
+   * @internal
+   */
+  private transitionState(newState: TransportState, error?: Error): void {
+    const invalidTransition = (): Error => {
+      throw new Error(`Invalid state transition from ${this._state} to ${newState}`);
+    };
+
+    if (this.transitioningState) {
+      throw this.transitionLoopDetectedError(newState);
+    }
+    this.transitioningState = true;
+
+    // Validate state transition
+    switch (this._state) {
+      case TransportState.Connecting:
+        if (
+          newState !== TransportState.Connected &&
+          newState !== TransportState.Disconnecting &&
+          newState !== TransportState.Disconnected
+        ) {
+          invalidTransition();
+        }
+        break;
+      case TransportState.Connected:
+        if (newState !== TransportState.Disconnecting && newState !== TransportState.Disconnected) {
+          invalidTransition();
+        }
+        break;
+      case TransportState.Disconnecting:
+        if (newState !== TransportState.Connecting && newState !== TransportState.Disconnected) {
+          invalidTransition();
+        }
+        break;
+      case TransportState.Disconnected:
+        if (newState !== TransportState.Connecting) {
+          invalidTransition();
+        }
+        break;
+      default:
+        throw new Error("Unknown state.");
+    }
+
+    // Update state
+    const oldState = this._state;
+    this._state = newState;
+
+    // Local copies of connect promises (guarding against callbacks changing them indirectly)
+    const connectResolve = this.connectResolve;
+    const connectReject = this.connectReject;
+
+    // Reset connect promises if no longer connecting
+    if (oldState === TransportState.Connecting) {
+      this.connectPromise = undefined;
+      this.connectResolve = undefined;
+      this.connectReject = undefined;
+    }
+
+    // Local copies of disconnect promises (guarding against callbacks changing them indirectly)
+    const disconnectResolve = this.disconnectResolve;
+    const disconnectReject = this.disconnectReject;
+
+    // Reset disconnect promises if no longer disconnecting
+    if (oldState === TransportState.Disconnecting) {
+      this.disconnectPromise = undefined;
+      this.disconnectResolve = undefined;
+      this.disconnectReject = undefined;
+    }
+
+    // Clear any outstanding connect timeout
+    this.clearConnectTimeout();
+
+    this.logger.log(`Transitioned from ${oldState} to ${this._state}`);
+    this._stateEventEmitter.emit(this._state);
+
+    //  Transition to Connected
+    if (newState === TransportState.Connected) {
+      this.startSendingKeepAlives();
+      if (this.onConnect) {
+        try {
+          this.onConnect();
+        } catch (e) {
+          this.logger.error((e as Error).toString());
+          this.logger.error("Exception thrown by onConnect callback");
+          throw e; // rethrow unhandled exception
+        }
+      }
+    }
+
+    //  Transition from Connected
+    if (oldState === TransportState.Connected) {
+      this.stopSendingKeepAlives();
+      if (this.onDisconnect) {
+        try {
+          if (error) {
+            this.onDisconnect(error);
+          } else {
+            this.onDisconnect();
+          }
+        } catch (e) {
+          this.logger.error((e as Error).toString());
+          this.logger.error("Exception thrown by onDisconnect callback");
+          throw e; // rethrow unhandled exception
+        }
+      }
+    }
+
+    // Complete connect promise
+    if (oldState === TransportState.Connecting) {
+      if (!connectResolve) {
+        throw new Error("Connect resolve undefined.");
+      }
+      if (!connectReject) {
+        throw new Error("Connect reject undefined.");
+      }
+      newState === TransportState.Connected ? connectResolve() : connectReject(error || new Error("Connect aborted."));
+    }
+
+    // Complete disconnect promise
+    if (oldState === TransportState.Disconnecting) {
+      if (!disconnectResolve) {
+        throw new Error("Disconnect resolve undefined.");
+      }
+      if (!disconnectReject) {
+        throw new Error("Disconnect reject undefined.");
+      }
+      newState === TransportState.Disconnected
+        ? disconnectResolve()
+        : disconnectReject(error || new Error("Disconnect aborted."));
+    }
+
+    this.transitioningState = false;
+  }
+
+  // ==============================
+  // KeepAlive Stuff
+  // ==============================
+
+  private clearPongTimeout(): void {
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+    }
+    this.pongTimeout = undefined;
+  }
+
+  /**
+   * Send a keep-alive (a double-CRLF sequence) to the server.
+   */
+  private sendKeepAlive(): void {
+    if (this.pongTimeout) {
+      // We already have an outstanding keep alive, do not send another.
+      return;
+    }
+    if (!this.serverAddress) {
+      return;
+    }
+
+    // If a pong is not received in time, the flow has failed.
+    // There is no pong over UDP, which would need STUN keep-alives instead.
+    // https://tools.ietf.org/html/rfc5626#section-4.4.1
+    if (this.reliable) {
+      this.pongTimeout = setTimeout(() => {
+        this.pongTimeout = undefined;
+        const message = `No CRLF Keep Alive response received within ${this.configuration.keepAliveTimeout}s`;
+        this.lost(new Error(message));
+      }, this.configuration.keepAliveTimeout * 1000);
+    }
+
+    if (this.configuration.traceSip === true) {
+      this.logger.log(`Sending ${this.protocol} message with CRLF Keep Alive request`);
+    }
+    this.write(new TextEncoder().encode("\r\n\r\n"), this.serverAddress).catch((error: Error) => {
+      this.logger.error(`Failed to send CRLF Keep Alive request: ${error.message}`);
+    });
+  }
+
+  /**
+   * Start sending keep-alives.
+   */
+  private startSendingKeepAlives(): void {
+    // Compute an amount of time in seconds to wait before sending another keep-alive.
+    const computeKeepAliveTimeout = (upperBound: number): number => {
+      const lowerBound = upperBound * 0.8;
+      return 1000 * (Math.random() * (upperBound - lowerBound) + lowerBound);
+    };
+
+    const interval = this.keepAliveInterval || this.configuration.keepAliveInterval;
+    if (interval && !this.keepAliveTimeout) {
+      this.keepAliveTimeout = setTimeout(() => {
+        this.keepAliveTimeout = undefined;
+        this.sendKeepAlive();
+        this.startSendingKeepAlives();
+      }, computeKeepAliveTimeout(interval));
+    }
+  }
+
+  /**
+   * Stop sending keep-alives.
+   */
+  private stopSendingKeepAlives(): void {
+    if (this.keepAliveTimeout) {
+      clearTimeout(this.keepAliveTimeout);
+    }
+    this.clearPongTimeout();
+    this.keepAliveTimeout = undefined;
+  }
+}
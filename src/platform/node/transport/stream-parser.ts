@@ -0,0 +1,149 @@
+const CR = 0x0d;
+const LF = 0x0a;
+
+/**
+ * Stream parser.
+ *
+ * @remarks
+ * Frames the SIP messages received over a stream-oriented transport.
+ * In the case of stream-oriented transports such as TCP, the Content-Length
+ * header field indicates the size of the body. All implementations MUST be able
+ * to process messages received over stream-oriented transports in this fashion.
+ * https://tools.ietf.org/html/rfc3261#section-18.3
+ *
+ * Keep-alives are passed through as messages. A double-CRLF sequence is a "ping"
+ * and a single CRLF sequence is a "pong" (which is also what any CRLF appearing
+ * before the start-line of a message looks like).
+ * https://tools.ietf.org/html/rfc5626#section-3.5.1
+ * @public
+ */
+export class StreamParser {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private decoder: TextDecoder;
+
+  /**
+   * Constructor.
+   * @param maxMessageSize - Maximum size in bytes of a message (headers and body).
+   */
+  constructor(private maxMessageSize = 65535) {
+    this.decoder = new TextDecoder();
+  }
+
+  /**
+   * Parse data received from the stream.
+   * @param data - Data received.
+   * @returns The messages completed by the data received, possibly none.
+   * Throws an Error if the stream is malformed, after which the parser is reset
+   * and the stream (connection) should be closed.
+   */
+  public parse(data: Uint8Array): Array<string> {
+    this.append(data);
+    const messages: Array<string> = [];
+    while (this.buffer.length > 0) {
+      // Keep-alives (or CRLF before the start-line).
+      if (this.buffer[0] === CR) {
+        if (this.buffer.length < 2) {
+          break;
+        }
+        if (this.buffer[1] !== LF) {
+          throw this.error("CR not followed by LF.");
+        }
+        if (this.buffer.length >= 4 && this.buffer[2] === CR && this.buffer[3] === LF) {
+          messages.push("\r\n\r\n");
+          this.consume(4);
+          continue;
+        }
+        if (this.buffer.length === 3 && this.buffer[2] === CR) {
+          break; // could be the first half of a double-CRLF, wait for more data
+        }
+        messages.push("\r\n");
+        this.consume(2);
+        continue;
+      }
+
+      // A message.
+      const headersEnd = this.indexOfEmptyLine();
+      if (headersEnd === -1) {
+        if (this.buffer.length > this.maxMessageSize) {
+          throw this.error("Message headers exceed maximum message size.");
+        }
+        break;
+      }
+      const headers = this.decoder.decode(this.buffer.subarray(0, headersEnd));
+      const contentLength = StreamParser.getContentLength(headers);
+      if (contentLength === undefined) {
+        throw this.error("Invalid Content-Length header field.");
+      }
+      const messageLength = headersEnd + 4 + contentLength;
+      if (messageLength > this.maxMessageSize) {
+        throw this.error("Message exceeds maximum message size.");
+      }
+      if (this.buffer.length < messageLength) {
+        break;
+      }
+      messages.push(this.decoder.decode(this.buffer.subarray(0, messageLength)));
+      this.consume(messageLength);
+    }
+    return messages;
+  }
+
+  /**
+   * Discard any partially received message.
+   */
+  public reset(): void {
+    this.buffer = new Uint8Array(0);
+  }
+
+  /**
+   * Get the value of the Content-Length header field.
+   * @remarks
+   * If the header field is missing, a length of zero is assumed.
+   * @param headers - Start-line and header fields.
+   * @returns The body length, undefined if the header field value is invalid.
+   */
+  private static getContentLength(headers: string): number | undefined {
+    const match = headers.match(/\r\n(?:content-length|l)[ \t]*:[ \t]*([^\r\n]*)/i);
+    if (!match) {
+      return 0;
+    }
+    const value = match[1].trim();
+    if (!/^\d+$/.test(value)) {
+      return undefined;
+    }
+    return Number(value);
+  }
+
+  private append(data: Uint8Array): void {
+    if (this.buffer.length === 0) {
+      this.buffer = data;
+      return;
+    }
+    const buffer = new Uint8Array(this.buffer.length + data.length);
+    buffer.set(this.buffer, 0);
+    buffer.set(data, this.buffer.length);
+    this.buffer = buffer;
+  }
+
+  private consume(length: number): void {
+    this.buffer = this.buffer.subarray(length);
+  }
+
+  private error(message: string): Error {
+    this.reset();
+    return new Error(message);
+  }
+
+  private indexOfEmptyLine(): number {
+    for (let i = 0; i + 3 < this.buffer.length; i++) {
+      if (
+        this.buffer[i] === CR &&
+        this.buffer[i + 1] === LF &&
+        this.buffer[i + 2] === CR &&
+        this.buffer[i + 3] === LF
+      ) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,266 @@
+import * as net from "net";
+
+import { Logger } from "../../../core/log/logger.js";
+import { Timers } from "../../../core/timers.js";
+import { NodeTransport } from "./node-transport.js";
+import { StreamParser } from "./stream-parser.js";
+import { TransportAddress } from "./transport-address.js";
+import { TransportOptions } from "./transport-options.js";
+
+/**
+ * A connection to a remote address.
+ */
+interface Connection {
+  /** Remote address. */
+  address: TransportAddress;
+  socket: net.Socket;
+  /** Resolves once connected. Otherwise rejects with an Error. */
+  ready: Promise<void>;
+  connected: boolean;
+}
+
+/**
+ * Base class of the stream-oriented Node.js transports.
+ *
+ * @remarks
+ * Connections are reused and are keyed by remote address. Connecting opens a connection
+ * to the server, and the loss of that connection is the loss of the transport.
+ * Responses are sent over the connection the request was received on. If that connection
+ * has closed, a connection to the address indicated by the top Via header field is used,
+ * opened as needed. Messages received are framed using the Content-Length header field.
+ * https://tools.ietf.org/html/rfc3261#section-18.2.2
+ * https://tools.ietf.org/html/rfc3261#section-18.3
+ * @public
+ */
+export abstract class StreamTransport extends NodeTransport {
+  private connections = new Map<string, Connection>();
+  /** The connections requests were received on, keyed by transaction (see `makeTransactionKey`). */
+  private requestConnections = new Map<string, { connection: Connection; timeout?: ReturnType<typeof setTimeout> }>();
+
+  protected constructor(logger: Logger, protocol: string, defaultPort: number, options: TransportOptions) {
+    super(logger, protocol, defaultPort, options);
+  }
+
+  /**
+   * True, stream-oriented transports are reliable.
+   */
+  public get reliable(): boolean {
+    return true;
+  }
+
+  protected getLocalAddress(remote: TransportAddress): TransportAddress | undefined {
+    const connection = this.connections.get(StreamTransport.makeKey(remote));
+    if (!connection || !connection.socket.localAddress) {
+      return undefined;
+    }
+    return { host: connection.socket.localAddress, port: connection.socket.localPort || 0 };
+  }
+
+  /**
+   * Create a socket connecting to a remote address.
+   * @param address - Remote address.
+   * @param onConnect - Callback to be called once the connection is ready for use.
+   */
+  protected abstract createSocket(address: TransportAddress, onConnect: () => void): net.Socket;
+
+  protected open(): Promise<void> {
+    if (!this.serverAddress) {
+      return Promise.reject(new Error("Server address undefined."));
+    }
+    return this.getConnection(this.serverAddress).ready;
+  }
+
+  protected close(): Promise<void> {
+    const connections = Array.from(this.connections.values());
+    this.connections.clear();
+    this.requestConnections.forEach((entry) => entry.timeout && clearTimeout(entry.timeout));
+    this.requestConnections.clear();
+    return Promise.all(
+      connections.map(
+        (connection) =>
+          new Promise<void>((resolve) => {
+            const socket = connection.socket;
+            socket.on("close", () => resolve());
+            if (connection.connected) {
+              socket.end(() => socket.destroy());
+            } else {
+              socket.destroy();
+            }
+          })
+      )
+    ).then(() => undefined);
+  }
+
+  /**
+   * Determine where to send a message.
+   *
+   * @remarks
+   * A response is sent to the remote address of the connection its request was received on, if still open.
+   * The connection is remembered until the time a final response may be retransmitted has passed.
+   * https://tools.ietf.org/html/rfc3261#section-18.2.2
+   * @param message - Message to send.
+   */
+  protected getDestination(message: string): TransportAddress {
+    const key = /^SIP\/2\.0 /.test(message) ? StreamTransport.makeTransactionKey(message) : undefined;
+    const entry = key ? this.requestConnections.get(key) : undefined;
+    if (
+      !key ||
+      !entry ||
+      this.connections.get(StreamTransport.makeKey(entry.connection.address)) !== entry.connection
+    ) {
+      return super.getDestination(message);
+    }
+    if (!/^SIP\/2\.0 1/.test(message) && !entry.timeout) {
+      const timeout = setTimeout(() => {
+        if (this.requestConnections.get(key) === entry) {
+          this.requestConnections.delete(key);
+        }
+      }, Timers.TIMER_L);
+      // Do not keep the process alive just to forget the connection.
+      timeout.unref();
+      entry.timeout = timeout;
+    }
+    return entry.connection.address;
+  }
+
+  protected write(data: Uint8Array, destination: TransportAddress): Promise<void> {
+    const connection = this.getConnection(destination);
+    return connection.ready.then(
+      () =>
+        new Promise<void>((resolve, reject) => {
+          connection.socket.write(data, (error?: Error) => {
+            if (error) {
+              reject(error);
+              return;
+            }
+            resolve();
+          });
+        })
+    );
+  }
+
+  /**
+   * Get the connection to a remote address, opening a new one if need be.
+   * @param address - Remote address.
+   */
+  private getConnection(address: TransportAddress): Connection {
+    const key = StreamTransport.makeKey(address);
+    const existing = this.connections.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    this.logger.log(`Opening ${this.protocol} connection to ${key}`);
+    let onConnect!: () => void;
+    let onClose!: () => void;
+    const ready = new Promise<void>((resolve, reject) => {
+      onConnect = resolve;
+      onClose = () => reject(new Error(`${this.protocol} connection to ${key} closed.`));
+    });
+    const socket = this.createSocket(address, () => {
+      connection.connected = true;
+      this.logger.log(`${this.protocol} connection to ${key} opened`);
+      onConnect();
+    });
+    socket.on("close", () => onClose());
+    const parser = new StreamParser();
+    const connection: Connection = { address, socket, ready, connected: false };
+    // Avoid an unhandled rejection if nobody is waiting on the connection
+    connection.ready.catch(() => {
+      return;
+    });
+
+    let lastError: Error | undefined;
+    socket.on("error", (error: Error) => {
+      lastError = error;
+      this.logger.error(`${this.protocol} connection to ${key} error: ${error.message}`);
+    });
+    socket.on("data", (data: Uint8Array) => {
+      if (this.connections.get(key) !== connection) {
+        return;
+      }
+      let messages: Array<string>;
+      try {
+        messages = parser.parse(data);
+      } catch (error) {
+        this.logger.error(`${this.protocol} connection to ${key} received malformed data: ${(error as Error).message}`);
+        socket.destroy();
+        return;
+      }
+      messages.forEach((message) => {
+        this.rememberRequestConnection(message, connection);
+        this.receive(message, address);
+      });
+    });
+    socket.on("close", () => {
+      if (this.connections.get(key) !== connection) {
+        return;
+      }
+      this.connections.delete(key);
+      this.forgetRequestConnections(connection);
+      this.logger.log(`${this.protocol} connection to ${key} closed`);
+      // The loss of a connection to the server which never connected is handled by `open()`.
+      if (connection.connected && this.serverAddress && key === StreamTransport.makeKey(this.serverAddress)) {
+        this.lost(lastError || new Error(`${this.protocol} connection to ${key} closed unexpectedly.`));
+      }
+    });
+
+    this.connections.set(key, connection);
+    return connection;
+  }
+
+  /**
+   * Remember the connection a request was received on, for its responses to be sent on it.
+   * @param message - Message received.
+   * @param connection - Connection the message was received on.
+   */
+  private rememberRequestConnection(message: string, connection: Connection): void {
+    // ACK has no response. CRLF keep-alives are not requests.
+    if (/^(SIP\/2\.0 |ACK |\r\n)/.test(message)) {
+      return;
+    }
+    const key = StreamTransport.makeTransactionKey(message);
+    if (!key) {
+      return;
+    }
+    const existing = this.requestConnections.get(key);
+    if (existing && existing.timeout) {
+      clearTimeout(existing.timeout);
+    }
+    this.requestConnections.set(key, { connection });
+  }
+
+  /**
+   * Forget the requests received on a connection which has closed.
+   * @param connection - Connection closed.
+   */
+  private forgetRequestConnections(connection: Connection): void {
+    this.requestConnections.forEach((entry, key) => {
+      if (entry.connection === connection) {
+        entry.timeout && clearTimeout(entry.timeout);
+        this.requestConnections.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Identify the transaction of a request or response by its top Via header field value and CSeq method.
+   * @remarks
+   * The Via header field values of a response are those of the request. The CSeq method tells
+   * a CANCEL apart from the INVITE it cancels, which has the same top Via header field value.
+   * https://tools.ietf.org/html/rfc3261#section-8.2.6.2
+   * @param message - Request or response.
+   */
+  private static makeTransactionKey(message: string): string | undefined {
+    const via = message.match(/\r\n(?:via|v)[ \t]*:[ \t]*([^,\r\n]*)/i);
+    const cseq = message.match(/\r\ncseq[ \t]*:[ \t]*\d+[ \t]+([^\s]+)/i);
+    if (!via || !cseq) {
+      return undefined;
+    }
+    return via[1].replace(/\s+/g, "") + " " + cseq[1].toUpperCase();
+  }
+
+  private static makeKey(address: TransportAddress): string {
+    return address.host.includes(":") ? `[${address.host}]:${address.port}` : `${address.host}:${address.port}`;
+  }
+}
@@ -0,0 +1,27 @@
+import * as net from "net";
+
+import { Logger } from "../../../core/log/logger.js";
+import { StreamTransport } from "./stream-transport.js";
+import { TransportAddress } from "./transport-address.js";
+import { TransportOptions } from "./transport-options.js";
+
+/**
+ * Transport for SIP over TCP.
+ * @public
+ */
+export class TcpTransport extends StreamTransport {
+  constructor(logger: Logger, options: TransportOptions) {
+    super(logger, "TCP", 5060, options);
+  }
+
+  protected createSocket(address: TransportAddress, onConnect: () => void): net.Socket {
+    const socket = net.connect({
+      host: address.host,
+      port: address.port,
+      localAddress: this.configuration.localAddress || undefined
+    });
+    socket.on("connect", onConnect);
+    socket.setNoDelay(true);
+    return socket;
+  }
+}
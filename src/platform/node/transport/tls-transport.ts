@@ -0,0 +1,45 @@
+import * as net from "net";
+import * as tls from "tls";
+
+import { Logger } from "../../../core/log/logger.js";
+import { StreamTransport } from "./stream-transport.js";
+import { TransportAddress } from "./transport-address.js";
+import { TlsTransportOptions } from "./transport-options.js";
+
+/**
+ * Transport for SIP over TLS.
+ * @public
+ */
+export class TlsTransport extends StreamTransport {
+  private tlsOptions: TlsTransportOptions;
+
+  constructor(logger: Logger, options: TlsTransportOptions) {
+    super(logger, "TLS", 5061, options);
+    this.tlsOptions = { ...options };
+  }
+
+  protected createSocket(address: TransportAddress, onConnect: () => void): net.Socket {
+    // The server identity is verified against the domain of the server URI, if known.
+    // https://tools.ietf.org/html/rfc5922#section-7.2
+    // Server Name Indication is not permitted for an IP address.
+    // https://tools.ietf.org/html/rfc6066#section-3
+    const name = address.name || address.host;
+    const servername = this.tlsOptions.servername || (net.isIP(name) ? undefined : name);
+    // The options are passed through to the underlying socket, the local address included.
+    const options: tls.ConnectionOptions & net.TcpNetConnectOpts = {
+      host: address.host,
+      port: address.port,
+      localAddress: this.configuration.localAddress || undefined,
+      servername,
+      ca: this.tlsOptions.ca,
+      cert: this.tlsOptions.cert,
+      key: this.tlsOptions.key,
+      passphrase: this.tlsOptions.passphrase,
+      rejectUnauthorized: this.tlsOptions.rejectUnauthorized !== false
+    };
+    const socket = tls.connect(options);
+    socket.on("secureConnect", onConnect);
+    socket.setNoDelay(true);
+    return socket;
+  }
+}
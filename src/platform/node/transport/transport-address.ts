@@ -0,0 +1,12 @@
+/**
+ * Transport address.
+ * @public
+ */
+export interface TransportAddress {
+  /** Host name or IP address (IPv6 addresses are not enclosed in brackets). */
+  host: string;
+  /** Port. */
+  port: number;
+  /** Domain name of the server, if known. Used to verify the identity of a TLS server. */
+  name?: string;
+}
@@ -0,0 +1,134 @@
+import { Capture } from "../../../core/capture/capture.js";
+import { Resolver } from "../../../core/locator/resolver.js";
+
+/**
+ * Transport options.
+ * @public
+ */
+export interface TransportOptions {
+  /**
+   * URL of the SIP server to send requests to. For example, "udp://192.0.2.1:5060".
+   *
+   * @remarks
+   * The scheme MUST match the transport ("udp", "tcp" or "tls"). If the port is omitted,
+   * the default port for the transport is used (5060 for UDP and TCP, 5061 for TLS).
+   *
+   * Alternatively a SIP or SIPS URI may be specified, for example "sip:example.com", in which case
+   * the server is located using DNS as described in RFC 3263 each time the transport connects.
+   * The addresses located are tried in turn until a connection is established.
+   * https://tools.ietf.org/html/rfc3263
+   */
+  server: string;
+
+  /**
+   * Captures the messages sent and received by the transport, excluding keep-alives.
+   *
+   * @remarks
+   * See {@link HepCapture} and {@link PcapCapture}.
+   * @defaultValue A noop
+   */
+  capture?: Capture;
+
+  /**
+   * Seconds to wait for the transport to connect before giving up.
+   *
+   * @remarks
+   * If more than one server address is located, this applies to each address in turn.
+   * @defaultValue `5`
+   */
+  connectionTimeout?: number;
+
+  /**
+   * Seconds between keep-alives. Zero disables sending keep-alives.
+   *
+   * @remarks
+   * While connected, the transport sends a double-CRLF "ping" to the server at intervals randomly
+   * distributed between 80% and 100% of this value. The TCP and TLS transports expect a single-CRLF
+   * "pong" in response. The UDP transport does not, the "ping" serving only to keep NAT bindings alive.
+   * A `Registerer` using SIP Outbound overrides this while registered.
+   * https://tools.ietf.org/html/rfc5626#section-3.5.1
+   * @defaultValue `0`
+   */
+  keepAliveInterval?: number;
+
+  /**
+   * Seconds to wait for a "pong" in response to a "ping" before considering the connection failed.
+   *
+   * @remarks
+   * If a "pong" is not received in time, the transport closes the connection and transitions
+   * to "Disconnected" with an error. Ignored by the UDP transport.
+   * https://tools.ietf.org/html/rfc5626#section-4.4.1
+   * @defaultValue `10`
+   */
+  keepAliveTimeout?: number;
+
+  /**
+   * Local address to bind to.
+   *
+   * @remarks
+   * If not specified, the operating system chooses.
+   */
+  localAddress?: string;
+
+  /**
+   * Local port to bind to.
+   *
+   * @remarks
+   * If not specified, the operating system chooses an ephemeral port.
+   * A `UserAgent` expecting to receive requests over UDP will want to specify it.
+   * Ignored by the TCP and TLS transports, which always connect from an ephemeral port.
+   */
+  localPort?: number;
+
+  /**
+   * DNS resolver used to locate the server if the `server` is a SIP or SIPS URI.
+   * @defaultValue A `NodeResolver`
+   */
+  resolver?: Resolver;
+
+  /**
+   * If true, messages sent and received by the transport are logged.
+   * @defaultValue `true`
+   */
+  traceSip?: boolean;
+}
+
+/**
+ * TLS transport options.
+ * @public
+ */
+export interface TlsTransportOptions extends TransportOptions {
+  /**
+   * Trusted CA certificates in PEM format. Defaults to the well known CAs curated by Mozilla.
+   */
+  ca?: string | Buffer | Array<string | Buffer>;
+
+  /**
+   * Client certificate chain in PEM format.
+   */
+  cert?: string | Buffer | Array<string | Buffer>;
+
+  /**
+   * Client private key in PEM format.
+   */
+  key?: string | Buffer | Array<string | Buffer>;
+
+  /**
+   * Passphrase used for the private key.
+   */
+  passphrase?: string;
+
+  /**
+   * If false, the server certificate is not verified against the list of trusted CAs.
+   * @defaultValue `true`
+   */
+  rejectUnauthorized?: boolean;
+
+  /**
+   * Server name for the Server Name Indication (SNI) TLS extension and certificate verification.
+   *
+   * @remarks
+   * If not specified, the host of the `server` URL (or URI) is used.
+   */
+  servername?: string;
+}
@@ -0,0 +1,128 @@
+import * as dgram from "dgram";
+
+import { Logger } from "../../../core/log/logger.js";
+import { NodeTransport } from "./node-transport.js";
+import { TransportAddress } from "./transport-address.js";
+import { TransportOptions } from "./transport-options.js";
+
+/**
+ * Transport for SIP over UDP.
+ *
+ * @remarks
+ * Connecting binds a UDP socket which is used to send messages to, and receive messages from, any address.
+ * UDP being an unreliable transport, retransmissions are handled by the transaction layer.
+ * https://tools.ietf.org/html/rfc3261#section-18
+ * @public
+ */
+export class UdpTransport extends NodeTransport {
+  private socket: dgram.Socket | undefined;
+
+  constructor(logger: Logger, options: TransportOptions) {
+    super(logger, "UDP", 5060, options);
+  }
+
+  /**
+   * False, UDP is an unreliable transport.
+   */
+  public get reliable(): boolean {
+    return false;
+  }
+
+  protected open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const host = this.configuration.localAddress || (this.serverAddress ? this.serverAddress.host : "");
+      const family = host.includes(":") ? "udp6" : "udp4";
+      const socket = dgram.createSocket(family);
+      let bound = false;
+      socket.on("error", (error: Error) => {
+        if (socket !== this.socket) {
+          return;
+        }
+        this.logger.error(`UDP socket error: ${error.message}`);
+        if (!bound) {
+          reject(error);
+          return;
+        }
+        this.lost(error);
+      });
+      socket.on("close", () => {
+        if (socket !== this.socket) {
+          return;
+        }
+        this.lost(new Error("UDP socket closed unexpectedly."));
+      });
+      socket.on("message", (msg: Uint8Array, rinfo: dgram.RemoteInfo) => {
+        if (socket !== this.socket) {
+          return;
+        }
+        let message: string;
+        try {
+          message = new TextDecoder().decode(msg);
+        } catch (error) {
+          this.logger.error((error as Error).toString());
+          this.logger.error("Received UDP message failed to be converted into string, message discarded");
+          return;
+        }
+        this.receive(message, { host: rinfo.address, port: rinfo.port });
+      });
+      this.socket = socket;
+      socket.bind(
+        {
+          address: this.configuration.localAddress || undefined,
+          port: this.configuration.localPort || undefined
+        },
+        () => {
+          bound = true;
+          const address = socket.address();
+          this.logger.log(`UDP socket bound to ${address.address}:${address.port}`);
+          resolve();
+        }
+      );
+    });
+  }
+
+  protected close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = undefined;
+    if (!socket) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      try {
+        socket.close(() => resolve());
+      } catch (error) {
+        // Throws if the socket is already closed.
+        resolve();
+      }
+    });
+  }
+
+  protected write(data: Uint8Array, destination: TransportAddress): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error("UDP socket undefined."));
+    }
+    return new Promise((resolve, reject) => {
+      socket.send(data, destination.port, destination.host, (error: Error | null) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  protected getLocalAddress(): TransportAddress | undefined {
+    if (!this.socket) {
+      return undefined;
+    }
+    try {
+      const address = this.socket.address();
+      return { host: address.address, port: address.port };
+    } catch (error) {
+      // Throws if the socket is not bound.
+      return undefined;
+    }
+  }
+}
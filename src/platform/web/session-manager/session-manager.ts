@@ -1427,10 +1427,13 @@ export class SessionManager {
     //    - May optionally be set via constructor option.
     //    - May optionally be set via options passed to Session.invite().
 
-    const sessionDescriptionHandlerOptions =
-      session.sessionDescriptionHandlerOptionsReInvite as SessionDescriptionHandlerOptions;
-    sessionDescriptionHandlerOptions.hold = hold;
-    session.sessionDescriptionHandlerOptionsReInvite = sessionDescriptionHandlerOptions;
+    // The options are passed with the re-INVITE, rather than set directly, as it may wait in line
+    // behind another re-INVITE (another hold request for example) and they apply when it is sent.
+    const sessionDescriptionHandlerOptions: SessionDescriptionHandlerOptions = {
+      ...(session.sessionDescriptionHandlerOptionsReInvite as SessionDescriptionHandlerOptions),
+      hold
+    };
+    options.sessionDescriptionHandlerOptions = sessionDescriptionHandlerOptions;
 
     // Preemptively and optimistically set held state (but do not call delegate).
     const managedSession = this.sessionManaged(session);
@@ -1452,9 +1455,6 @@ export class SessionManager {
       })
       .catch((error: Error) => {
         managedSession.held = !hold; // was preemptively set so undo on failure
-        if (error instanceof RequestPendingError) {
-          this.logger.error(`[${session.id}] A hold request is already in progress.`);
-        }
         throw error;
       });
   }
@@ -1,3 +1,6 @@
+import { Capture } from "../../../core/capture/capture.js";
+import { Resolver } from "../../../core/locator/resolver.js";
+
 /**
  * Transport options.
  * @public
@@ -5,8 +8,27 @@
 export interface TransportOptions {
   /**
    * URL of WebSocket server to connect with. For example, "wss://localhost:8080".
+   *
+   * @remarks
+   * A list of servers may be specified instead, in which case the transport fails over
+   * from one server to the next when a connection attempt fails. See {@link TransportServer}.
+   *
+   * Alternatively a SIP or SIPS URI may be specified, for example "sips:example.com", in which case
+   * the WebSocket servers are located using the `resolver` as described in RFC 3263 each time the
+   * transport connects, and tried in turn.
+   * https://tools.ietf.org/html/rfc7118#section-9
+   */
+  server: string | Array<TransportServer>;
+
+  /**
+   * Captures the messages sent and received by the transport, excluding keep-alives.
+   *
+   * @remarks
+   * See {@link HepCapture} and {@link PcapCapture}.
+   * Local addresses are not known to a browser, so are captured as empty.
+   * @defaultValue A noop
    */
-  server: string;
+  capture?: Capture;
 
   /**
    * Seconds to wait for WebSocket to connect before giving up.
@@ -15,16 +37,50 @@ export interface TransportOptions {
   connectionTimeout?: number;
 
   /**
-   * Keep alive - needs review.
-   * @internal
+   * Seconds between keep-alives. Zero disables sending keep-alives.
+   *
+   * @remarks
+   * While connected, the transport sends a double-CRLF "ping" at intervals randomly distributed
+   * between 80% and 100% of this value and expects a single-CRLF "pong" in response.
+   * A `Registerer` using SIP Outbound overrides this while registered.
+   * https://tools.ietf.org/html/rfc5626#section-3.5.1
+   * @defaultValue `0`
    */
   keepAliveInterval?: number;
 
   /**
-   * Keep alive - needs review.
-   * @internal
+   * Seconds to wait for a "pong" in response to a "ping" before considering the connection failed.
+   *
+   * @remarks
+   * If a "pong" is not received in time, the transport closes the connection and transitions
+   * to "Disconnected" with an error.
+   * https://tools.ietf.org/html/rfc5626#section-4.4.1
+   * @defaultValue `10`
+   */
+  keepAliveTimeout?: number;
+
+  /**
+   * Seconds to wait between attempts to recover the connection with a preferred server.
+   *
+   * @remarks
+   * While connected with a server other than the most preferred server, the transport
+   * periodically attempts to connect with the most preferred server. If the attempt succeeds,
+   * the transport closes the old connection and switches over to the new one, transitioning to
+   * "Disconnected" and back to "Connected" so that the user agent registers again over the new one.
+   * Set to zero to disable recovery attempts.
+   * @defaultValue `60`
+   */
+  recoveryInterval?: number;
+
+  /**
+   * DNS resolver used to locate the servers specified as a SIP or SIPS URI.
+   *
+   * @remarks
+   * A browser provides no access to DNS, so a resolver must be provided to locate servers,
+   * for example one using DNS over HTTPS. See {@link Resolver}.
+   * @defaultValue A resolver which resolves nothing
    */
-  keepAliveDebounce?: number;
+  resolver?: Resolver;
 
   /**
    * If true, messages sent and received by the transport are logged.
@@ -32,3 +88,35 @@ export interface TransportOptions {
    */
   traceSip?: boolean;
 }
+
+/**
+ * A WebSocket server and its selection criteria.
+ *
+ * @remarks
+ * Servers are selected in the same manner as DNS SRV records.
+ * A client MUST attempt to contact the target host with the lowest-numbered
+ * priority it can reach; target hosts with the same priority SHOULD be tried
+ * in an order defined by the weight field.
+ * https://tools.ietf.org/html/rfc2782
+ * @public
+ */
+export interface TransportServer {
+  /**
+   * URL of WebSocket server. For example, "wss://localhost:8080".
+   * Or a SIP or SIPS URI by which to locate WebSocket servers. See {@link TransportOptions.server}.
+   */
+  url: string;
+
+  /**
+   * Priority of the server. Lower values are preferred.
+   * @defaultValue `0`
+   */
+  priority?: number;
+
+  /**
+   * Relative weight for servers with the same priority. Larger weights SHOULD be given
+   * a proportionately higher probability of being selected.
+   * @defaultValue `1`
+   */
+  weight?: number;
+}
@@ -3,19 +3,51 @@ import { StateTransitionError } from "../../../api/exceptions/state-transition.j
 import { Transport as TransportDefinition } from "../../../api/transport.js";
 import { TransportState } from "../../../api/transport-state.js";
 import { Grammar } from "../../../grammar/grammar.js";
+import { URI } from "../../../grammar/uri.js";
+import { CaptureAddress, makeCaptureRecord } from "../../../core/capture/capture-record.js";
+import { Locator, orderByPriorityAndWeight } from "../../../core/locator/locator.js";
 import { Logger } from "../../../core/log/logger.js";
-import { TransportOptions } from "./transport-options.js";
+import { TransportOptions, TransportServer } from "./transport-options.js";
+
+/**
+ * A WebSocket server, its selection criteria and its status.
+ */
+interface TransportServerEntry extends Required<TransportServer> {
+  /** True if the last attempt to connect failed or the connection closed unexpectedly. */
+  failed: boolean;
+  /** The protocol, formatted as defined for the Via header sent-protocol transport. */
+  protocol: string;
+  /** The host and port of the server. */
+  address: CaptureAddress;
+  /** The SIP or SIPS URI by which the servers are located, if specified as one. */
+  uri?: URI;
+}
 
 /**
  * Transport for SIP over secure WebSocket (WSS).
+ *
+ * @remarks
+ * If more than one server is configured, the transport fails over from one server to the next
+ * in order of preference when connecting. See {@link TransportServer}.
  * @public
  */
 export class Transport implements TransportDefinition {
   private static defaultOptions: Required<TransportOptions> = {
     server: "",
+    capture: {
+      capture: (): void => {
+        /* noop */
+      }
+    },
     connectionTimeout: 5,
     keepAliveInterval: 0,
-    keepAliveDebounce: 10,
+    keepAliveTimeout: 10,
+    recoveryInterval: 60,
+    resolver: {
+      resolveNaptr: () => Promise.resolve([]),
+      resolveSrv: () => Promise.resolve([]),
+      resolveAddresses: () => Promise.resolve([])
+    },
     traceSip: true
   };
 
@@ -23,7 +55,8 @@ export class Transport implements TransportDefinition {
   public onDisconnect: ((error?: Error) => void) | undefined;
   public onMessage: ((message: string) => void) | undefined;
 
-  private _protocol: string;
+  private _server: TransportServerEntry;
+  private _serverEventEmitter: EmitterImpl<string>;
   private _state: TransportState = TransportState.Disconnected;
   private _stateEventEmitter: EmitterImpl<TransportState>;
   private _ws: WebSocket | undefined;
@@ -39,8 +72,19 @@ export class Transport implements TransportDefinition {
   private disconnectResolve: (() => void) | undefined;
   private disconnectReject: ((error?: Error) => void) | undefined;
 
-  private keepAliveInterval: number | undefined;
-  private keepAliveDebounceTimeout: number | undefined;
+  private keepAliveInterval = 0;
+  private keepAliveTimeout: number | undefined;
+  private pongTimeout: number | undefined;
+
+  private servers: Array<TransportServerEntry>;
+  private candidates: Array<TransportServerEntry> = [];
+  private connectError: Error | undefined;
+  private locator: Locator;
+  private located = new Map<string, TransportServerEntry>();
+
+  private recoveryInterval: number | undefined;
+  private recoveryLocating = false;
+  private recoveryWebSocket: WebSocket | undefined;
 
   private logger: Logger;
   private transitioningState = false;
@@ -49,6 +93,9 @@ export class Transport implements TransportDefinition {
     // state emitter
     this._stateEventEmitter = new EmitterImpl<TransportState>();
 
+    // server emitter
+    this._serverEventEmitter = new EmitterImpl<string>();
+
     // logger
     this.logger = logger;
 
@@ -89,18 +136,68 @@ export class Transport implements TransportDefinition {
       ...options
     };
 
-    // validate server URL
-    const url = this.configuration.server;
-    const parsed: { scheme: string } | -1 = Grammar.parse(url, "absoluteURI");
-    if (parsed === -1) {
-      this.logger.error(`Invalid WebSocket Server URL "${url}"`);
-      throw new Error("Invalid WebSocket Server URL");
-    }
-    if (!["wss", "ws", "udp"].includes(parsed.scheme)) {
-      this.logger.error(`Invalid scheme in WebSocket Server URL "${url}"`);
-      throw new Error("Invalid scheme in WebSocket Server URL");
+    // validate server URLs
+    const servers: Array<TransportServer> =
+      typeof this.configuration.server === "string" ? [{ url: this.configuration.server }] : this.configuration.server;
+    if (servers.length === 0) {
+      this.logger.error(`No WebSocket Server URL`);
+      throw new Error("No WebSocket Server URL");
     }
-    this._protocol = parsed.scheme.toUpperCase();
+    this.servers = servers.map((server) => {
+      const url = server.url;
+      const priority = server.priority !== undefined ? server.priority : 0;
+      const weight = server.weight !== undefined ? server.weight : 1;
+      if (/^sips?:/i.test(url)) {
+        const uri = Grammar.URIParse(url);
+        if (!uri) {
+          this.logger.error(`Invalid WebSocket Server URI "${url}"`);
+          throw new Error("Invalid WebSocket Server URI");
+        }
+        const secure = uri.scheme === "sips";
+        return {
+          url,
+          priority,
+          weight,
+          failed: false,
+          protocol: secure ? "WSS" : "WS",
+          address: { host: uri.host.replace(/^\[|\]$/g, ""), port: uri.port || (secure ? 443 : 80) },
+          uri
+        };
+      }
+      const parsed = Grammar.parse(url, "absoluteURI");
+      if (parsed === -1) {
+        this.logger.error(`Invalid WebSocket Server URL "${url}"`);
+        throw new Error("Invalid WebSocket Server URL");
+      }
+      if (!["wss", "ws", "udp"].includes(parsed.scheme)) {
+        this.logger.error(`Invalid scheme in WebSocket Server URL "${url}"`);
+        throw new Error("Invalid scheme in WebSocket Server URL");
+      }
+      return {
+        url,
+        priority,
+        weight,
+        failed: false,
+        protocol: parsed.scheme.toUpperCase(),
+        address: Transport.parseAddress(url, parsed.scheme)
+      };
+    });
+    this._server = orderByPriorityAndWeight(this.servers)[0];
+    this.locator = new Locator(this.configuration.resolver, logger);
+  }
+
+  /**
+   * Host and port of a WebSocket Server URL.
+   * @param url - WebSocket Server URL.
+   * @param scheme - Scheme of the URL.
+   */
+  private static parseAddress(url: string, scheme: string): CaptureAddress {
+    const parsed = url.match(/^[a-zA-Z]+:\/\/(?:[^@/]*@)?(\[[0-9a-fA-F:.]+\]|[^:/?#]+)(?::(\d+))?/);
+    const defaultPort = scheme === "wss" ? 443 : scheme === "ws" ? 80 : 5060;
+    return {
+      host: parsed ? parsed[1].replace(/^\[|\]$/g, "") : "",
+      port: parsed && parsed[2] ? Number(parsed[2]) : defaultPort
+    };
   }
 
   public dispose(): Promise<void> {
@@ -115,14 +212,29 @@ export class Transport implements TransportDefinition {
    * https://tools.ietf.org/html/rfc3261#section-20.42
    */
   public get protocol(): string {
-    return this._protocol;
+    return this._server.protocol;
   }
 
   /**
    * The URL of the WebSocket Server.
+   *
+   * @remarks
+   * If more than one server is configured, this is the server currently connected with or,
+   * if not connected, the server most recently connected with or attempted.
    */
   public get server(): string {
-    return this.configuration.server;
+    return this._server.url;
+  }
+
+  /**
+   * Server change emitter.
+   *
+   * @remarks
+   * Emits the URL of the server connected with each time the transport connects
+   * and each time the transport switches over to a more preferred server.
+   */
+  public get serverChange(): Emitter<string> {
+    return this._serverEventEmitter;
   }
 
   /**
@@ -194,9 +306,21 @@ export class Transport implements TransportDefinition {
     return this._send(message);
   }
 
-  private _connect(): Promise<void> {
-    this.logger.log(`Connecting ${this.server}`);
+  /**
+   * Set the interval at which keep-alives are sent.
+   * @remarks
+   * Overrides the configured `keepAliveInterval`. Zero reverts to the configured `keepAliveInterval`.
+   * @param interval - Seconds between keep-alives.
+   */
+  public setKeepAliveInterval(interval: number): void {
+    this.keepAliveInterval = interval;
+    if (this.state === TransportState.Connected) {
+      this.stopSendingKeepAlives();
+      this.startSendingKeepAlives();
+    }
+  }
 
+  private _connect(): Promise<void> {
     switch (this.state) {
       case TransportState.Connecting:
         // If `state` is "Connecting", `state` MUST NOT transition before returning.
@@ -248,45 +372,137 @@ export class Transport implements TransportDefinition {
         throw new Error("Unknown state");
     }
 
+    const servers = orderByPriorityAndWeight(this.servers);
+    this.connectError = undefined;
+
+    const connectPromise = new Promise<void>((resolve, reject) => {
+      this.connectResolve = resolve;
+      this.connectReject = reject;
+    });
+    this.connectPromise = connectPromise;
+
+    if (!servers.some((server) => server.uri)) {
+      this.connectCandidates(servers);
+      return connectPromise;
+    }
+    Promise.all(servers.map((server) => this.locateServer(server))).then((located) => {
+      if (this.connectPromise === connectPromise && this._state === TransportState.Connecting) {
+        this.connectCandidates(([] as Array<TransportServerEntry>).concat(...located));
+      }
+    });
+
+    return connectPromise;
+  }
+
+  /**
+   * Attempt to connect with each of the servers in turn, until one succeeds.
+   * @param servers - Servers in order of preference.
+   */
+  private connectCandidates(servers: Array<TransportServerEntry>): void {
+    // Servers which have failed are tried after those which have not.
+    this.candidates = servers.filter((server) => !server.failed).concat(servers.filter((server) => server.failed));
+    this.connectNextServer();
+  }
+
+  /**
+   * Locate the WebSocket servers of a server specified as a SIP or SIPS URI.
+   * @remarks
+   * Resolves with the server itself if it is specified as a URL. The servers located inherit
+   * its priority and weight. They are connected with by host name rather than address, as
+   * a browser resolves host names itself and the certificate of a secure WebSocket server
+   * names its host.
+   * https://tools.ietf.org/html/rfc3263#section-4
+   * https://tools.ietf.org/html/rfc7118#section-9
+   * @param server - Server.
+   */
+  private locateServer(server: TransportServerEntry): Promise<Array<TransportServerEntry>> {
+    if (!server.uri) {
+      return Promise.resolve([server]);
+    }
+    return this.locator.locate(server.uri, [server.protocol]).then((targets) => {
+      const located: Array<TransportServerEntry> = [];
+      targets
+        .filter((target) => target.transport === server.protocol)
+        .forEach((target) => {
+          const host = target.host.includes(":") ? `[${target.host}]` : target.host;
+          const url = `${server.protocol.toLowerCase()}://${host}:${target.port}`;
+          const entry = this.located.get(url) || {
+            url,
+            priority: server.priority,
+            weight: server.weight,
+            failed: false,
+            protocol: server.protocol,
+            address: { host: target.address, port: target.port }
+          };
+          this.located.set(url, entry);
+          if (!located.includes(entry)) {
+            located.push(entry);
+          }
+        });
+      if (located.length === 0) {
+        this.logger.warn(`Failed to locate ${server.url}`);
+        this.connectError = new Error(`Failed to locate ${server.url}`);
+      } else {
+        this.logger.log(`Located ${server.url} at ${located.map((entry) => entry.url).join(", ")}`);
+      }
+      return located;
+    });
+  }
+
+  /**
+   * Attempt to connect with the next candidate server.
+   * @remarks
+   * If there are no candidate servers remaining, the connect attempt has failed.
+   */
+  private connectNextServer(): void {
+    const server = this.candidates.shift();
+    if (!server) {
+      // The `state` MUST transition to "Disconnecting" or "Disconnected" before rejecting
+      this.transitionState(TransportState.Disconnected, this.connectError);
+      return;
+    }
+
+    this._server = server;
+    this.logger.log(`Connecting ${this.server}`);
+
     let ws: WebSocket;
     try {
-      // WebSocket()
-      // https://developer.mozilla.org/en-US/docs/Web/API/WebSocket/WebSocket
-      ws = new WebSocket(this.server, "sip");
-      ws.binaryType = "arraybuffer"; // set data type of received binary messages
-      ws.addEventListener("close", (ev: CloseEvent) => this.onWebSocketClose(ev, ws));
-      ws.addEventListener("error", (ev: Event) => this.onWebSocketError(ev, ws));
-      ws.addEventListener("open", (ev: Event) => this.onWebSocketOpen(ev, ws));
-      ws.addEventListener("message", (ev: MessageEvent) => this.onWebSocketMessage(ev, ws));
+      ws = this.createWebSocket(server.url);
       this._ws = ws;
     } catch (error) {
       this._ws = undefined;
       this.logger.error("WebSocket construction failed.");
       this.logger.error((error as Error).toString());
-      return new Promise((resolve, reject) => {
-        this.connectResolve = resolve;
-        this.connectReject = reject;
-        // The `state` MUST transition to "Disconnecting" or "Disconnected" before rejecting
-        this.transitionState(TransportState.Disconnected, error as Error);
-      });
+      this.connectFailed(error as Error);
+      return;
     }
 
-    this.connectPromise = new Promise((resolve, reject) => {
-      this.connectResolve = resolve;
-      this.connectReject = reject;
-
-      this.connectTimeout = setTimeout(() => {
-        this.logger.warn(
-          "Connect timed out. " +
-            "Exceeded time set in configuration.connectionTimeout: " +
-            this.configuration.connectionTimeout +
-            "s."
-        );
-        ws.close(1000); // careful here to use a local reference instead of this._ws
-      }, this.configuration.connectionTimeout * 1000);
-    });
+    this.connectTimeout = setTimeout(() => {
+      this.logger.warn(
+        "Connect timed out. " +
+          "Exceeded time set in configuration.connectionTimeout: " +
+          this.configuration.connectionTimeout +
+          "s."
+      );
+      ws.close(1000); // careful here to use a local reference instead of this._ws
+    }, this.configuration.connectionTimeout * 1000);
+  }
 
-    return this.connectPromise;
+  /**
+   * Handle failure to connect with the current server by failing over to the next candidate server.
+   * @param error - Error.
+   */
+  private connectFailed(error: Error): void {
+    this._server.failed = true;
+    this.connectError = error;
+    if (this.connectTimeout) {
+      clearTimeout(this.connectTimeout);
+      this.connectTimeout = undefined;
+    }
+    if (this.candidates.length > 0) {
+      this.logger.warn(`Failed to connect ${this.server}, failing over to next server`);
+    }
+    this.connectNextServer();
   }
 
   private _disconnect(): Promise<void> {
@@ -343,14 +559,14 @@ export class Transport implements TransportDefinition {
         throw new Error("Unknown state");
     }
 
-    if (!this._ws) {
-      throw new Error("WebSocket must be defined.");
-    }
+    // While the servers are being located there is no web socket to close.
     const ws = this._ws;
-
-    this.disconnectPromise = new Promise((resolve, reject) => {
+    const disconnectPromise = new Promise<void>((resolve, reject) => {
       this.disconnectResolve = resolve;
       this.disconnectReject = reject;
+      if (!ws) {
+        return;
+      }
 
       try {
         // WebSocket.close()
@@ -364,8 +580,13 @@ export class Transport implements TransportDefinition {
         throw error;
       }
     });
+    this.disconnectPromise = disconnectPromise;
 
-    return this.disconnectPromise;
+    if (!ws) {
+      this.transitionState(TransportState.Disconnected);
+    }
+
+    return disconnectPromise;
   }
 
   private _send(message: string): Promise<void> {
@@ -392,9 +613,29 @@ export class Transport implements TransportDefinition {
       return Promise.reject(new Error("WebSocket send failed."));
     }
 
+    // CRLF Keep Alive requests are not captured.
+    if (!/^(\r\n)+$/.test(message)) {
+      this.capture(true, message);
+    }
+
     return Promise.resolve();
   }
 
+  /**
+   * Capture a message sent or received.
+   * @param sent - True if sent, false if received.
+   * @param message - The message.
+   */
+  private capture(sent: boolean, message: string): void {
+    const local = { host: "", port: 0 };
+    try {
+      this.configuration.capture.capture(makeCaptureRecord(sent, message, this.protocol, local, this._server.address));
+    } catch (error) {
+      this.logger.error("Exception thrown by capture");
+      this.logger.error((error as Error).toString());
+    }
+  }
+
   /**
    * WebSocket "onclose" event handler.
    * @param ev - Event.
@@ -411,9 +652,20 @@ export class Transport implements TransportDefinition {
     }
     this.logger.log(message);
 
-    // We are about to transition to disconnected, so clear our web socket
+    // We are about to transition to disconnected or fail over, so clear our web socket
     this._ws = undefined;
 
+    // If we were connecting, fail over to the next server.
+    if (this._state === TransportState.Connecting && error) {
+      this.connectFailed(error);
+      return;
+    }
+
+    // A server which closes the connection unexpectedly is tried last the next time we connect.
+    if (error) {
+      this._server.failed = true;
+    }
+
     // The `state` MUST transition to "Disconnected" before resolving (assuming `state` is not already "Disconnected").
     this.transitionState(TransportState.Disconnected, error);
   }
@@ -443,7 +695,7 @@ export class Transport implements TransportDefinition {
 
     // CRLF Keep Alive response from server. Clear our keep alive timeout.
     if (/^(\r\n)+$/.test(data)) {
-      this.clearKeepAliveTimeout();
+      this.clearPongTimeout();
       if (this.configuration.traceSip === true) {
         this.logger.log("Received WebSocket message with CRLF Keep Alive response");
       }
@@ -484,6 +736,8 @@ export class Transport implements TransportDefinition {
       return;
     }
 
+    this.capture(false, finishedData);
+
     if (this.onMessage) {
       try {
         this.onMessage(finishedData);
@@ -505,10 +759,27 @@ export class Transport implements TransportDefinition {
     }
     if (this._state === TransportState.Connecting) {
       this.logger.log(`WebSocket opened ${this.server}`);
+      this._server.failed = false;
       this.transitionState(TransportState.Connected);
     }
   }
 
+  /**
+   * Create a WebSocket.
+   * @param url - URL of the WebSocket Server.
+   */
+  private createWebSocket(url: string): WebSocket {
+    // WebSocket()
+    // https://developer.mozilla.org/en-US/docs/Web/API/WebSocket/WebSocket
+    const ws = new WebSocket(url, "sip");
+    ws.binaryType = "arraybuffer"; // set data type of received binary messages
+    ws.addEventListener("close", (ev: CloseEvent) => this.onWebSocketClose(ev, ws));
+    ws.addEventListener("error", (ev: Event) => this.onWebSocketError(ev, ws));
+    ws.addEventListener("open", (ev: Event) => this.onWebSocketOpen(ev, ws));
+    ws.addEventListener("message", (ev: MessageEvent) => this.onWebSocketMessage(ev, ws));
+    return ws;
+  }
+
   /**
    * Helper function to generate an Error.
    * @param state - State transitioning to.
@@ -605,6 +876,8 @@ export class Transport implements TransportDefinition {
     //  Transition to Connected
     if (newState === TransportState.Connected) {
       this.startSendingKeepAlives();
+      this.startRecovery();
+      this._serverEventEmitter.emit(this.server);
       if (this.onConnect) {
         try {
           this.onConnect();
@@ -619,6 +892,7 @@ export class Transport implements TransportDefinition {
     //  Transition from Connected
     if (oldState === TransportState.Connected) {
       this.stopSendingKeepAlives();
+      this.stopRecovery();
       if (this.onDisconnect) {
         try {
           if (error) {
@@ -661,10 +935,6 @@ export class Transport implements TransportDefinition {
     this.transitioningState = false;
   }
 
-  // TODO: Review "KeepAlive Stuff".
-  // It is not clear if it works and there are no tests for it.
-  // It was blindly lifted the keep alive code unchanged from earlier transport code.
-  //
   // From the RFC...
   //
   // SIP WebSocket Clients and Servers may keep their WebSocket
@@ -677,36 +947,60 @@ export class Transport implements TransportDefinition {
   // specification.
   // https://tools.ietf.org/html/rfc7118#section-6
   //
-  // and...
-  //
-  // The Ping frame contains an opcode of 0x9.
-  // https://tools.ietf.org/html/rfc6455#section-5.5.2
+  // The browser WebSocket API provides no access to "Ping" frames,
+  // so the CRLF keep-alive mechanism is used.
   //
   // ==============================
   // KeepAlive Stuff
   // ==============================
 
-  private clearKeepAliveTimeout(): void {
-    if (this.keepAliveDebounceTimeout) {
-      clearTimeout(this.keepAliveDebounceTimeout);
+  private clearPongTimeout(): void {
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
     }
-    this.keepAliveDebounceTimeout = undefined;
+    this.pongTimeout = undefined;
   }
 
   /**
    * Send a keep-alive (a double-CRLF sequence).
    */
   private sendKeepAlive(): Promise<void> {
-    if (this.keepAliveDebounceTimeout) {
+    if (this.pongTimeout) {
       // We already have an outstanding keep alive, do not send another.
       return Promise.resolve();
     }
 
-    this.keepAliveDebounceTimeout = setTimeout(() => {
-      this.clearKeepAliveTimeout();
-    }, this.configuration.keepAliveDebounce * 1000);
+    // If a pong is not received in time, the flow has failed.
+    // https://tools.ietf.org/html/rfc5626#section-4.4.1
+    this.pongTimeout = setTimeout(() => {
+      this.pongTimeout = undefined;
+      this.keepAliveFailed();
+    }, this.configuration.keepAliveTimeout * 1000);
+
+    return this.send("\r\n\r\n").catch((error: Error) => {
+      this.logger.error(`Failed to send CRLF Keep Alive request: ${error.message}`);
+    });
+  }
+
+  /**
+   * Handle failure to receive a keep-alive response by closing the connection.
+   */
+  private keepAliveFailed(): void {
+    if (this.state !== TransportState.Connected || !this._ws) {
+      return;
+    }
+    const message = `No CRLF Keep Alive response received from ${this.server} within ${this.configuration.keepAliveTimeout}s`;
+    this.logger.warn(message);
+
+    // We are about to transition to disconnected, so clear our web socket so its close event is ignored
+    const ws = this._ws;
+    this._ws = undefined;
+    ws.close(1000);
+
+    // A server which fails to respond is tried last the next time we connect.
+    this._server.failed = true;
 
-    return this.send("\r\n\r\n");
+    this.transitionState(TransportState.Disconnected, new Error(message));
   }
 
   /**
@@ -719,11 +1013,13 @@ export class Transport implements TransportDefinition {
       return 1000 * (Math.random() * (upperBound - lowerBound) + lowerBound);
     };
 
-    if (this.configuration.keepAliveInterval && !this.keepAliveInterval) {
-      this.keepAliveInterval = setInterval(() => {
+    const interval = this.keepAliveInterval || this.configuration.keepAliveInterval;
+    if (interval && !this.keepAliveTimeout) {
+      this.keepAliveTimeout = setTimeout(() => {
+        this.keepAliveTimeout = undefined;
         this.sendKeepAlive();
         this.startSendingKeepAlives();
-      }, computeKeepAliveTimeout(this.configuration.keepAliveInterval));
+      }, computeKeepAliveTimeout(interval));
     }
   }
 
@@ -731,13 +1027,137 @@ export class Transport implements TransportDefinition {
    * Stop sending keep-alives.
    */
   private stopSendingKeepAlives(): void {
-    if (this.keepAliveInterval) {
-      clearInterval(this.keepAliveInterval);
+    if (this.keepAliveTimeout) {
+      clearTimeout(this.keepAliveTimeout);
+    }
+    this.clearPongTimeout();
+    this.keepAliveTimeout = undefined;
+  }
+
+  // ==============================
+  // Recovery Stuff
+  // ==============================
+
+  /**
+   * Attempt to connect with the most preferred server, switching over to it if successful.
+   */
+  private attemptRecovery(): void {
+    if (this.recoveryWebSocket || this.recoveryLocating) {
+      // We already have an outstanding attempt, do not start another.
+      return;
+    }
+
+    const preferred = this.servers.filter((server) => server.priority < this._server.priority);
+    if (preferred.length === 0) {
+      return;
+    }
+    const recoveryInterval = this.recoveryInterval;
+    this.recoveryLocating = true;
+    this.locateServer(orderByPriorityAndWeight(preferred)[0]).then((located) => {
+      this.recoveryLocating = false;
+      // Recovery may have stopped while locating.
+      if (located.length > 0 && this.recoveryInterval === recoveryInterval) {
+        this.probe(located[0]);
+      }
+    });
+  }
+
+  /**
+   * Attempt to connect with a more preferred server, switching over to it if successful.
+   * @param server - The server.
+   */
+  private probe(server: TransportServerEntry): void {
+    this.logger.log(`Attempting to recover connection with ${server.url}`);
+
+    let ws: WebSocket;
+    try {
+      ws = this.createWebSocket(server.url);
+    } catch (error) {
+      this.logger.error("WebSocket construction failed.");
+      this.logger.error((error as Error).toString());
+      return;
+    }
+    this.recoveryWebSocket = ws;
+
+    const timeout = setTimeout(() => ws.close(1000), this.configuration.connectionTimeout * 1000);
+    ws.addEventListener("close", () => {
+      clearTimeout(timeout);
+      if (ws === this.recoveryWebSocket) {
+        this.recoveryWebSocket = undefined;
+        this.logger.log(`Failed to recover connection with ${server.url}`);
+      }
+    });
+    ws.addEventListener("open", () => {
+      clearTimeout(timeout);
+      if (ws === this.recoveryWebSocket) {
+        this.recoveryWebSocket = undefined;
+        this.recover(ws, server);
+      }
+    });
+  }
+
+  /**
+   * Switch over to a recovered connection with a more preferred server.
+   * @remarks
+   * The transport transitions to "Disconnected" and back through "Connecting" to "Connected",
+   * so that the transport user learns the connection changed and registers again over the new one.
+   * Dialogs and transactions using the old connection are not carried over.
+   * @param ws - WebSocket connected with the server.
+   * @param server - The server.
+   */
+  private recover(ws: WebSocket, server: TransportServerEntry): void {
+    if (this._state !== TransportState.Connected || !this._ws) {
+      ws.close(1000);
+      return;
+    }
+
+    this.logger.log(`Switching over from ${this.server} to ${server.url}`);
+    const oldWs = this._ws;
+
+    // Events from the old web socket are ignored from here on.
+    this._ws = undefined;
+    oldWs.close(1000);
+    this.transitionState(TransportState.Disconnected);
+
+    // The `state` MUST transition to "Connecting" and then "Connected" with the web socket already open.
+    this.transitionState(TransportState.Connecting);
+    this.connectPromise = new Promise<void>((resolve, reject) => {
+      this.connectResolve = resolve;
+      this.connectReject = reject;
+    });
+    this._ws = ws;
+    this._server = server;
+    this._server.failed = false;
+    this.transitionState(TransportState.Connected);
+  }
+
+  /**
+   * Start attempting to recover the connection with the most preferred server.
+   */
+  private startRecovery(): void {
+    if (!this.configuration.recoveryInterval || this.recoveryInterval) {
+      return;
+    }
+    if (!this.servers.some((server) => server.priority < this._server.priority)) {
+      return;
+    }
+    this.recoveryInterval = setInterval(() => {
+      this.attemptRecovery();
+    }, this.configuration.recoveryInterval * 1000);
+  }
+
+  /**
+   * Stop attempting to recover the connection with the most preferred server.
+   */
+  private stopRecovery(): void {
+    if (this.recoveryInterval) {
+      clearInterval(this.recoveryInterval);
     }
-    if (this.keepAliveDebounceTimeout) {
-      clearTimeout(this.keepAliveDebounceTimeout);
+    this.recoveryInterval = undefined;
+    if (this.recoveryWebSocket) {
+      const ws = this.recoveryWebSocket;
+      this.recoveryWebSocket = undefined;
+      ws.close(1000);
     }
-    this.keepAliveInterval = undefined;
-    this.keepAliveDebounceTimeout = undefined;
   }
 }
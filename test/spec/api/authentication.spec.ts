@@ -0,0 +1,139 @@
+import { Invitation, Inviter, SessionState } from "../../../lib/api/index.js";
+import { IncomingRequestMessage } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+
+/**
+ * Authentication of requests sent within a dialog.
+ */
+describe("API Authentication", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let inviter: Inviter;
+  let invitation: Invitation | undefined;
+
+  /**
+   * Challenge requests of the given method with a 407 until a request has credentials for each realm.
+   * @param method - Method of the requests to challenge.
+   * @param realms - Realms to challenge, in order.
+   */
+  function challenge(method: string, realms: Array<string>): void {
+    bob.userAgent.addInterceptor({
+      onIncomingRequest: (message: IncomingRequestMessage) => {
+        if (message.method !== method) {
+          return undefined;
+        }
+        const authorizations = message.getHeaders("proxy-authorization").join(", ");
+        const realm = realms.find((r) => !authorizations.includes(`realm="${r}"`));
+        if (!realm) {
+          return undefined;
+        }
+        const proxyAuthenticate = `Proxy-Authenticate: Digest realm="${realm}", nonce="5cc8bf58", qop="auth"`;
+        return { reply: { statusCode: 407, extraHeaders: [proxyAuthenticate] } };
+      }
+    });
+  }
+
+  function sentRequests(method: string): Array<string> {
+    return alice.transportSendSpy.calls
+      .allArgs()
+      .map((args) => args[0] as string)
+      .filter((message) => message.startsWith(method + " "));
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice", { authorizationPassword: "secret" });
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    invitation = undefined;
+    bob.userAgent.delegate = {
+      onInvite: (session): void => {
+        invitation = session;
+        session.accept();
+      }
+    };
+    inviter = new Inviter(alice.userAgent, bob.uri);
+    await inviter.invite();
+    await bob.transport.waitReceived(); // ACK
+    alice.transportSendSpy.calls.reset();
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Bob's proxy challenges Alice's INFO", () => {
+    beforeEach(async () => {
+      challenge("INFO", ["example.com"]);
+      await inviter.info();
+      await alice.transport.waitReceived(); // 407
+      await alice.transport.waitReceived(); // 200
+      await inviter.info();
+      await alice.transport.waitReceived(); // 407
+      await alice.transport.waitReceived(); // 200
+    });
+
+    it("each INFO is sent again with credentials and the next CSeq of the dialog", () => {
+      const requests = sentRequests("INFO");
+      expect(requests.length).toBe(4);
+      expect(requests[0]).not.toMatch(/\r\nProxy-Authorization: /);
+      expect(requests[1]).toMatch(
+        /\r\nProxy-Authorization: Digest algorithm=MD5, username="alice", realm="example.com"/
+      );
+      const cseqs = requests.map((request) => Number((request.match(/\r\nCSeq: (\d+) INFO\r\n/) || [])[1]));
+      expect(cseqs[1]).toBe(cseqs[0] + 1);
+      expect(cseqs[2]).toBe(cseqs[1] + 1);
+      expect(cseqs[3]).toBe(cseqs[2] + 1);
+    });
+  });
+
+  describe("Bob's proxy challenges Alice's BYE", () => {
+    beforeEach(async () => {
+      challenge("BYE", ["example.com"]);
+      await inviter.bye();
+      await alice.transport.waitReceived(); // 407
+      await alice.transport.waitReceived(); // 200
+    });
+
+    it("her BYE is sent again with credentials", () => {
+      const requests = sentRequests("BYE");
+      expect(requests.length).toBe(2);
+      expect(requests[1]).toMatch(/\r\nProxy-Authorization: Digest /);
+    });
+
+    it("both sessions are terminated", () => {
+      expect(inviter.state).toBe(SessionState.Terminated);
+      expect(invitation && invitation.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Bob's proxies challenge Alice's BYE for more realms than the retry limit", () => {
+    beforeEach(async () => {
+      challenge("BYE", ["a.example.com", "b.example.com", "c.example.com", "d.example.com"]);
+      await new Promise<void>((resolve) => inviter.bye({ requestDelegate: { onReject: () => resolve() } }));
+    });
+
+    afterEach(async () => {
+      // His session is still established, so end it before his user agent is stopped.
+      await invitation?.bye();
+      await bob.transport.waitReceived(); // 481
+    });
+
+    it("her BYE is sent again for at most three realms, then rejected", () => {
+      const requests = sentRequests("BYE");
+      expect(requests.length).toBe(4);
+      expect(requests[3]).toMatch(
+        /\r\nProxy-Authorization: Digest algorithm=MD5, username="alice", realm="c.example.com"/
+      );
+    });
+
+    it("his session is not terminated", () => {
+      expect(invitation && invitation.state).toBe(SessionState.Established);
+    });
+  });
+});
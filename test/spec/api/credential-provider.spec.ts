@@ -0,0 +1,179 @@
+import { CredentialRequest, Credentials, Messager } from "../../../lib/api/index.js";
+import { AkaUsim, IncomingResponse } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+/**
+ * Credentials obtained from a credential provider.
+ */
+describe("API Credential Provider", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let provider: jasmine.Spy<(request: CredentialRequest) => Promise<Credentials | undefined>>;
+  let challenges: Array<string>;
+
+  /**
+   * Send a MESSAGE from Alice to Bob.
+   * @returns The final response Alice receives.
+   */
+  function message(): Promise<IncomingResponse> {
+    return new Promise<IncomingResponse>((resolve) => {
+      new Messager(alice.userAgent, bob.uri, "Hello", "text/plain").message({
+        requestDelegate: { onAccept: resolve, onReject: resolve }
+      });
+    });
+  }
+
+  function sentAuthorizations(): Array<string | undefined> {
+    return alice.transportSendSpy.calls.allArgs().map((args) => {
+      const authorization = (args[0] as string).match(/\r\nAuthorization: ([^\r]*)\r\n/);
+      return authorization ? authorization[1] : undefined;
+    });
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    provider = jasmine.createSpy("credentialProvider");
+    alice = await makeUserFake("alice", "example.com", "Alice", { credentialProvider: provider });
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    challenges = [];
+    bob.userAgent.delegate = {
+      onMessage: (incoming): void => {
+        const challenge = challenges.shift();
+        if (!challenge) {
+          incoming.accept();
+          return;
+        }
+        incoming.reject({ statusCode: 401, extraHeaders: ["WWW-Authenticate: " + challenge] });
+      }
+    };
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Bob challenges Alice's MESSAGE with Bearer", () => {
+    let response: IncomingResponse;
+
+    beforeEach(async () => {
+      challenges = ['Bearer realm="example.com", scope="sip", authz_server="https://auth.example.com"'];
+      provider.and.returnValue(Promise.resolve({ token: "abc" }));
+      response = await message();
+    });
+
+    it("her provider is asked for a token", () => {
+      expect(provider).toHaveBeenCalledOnceWith({
+        scheme: "Bearer",
+        realm: "example.com",
+        method: "MESSAGE",
+        authzServer: "https://auth.example.com",
+        scope: "sip",
+        error: undefined
+      });
+    });
+
+    it("her MESSAGE is sent again with the token", () => {
+      expect(sentAuthorizations()).toEqual([undefined, "Bearer abc"]);
+      expect(response.message.statusCode).toBe(200);
+    });
+  });
+
+  describe("Bob rejects Alice's token as invalid", () => {
+    beforeEach(async () => {
+      challenges = ['Bearer realm="example.com"', 'Bearer realm="example.com", error="invalid_token"'];
+      provider.and.returnValues(Promise.resolve({ token: "expired" }), Promise.resolve({ token: "refreshed" }));
+      await message();
+    });
+
+    it("her MESSAGE is sent again with a refreshed token", () => {
+      expect(provider).toHaveBeenCalledTimes(2);
+      expect(provider.calls.argsFor(1)[0].error).toBe("invalid_token");
+      expect(sentAuthorizations()).toEqual([undefined, "Bearer expired", "Bearer refreshed"]);
+    });
+  });
+
+  describe("Bob challenges Alice's MESSAGE with Digest", () => {
+    beforeEach(async () => {
+      challenges = ['Digest realm="example.com", nonce="5cc8bf58", qop="auth"'];
+      provider.and.returnValue(Promise.resolve({ username: "alice2", password: "secret" }));
+      await message();
+    });
+
+    it("her MESSAGE is sent again with the credentials provided", () => {
+      expect(provider).toHaveBeenCalledOnceWith(jasmine.objectContaining({ scheme: "Digest", realm: "example.com" }));
+      expect(sentAuthorizations()[1]).toMatch(/^Digest algorithm=MD5, username="alice2", realm="example.com"/);
+    });
+  });
+
+  describe("Bob challenges Alice's MESSAGE with AKA, and her USIM fails to synchronize", () => {
+    let response: IncomingResponse;
+
+    beforeEach(async () => {
+      challenges = [
+        'Digest realm="ims.example.com", nonce="I1U8vpY3qJ0hiuZNrke/NVXzKLQ1d7m5Sp/6w1Tfr7M=", algorithm=AKAv1-MD5',
+        'Digest realm="ims.example.com", nonce="AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=", algorithm=AKAv1-MD5'
+      ];
+      const usim = jasmine.createSpyObj<AkaUsim>("usim", ["authenticate"]);
+      usim.authenticate.and.returnValues(
+        { auts: new Uint8Array(14) },
+        { res: new Uint8Array(8), ck: new Uint8Array(16), ik: new Uint8Array(16) }
+      );
+      provider.and.returnValue(Promise.resolve({ usim }));
+      response = await message();
+    });
+
+    it("her MESSAGE is sent again with AUTS, then with the response to the new nonce", () => {
+      const authorizations = sentAuthorizations();
+      expect(authorizations.length).toBe(3);
+      expect(authorizations[1]).toMatch(/^Digest algorithm=AKAv1-MD5, .*, auts="AAAAAAAAAAAAAAAAAAA="$/);
+      expect(authorizations[2]).toMatch(/^Digest algorithm=AKAv1-MD5, .*, nonce="AAAA/);
+      expect(authorizations[2]).not.toContain("auts=");
+      expect(response.message.statusCode).toBe(200);
+    });
+  });
+
+  describe("Alice's provider has no token", () => {
+    let response: IncomingResponse;
+
+    beforeEach(async () => {
+      challenges = ['Bearer realm="example.com"'];
+      provider.and.returnValue(Promise.resolve(undefined));
+      response = await message();
+    });
+
+    it("her MESSAGE is rejected with the challenge", () => {
+      expect(sentAuthorizations()).toEqual([undefined]);
+      expect(response.message.statusCode).toBe(401);
+    });
+  });
+
+  describe("Alice's MESSAGE is disposed of while her provider is obtaining a token", () => {
+    let onReject: jasmine.Spy;
+
+    beforeEach(async () => {
+      challenges = ['Bearer realm="example.com"'];
+      let provide: (credentials: Credentials) => void = () => undefined;
+      provider.and.returnValue(new Promise((resolve) => (provide = resolve)));
+      const request = spyOn(alice.userAgent.userAgentCore, "request").and.callThrough();
+      onReject = jasmine.createSpy("onReject");
+      new Messager(alice.userAgent, bob.uri, "Hello", "text/plain").message({ requestDelegate: { onReject } });
+      await alice.transport.waitReceived(); // 401
+      expect(provider).toHaveBeenCalled();
+      request.calls.mostRecent().returnValue.dispose();
+      provide({ token: "abc" });
+      await soon();
+    });
+
+    it("her MESSAGE is not sent again, nor is the challenge delivered", () => {
+      expect(sentAuthorizations()).toEqual([undefined]);
+      expect(onReject).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { Messager } from "../../../lib/api/index.js";
+import { DigestAuthenticator, IncomingResponse } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+
+/**
+ * Digest authentication with more than one challenge.
+ */
+describe("API Digest Authentication", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice", { authorizationPassword: "secret" });
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Bob challenges Alice's MESSAGE with MD5 and SHA-256", () => {
+    beforeEach(async () => {
+      let challenged = false;
+      bob.userAgent.delegate = {
+        onMessage: (message): void => {
+          if (challenged) {
+            message.accept();
+            return;
+          }
+          challenged = true;
+          message.reject({
+            statusCode: 401,
+            extraHeaders: [
+              'WWW-Authenticate: Digest realm="example.com", nonce="5cc8bf58", qop="auth", algorithm=MD5',
+              'WWW-Authenticate: Digest realm="example.com", nonce="5cc8bf58", qop="auth", algorithm=SHA-256'
+            ]
+          });
+        }
+      };
+      await new Messager(alice.userAgent, bob.uri, "Hello", "text/plain").message();
+      await bob.transport.waitSent(); // 401
+      await bob.transport.waitSent(); // 200
+    });
+
+    it("her MESSAGE is sent again with SHA-256 credentials", () => {
+      const spy = alice.transportSendSpy;
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy.calls.argsFor(1)[0]).toMatch(/\r\nAuthorization: Digest algorithm=SHA-256, username="alice", /);
+      expect(spy.calls.argsFor(1)[0]).toMatch(/\r\nCSeq: 2 MESSAGE\r\n/);
+    });
+
+    it("his second response accepts it", () => {
+      expect(bob.transportSendSpy.calls.mostRecent().args[0]).toMatch(/^SIP\/2\.0 200 /);
+    });
+  });
+
+  describe("Bob authenticates Alice's MESSAGE", () => {
+    let response: IncomingResponse;
+
+    beforeEach(async () => {
+      const authenticator = new DigestAuthenticator(bob.userAgent.getLoggerFactory(), {
+        realm: "example.com",
+        credentialLookup: (username) => Promise.resolve(username === "alice" ? { password: "secret" } : undefined)
+      });
+      bob.userAgent.delegate = {
+        onMessage: (message): void => {
+          authenticator.verify(message.request).then((verification) => {
+            if (verification.authenticated) {
+              message.accept();
+            } else {
+              message.reject(authenticator.challenge(verification.stale));
+            }
+          });
+        }
+      };
+      response = await new Promise<IncomingResponse>((resolve) => {
+        new Messager(alice.userAgent, bob.uri, "Hello", "text/plain").message({
+          requestDelegate: { onAccept: resolve, onReject: resolve }
+        });
+      });
+    });
+
+    it("her MESSAGE is sent again with SHA-256 credentials", () => {
+      const spy = alice.transportSendSpy;
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy.calls.argsFor(1)[0]).toMatch(/\r\nAuthorization: Digest algorithm=SHA-256, username="alice", /);
+    });
+
+    it("his second response accepts it", () => {
+      expect(response.message.statusCode).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { Invitation, Inviter, Message, Messager, SessionState } from "../../../lib/api/index.js";
+import { Headers } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+/**
+ * Extra headers built with Headers.
+ */
+describe("API Extra Headers", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice sends Bob a MESSAGE with extra headers", () => {
+    let message: Message | undefined;
+
+    beforeEach(async () => {
+      message = undefined;
+      bob.userAgent.delegate = {
+        onMessage: (received): void => {
+          message = received;
+          received.accept();
+        }
+      };
+      const extraHeaders = new Headers().append("X-Account", "1234").append("Priority", "urgent");
+      await new Messager(alice.userAgent, bob.uri, "Hello", "text/plain", { extraHeaders }).message();
+      await soon();
+    });
+
+    it("her MESSAGE has the extra headers", () => {
+      expect(alice.transportSendSpy.calls.first().args[0]).toMatch(/\r\nX-Account: 1234\r\nPriority: urgent\r\n/);
+    });
+
+    it("his message has the extra headers", () => {
+      const headers = message && Headers.fromMessage(message.request);
+      expect(headers && headers.get("x-account")).toBe("1234");
+      expect(headers && headers.get("Priority")).toBe("urgent");
+    });
+  });
+
+  describe("Bob rejects Alice's INVITE with extra headers", () => {
+    let inviter: Inviter;
+
+    beforeEach(async () => {
+      bob.userAgent.delegate = {
+        onInvite: (invitation: Invitation): void => {
+          invitation.reject({
+            statusCode: 486,
+            extraHeaders: new Headers().append("Reason", "SIP", { cause: 486, text: "Busy Here" })
+          });
+        }
+      };
+      inviter = new Inviter(alice.userAgent, bob.uri);
+      await inviter.invite();
+      await bob.transport.waitSent();
+      await soon();
+    });
+
+    it("his response has the extra headers", () => {
+      expect(bob.transportSendSpy.calls.mostRecent().args[0]).toMatch(/\r\nReason: SIP;cause=486;text="Busy Here"\r\n/);
+    });
+
+    it("her session is terminated", () => {
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+});
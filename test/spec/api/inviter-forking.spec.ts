@@ -0,0 +1,265 @@
+import { Invitation, Inviter, InviterFork, SessionDescriptionHandler, SessionState } from "../../../lib/api/index.js";
+import { IncomingResponse } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, messagesSent, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+/**
+ * INVITE forking mode.
+ * https://tools.ietf.org/html/rfc3261#section-13.2.2.4
+ */
+describe("API Inviter Forking", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let bob2: UserFake;
+  let invitation: Invitation;
+  let invitation2: Invitation;
+  let inviter: Inviter;
+  let forksNotified: Array<InviterFork>;
+  let forkNotified: () => void;
+
+  // True if the media tracks of the fork were last enabled, false if last disabled.
+  function rendered(fork: InviterFork): boolean | undefined {
+    const sdh = fork.sessionDescriptionHandler as jasmine.SpyObj<Required<SessionDescriptionHandler>>;
+    const receiver = sdh.enableReceiverTracks.calls.mostRecent();
+    const sender = sdh.enableSenderTracks.calls.mostRecent();
+    if (!receiver || !sender || receiver.args[0] !== sender.args[0]) {
+      return undefined;
+    }
+    return receiver.args[0];
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    bob2 = await makeUserFake("bob", "example.com", "Bob2");
+    connectUserFake(alice, bob);
+    connectUserFake(alice, bob2);
+    const invited = Promise.all([
+      new Promise<void>((resolve) => {
+        bob.userAgent.delegate = {
+          onInvite: (session): void => {
+            invitation = session;
+            resolve();
+          }
+        };
+      }),
+      new Promise<void>((resolve) => {
+        bob2.userAgent.delegate = {
+          onInvite: (session): void => {
+            invitation2 = session;
+            resolve();
+          }
+        };
+      })
+    ]);
+    forksNotified = [];
+    forkNotified = (): void => {
+      /* noop */
+    };
+    inviter = new Inviter(alice.userAgent, bob.uri, {
+      forking: true,
+      delegate: {
+        onFork: (fork): void => {
+          forksNotified.push(fork);
+          forkNotified();
+        }
+      }
+    });
+    inviter.invite();
+    await invited;
+    await soon();
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => bob2.userAgent.stop())
+      .then(() => expect(bob2.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  it("her INVITE is sent without an offer", () => {
+    const invites = messagesSent(alice, /^INVITE /);
+    expect(invites.length).toBe(1);
+    expect(invites[0]).toContain("\r\nContent-Length: 0\r\n");
+  });
+
+  describe("Bob and Bob2 ring", () => {
+    beforeEach(async () => {
+      invitation.progress();
+      invitation2.progress();
+      await soon();
+    });
+
+    it("she has a fork for each without early media", () => {
+      expect(inviter.forks.length).toBe(2);
+      expect(inviter.forks[0].id).not.toBe(inviter.forks[1].id);
+      expect(inviter.forks[0].response.statusCode).toBe(180);
+      expect(inviter.forks.every((fork) => fork.sessionDescriptionHandler === undefined)).toBe(true);
+      expect(inviter.renderedFork).toBeUndefined();
+      expect(forksNotified).toContain(inviter.forks[0]);
+      expect(forksNotified).toContain(inviter.forks[1]);
+    });
+  });
+
+  describe("Bob and Bob2 send early media", () => {
+    beforeEach(async () => {
+      const earlyMedia = new Promise<void>((resolve) => {
+        forkNotified = (): void => {
+          if (inviter.forks.filter((fork) => fork.sessionDescriptionHandler).length === 2) {
+            resolve();
+          }
+        };
+      });
+      invitation.progress({ rel100: true });
+      invitation2.progress({ rel100: true });
+      await earlyMedia;
+    });
+
+    it("she has a fork for each with its own early media", () => {
+      const forks = inviter.forks;
+      expect(forks.length).toBe(2);
+      expect(forks[0].sessionDescriptionHandler).toBeDefined();
+      expect(forks[1].sessionDescriptionHandler).toBeDefined();
+      expect(forks[0].sessionDescriptionHandler).not.toBe(forks[1].sessionDescriptionHandler);
+      expect(forks[0].remoteTarget.toString()).toBe(bob.userAgent.contact.uri.toString());
+      expect(forks[1].remoteTarget.toString()).toBe(bob2.userAgent.contact.uri.toString());
+    });
+
+    it("she renders the early media of the first fork", () => {
+      expect(inviter.renderedFork).toBe(inviter.forks[0]);
+      expect(rendered(inviter.forks[0])).toBe(true);
+      expect(rendered(inviter.forks[1])).toBe(false);
+    });
+
+    it("she may render the early media of another fork", () => {
+      inviter.renderFork(inviter.forks[1]);
+      expect(inviter.renderedFork).toBe(inviter.forks[1]);
+      expect(rendered(inviter.forks[0])).toBe(false);
+      expect(rendered(inviter.forks[1])).toBe(true);
+    });
+
+    describe("Bob2 renegotiates his early media with an UPDATE", () => {
+      let response: IncomingResponse;
+
+      beforeEach(async () => {
+        response = await new Promise<IncomingResponse>((resolve) => {
+          invitation2.update({ requestDelegate: { onAccept: resolve, onReject: resolve } });
+        });
+      });
+
+      it("she answers with the early media of his fork", () => {
+        const forks = inviter.forks;
+        expect(response.message.statusCode).toBe(200);
+        expect(response.message.body).toBe("SDP ANSWER");
+        expect(forks[1].sessionDescriptionHandler?.setDescription).toHaveBeenCalledTimes(2);
+        expect(forks[0].sessionDescriptionHandler?.setDescription).toHaveBeenCalledTimes(1);
+        expect(inviter.state).toBe(SessionState.Establishing);
+        expect(invitation2.state).toBe(SessionState.Initial);
+      });
+    });
+
+    describe("Alice renegotiates the early media of the fork she renders with an UPDATE", () => {
+      let response: IncomingResponse;
+
+      beforeEach(async () => {
+        inviter.renderFork(inviter.forks[1]);
+        bob.transport.receiveDropOnce(); // not for him
+        response = await new Promise<IncomingResponse>((resolve) => {
+          inviter.update({ requestDelegate: { onAccept: resolve, onReject: resolve } });
+        });
+      });
+
+      it("her UPDATE is sent to Bob2 with an offer from his fork's early media", () => {
+        const forks = inviter.forks;
+        expect(messagesSent(alice, /^UPDATE /).length).toBe(1);
+        expect(messagesSent(alice, /^UPDATE /)[0]).toContain("SDP OFFER");
+        expect(response.message.statusCode).toBe(200);
+        expect(forks[1].sessionDescriptionHandler?.getDescription).toHaveBeenCalledTimes(2);
+        expect(forks[1].sessionDescriptionHandler?.setDescription).toHaveBeenCalledTimes(2);
+        expect(forks[0].sessionDescriptionHandler?.getDescription).toHaveBeenCalledTimes(1);
+        expect(inviter.state).toBe(SessionState.Establishing);
+      });
+    });
+
+    describe("Bob2 and Bob answer", () => {
+      let sessionDescriptionHandler2: unknown;
+
+      beforeEach(async () => {
+        sessionDescriptionHandler2 = inviter.forks[1].sessionDescriptionHandler;
+        alice.transportSendSpy.calls.reset();
+        const established = new Promise<void>((resolve) =>
+          inviter.stateChange.addListener((state) => state === SessionState.Established && resolve())
+        );
+        invitation2.accept();
+        await established;
+        invitation.accept();
+        await bob.transport.waitReceived(); // ACK
+        await bob.transport.waitReceived(); // BYE
+      });
+
+      it("her session is established with Bob2's early media", () => {
+        expect(inviter.state).toBe(SessionState.Established);
+        expect(inviter.sessionDescriptionHandler).toBe(
+          sessionDescriptionHandler2 as typeof inviter.sessionDescriptionHandler
+        );
+        expect(inviter.forks.length).toBe(0);
+        expect(inviter.renderedFork).toBeUndefined();
+        const sdh = inviter.sessionDescriptionHandler as jasmine.SpyObj<Required<SessionDescriptionHandler>>;
+        expect(sdh.enableReceiverTracks.calls.mostRecent().args).toEqual([true]);
+        expect(sdh.enableSenderTracks.calls.mostRecent().args).toEqual([true]);
+      });
+
+      it("she acknowledges Bob's answer and ends his dialog", () => {
+        expect(messagesSent(alice, /^ACK /).length).toBe(2);
+        expect(messagesSent(alice, /^BYE /).length).toBe(1);
+        expect(invitation.state).toBe(SessionState.Terminated);
+        expect(invitation2.state).toBe(SessionState.Established);
+      });
+    });
+  });
+
+  describe("Bob and Bob2 send early media, and Bob2's offer cannot be set", () => {
+    let sessionDescriptionHandlers: Array<jasmine.SpyObj<Required<SessionDescriptionHandler>>>;
+
+    beforeEach(async () => {
+      sessionDescriptionHandlers = [];
+      inviter.delegate = {
+        ...inviter.delegate,
+        onSessionDescriptionHandler: (sdh): void => {
+          sessionDescriptionHandlers.push(sdh as jasmine.SpyObj<Required<SessionDescriptionHandler>>);
+          if (sessionDescriptionHandlers.length === 2) {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            (sdh as any).setDescriptionRejectOnce = true;
+          }
+        }
+      };
+      const progressed = new Promise<void>((resolve) => {
+        forkNotified = (): void => {
+          if (inviter.forks.length === 2) {
+            resolve();
+          }
+        };
+      });
+      invitation.progress({ rel100: true });
+      await soon();
+      invitation2.progress({ rel100: true });
+      await progressed;
+    });
+
+    it("she closes and forgets the early media of Bob2's fork only", () => {
+      const [fork, fork2] = inviter.forks;
+      expect(fork2.remoteTarget.toString()).toBe(bob2.userAgent.contact.uri.toString());
+      expect(fork2.sessionDescriptionHandler).toBeUndefined();
+      expect(sessionDescriptionHandlers[1].close).toHaveBeenCalledTimes(1);
+      expect(fork.sessionDescriptionHandler).toBe(sessionDescriptionHandlers[0]);
+      expect(sessionDescriptionHandlers[0].close).not.toHaveBeenCalled();
+      expect(inviter.renderedFork).toBe(fork);
+      expect(inviter.state).toBe(SessionState.Establishing);
+    });
+  });
+});
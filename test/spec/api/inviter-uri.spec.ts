@@ -0,0 +1,96 @@
+import { Invitation, Inviter, SessionState, UserAgent } from "../../../lib/api/index.js";
+import { URI } from "../../../lib/grammar/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+/**
+ * Inviter targets using tel and sips URIs.
+ */
+describe("API Inviter URI Schemes", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    bob = await makeUserFake("+12125550100", "example.com", "Bob");
+    connectUserFake(alice, bob);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice invites Bob's telephone number", () => {
+    let invitation: Invitation | undefined;
+    let inviter: Inviter;
+
+    beforeEach(async () => {
+      invitation = undefined;
+      bob.userAgent.delegate = {
+        onInvite: (session): void => {
+          invitation = session;
+          session.reject();
+        }
+      };
+      const target = UserAgent.makeURI("tel:+1-212-555-0100");
+      if (!target) {
+        fail("Failed to make tel URI.");
+        return;
+      }
+      inviter = new Inviter(alice.userAgent, target);
+      await inviter.invite();
+      await bob.transport.waitSent();
+      await soon();
+    });
+
+    it("her INVITE targets the tel URI", () => {
+      expect(alice.transportSendSpy.calls.first().args[0]).toMatch(/^INVITE tel:\+1-212-555-0100 SIP\/2\.0\r\n/);
+      expect(alice.transportSendSpy.calls.first().args[0]).toMatch(/\r\nTo: <tel:\+12125550100>\r\n/);
+    });
+
+    it("his UA accepts the tel Request-URI", () => {
+      expect(invitation).toBeDefined();
+      const ruri = invitation && invitation.request.ruri;
+      expect(ruri instanceof URI).toBe(true);
+      expect(ruri && ruri.scheme).toBe("tel");
+      expect(ruri && ruri.user).toBe("+12125550100");
+    });
+
+    it("her session is terminated by his rejection", () => {
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Alice invites a sips URI over an insecure transport", () => {
+    let inviter: Inviter;
+
+    beforeEach(async () => {
+      const target = UserAgent.makeURI("sips:bob@example.com");
+      if (!target) {
+        fail("Failed to make sips URI.");
+        return;
+      }
+      inviter = new Inviter(alice.userAgent, target);
+      await inviter.invite();
+      await soon();
+    });
+
+    it("her INVITE has a sips Contact", () => {
+      expect(inviter.request.getHeader("contact")).toMatch(/^<sips:/);
+    });
+
+    it("her INVITE is not sent", () => {
+      expect(alice.transportSendSpy).not.toHaveBeenCalled();
+    });
+
+    it("her session is terminated", () => {
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+});
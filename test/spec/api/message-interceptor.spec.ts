@@ -0,0 +1,258 @@
+import { Inviter, Message, Messager, SessionState } from "../../../lib/api/index.js";
+import { IncomingResponse, MessageInterceptor, OutgoingRequestDelegate } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+/**
+ * Message Interceptor Integration Tests
+ */
+describe("API Message Interceptor", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let onMessageSpy: jasmine.Spy;
+  let delegate: jasmine.SpyObj<Required<OutgoingRequestDelegate>>;
+
+  function resetSpies(): void {
+    alice.transportReceiveSpy.calls.reset();
+    alice.transportSendSpy.calls.reset();
+    bob.transportReceiveSpy.calls.reset();
+    bob.transportSendSpy.calls.reset();
+    onMessageSpy.calls.reset();
+  }
+
+  function sendMessage(): void {
+    const messager = new Messager(alice.userAgent, bob.uri, "Hello");
+    messager.message({ requestDelegate: delegate });
+  }
+
+  function acceptedResponse(): IncomingResponse {
+    return delegate.onAccept.calls.argsFor(0)[0];
+  }
+
+  function rejectedResponse(): IncomingResponse {
+    return delegate.onReject.calls.argsFor(0)[0];
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    onMessageSpy = jasmine.createSpy("onMessage").and.callFake((message: Message) => message.accept());
+    bob.userAgent.delegate = { onMessage: onMessageSpy };
+    delegate = jasmine.createSpyObj<Required<OutgoingRequestDelegate>>("OutgoingRequestDelegate", [
+      "onAccept",
+      "onProgress",
+      "onRedirect",
+      "onReject",
+      "onTrying"
+    ]);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice sends a MESSAGE with no interceptors", () => {
+    beforeEach(async () => {
+      sendMessage();
+      await alice.transport.waitReceived();
+    });
+
+    it("her request delegate should be accepted", () => {
+      expect(onMessageSpy).toHaveBeenCalledTimes(1);
+      expect(delegate.onAccept).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Alice sends a MESSAGE with an interceptor rewriting outgoing requests", () => {
+    beforeEach(async () => {
+      alice.userAgent.addInterceptor({
+        onOutgoingRequest: (message) => message.setHeader("x-intercepted", "alice")
+      });
+      sendMessage();
+      await alice.transport.waitReceived();
+    });
+
+    it("her ua should send MESSAGE with the header added", () => {
+      expect(alice.transportSendSpy).toHaveBeenCalledTimes(1);
+      expect(alice.transportSendSpy.calls.argsFor(0)[0]).toMatch(/^X-Intercepted: alice\r$/m);
+    });
+
+    it("his ua should receive MESSAGE with the header added", () => {
+      const message: Message = onMessageSpy.calls.argsFor(0)[0];
+      expect(message.request.getHeader("x-intercepted")).toBe("alice");
+    });
+  });
+
+  describe("Alice sends a MESSAGE with an interceptor answering outgoing requests", () => {
+    beforeEach(async () => {
+      alice.userAgent.addInterceptor({
+        onOutgoingRequest: () => ({ reply: { statusCode: 403, extraHeaders: ["X-Intercepted: alice"] } })
+      });
+      sendMessage();
+      await soon();
+    });
+
+    it("her ua should send nothing", () => {
+      expect(alice.transportSendSpy).not.toHaveBeenCalled();
+      expect(onMessageSpy).not.toHaveBeenCalled();
+    });
+
+    it("her request delegate should be rejected with the local response", () => {
+      expect(delegate.onReject).toHaveBeenCalledTimes(1);
+      const response = rejectedResponse();
+      expect(response.message.statusCode).toBe(403);
+      expect(response.message.getHeader("x-intercepted")).toBe("alice");
+    });
+  });
+
+  describe("Alice sends an INVITE with an interceptor answering it with a 2xx", () => {
+    let inviter: Inviter;
+
+    beforeEach(async () => {
+      alice.userAgent.addInterceptor({ onOutgoingRequest: () => ({ reply: { statusCode: 200 } }) });
+      inviter = new Inviter(alice.userAgent, bob.uri);
+      await inviter.invite({ requestDelegate: delegate });
+      await soon();
+    });
+
+    it("her ua should send nothing", () => {
+      expect(alice.transportSendSpy).not.toHaveBeenCalled();
+    });
+
+    it("her request delegate should not be accepted, as no dialog can be established", () => {
+      expect(delegate.onAccept).not.toHaveBeenCalled();
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Alice sends a MESSAGE with an interceptor dropping outgoing requests", () => {
+    beforeEach(async () => {
+      alice.userAgent.addInterceptor({ onOutgoingRequest: () => ({ drop: true }) });
+      sendMessage();
+      await soon();
+    });
+
+    it("her ua should send nothing", () => {
+      expect(alice.transportSendSpy).not.toHaveBeenCalled();
+      expect(onMessageSpy).not.toHaveBeenCalled();
+    });
+
+    it("her request delegate should be rejected with a 408 after the transaction times out", async () => {
+      expect(delegate.onReject).not.toHaveBeenCalled();
+      await soon(32000);
+      expect(delegate.onReject).toHaveBeenCalledTimes(1);
+      expect(rejectedResponse().message.statusCode).toBe(408);
+    });
+  });
+
+  describe("Alice sends a MESSAGE and Bob has an interceptor dropping incoming requests", () => {
+    beforeEach(async () => {
+      bob.userAgent.addInterceptor({ onIncomingRequest: () => ({ drop: true }) });
+      sendMessage();
+      await bob.transport.waitReceived();
+      await soon();
+    });
+
+    it("his ua should not process the request", () => {
+      expect(bob.transportReceiveSpy).toHaveBeenCalledTimes(1);
+      expect(bob.transportSendSpy).not.toHaveBeenCalled();
+      expect(onMessageSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Alice sends a MESSAGE and Bob has an interceptor answering incoming requests", () => {
+    beforeEach(async () => {
+      bob.userAgent.addInterceptor({ onIncomingRequest: () => ({ reply: { statusCode: 488 } }) });
+      sendMessage();
+      await alice.transport.waitReceived();
+    });
+
+    it("his ua should not process the request", () => {
+      expect(onMessageSpy).not.toHaveBeenCalled();
+    });
+
+    it("her request delegate should be rejected with his response", () => {
+      expect(delegate.onReject).toHaveBeenCalledTimes(1);
+      expect(rejectedResponse().message.statusCode).toBe(488);
+    });
+  });
+
+  describe("Alice sends a MESSAGE and Bob has an interceptor rewriting outgoing responses", () => {
+    let next: jasmine.Spy;
+
+    beforeEach(async () => {
+      next = jasmine.createSpy("onOutgoingResponse");
+      bob.userAgent.addInterceptor({
+        onOutgoingResponse: (response) => ({
+          rewrite: response.message.replace(/^Supported: /m, "X-Intercepted: bob\r\nSupported: ")
+        })
+      });
+      bob.userAgent.addInterceptor({ onOutgoingResponse: next });
+      sendMessage();
+      await alice.transport.waitReceived();
+    });
+
+    it("her request delegate should be accepted with the rewritten response", () => {
+      expect(delegate.onAccept).toHaveBeenCalledTimes(1);
+      expect(acceptedResponse().message.getHeader("x-intercepted")).toBe("bob");
+    });
+
+    it("his next interceptor should be given the rewritten response", () => {
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(next.calls.argsFor(0)[0].message).toMatch(/^X-Intercepted: bob\r$/m);
+    });
+  });
+
+  describe("Alice sends a MESSAGE with an interceptor dropping incoming responses", () => {
+    beforeEach(async () => {
+      alice.userAgent.addInterceptor({ onIncomingResponse: () => ({ drop: true }) });
+      sendMessage();
+      await alice.transport.waitReceived();
+    });
+
+    it("her request delegate should not be called", () => {
+      expect(onMessageSpy).toHaveBeenCalledTimes(1);
+      expect(delegate.onAccept).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Alice sends a MESSAGE after adding and removing interceptors", () => {
+    let first: jasmine.SpyObj<Required<MessageInterceptor>>;
+    let second: jasmine.SpyObj<Required<MessageInterceptor>>;
+
+    beforeEach(async () => {
+      const methods: Array<keyof MessageInterceptor> = [
+        "onIncomingRequest",
+        "onIncomingResponse",
+        "onOutgoingRequest",
+        "onOutgoingResponse"
+      ];
+      first = jasmine.createSpyObj<Required<MessageInterceptor>>("First", methods);
+      second = jasmine.createSpyObj<Required<MessageInterceptor>>("Second", methods);
+      alice.userAgent.addInterceptor(first);
+      alice.userAgent.addInterceptor(second);
+      alice.userAgent.removeInterceptor(first);
+      resetSpies();
+      sendMessage();
+      await alice.transport.waitReceived();
+    });
+
+    it("her removed interceptor should not be called", () => {
+      expect(first.onOutgoingRequest).not.toHaveBeenCalled();
+      expect(first.onIncomingResponse).not.toHaveBeenCalled();
+    });
+
+    it("her remaining interceptor should be called with the request and response", () => {
+      expect(second.onOutgoingRequest).toHaveBeenCalledTimes(1);
+      expect(second.onIncomingResponse).toHaveBeenCalledTimes(1);
+      expect(delegate.onAccept).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Invitation, Inviter, Message, Messager, SessionState } from "../../../lib/api/index.js";
+import { makeMultipartBody } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+const PIDF = '<?xml version="1.0"?><presence entity="pres:alice@example.com"/>';
+
+/**
+ * Multipart bodies sent and received by the API.
+ */
+describe("API Multipart Bodies", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice invites Bob with a location object along with her offer", () => {
+    let invitation: Invitation | undefined;
+    let inviter: Inviter;
+
+    beforeEach(async () => {
+      invitation = undefined;
+      bob.userAgent.delegate = {
+        onInvite: (session): void => {
+          invitation = session;
+          session.accept();
+        }
+      };
+      inviter = new Inviter(alice.userAgent, bob.uri, {
+        bodyParts: [{ contentType: "application/pidf+xml", content: PIDF, contentId: "target@example.com" }]
+      });
+      await inviter.invite();
+      await bob.transport.waitReceived(); // ACK
+    });
+
+    it("her INVITE has a multipart body", () => {
+      expect(alice.transportSendSpy.calls.first().args[0]).toMatch(/\r\nContent-Type: multipart\/mixed;boundary=/);
+    });
+
+    it("his invitation has the body parts", () => {
+      const parts = invitation && invitation.bodyParts;
+      expect(parts && parts.length).toBe(2);
+      expect(parts && parts[0].contentType).toBe("application/sdp");
+      expect(parts && parts[0].content).toBe("SDP OFFER");
+      expect(parts && parts[1]).toEqual({
+        contentType: "application/pidf+xml",
+        content: PIDF,
+        contentId: "target@example.com"
+      });
+    });
+
+    it("his session description handler is given the offer", () => {
+      const sdh = invitation && invitation.sessionDescriptionHandler;
+      expect(sdh && sdh.setDescription).toHaveBeenCalledWith("SDP OFFER", jasmine.anything(), jasmine.anything());
+    });
+
+    it("their sessions are established", () => {
+      expect(inviter.state).toBe(SessionState.Established);
+      expect(invitation && invitation.state).toBe(SessionState.Established);
+    });
+
+    afterEach(() => inviter.bye());
+  });
+
+  describe("Alice sends Bob a multipart MESSAGE", () => {
+    let message: Message | undefined;
+
+    beforeEach(async () => {
+      message = undefined;
+      bob.userAgent.delegate = {
+        onMessage: (received): void => {
+          message = received;
+          received.accept();
+        }
+      };
+      const body = makeMultipartBody([
+        { contentType: "text/plain", content: "Hello" },
+        { contentType: "text/html", content: "<p>Hello</p>" }
+      ]);
+      await new Messager(alice.userAgent, bob.uri, body.content, body.contentType).message();
+      await soon();
+    });
+
+    it("his message has the body parts", () => {
+      expect(message && message.bodyParts).toEqual([
+        { contentType: "text/plain", content: "Hello" },
+        { contentType: "text/html", content: "<p>Hello</p>" }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { Messager, UserAgent } from "../../../lib/api/index.js";
+import { DigestAuthenticator, IncomingResponse } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+
+/**
+ * Credentials sent preemptively, reusing the nonce of a previous challenge.
+ */
+describe("API Preemptive Authorization", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+
+  function message(target = bob.uri): Promise<IncomingResponse> {
+    return new Promise<IncomingResponse>((resolve) => {
+      new Messager(alice.userAgent, target, "Hello", "text/plain").message({
+        requestDelegate: { onAccept: resolve, onReject: resolve }
+      });
+    });
+  }
+
+  function sentMessages(): Array<string> {
+    return alice.transportSendSpy.calls.allArgs().map((args) => args[0] as string);
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2020, 0, 1));
+    alice = await makeUserFake("alice", "example.com", "Alice", {
+      authorizationPassword: "secret",
+      preemptiveAuthorization: true
+    });
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    const authenticator = new DigestAuthenticator(bob.userAgent.getLoggerFactory(), {
+      realm: "example.com",
+      credentialLookup: () => Promise.resolve({ password: "secret" }),
+      nonceLifetime: 60
+    });
+    bob.userAgent.delegate = {
+      onMessage: (incoming): void => {
+        authenticator.verify(incoming.request).then((verification) => {
+          if (verification.authenticated) {
+            incoming.accept();
+          } else {
+            incoming.reject(authenticator.challenge(verification.stale));
+          }
+        });
+      }
+    };
+    await message();
+    alice.transportSendSpy.calls.reset();
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice sends another MESSAGE", () => {
+    let response: IncomingResponse;
+
+    beforeEach(async () => {
+      response = await message();
+    });
+
+    it("her MESSAGE has credentials with the next nonce count", () => {
+      const messages = sentMessages();
+      expect(messages.length).toBe(1);
+      expect(messages[0]).toMatch(/\r\nAuthorization: Digest algorithm=SHA-256, username="alice", .*, nc=00000002\r\n/);
+    });
+
+    it("his response accepts it", () => {
+      expect(response.message.statusCode).toBe(200);
+    });
+  });
+
+  describe("Alice sends another MESSAGE once the nonce is stale", () => {
+    let response: IncomingResponse;
+
+    beforeEach(async () => {
+      jasmine.clock().tick(60 * 1000);
+      response = await message();
+    });
+
+    it("her MESSAGE is challenged and sent again with credentials for a new nonce", () => {
+      const messages = sentMessages();
+      expect(messages.length).toBe(2);
+      expect(messages[0]).toMatch(/, nc=00000002\r\n/);
+      expect(messages[1]).toMatch(/, nc=00000001\r\n/);
+      expect(response.message.statusCode).toBe(200);
+    });
+
+    it("her next MESSAGE uses the new nonce", async () => {
+      alice.transportSendSpy.calls.reset();
+      await message();
+      const messages = sentMessages();
+      expect(messages.length).toBe(1);
+      expect(messages[0]).toMatch(/, nc=00000002\r\n/);
+    });
+  });
+
+  describe("Alice sends a MESSAGE to another host of the realm", () => {
+    beforeEach(async () => {
+      const target = UserAgent.makeURI("sip:bob@example.net");
+      if (!target) {
+        fail("Failed to make URI.");
+        return;
+      }
+      await message(target);
+    });
+
+    it("her MESSAGE is sent without her credentials, and challenged", () => {
+      const messages = sentMessages();
+      expect(messages.length).toBe(2);
+      expect(messages[0]).not.toContain("\r\nAuthorization:");
+      expect(messages[1]).toMatch(/\r\nAuthorization: Digest .*, nc=00000001\r\n/);
+    });
+
+    it("her next MESSAGE to Bob still has her credentials for his host", async () => {
+      alice.transportSendSpy.calls.reset();
+      await message();
+      const messages = sentMessages();
+      expect(messages.length).toBe(1);
+      expect(messages[0]).toMatch(/\r\nAuthorization: Digest .*, nc=00000002\r\n/);
+    });
+  });
+});
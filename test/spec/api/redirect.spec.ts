@@ -0,0 +1,192 @@
+import { Inviter, Messager, SessionState, UserAgentOptions } from "../../../lib/api/index.js";
+import { IncomingResponse, URI } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+
+/**
+ * Redirect responses.
+ * https://tools.ietf.org/html/rfc3261#section-8.1.3.4
+ */
+describe("API Redirect", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let inviter: Inviter;
+  // The Contact header field values of Bob's redirect response.
+  let contacts: Array<string>;
+
+  function sentRequestUris(method: string): Array<string> {
+    return alice.transportSendSpy.calls
+      .allArgs()
+      .map((args) => args[0] as string)
+      .filter((message) => message.startsWith(method + " "))
+      .map((message) => message.split(" ")[1]);
+  }
+
+  // Bob redirects requests to his address of record, accepts requests to his
+  // contact and rejects requests to anywhere else.
+  async function setup(aliceOptions: UserAgentOptions = {}): Promise<void> {
+    alice = await makeUserFake("alice", "example.com", "Alice", aliceOptions);
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    const contact = bob.userAgent.contact.uri.toString();
+    bob.userAgent.delegate = {
+      onInvite: (invitation): void => {
+        const ruri = String(invitation.request.ruri);
+        if (ruri === bob.uri.toString()) {
+          invitation.reject({ statusCode: 302, extraHeaders: contacts.map((uri) => "Contact: " + uri) });
+        } else if (ruri === contact) {
+          invitation.accept();
+        } else {
+          invitation.reject({ statusCode: 480 });
+        }
+      },
+      onMessage: (message): void => {
+        message.accept();
+      }
+    };
+    bob.userAgent.addInterceptor({
+      onIncomingRequest: (message) => {
+        if (message.method === "MESSAGE" && String(message.ruri) === bob.uri.toString()) {
+          return { reply: { statusCode: 302, extraHeaders: contacts.map((uri) => "Contact: " + uri) } };
+        }
+      }
+    });
+    contacts = [`<${contact}>`];
+  }
+
+  function invite(): Promise<void> {
+    inviter = new Inviter(alice.userAgent, bob.uri);
+    const terminatedOrEstablished = new Promise<void>((resolve) =>
+      inviter.stateChange.addListener(
+        (state) => (state === SessionState.Established || state === SessionState.Terminated) && resolve()
+      )
+    );
+    return inviter.invite().then(() => terminatedOrEstablished);
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice calls Bob who redirects her to his contact", () => {
+    beforeEach(async () => {
+      await setup();
+      await invite();
+    });
+
+    it("her INVITE is sent again to his contact with a new branch", () => {
+      const uris = sentRequestUris("INVITE");
+      expect(uris).toEqual([bob.uri.toString(), bob.userAgent.contact.uri.toString()]);
+      const invites = alice.transportSendSpy.calls
+        .allArgs()
+        .map((args) => args[0] as string)
+        .filter((message) => message.startsWith("INVITE "));
+      const branch = (invite: string): string => (invite.match(/;branch=([^;\r\n]+)/) as RegExpMatchArray)[1];
+      expect(branch(invites[0])).not.toBe(branch(invites[1]));
+    });
+
+    it("the session is established", () => {
+      expect(inviter.state).toBe(SessionState.Established);
+    });
+  });
+
+  describe("Alice calls Bob who redirects her to two targets", () => {
+    beforeEach(async () => {
+      await setup();
+      contacts = [`<${bob.userAgent.contact.uri}>;q=0.5`, "<sip:bob@example.net>;q=0.9"];
+      await invite();
+    });
+
+    it("she tries them in order of q-value until one does not fail", () => {
+      const uris = sentRequestUris("INVITE");
+      expect(uris).toEqual(["sip:bob@example.com", "sip:bob@example.net", bob.userAgent.contact.uri.toString()]);
+      expect(inviter.state).toBe(SessionState.Established);
+    });
+  });
+
+  describe("Alice calls Bob who redirects her back to him", () => {
+    beforeEach(async () => {
+      await setup();
+      contacts = [`<${bob.uri}>`];
+      await invite();
+    });
+
+    it("she does not loop and the call fails", () => {
+      expect(sentRequestUris("INVITE").length).toBe(1);
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Alice calls Bob who redirects her, but she vetoes the target", () => {
+    let targets: Array<URI>;
+
+    beforeEach(async () => {
+      targets = [];
+      await setup();
+      alice.userAgent.delegate = {
+        onRedirect: (target): boolean => {
+          targets.push(target);
+          return false;
+        }
+      };
+      await invite();
+    });
+
+    it("her delegate is asked about the target and the call fails", () => {
+      expect(targets.map((target) => target.toString())).toEqual([bob.userAgent.contact.uri.toString()]);
+      expect(sentRequestUris("INVITE").length).toBe(1);
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Alice calls Bob who redirects her, but she does not follow redirects", () => {
+    beforeEach(async () => {
+      await setup({ maxRedirects: 0 });
+      await invite();
+    });
+
+    it("the call fails", () => {
+      expect(sentRequestUris("INVITE").length).toBe(1);
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Alice calls Bob who redirects her to more targets than she follows", () => {
+    beforeEach(async () => {
+      await setup({ maxRedirects: 1 });
+      contacts = ["<sip:bob@example.net>", `<${bob.userAgent.contact.uri}>;q=0.1`];
+      await invite();
+    });
+
+    it("she stops after the maximum number of redirects", () => {
+      expect(sentRequestUris("INVITE")).toEqual(["sip:bob@example.com", "sip:bob@example.net"]);
+      expect(inviter.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Alice sends Bob a MESSAGE and he redirects her to his contact", () => {
+    let response: IncomingResponse;
+
+    beforeEach(async () => {
+      await setup();
+      response = await new Promise<IncomingResponse>((resolve) => {
+        new Messager(alice.userAgent, bob.uri, "Hello", "text/plain").message({
+          requestDelegate: { onAccept: resolve, onRedirect: resolve, onReject: resolve }
+        });
+      });
+    });
+
+    it("her MESSAGE is sent again to his contact and accepted", () => {
+      expect(sentRequestUris("MESSAGE")).toEqual([bob.uri.toString(), bob.userAgent.contact.uri.toString()]);
+      expect(response.message.statusCode).toBe(200);
+    });
+  });
+});
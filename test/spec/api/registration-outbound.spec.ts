@@ -0,0 +1,200 @@
+import { Registerer, RegistererOptions, RegistererState, TransportState } from "../../../lib/api/index.js";
+import { EmitterSpy, makeEmitterSpy } from "../../support/api/emitter-spy.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+const SIP_REGISTER = [jasmine.stringMatching(/^REGISTER/)];
+
+/**
+ * Registration SIP Outbound (RFC 5626) Integration Tests
+ */
+describe("API Registration Outbound", () => {
+  let alice: UserFake;
+  let registrar: UserFake;
+  let registerer: Registerer;
+  let registererStateSpy: EmitterSpy<RegistererState>;
+  let flowTimer: number | undefined;
+  let statusCode: number;
+
+  function resetSpies(): void {
+    alice.transportReceiveSpy.calls.reset();
+    alice.transportSendSpy.calls.reset();
+    registererStateSpy.calls.reset();
+  }
+
+  async function makeRegisterer(options: RegistererOptions): Promise<void> {
+    registerer = new Registerer(alice.userAgent, options);
+    registererStateSpy = makeEmitterSpy(registerer.stateChange, alice.userAgent.getLogger("Alice"));
+    registerer.register();
+    await alice.transport.waitReceived();
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    flowTimer = undefined;
+    statusCode = 200;
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    registrar = await makeUserFake(undefined, "example.com", "Registrar");
+    connectUserFake(alice, registrar);
+    registrar.userAgent.delegate = {
+      onRegisterRequest: (request): void => {
+        if (statusCode !== 200) {
+          request.reject({ statusCode });
+          return;
+        }
+        const contact = request.message.parseHeader("contact");
+        const extraHeaders = [`Contact: ${contact}`, "Require: outbound"];
+        if (flowTimer !== undefined) {
+          extraHeaders.push(`Flow-Timer: ${flowTimer}`);
+        }
+        request.accept({ extraHeaders, statusCode: 200 });
+      }
+    };
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => registrar.userAgent.stop())
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice registers without SIP Outbound", () => {
+    beforeEach(async () => {
+      flowTimer = 60;
+      await makeRegisterer({});
+    });
+
+    it("her registerer state should transition 'registered'", () => {
+      expect(registerer.state).toBe(RegistererState.Registered);
+    });
+
+    it("her transport should not send keep-alives", () => {
+      expect(alice.transport.keepAliveInterval).toBe(0);
+    });
+
+    describe("and her transport connection is lost", () => {
+      beforeEach(async () => {
+        resetSpies();
+        alice.transport.lose(new Error("Connection lost"));
+        await soon();
+      });
+
+      it("her ua should send nothing", () => {
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+        expect(alice.transport.state).toBe(TransportState.Disconnected);
+      });
+
+      it("her registerer state should not change", () => {
+        expect(registererStateSpy).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("Alice registers with SIP Outbound and the registrar provides a Flow-Timer", () => {
+    beforeEach(async () => {
+      flowTimer = 60;
+      await makeRegisterer({ regId: 1 });
+    });
+
+    it("her ua should send REGISTER with reg-id and +sip.instance Contact parameters", () => {
+      const message: string = alice.transportSendSpy.calls.argsFor(0)[0];
+      expect(message).toMatch(/^Contact: .*;reg-id=1;\+sip.instance="<urn:uuid:[0-9a-f-]+>"/m);
+      expect(message).toMatch(/^Supported: .*outbound/m);
+    });
+
+    it("her transport should send keep-alives at the Flow-Timer interval", () => {
+      expect(registerer.state).toBe(RegistererState.Registered);
+      expect(alice.transport.keepAliveInterval).toBe(60);
+    });
+
+    describe("Alice unregister()", () => {
+      beforeEach(async () => {
+        registerer.unregister();
+        await alice.transport.waitReceived();
+      });
+
+      it("her transport should stop sending keep-alives", () => {
+        expect(registerer.state).toBe(RegistererState.Unregistered);
+        expect(alice.transport.keepAliveInterval).toBe(0);
+      });
+    });
+
+    describe("and the flow fails", () => {
+      beforeEach(async () => {
+        resetSpies();
+        alice.transport.lose(new Error("Keep-alive timed out"));
+        await alice.transport.waitReceived();
+      });
+
+      it("her ua should reconnect and send REGISTER", () => {
+        expect(alice.transport.state).toBe(TransportState.Connected);
+        const spy = alice.transportSendSpy;
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy.calls.argsFor(0)).toEqual(SIP_REGISTER);
+      });
+
+      it("her registerer state should transition 'unregistered', 'registered'", () => {
+        const spy = registererStateSpy;
+        expect(spy).toHaveBeenCalledTimes(2);
+        expect(spy.calls.argsFor(0)).toEqual([RegistererState.Unregistered]);
+        expect(spy.calls.argsFor(1)).toEqual([RegistererState.Registered]);
+      });
+
+      it("her transport should send keep-alives on the new flow", () => {
+        expect(alice.transport.keepAliveInterval).toBe(60);
+      });
+    });
+
+    describe("and the flow fails and forming a new flow fails", () => {
+      beforeEach(async () => {
+        spyOn(Math, "random").and.returnValue(0);
+        statusCode = 503;
+        alice.transport.lose(new Error("Keep-alive timed out"));
+        await alice.transport.waitReceived();
+        resetSpies();
+        statusCode = 200;
+      });
+
+      it("her registerer state should be 'unregistered'", () => {
+        expect(registerer.state).toBe(RegistererState.Unregistered);
+      });
+
+      it("her ua should wait before sending REGISTER again", async () => {
+        // The wait-time after one failure is min(1800, 30 * 2 ^ 1) seconds, of which half is waited.
+        await soon(29000);
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+        await soon(1000);
+        await alice.transport.waitReceived();
+        expect(alice.transportSendSpy).toHaveBeenCalledTimes(1);
+        expect(alice.transportSendSpy.calls.argsFor(0)).toEqual(SIP_REGISTER);
+        expect(registerer.state).toBe(RegistererState.Registered);
+      });
+
+      it("her ua should wait longer after each consecutive failure", async () => {
+        statusCode = 503;
+        await soon(30000);
+        await alice.transport.waitReceived();
+        resetSpies();
+        statusCode = 200;
+        await soon(59000);
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+        await soon(1000);
+        await alice.transport.waitReceived();
+        expect(alice.transportSendSpy).toHaveBeenCalledTimes(1);
+        expect(registerer.state).toBe(RegistererState.Registered);
+      });
+    });
+  });
+
+  describe("Alice registers with SIP Outbound and the registrar provides no Flow-Timer", () => {
+    beforeEach(async () => {
+      await makeRegisterer({ regId: 1, keepAliveInterval: 90 });
+    });
+
+    it("her transport should send keep-alives at the configured interval", () => {
+      expect(registerer.state).toBe(RegistererState.Registered);
+      expect(alice.transport.keepAliveInterval).toBe(90);
+    });
+  });
+});
@@ -118,7 +118,7 @@ describe("API Registration", () => {
           onRegisterRequest: (request): void => {
             const contact = request.message.parseHeader("contact");
             expect(contact).toBeDefined();
-            const expires = contact.getParam("expires");
+            const expires = contact?.getParam("expires");
             expect(expires).toEqual("0");
             request.accept();
           }
@@ -177,7 +177,7 @@ describe("API Registration", () => {
         resetSpies();
         registrar.userAgent.delegate = {
           onRegisterRequest: (request): void => {
-            const contact = request.message.parseHeader("contact");
+            const contact = request.message.getHeader("contact");
             expect(contact).toEqual("*");
             const expires = request.message.parseHeader("expires");
             expect(expires).toEqual("0");
@@ -351,7 +351,7 @@ describe("API Registration", () => {
 
     describe("Alice register()", () => {
       let cseq: number;
-      let expires: string;
+      let expires: string | null | undefined;
       let statusCode: number | undefined;
 
       beforeEach(async () => {
@@ -362,7 +362,7 @@ describe("API Registration", () => {
             const contact = request.message.parseHeader("contact");
             expect(contact).toBeDefined();
             cseq = request.message.cseq;
-            expires = contact.getParam("expires");
+            expires = contact?.getParam("expires");
             expect(expires).toBeDefined();
             request.accept({
               extraHeaders: [`Contact: ${contact}`],
@@ -436,7 +436,7 @@ describe("API Registration", () => {
               expect(contact).toBeDefined();
               cseq++;
               expect(request.message.cseq).toEqual(cseq);
-              expires = contact.getParam("expires");
+              expires = contact?.getParam("expires");
               expect(expires).toBeDefined();
               request.accept({
                 extraHeaders: [`Contact: ${contact}`],
@@ -473,7 +473,7 @@ describe("API Registration", () => {
             onRegisterRequest: (request): void => {
               const contact = request.message.parseHeader("contact");
               expect(contact).toBeDefined();
-              expires = contact.getParam("expires");
+              expires = contact?.getParam("expires");
               expect(expires).toEqual("0");
               request.accept({
                 extraHeaders: [`Contact: ${contact}`],
@@ -758,7 +758,7 @@ describe("API Registration", () => {
             } else if (count === 2) {
               const contact = request.message.parseHeader("contact");
               expect(contact).toBeDefined();
-              const expires = contact.getParam("expires");
+              const expires = contact?.getParam("expires");
               expect(expires).toEqual(`${minExpires}`);
               request.accept({
                 extraHeaders: [`Contact: ${contact}`],
@@ -903,3 +903,56 @@ describe("API Registration", () => {
     });
   });
 });
+
+describe("API Registration with a configured contact name", () => {
+  let alice: UserFake;
+  let registrar: UserFake;
+  let registerer: Registerer;
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice", {
+      contactName: "alice",
+      contactParams: { transport: "ws", rinstance: "abc123" }
+    });
+    registrar = await makeUserFake(undefined, "example.com", "Registrar");
+    connectUserFake(alice, registrar);
+    registerer = new Registerer(alice.userAgent);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => registrar.userAgent.stop())
+      .then(() => expect(registrar.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice register(), Registrar responds with her contact with its parameters reordered", () => {
+    beforeEach(async () => {
+      registrar.userAgent.delegate = {
+        onRegisterRequest: (request): void => {
+          const contact = request.message.parseHeader("contact");
+          if (!contact) {
+            fail("Contact undefined.");
+            return;
+          }
+          // Same URI per RFC 3261 Section 19.1.4, but not the same string.
+          const uri = contact.uri;
+          const reordered = `<sip:${uri.user}@${uri.host.toUpperCase()};ob;RINSTANCE=ABC123;transport=ws>`;
+          request.accept({
+            extraHeaders: [`Contact: ${reordered};expires=600`],
+            statusCode: 200
+          });
+        }
+      };
+      registerer.register();
+      await alice.transport.waitReceived();
+    });
+
+    it("her registerer recognizes her binding", () => {
+      expect(registerer.state).toBe(RegistererState.Registered);
+    });
+  });
+});
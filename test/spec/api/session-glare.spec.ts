@@ -0,0 +1,229 @@
+import { Invitation, Inviter, Session, SessionState } from "../../../lib/api/index.js";
+import { IncomingResponse, OutgoingInviteRequest } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, messagesSent, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+/**
+ * Session re-INVITE glare.
+ * https://tools.ietf.org/html/rfc3261#section-14.1
+ */
+describe("API Session Glare", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let inviter: Inviter;
+  let invitation: Invitation;
+
+  // The user rejects the next re-INVITEs received with 491 (Request Pending).
+  function rejectsReinvites(user: UserFake, count: number): void {
+    user.userAgent.addInterceptor({
+      onIncomingRequest: (message) => {
+        if (message.method === "INVITE" && count > 0) {
+          count--;
+          return { reply: { statusCode: 491 } };
+        }
+      }
+    });
+  }
+
+  // The session re-INVITEs and is rejected with 491 while Math.random returns the given value,
+  // so that the wait before the retry is known.
+  async function rejected(session: Inviter | Invitation, random: number): Promise<void> {
+    const user = session === inviter ? alice : bob;
+    const peer = session === inviter ? bob : alice;
+    spyOn(Math, "random").and.returnValue(random);
+    rejectsReinvites(peer, 1);
+    reinvite(session, "hold");
+    await user.transport.waitReceived(); // 491
+    await soon();
+  }
+
+  // The re-INVITE is sent again the given wait after the 491, give or take the millisecond
+  // which passed while the 491 was handled.
+  async function expectRetryAfter(user: UserFake, wait: number): Promise<void> {
+    if (wait > 0) {
+      jasmine.clock().tick(wait - 3);
+      await soon();
+      expect(messagesSent(user, /^INVITE /).length).toBe(1);
+    }
+    // Random again, so that the retry is not sent with the same branch.
+    (Math.random as jasmine.Spy).and.callThrough();
+    jasmine.clock().tick(2);
+    await user.transport.waitSent(); // INVITE
+    expect(messagesSent(user, /^INVITE /).length).toBe(2);
+  }
+
+  // Alice re-INVITEs Bob, tagging the re-INVITE with her intent.
+  function reinvite(session: Inviter | Invitation, intent: string): Promise<IncomingResponse> {
+    return new Promise<IncomingResponse>((resolve) => {
+      session.invite({
+        requestDelegate: { onAccept: resolve, onReject: resolve },
+        requestOptions: { extraHeaders: ["X-Intent: " + intent] }
+      });
+    });
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    const established = new Promise<void>((resolve) => {
+      bob.userAgent.delegate = {
+        onInvite: (session): void => {
+          invitation = session;
+          invitation.accept().then(() => resolve());
+        }
+      };
+    });
+    inviter = new Inviter(alice.userAgent, bob.uri);
+    await inviter.invite();
+    await established;
+    await bob.transport.waitReceived(); // ACK
+    alice.transportSendSpy.calls.reset();
+    bob.transportSendSpy.calls.reset();
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Bob rejects her re-INVITE with 491", () => {
+    it("she retries after a wait of at least 2.1 seconds, as she owns the Call-ID", async () => {
+      await rejected(inviter, 0);
+      await expectRetryAfter(alice, 2100);
+    });
+
+    it("she retries after a wait of at most 4 seconds, as she owns the Call-ID", async () => {
+      await rejected(inviter, 0.9999);
+      await expectRetryAfter(alice, 4000);
+    });
+
+    it("her request delegate is told only of the response to the retry", async () => {
+      const response = await new Promise<IncomingResponse>((resolve) => {
+        rejectsReinvites(bob, 1);
+        inviter.invite({ requestDelegate: { onAccept: resolve, onReject: resolve } });
+        alice.transport
+          .waitReceived()
+          .then(() => soon())
+          .then(() => jasmine.clock().tick(4000));
+      });
+      expect(response.message.statusCode).toBe(200);
+      expect(inviter.state).toBe(SessionState.Established);
+    });
+
+    it("she is given the re-INVITE sent again", async () => {
+      const retried = new Promise<OutgoingInviteRequest>((resolve) => {
+        rejectsReinvites(bob, 1);
+        const session: Session = inviter; // re-INVITE options
+        session.invite({ onRetry: resolve });
+        alice.transport
+          .waitReceived()
+          .then(() => soon())
+          .then(() => jasmine.clock().tick(4000));
+      });
+      const request = await retried;
+      expect(request.message.method).toBe("INVITE");
+      expect(request.message.cseq).toBeGreaterThan(inviter.request.cseq);
+      expect(messagesSent(alice, /^INVITE /).length).toBe(2);
+    });
+  });
+
+  describe("Alice rejects his re-INVITE with 491", () => {
+    it("he retries after a wait of at least 0 seconds, as he does not own the Call-ID", async () => {
+      await rejected(invitation, 0);
+      await expectRetryAfter(bob, 0);
+    });
+
+    it("he retries after a wait of at most 2 seconds, as he does not own the Call-ID", async () => {
+      await rejected(invitation, 0.9999);
+      await expectRetryAfter(bob, 2000);
+    });
+  });
+
+  describe("Bob rejects her re-INVITE and its retry with 491", () => {
+    it("her request delegate is told of the 491 to the retry", async () => {
+      rejectsReinvites(bob, 2);
+      const response = reinvite(inviter, "hold");
+      await alice.transport.waitReceived(); // 491
+      await soon();
+      jasmine.clock().tick(4000);
+      expect((await response).message.statusCode).toBe(491);
+      expect(messagesSent(alice, /^INVITE /).length).toBe(2);
+      expect(inviter.state).toBe(SessionState.Established);
+    });
+  });
+
+  describe("Alice holds and unholds while her re-INVITE waits to be retried", () => {
+    let responses: Array<IncomingResponse>;
+
+    beforeEach(async () => {
+      rejectsReinvites(bob, 1);
+      const codec = reinvite(inviter, "codec");
+      await alice.transport.waitReceived(); // 491
+      await soon();
+      const hold = reinvite(inviter, "hold");
+      const unhold = reinvite(inviter, "unhold");
+      await soon();
+      expect(messagesSent(alice, /^INVITE /).length).toBe(1);
+      jasmine.clock().tick(4000);
+      responses = await Promise.all([codec, hold, unhold]);
+    });
+
+    it("her re-INVITEs are sent one after another in order", () => {
+      const intents = messagesSent(alice, /^INVITE /).map(
+        (message) => (message.match(/\r\nX-Intent: (\w+)\r\n/) || [])[1]
+      );
+      expect(intents).toEqual(["codec", "codec", "hold", "unhold"]);
+      expect(responses.map((response) => response.message.statusCode)).toEqual([200, 200, 200]);
+    });
+  });
+
+  describe("Alice and Bob re-INVITE each other at the same time", () => {
+    let responses: Array<IncomingResponse>;
+
+    beforeEach(async () => {
+      let settled = false;
+      const holds = Promise.all([reinvite(inviter, "hold"), reinvite(invitation, "hold")]).then((results) => {
+        settled = true;
+        return results;
+      });
+      // Step through the waits before the retries, the longest being 4 seconds
+      // after the 491 was received, until both re-INVITEs have been answered.
+      for (let elapsed = 0; !settled && elapsed <= 10000; elapsed += 50) {
+        await soon(50);
+      }
+      responses = await holds;
+    });
+
+    it("they both get 491 and retry", () => {
+      expect(messagesSent(alice, /^SIP\/2.0 491 /).length).toBe(1);
+      expect(messagesSent(bob, /^SIP\/2.0 491 /).length).toBe(1);
+      expect(messagesSent(alice, /^INVITE /).length).toBe(2);
+      expect(messagesSent(bob, /^INVITE /).length).toBe(2);
+      expect(responses.map((response) => response.message.statusCode)).toEqual([200, 200]);
+      expect(inviter.state).toBe(SessionState.Established);
+      expect(invitation.state).toBe(SessionState.Established);
+    });
+  });
+
+  describe("Alice hangs up while her re-INVITE waits to be retried", () => {
+    it("her re-INVITEs are rejected and the retry is not sent", async () => {
+      rejectsReinvites(bob, 1);
+      const response = reinvite(inviter, "hold");
+      await alice.transport.waitReceived(); // 491
+      await soon();
+      const queued = inviter.invite();
+      await inviter.bye();
+      await expectAsync(queued).toBeRejectedWithError(/Invalid session state/);
+      expect((await response).message.statusCode).toBe(491);
+      jasmine.clock().tick(4000);
+      await soon();
+      expect(messagesSent(alice, /^INVITE /).length).toBe(1);
+    });
+  });
+});
@@ -3,7 +3,6 @@ import {
   Invitation,
   Inviter,
   Referral,
-  RequestPendingError,
   Session,
   SessionDescriptionHandler,
   SessionState
@@ -359,10 +358,13 @@ describe("API Session In-Dialog", () => {
       expect(spy.calls.argsFor(0)).toEqual(SIP_INVITE);
     });
 
-    it("her ua should reject an additional INVITE", () => {
-      inviter.invite({ withoutSdp }).catch((error: Error) => {
-        expect(error).toEqual(jasmine.any(RequestPendingError));
+    it("her ua should hold an additional INVITE until the first completes", async () => {
+      // rejected when the session ends, as the first is never answered
+      inviter.invite({ withoutSdp }).catch(() => {
+        return;
       });
+      await soon();
+      expect(alice.transportSendSpy).toHaveBeenCalledTimes(1);
     });
 
     if (withoutSdp) {
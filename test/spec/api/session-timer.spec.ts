@@ -0,0 +1,192 @@
+import { Invitation, Inviter, SessionState, SIPExtension, UserAgentOptions } from "../../../lib/api/index.js";
+import { connectUserFake, makeUserFake, messagesSent, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+/**
+ * Session timers.
+ * https://tools.ietf.org/html/rfc4028
+ */
+describe("API Session Timer", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let inviter: Inviter;
+  let invitation: Invitation | undefined;
+
+  async function setup(aliceOptions: UserAgentOptions, bobOptions: UserAgentOptions): Promise<void> {
+    alice = await makeUserFake("alice", "example.com", "Alice", aliceOptions);
+    bob = await makeUserFake("bob", "example.com", "Bob", bobOptions);
+    connectUserFake(alice, bob);
+    invitation = undefined;
+    bob.userAgent.delegate = {
+      onInvite: (session): void => {
+        invitation = session;
+        session.accept();
+      }
+    };
+  }
+
+  function invite(extraHeaders?: Array<string>): Promise<void> {
+    inviter = new Inviter(alice.userAgent, bob.uri, { extraHeaders });
+    const established = new Promise<void>((resolve) =>
+      inviter.stateChange.addListener((state) => state === SessionState.Established && resolve())
+    );
+    return inviter.invite().then(() => established);
+  }
+
+  /** Wait for the UPDATE refreshing the session to be answered. */
+  async function refreshed(): Promise<void> {
+    // He answers an UPDATE without an offer at once, so wait for both messages together.
+    await Promise.all([bob.transport.waitReceived(), alice.transport.waitReceived()]); // UPDATE, 200
+    await soon();
+  }
+
+  /** Wait for the re-INVITE refreshing the session to be answered and acknowledged. */
+  async function reinvited(): Promise<void> {
+    await bob.transport.waitReceived(); // INVITE
+    await alice.transport.waitReceived(); // 200
+    await bob.transport.waitReceived(); // ACK
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice and Bob support session timers", () => {
+    beforeEach(async () => {
+      await setup({ sipExtensionTimer: SIPExtension.Supported }, { sipExtensionTimer: SIPExtension.Supported });
+      await invite();
+    });
+
+    it("her INVITE requests a session interval", () => {
+      const requests = messagesSent(alice, /^INVITE /);
+      expect(requests.length).toBe(1);
+      expect(requests[0]).toMatch(/\r\nSupported: .*timer/);
+      expect(requests[0]).toContain("\r\nSession-Expires: 1800\r\n");
+      expect(requests[0]).toContain("\r\nMin-SE: 90\r\n");
+    });
+
+    it("his response makes her the refresher", () => {
+      const responses = messagesSent(bob, /^SIP\/2.0 200 /);
+      expect(responses[0]).toContain("\r\nSession-Expires: 1800;refresher=uac\r\n");
+      expect(responses[0]).toContain("\r\nRequire: timer\r\n");
+    });
+
+    it("she refreshes the session half way through the session interval", async () => {
+      alice.transportSendSpy.calls.reset();
+      jasmine.clock().tick(899 * 1000);
+      expect(messagesSent(alice, /^UPDATE /).length).toBe(0);
+      jasmine.clock().tick(1000);
+      await refreshed();
+      const requests = messagesSent(alice, /^UPDATE /);
+      expect(requests.length).toBe(1);
+      expect(requests[0]).toContain("\r\nSession-Expires: 1800;refresher=uac\r\n");
+      expect(requests[0]).toContain("\r\nSupported: timer\r\n");
+      expect(requests[0]).not.toContain("\r\nContent-Type: ");
+    });
+
+    it("the session lasts as long as she refreshes it", async () => {
+      jasmine.clock().tick(900 * 1000);
+      await refreshed();
+      jasmine.clock().tick(900 * 1000);
+      await refreshed();
+      expect(messagesSent(bob, /^BYE /).length).toBe(0);
+      expect(inviter.state).toBe(SessionState.Established);
+      expect(invitation && invitation.state).toBe(SessionState.Established);
+    });
+  });
+
+  describe("Bob's minimum session interval is greater than Alice's session interval", () => {
+    beforeEach(async () => {
+      await setup(
+        { sipExtensionTimer: SIPExtension.Supported },
+        { sipExtensionTimer: SIPExtension.Supported, sessionTimerMinSE: 3600 }
+      );
+      await invite();
+    });
+
+    it("her INVITE is rejected with 422 and sent again with his minimum", () => {
+      const responses = messagesSent(bob, /^SIP\/2.0 422 /);
+      expect(responses.length).toBe(1);
+      expect(responses[0]).toContain("\r\nMin-SE: 3600\r\n");
+      const requests = messagesSent(alice, /^INVITE /);
+      expect(requests.length).toBe(2);
+      expect(requests[1]).toContain("\r\nSession-Expires: 3600\r\n");
+      expect(requests[1]).toContain("\r\nMin-SE: 3600\r\n");
+    });
+
+    it("the session is established with his minimum", () => {
+      expect(messagesSent(bob, /^SIP\/2.0 200 /)[0]).toContain("\r\nSession-Expires: 3600;refresher=uac\r\n");
+      expect(inviter.state).toBe(SessionState.Established);
+    });
+  });
+
+  describe("Alice does not refresh the session", () => {
+    beforeEach(async () => {
+      // Alice claims support, but does not run session timers.
+      await setup({}, { sipExtensionTimer: SIPExtension.Supported });
+      await invite(["Supported: timer", "Session-Expires: 120"]);
+    });
+
+    it("Bob ends the session with a BYE shortly before it expires", async () => {
+      jasmine.clock().tick(87 * 1000);
+      expect(messagesSent(bob, /^BYE /).length).toBe(0);
+      jasmine.clock().tick(1000);
+      await alice.transport.waitReceived(); // BYE
+      const requests = messagesSent(bob, /^BYE /);
+      expect(requests.length).toBe(1);
+      expect(requests[0]).toContain('\r\nReason: SIP;cause=408;text="Request Timeout"\r\n');
+      expect(invitation && invitation.state).toBe(SessionState.Terminated);
+    });
+  });
+
+  describe("Bob does not support session timers", () => {
+    beforeEach(async () => {
+      await setup({ sipExtensionTimer: SIPExtension.Supported, sessionTimerExpires: 600 }, {});
+      await invite();
+    });
+
+    it("his response does not negotiate session timers", () => {
+      expect(messagesSent(bob, /^SIP\/2.0 200 /)[0]).not.toContain("Session-Expires");
+    });
+
+    it("she refreshes the session with the session interval she requested", async () => {
+      alice.transportSendSpy.calls.reset();
+      jasmine.clock().tick(300 * 1000);
+      await refreshed();
+      expect(messagesSent(alice, /^UPDATE /)[0]).toContain("\r\nSession-Expires: 600;refresher=uac\r\n");
+    });
+  });
+
+  describe("Bob does not allow UPDATE", () => {
+    beforeEach(async () => {
+      await setup({ sipExtensionTimer: SIPExtension.Supported }, { sipExtensionTimer: SIPExtension.Supported });
+      alice.userAgent.addInterceptor({
+        onIncomingResponse: (message): void => {
+          if (message.hasHeader("allow")) {
+            message.setHeader("allow", "ACK,BYE,CANCEL,INVITE");
+          }
+        }
+      });
+      await invite();
+    });
+
+    it("she refreshes the session with a re-INVITE", async () => {
+      alice.transportSendSpy.calls.reset();
+      jasmine.clock().tick(900 * 1000);
+      await reinvited();
+      expect(messagesSent(alice, /^UPDATE /).length).toBe(0);
+      const requests = messagesSent(alice, /^INVITE /);
+      expect(requests.length).toBe(1);
+      expect(requests[0]).toContain("\r\nSession-Expires: 1800;refresher=uac\r\n");
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  Invitation,
+  Inviter,
+  RequestPendingError,
+  SessionDescriptionHandler,
+  SessionState
+} from "../../../lib/api/index.js";
+import { IncomingRequestMessage, SignalingState } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+const SIP_UPDATE = [jasmine.stringMatching(/^UPDATE/)];
+const SIP_200 = [jasmine.stringMatching(/^SIP\/2.0 200/)];
+const SIP_488 = [jasmine.stringMatching(/^SIP\/2.0 488/)];
+
+/**
+ * Session UPDATE.
+ * https://tools.ietf.org/html/rfc3311
+ */
+describe("API Session Update", () => {
+  let alice: UserFake;
+  let bob: UserFake;
+  let inviter: Inviter;
+  let invitation: Invitation;
+  let onUpdate: jasmine.Spy<(request: IncomingRequestMessage, response: string, statusCode: number) => void>;
+
+  function resetSpies(): void {
+    alice.transportReceiveSpy.calls.reset();
+    alice.transportSendSpy.calls.reset();
+    bob.transportReceiveSpy.calls.reset();
+    bob.transportSendSpy.calls.reset();
+    onUpdate.calls.reset();
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice");
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    onUpdate = jasmine.createSpy("onUpdate");
+    const established = new Promise<void>((resolve) => {
+      bob.userAgent.delegate = {
+        onInvite: (session): void => {
+          invitation = session;
+          invitation.delegate = { onUpdate };
+          invitation.accept().then(() => resolve());
+        }
+      };
+    });
+    inviter = new Inviter(alice.userAgent, bob.uri);
+    await inviter.invite();
+    await established;
+    await bob.transport.waitReceived(); // ACK
+    resetSpies();
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => expect(alice.isShutdown()).toBe(true))
+      .then(() => bob.userAgent.stop())
+      .then(() => expect(bob.isShutdown()).toBe(true))
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  it("her INVITE allows UPDATE", () => {
+    expect(inviter.request.getHeader("allow")).toContain("UPDATE");
+  });
+
+  describe("Alice update() accepted", () => {
+    beforeEach(async () => {
+      await new Promise((resolve) => inviter.update({ requestDelegate: { onAccept: resolve } }));
+    });
+
+    it("her ua should send UPDATE with an offer", () => {
+      const spy = alice.transportSendSpy;
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.calls.argsFor(0)).toEqual(SIP_UPDATE);
+      expect(spy.calls.argsFor(0)[0]).toMatch(/\r\nContact: /);
+      expect(spy.calls.argsFor(0)[0]).toMatch(/\r\nContent-Type: application\/sdp\r\n/);
+    });
+
+    it("his ua should answer with 200", () => {
+      const spy = bob.transportSendSpy;
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.calls.argsFor(0)).toEqual(SIP_200);
+      expect(spy.calls.argsFor(0)[0]).toMatch(/\r\nContent-Type: application\/sdp\r\n/);
+      expect(onUpdate).toHaveBeenCalledTimes(1);
+      expect(onUpdate.calls.argsFor(0)[2]).toBe(200);
+    });
+
+    it("her signaling should be stable", () => {
+      expect(inviter.dialog && inviter.dialog.signalingState).toBe(SignalingState.Stable);
+    });
+
+    it("his signaling should be stable", () => {
+      expect(invitation.dialog && invitation.dialog.signalingState).toBe(SignalingState.Stable);
+    });
+
+    it("her session may be renegotiated again", async () => {
+      await inviter.invite();
+      await alice.transport.waitSent(); // ACK
+      expect(alice.transportSendSpy.calls.mostRecent().args[0]).toMatch(/^ACK /);
+    });
+  });
+
+  describe("Alice update() without sdp accepted", () => {
+    beforeEach(async () => {
+      await inviter.update({ withoutSdp: true });
+      await alice.transport.waitReceived(); // 200
+    });
+
+    it("her ua should send UPDATE without an offer", () => {
+      const spy = alice.transportSendSpy;
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.calls.argsFor(0)).toEqual(SIP_UPDATE);
+      expect(spy.calls.argsFor(0)[0]).not.toMatch(/\r\nContent-Type: /);
+    });
+
+    it("his ua should accept with 200 without an answer", () => {
+      const spy = bob.transportSendSpy;
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.calls.argsFor(0)).toEqual(SIP_200);
+      expect(spy.calls.argsFor(0)[0]).not.toMatch(/\r\nContent-Type: /);
+    });
+  });
+
+  describe("Alice update() rejected", () => {
+    beforeEach(async () => {
+      // Cause his session description handler to fail once
+      const sdh = invitation.sessionDescriptionHandler as jasmine.SpyObj<SessionDescriptionHandler>;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (sdh as any).getDescriptionRejectOnce = true;
+      await inviter.update();
+      await alice.transport.waitReceived(); // 488
+    });
+
+    it("his ua should reject with 488", () => {
+      const spy = bob.transportSendSpy;
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.calls.argsFor(0)).toEqual(SIP_488);
+      expect(onUpdate.calls.argsFor(0)[2]).toBe(488);
+    });
+
+    it("her signaling should be stable", () => {
+      expect(inviter.dialog && inviter.dialog.signalingState).toBe(SignalingState.Stable);
+    });
+
+    it("his signaling should be stable", () => {
+      expect(invitation.dialog && invitation.dialog.signalingState).toBe(SignalingState.Stable);
+    });
+
+    it("their sessions should be established", () => {
+      expect(inviter.state).toBe(SessionState.Established);
+      expect(invitation.state).toBe(SessionState.Established);
+    });
+  });
+
+  describe("Alice update() in progress", () => {
+    beforeEach(async () => {
+      alice.transport.receiveDropOnce(); // 200
+      await inviter.update();
+    });
+
+    it("her session should reject another offer in an UPDATE", async () => {
+      await expectAsync(inviter.update()).toBeRejectedWith(jasmine.any(RequestPendingError));
+    });
+
+    it("her session should hold a re-INVITE until the UPDATE completes", async () => {
+      alice.transportSendSpy.calls.reset();
+      // rejected when the session ends, as the UPDATE is never completed
+      inviter.invite().catch(() => {
+        return;
+      });
+      await soon();
+      expect(alice.transportSendSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Bob update() without sdp identifying himself", () => {
+    beforeEach(async () => {
+      await invitation.update({
+        withoutSdp: true,
+        requestOptions: { extraHeaders: ["P-Asserted-Identity: <sip:carol@example.com>"] }
+      });
+      await bob.transport.waitReceived(); // 200
+    });
+
+    it("her session should assert his new identity", () => {
+      expect(inviter.assertedIdentity && inviter.assertedIdentity.uri.user).toBe("carol");
+    });
+  });
+});
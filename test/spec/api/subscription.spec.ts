@@ -45,7 +45,7 @@ describe("API Subscription", () => {
   let subscription: Subscription;
   let subscriptionStateSpy: EmitterSpy<SubscriptionState>;
   let notifierDialog: Dialog;
-  let receivedEvent: string;
+  let receivedEvent: string | undefined;
   let receivedExpires: number;
 
   const subscriptionDelegateMock = jasmine.createSpyObj<Required<SubscriptionDelegate>>("SubscriptionDelegate", [
@@ -359,7 +359,7 @@ describe("API Subscription", () => {
           resetSpies();
           bob.userAgent.delegate = {
             onSubscribeRequest: (request): void => {
-              receivedEvent = request.message.parseHeader("Event").event;
+              receivedEvent = request.message.parseHeader("Event")?.event;
               if (!receivedEvent || receivedEvent !== event) {
                 request.reject({ statusCode: 489 });
                 return;
@@ -423,7 +423,7 @@ describe("API Subscription", () => {
           resetSpies();
           bob.userAgent.delegate = {
             onSubscribeRequest: (request): void => {
-              receivedEvent = request.message.parseHeader("Event").event;
+              receivedEvent = request.message.parseHeader("Event")?.event;
               if (!receivedEvent || receivedEvent !== event) {
                 request.reject({ statusCode: 489 });
                 return;
@@ -0,0 +1,252 @@
+import { Messager, SendQueueTimeoutError, TransportState } from "../../../lib/api/index.js";
+import { OutgoingRequestDelegate, TransportError } from "../../../lib/core/index.js";
+import { connectUserFake, makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+const SIP_MESSAGE = [jasmine.stringMatching(/^MESSAGE/)];
+
+/**
+ * User Agent Send Queue Integration Tests
+ */
+describe("API User Agent Send Queue", () => {
+  const sendQueueTimeout = 5; // seconds
+  let alice: UserFake;
+  let bob: UserFake;
+  let delegate: jasmine.SpyObj<Required<OutgoingRequestDelegate>>;
+  let onMessageSpy: jasmine.Spy;
+
+  function sendMessage(content: string): void {
+    const messager = new Messager(alice.userAgent, bob.uri, content);
+    messager.message({ requestDelegate: delegate });
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice", { sendQueueTimeout });
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    onMessageSpy = jasmine.createSpy("onMessage").and.callFake((message) => message.accept());
+    bob.userAgent.delegate = { onMessage: onMessageSpy };
+    delegate = jasmine.createSpyObj<Required<OutgoingRequestDelegate>>("OutgoingRequestDelegate", [
+      "onAccept",
+      "onProgress",
+      "onRedirect",
+      "onReject",
+      "onTrying"
+    ]);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => bob.userAgent.stop())
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice sends MESSAGEs while her transport is connecting", () => {
+    beforeEach(async () => {
+      alice.transport.loseAndReconnect(new Error("Connection lost"));
+      alice.transportSendSpy.calls.reset();
+      sendMessage("First");
+      sendMessage("Second");
+      await soon();
+    });
+
+    it("her ua should send nothing", () => {
+      expect(alice.transport.state).toBe(TransportState.Connecting);
+      expect(alice.transportSendSpy).not.toHaveBeenCalled();
+      expect(delegate.onReject).not.toHaveBeenCalled();
+    });
+
+    describe("and her transport connects", () => {
+      beforeEach(async () => {
+        await alice.transport.connect();
+        await soon();
+      });
+
+      it("her ua should send the MESSAGEs in order", () => {
+        const spy = alice.transportSendSpy;
+        expect(spy).toHaveBeenCalledTimes(2);
+        expect(spy.calls.argsFor(0)).toEqual(SIP_MESSAGE);
+        expect(spy.calls.argsFor(0)[0]).toMatch(/\r\n\r\nFirst$/);
+        expect(spy.calls.argsFor(1)[0]).toMatch(/\r\n\r\nSecond$/);
+      });
+
+      it("his ua should receive the MESSAGEs and her requests should be accepted", () => {
+        expect(onMessageSpy).toHaveBeenCalledTimes(2);
+        expect(delegate.onAccept).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe("and her transport fails to connect in time", () => {
+      beforeEach(async () => {
+        await soon(sendQueueTimeout * 1000);
+      });
+
+      it("her ua should send nothing", () => {
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+      });
+
+      it("her requests should be rejected", () => {
+        expect(delegate.onReject).toHaveBeenCalledTimes(2);
+        expect(delegate.onReject.calls.argsFor(0)[0].message.statusCode).toBe(503);
+      });
+
+      it("her ua should not send them once connected", async () => {
+        await alice.transport.connect();
+        await soon();
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("and her transport fails to connect", () => {
+      beforeEach(async () => {
+        alice.transport.connectFail();
+        await expectAsync(alice.transport.connect()).toBeRejected();
+        await soon();
+      });
+
+      it("her requests should be rejected without waiting", () => {
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+        expect(delegate.onReject).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe("and her transport is disconnected", () => {
+      beforeEach(async () => {
+        await alice.transport.disconnect();
+        await soon();
+      });
+
+      it("her requests should be rejected", () => {
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+        expect(delegate.onReject).toHaveBeenCalledTimes(2);
+      });
+    });
+  });
+
+  describe("Alice's core transport sends a request while her transport is connecting", () => {
+    let sent: Promise<void>;
+
+    beforeEach(() => {
+      alice.transport.loseAndReconnect(new Error("Connection lost"));
+      sent = alice.userAgent.userAgentCore.transport.send("OPTIONS sip:bob@example.com SIP/2.0\r\n\r\n");
+    });
+
+    it("fails with a SendQueueTimeoutError after the deadline", async () => {
+      const expectation = expectAsync(sent).toBeRejectedWithError(SendQueueTimeoutError);
+      await soon(sendQueueTimeout * 1000);
+      await expectation;
+    });
+
+    it("fails with a TransportError if the transport is disconnected", async () => {
+      const expectation = expectAsync(sent).toBeRejectedWithError(TransportError);
+      await alice.transport.disconnect();
+      await expectation;
+    });
+  });
+
+  describe("Alice's core transport sends a response while her transport is connecting", () => {
+    it("fails immediately", async () => {
+      alice.transport.loseAndReconnect(new Error("Connection lost"));
+      const sent = alice.userAgent.userAgentCore.transport.send("SIP/2.0 200 OK\r\n\r\n");
+      await expectAsync(sent).toBeRejected();
+    });
+  });
+});
+
+/**
+ * User Agent Send Queue Reconnection Integration Tests
+ */
+describe("API User Agent Send Queue Reconnection", () => {
+  const sendQueueTimeout = 10; // seconds
+  const reconnectionDelay = 2; // seconds
+  let alice: UserFake;
+  let bob: UserFake;
+  let delegate: jasmine.SpyObj<Required<OutgoingRequestDelegate>>;
+
+  function sendMessage(content: string): void {
+    const messager = new Messager(alice.userAgent, bob.uri, content);
+    messager.message({ requestDelegate: delegate });
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    alice = await makeUserFake("alice", "example.com", "Alice", {
+      reconnectionAttempts: 2,
+      reconnectionDelay,
+      sendQueueTimeout
+    });
+    bob = await makeUserFake("bob", "example.com", "Bob");
+    connectUserFake(alice, bob);
+    bob.userAgent.delegate = { onMessage: (message): void => void message.accept() };
+    delegate = jasmine.createSpyObj<Required<OutgoingRequestDelegate>>("OutgoingRequestDelegate", [
+      "onAccept",
+      "onProgress",
+      "onRedirect",
+      "onReject",
+      "onTrying"
+    ]);
+  });
+
+  afterEach(async () => {
+    return alice.userAgent
+      .stop()
+      .then(() => bob.userAgent.stop())
+      .then(() => jasmine.clock().uninstall());
+  });
+
+  describe("Alice sends MESSAGEs while her transport is to be reconnected", () => {
+    beforeEach(async () => {
+      alice.transport.connectFail();
+      alice.transport.lose(new Error("Connection lost"));
+      alice.transportSendSpy.calls.reset();
+      sendMessage("First");
+      await soon(); // first reconnection attempt fails
+      sendMessage("Second");
+      await soon();
+    });
+
+    it("her ua should send nothing", () => {
+      expect(alice.transport.state).toBe(TransportState.Disconnected);
+      expect(alice.transportSendSpy).not.toHaveBeenCalled();
+      expect(delegate.onReject).not.toHaveBeenCalled();
+    });
+
+    describe("and her transport is reconnected", () => {
+      beforeEach(async () => {
+        await soon(reconnectionDelay * 1000);
+        await soon();
+      });
+
+      it("her ua should send the MESSAGEs in order and they should be accepted", () => {
+        const spy = alice.transportSendSpy;
+        expect(alice.transport.state).toBe(TransportState.Connected);
+        expect(spy).toHaveBeenCalledTimes(2);
+        expect(spy.calls.argsFor(0)[0]).toMatch(/\r\n\r\nFirst$/);
+        expect(spy.calls.argsFor(1)[0]).toMatch(/\r\n\r\nSecond$/);
+        expect(delegate.onAccept).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe("and her ua abandons reconnecting", () => {
+      beforeEach(async () => {
+        alice.transport.connectFail();
+        await soon(reconnectionDelay * 1000);
+        await soon();
+      });
+
+      it("her requests should be rejected without waiting", () => {
+        expect(alice.transport.state).toBe(TransportState.Disconnected);
+        expect(alice.transportSendSpy).not.toHaveBeenCalled();
+        expect(delegate.onReject).toHaveBeenCalledTimes(2);
+      });
+
+      it("her ua should fail further requests immediately", async () => {
+        sendMessage("Third");
+        await soon();
+        expect(delegate.onReject).toHaveBeenCalledTimes(3);
+      });
+    });
+  });
+});
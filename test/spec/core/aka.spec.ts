@@ -0,0 +1,63 @@
+import { AkaResponse, AkaSynchronizationFailure, MilenageUsim } from "../../../lib/core/index.js";
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((byte) => ("0" + byte.toString(16)).slice(-2))
+    .join("");
+}
+
+// 3GPP TS 35.207 test set 1.
+const K = "465b5ce8b199b49faa5f0a2ee238a6bc";
+const OP = "cdc202d5123e20f62b6d676ac72cb318";
+const OPC = "cd63cb71954a9f4e48a5994e37a02baf";
+const RAND = fromHex("23553cbe9637a89d218ae64dae47bf35");
+// SQN = ff9bb4d0b607 concealed with AK = aa689c648370, AMF = b9b9, MAC-A = f1 = 4a9ffac354dfafb3.
+const AUTN = fromHex("55f328b43577b9b94a9ffac354dfafb3");
+
+describe("Core MilenageUsim", () => {
+  it("authenticates the network with OP", () => {
+    const usim = new MilenageUsim({ k: K, op: OP });
+    const result = usim.authenticate(RAND, AUTN) as AkaResponse;
+    expect(toHex(result.res)).toBe("a54211d5e3ba50bf");
+    expect(toHex(result.ck)).toBe("b40ba9a3c58b2a05bbf0d987b21bf8cb");
+    expect(toHex(result.ik)).toBe("f769bcd751044604127672711c6d3441");
+    expect(usim.sqn).toBe(0xff9bb4d0b607);
+  });
+
+  it("authenticates the network with OPc", () => {
+    const usim = new MilenageUsim({ k: K, opc: OPC });
+    expect(toHex((usim.authenticate(RAND, AUTN) as AkaResponse).res)).toBe("a54211d5e3ba50bf");
+  });
+
+  it("does not authenticate the network with a wrong MAC", () => {
+    const usim = new MilenageUsim({ k: K, opc: OPC });
+    const autn = AUTN.slice();
+    autn[15] ^= 1;
+    expect(usim.authenticate(RAND, autn)).toBeUndefined();
+    expect(usim.sqn).toBe(0);
+  });
+
+  it("fails to synchronize with a sequence number which is not fresh", () => {
+    const usim = new MilenageUsim({ k: K, opc: OPC, sqn: 0xff9bb4d0b607 });
+    const result = usim.authenticate(RAND, AUTN) as AkaSynchronizationFailure;
+    // AUTS = SQN_MS ⊕ f5*(RAND) || f1*(SQN_MS, RAND, AMF = 0000)
+    expect(toHex(result.auts)).toBe("ba853f3c123ccf44e93596e355c6");
+    expect(usim.sqn).toBe(0xff9bb4d0b607);
+  });
+
+  it("throws without OP or OPc", () => {
+    expect(() => new MilenageUsim({ k: K })).toThrowError(TypeError);
+  });
+
+  it("throws with a key which is not 32 hex digits", () => {
+    expect(() => new MilenageUsim({ k: "465b", opc: OPC })).toThrowError(TypeError);
+  });
+});
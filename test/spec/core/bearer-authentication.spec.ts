@@ -0,0 +1,54 @@
+import { BearerAuthentication, LoggerFactory, OutgoingRequestMessage } from "../../../lib/core/index.js";
+import { Grammar, ParsedChallenge } from "../../../lib/grammar/index.js";
+
+const loggerFactory = new LoggerFactory();
+loggerFactory.builtinEnabled = false;
+
+function makeRequest(): OutgoingRequestMessage {
+  const uri = Grammar.URIParse("sip:example.com");
+  const aor = Grammar.URIParse("sip:alice@example.com");
+  if (!uri || !aor) {
+    throw new Error("Failed to parse URI.");
+  }
+  return new OutgoingRequestMessage("REGISTER", uri, aor, aor);
+}
+
+function makeChallenge(value: string): ParsedChallenge {
+  const challenge = Grammar.parse(value, "WWW_Authenticate");
+  if (challenge === -1) {
+    throw new Error("Failed to parse challenge.");
+  }
+  return challenge;
+}
+
+describe("Core BearerAuthentication", () => {
+  it("parses a Bearer challenge", () => {
+    const challenge = makeChallenge(
+      'Bearer realm="example.com", scope="sip", authz_server="https://auth.example.com", error="invalid_token"'
+    );
+    expect(challenge).toEqual({
+      scheme: "Bearer",
+      realm: "example.com",
+      scope: "sip",
+      authzServer: "https://auth.example.com",
+      error: "invalid_token"
+    });
+  });
+
+  it("parses the scheme of a Digest challenge", () => {
+    expect(makeChallenge('Digest realm="example.com", nonce="5cc8bf58"').scheme).toBe("Digest");
+  });
+
+  it("sends the token", () => {
+    const credentials = new BearerAuthentication(loggerFactory, "abc");
+    expect(credentials.authenticate(makeRequest(), makeChallenge('Bearer realm="example.com"'))).toBe(true);
+    expect(credentials.toString()).toBe("Bearer abc");
+  });
+
+  it("does not authenticate a Digest challenge", () => {
+    const credentials = new BearerAuthentication(loggerFactory, "abc");
+    const digest = makeChallenge('Digest realm="example.com", nonce="5cc8bf58"');
+    expect(credentials.authenticate(makeRequest(), digest)).toBe(false);
+    expect(credentials.selectChallenge([digest])).toBeUndefined();
+  });
+});
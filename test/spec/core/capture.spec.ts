@@ -0,0 +1,193 @@
+import {
+  CaptureRecord,
+  HepCapture,
+  MemoryHepSink,
+  PcapCapture,
+  encodeHepPacket,
+  encodePcapFile,
+  makeCaptureRecord
+} from "../../../lib/core/index.js";
+
+const MESSAGE =
+  "MESSAGE sip:bob@example.com SIP/2.0\r\n" +
+  "Via: SIP/2.0/UDP 192.0.2.1:5060;branch=z9hG4bK776asdhds\r\n" +
+  "Max-Forwards: 70\r\n" +
+  "To: <sip:bob@example.com>\r\n" +
+  "From: <sip:alice@example.com>;tag=1928301774\r\n" +
+  "i: a84b4c76e66710\r\n" +
+  "CSeq: 1 MESSAGE\r\n" +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+/**
+ * Parse the chunks of a HEPv3 packet.
+ * @param packet - HEPv3 packet.
+ * @returns The data of each chunk keyed by chunk type.
+ */
+function parseHepPacket(packet: Uint8Array): { [type: number]: Uint8Array } {
+  const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+  expect(new TextDecoder().decode(packet.subarray(0, 4))).toBe("HEP3");
+  expect(view.getUint16(4)).toBe(packet.length);
+  const chunks: { [type: number]: Uint8Array } = {};
+  let offset = 6;
+  while (offset < packet.length) {
+    expect(view.getUint16(offset)).toBe(0);
+    const type = view.getUint16(offset + 2);
+    const length = view.getUint16(offset + 4);
+    chunks[type] = packet.subarray(offset + 6, offset + length);
+    offset += length;
+  }
+  expect(offset).toBe(packet.length);
+  return chunks;
+}
+
+function uint(bytes: Uint8Array): number {
+  return bytes.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+function makeRecord(sent: boolean, local = "192.0.2.1", remote = "198.51.100.2"): CaptureRecord {
+  const record = makeCaptureRecord(sent, MESSAGE, "UDP", { host: local, port: 5060 }, { host: remote, port: 5070 });
+  record.timestamp = 1700000000123;
+  return record;
+}
+
+describe("Core Capture", () => {
+  describe("makeCaptureRecord", () => {
+    it("captures the Call-ID of the message", () => {
+      expect(makeRecord(true).callId).toBe("a84b4c76e66710");
+    });
+
+    it("captures an empty Call-ID if the message has none", () => {
+      const record = makeCaptureRecord(true, "junk", "UDP", { host: "", port: 0 }, { host: "", port: 0 });
+      expect(record.callId).toBe("");
+    });
+  });
+
+  describe("encodeHepPacket", () => {
+    it("encodes a message sent over IPv4", () => {
+      const chunks = parseHepPacket(encodeHepPacket(makeRecord(true), { captureId: 2001, password: "secret" }));
+      expect(uint(chunks[0x0001])).toBe(2);
+      expect(uint(chunks[0x0002])).toBe(17);
+      expect(Array.from(chunks[0x0003])).toEqual([192, 0, 2, 1]);
+      expect(Array.from(chunks[0x0004])).toEqual([198, 51, 100, 2]);
+      expect(uint(chunks[0x0007])).toBe(5060);
+      expect(uint(chunks[0x0008])).toBe(5070);
+      expect(uint(chunks[0x0009])).toBe(1700000000);
+      expect(uint(chunks[0x000a])).toBe(123000);
+      expect(uint(chunks[0x000b])).toBe(1);
+      expect(uint(chunks[0x000c])).toBe(2001);
+      expect(new TextDecoder().decode(chunks[0x000e])).toBe("secret");
+      expect(new TextDecoder().decode(chunks[0x0011])).toBe("a84b4c76e66710");
+      expect(new TextDecoder().decode(chunks[0x000f])).toBe(MESSAGE);
+    });
+
+    it("encodes a message received with the source and destination swapped", () => {
+      const chunks = parseHepPacket(encodeHepPacket(makeRecord(false)));
+      expect(Array.from(chunks[0x0003])).toEqual([198, 51, 100, 2]);
+      expect(Array.from(chunks[0x0004])).toEqual([192, 0, 2, 1]);
+      expect(uint(chunks[0x0007])).toBe(5070);
+      expect(uint(chunks[0x0008])).toBe(5060);
+      expect(chunks[0x000e]).toBeUndefined();
+    });
+
+    it("encodes IPv6 addresses, mapping IPv4 addresses and host names", () => {
+      const chunks = parseHepPacket(encodeHepPacket(makeRecord(true, "2001:db8::1", "edge.example.com")));
+      expect(uint(chunks[0x0001])).toBe(10);
+      expect(Array.from(chunks[0x0005])).toEqual([0x20, 0x01, 0x0d, 0xb8, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
+      expect(Array.from(chunks[0x0006])).toEqual(new Array(16).fill(0));
+      const mapped = parseHepPacket(encodeHepPacket(makeRecord(true, "::1", "192.0.2.1")));
+      expect(Array.from(mapped[0x0006])).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0xff, 0xff, 192, 0, 2, 1]);
+    });
+
+    it("encodes a message sent over a reliable transport as TCP", () => {
+      const record = makeRecord(true);
+      record.protocol = "WSS";
+      expect(uint(parseHepPacket(encodeHepPacket(record))[0x0002])).toBe(6);
+    });
+
+    it("truncates a message too long to fit in a packet, without splitting a character", () => {
+      const body = "é".repeat(40000);
+      const record = makeCaptureRecord(
+        true,
+        MESSAGE + body,
+        "TCP",
+        { host: "192.0.2.1", port: 5060 },
+        { host: "198.51.100.2", port: 5070 }
+      );
+      const packet = encodeHepPacket(record);
+      expect(packet.length).toBeLessThanOrEqual(0xffff);
+      expect(packet.length).toBeGreaterThan(0xffff - 2);
+      const payload = new TextDecoder("utf-8", { fatal: true }).decode(parseHepPacket(packet)[0x000f]);
+      expect(payload.startsWith(MESSAGE + "éé")).toBe(true);
+      expect((MESSAGE + body).startsWith(payload)).toBe(true);
+    });
+  });
+
+  describe("HepCapture", () => {
+    it("sends a packet to the sink for each message captured, discarding the oldest", () => {
+      const sink = new MemoryHepSink(2);
+      const capture = new HepCapture(sink);
+      capture.capture(makeRecord(true));
+      capture.capture(makeRecord(false));
+      capture.capture(makeRecord(true, "192.0.2.9"));
+      expect(sink.packets.length).toBe(2);
+      expect(Array.from(parseHepPacket(sink.packets[1])[0x0003])).toEqual([192, 0, 2, 9]);
+      sink.clear();
+      expect(sink.packets).toEqual([]);
+    });
+  });
+
+  describe("encodePcapFile", () => {
+    it("encodes a global header and a UDP datagram for each message", () => {
+      const file = encodePcapFile([makeRecord(true), makeRecord(false, "2001:db8::1", "2001:db8::2")]);
+      const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+      const payload = new TextEncoder().encode(MESSAGE);
+      expect(view.getUint32(0, true)).toBe(0xa1b2c3d4);
+      expect(view.getUint32(20, true)).toBe(101);
+
+      // IPv4 packet
+      let offset = 24;
+      expect(view.getUint32(offset, true)).toBe(1700000000);
+      expect(view.getUint32(offset + 4, true)).toBe(123000);
+      expect(view.getUint32(offset + 8, true)).toBe(20 + 8 + payload.length);
+      expect(view.getUint32(offset + 12, true)).toBe(20 + 8 + payload.length);
+      offset += 16;
+      expect(view.getUint8(offset)).toBe(0x45);
+      expect(view.getUint16(offset + 2)).toBe(20 + 8 + payload.length);
+      expect(view.getUint8(offset + 9)).toBe(17);
+      let sum = 0;
+      for (let i = 0; i < 20; i += 2) {
+        sum += view.getUint16(offset + i);
+      }
+      expect((sum & 0xffff) + (sum >>> 16)).toBe(0xffff);
+      expect(Array.from(file.subarray(offset + 12, offset + 20))).toEqual([192, 0, 2, 1, 198, 51, 100, 2]);
+      expect(view.getUint16(offset + 20)).toBe(5060);
+      expect(view.getUint16(offset + 22)).toBe(5070);
+      expect(new TextDecoder().decode(file.subarray(offset + 28, offset + 28 + payload.length))).toBe(MESSAGE);
+
+      // IPv6 packet
+      offset += 28 + payload.length;
+      expect(view.getUint32(offset + 8, true)).toBe(40 + 8 + payload.length);
+      offset += 16;
+      expect(view.getUint8(offset) >> 4).toBe(6);
+      expect(view.getUint16(offset + 4)).toBe(8 + payload.length);
+      expect(view.getUint8(offset + 8 + 15)).toBe(2); // source is remote
+      expect(view.getUint16(offset + 40)).toBe(5070);
+      expect(view.getUint16(offset + 46)).not.toBe(0);
+      expect(offset + 48 + payload.length).toBe(file.length);
+    });
+  });
+
+  describe("PcapCapture", () => {
+    it("keeps the messages captured, discarding the oldest", () => {
+      const capture = new PcapCapture(1);
+      capture.capture(makeRecord(true));
+      capture.capture(makeRecord(false));
+      expect(capture.records.length).toBe(1);
+      expect(capture.records[0].sent).toBe(false);
+      expect(capture.toPcap()).toEqual(encodePcapFile(capture.records));
+      capture.clear();
+      expect(capture.toPcap().length).toBe(24);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  AkaUsim,
+  DigestAuthentication,
+  LoggerFactory,
+  MilenageUsim,
+  OutgoingRequestMessage
+} from "../../../lib/core/index.js";
+import { Grammar, ParsedChallenge } from "../../../lib/grammar/index.js";
+
+const loggerFactory = new LoggerFactory();
+loggerFactory.builtinEnabled = false;
+
+function makeRequest(): OutgoingRequestMessage {
+  const uri = Grammar.URIParse("sip:example.com");
+  const aor = Grammar.URIParse("sip:alice@example.com");
+  if (!uri || !aor) {
+    throw new Error("Failed to parse URI.");
+  }
+  return new OutgoingRequestMessage("REGISTER", uri, aor, aor);
+}
+
+function makeChallenge(params: string, nonce = "5cc8bf58"): ParsedChallenge {
+  const challenge = Grammar.parse(`Digest realm="example.com", nonce="${nonce}"${params}`, "WWW_Authenticate");
+  if (challenge === -1) {
+    throw new Error("Failed to parse challenge.");
+  }
+  return challenge;
+}
+
+function authorize(challenge: ParsedChallenge, ha1?: string, password: string | undefined = "secret"): string {
+  const credentials = new DigestAuthentication(loggerFactory, ha1, "alice", password);
+  expect(credentials.authenticate(makeRequest(), challenge)).toBe(true);
+  return credentials.toString();
+}
+
+describe("Core DigestAuthentication", () => {
+  it("computes an MD5 response", () => {
+    const authorization = authorize(makeChallenge(""));
+    expect(authorization).toMatch(/^Digest algorithm=MD5, username="alice", realm="example.com", nonce="5cc8bf58"/);
+    expect(authorization).toContain('response="ebe809739e1c298de55df54260d2455a"');
+  });
+
+  it("computes an MD5 response with a precomputed HA1", () => {
+    const authorization = authorize(makeChallenge(""), "b1726872c344b6dc8365b774f8fd6412", undefined);
+    expect(authorization).toContain('response="ebe809739e1c298de55df54260d2455a"');
+  });
+
+  it("computes a SHA-256 response", () => {
+    const authorization = authorize(makeChallenge(", algorithm=SHA-256"));
+    expect(authorization).toMatch(/^Digest algorithm=SHA-256, /);
+    expect(authorization).toContain('response="a3a0cba9db444370cebc479ab65b8a40169b7c5464090c79c68a59dced6f72e6"');
+  });
+
+  it("computes a SHA-512-256 response", () => {
+    const authorization = authorize(makeChallenge(", algorithm=sha-512-256"));
+    expect(authorization).toMatch(/^Digest algorithm=SHA-512-256, /);
+    expect(authorization).toContain('response="818777c051d087b713d6182943e6057dd6a5071eef5b95bacd04d3131462d301"');
+  });
+
+  it("sends a cnonce with a session variant", () => {
+    for (const algorithm of ["MD5-sess", "SHA-256-sess", "SHA-512-256-sess"]) {
+      const authorization = authorize(makeChallenge(", algorithm=" + algorithm));
+      expect(authorization).toMatch(new RegExp(`^Digest algorithm=${algorithm}, `));
+      expect(authorization).toMatch(/, cnonce="[^"]+"/);
+      expect(authorization).not.toMatch(/, nc=/);
+    }
+  });
+
+  it("sends a hashed username if the challenge has userhash", () => {
+    const authorization = authorize(makeChallenge(", algorithm=SHA-256, userhash=true"));
+    expect(authorization).toContain('username="182821e63518db2dd774c82f8142291d0376025311d4a5988d61e5a5dfafbbde"');
+    expect(authorization).toMatch(/, userhash=true$/);
+  });
+
+  it("does not authenticate an unsupported algorithm", () => {
+    const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", "secret");
+    expect(credentials.authenticate(makeRequest(), makeChallenge(", algorithm=AKAv1-MD5"))).toBe(false);
+  });
+
+  it("does not authenticate an algorithm other than MD5 with a precomputed HA1", () => {
+    const credentials = new DigestAuthentication(loggerFactory, "b1726872c344b6dc8365b774f8fd6412", "alice", undefined);
+    expect(credentials.authenticate(makeRequest(), makeChallenge(", algorithm=SHA-256"))).toBe(false);
+  });
+
+  describe("with AKA", () => {
+    // base64(RAND || AUTN) of 3GPP TS 35.207 test set 1.
+    const nonce = "I1U8vpY3qJ0hiuZNrke/NVXzKLQ1d7m5Sp/6w1Tfr7M=";
+    let usim: AkaUsim;
+
+    function authorizeAka(algorithm: string): string {
+      const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", undefined, usim);
+      expect(credentials.authenticate(makeRequest(), makeChallenge(", algorithm=" + algorithm, nonce))).toBe(true);
+      return credentials.toString();
+    }
+
+    beforeEach(() => {
+      usim = new MilenageUsim({ k: "465b5ce8b199b49faa5f0a2ee238a6bc", opc: "cd63cb71954a9f4e48a5994e37a02baf" });
+    });
+
+    it("computes an AKAv1-MD5 response with RES as the password", () => {
+      const authorization = authorizeAka("AKAv1-MD5");
+      expect(authorization).toMatch(/^Digest algorithm=AKAv1-MD5, /);
+      expect(authorization).toContain('response="91d9f960641cd96ad71f0996aaefcac5"');
+      expect(authorization).not.toContain("auts=");
+    });
+
+    it("computes an AKAv2-MD5 response with a password derived from RES, IK and CK", () => {
+      const authorization = authorizeAka("AKAv2-MD5");
+      expect(authorization).toMatch(/^Digest algorithm=AKAv2-MD5, /);
+      expect(authorization).toContain('response="b0b3c273a4714b92296da7a40263dc04"');
+    });
+
+    it("answers the same nonce again without the USIM", () => {
+      const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", undefined, usim);
+      const challenge = makeChallenge(", algorithm=AKAv1-MD5", nonce);
+      expect(credentials.authenticate(makeRequest(), challenge)).toBe(true);
+      spyOn(usim, "authenticate").and.callThrough();
+      expect(credentials.authenticate(makeRequest(), challenge)).toBe(true);
+      expect(usim.authenticate).not.toHaveBeenCalled();
+      expect(credentials.toString()).toContain('response="91d9f960641cd96ad71f0996aaefcac5"');
+    });
+
+    it("sends AUTS with an empty password if the sequence number is not fresh", () => {
+      usim = new MilenageUsim({
+        k: "465b5ce8b199b49faa5f0a2ee238a6bc",
+        opc: "cd63cb71954a9f4e48a5994e37a02baf",
+        sqn: 0xff9bb4d0b607
+      });
+      const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", undefined, usim);
+      expect(credentials.authenticate(makeRequest(), makeChallenge(", algorithm=AKAv1-MD5", nonce))).toBe(true);
+      expect(credentials.synchronizationFailure).toBe(true);
+      const authorization = credentials.toString();
+      expect(authorization).toContain('response="b73f5a8567c12abdf0464410639efdef"');
+      expect(authorization).toMatch(/, auts="uoU\/PBI8z0TpNZbjVcY="$/);
+    });
+
+    it("does not authenticate if the network is not authenticated", () => {
+      const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", undefined, usim);
+      const tampered = "I1U8vpY3qJ0hiuZNrke/NVXzKLQ1d7m5Sp/6w1Tfr7I=";
+      expect(credentials.authenticate(makeRequest(), makeChallenge(", algorithm=AKAv1-MD5", tampered))).toBe(false);
+    });
+
+    it("does not authenticate a nonce which is not RAND and AUTN", () => {
+      const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", undefined, usim);
+      expect(credentials.authenticate(makeRequest(), makeChallenge(", algorithm=AKAv1-MD5"))).toBe(false);
+    });
+
+    it("chooses an AKA challenge only with a USIM", () => {
+      const aka = makeChallenge(", algorithm=AKAv1-MD5", nonce);
+      expect(
+        new DigestAuthentication(loggerFactory, undefined, "alice", "secret").selectChallenge([aka])
+      ).toBeUndefined();
+      const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", undefined, usim);
+      expect(credentials.selectChallenge([aka])).toBe(aka);
+    });
+  });
+
+  describe("selectChallenge", () => {
+    const md5 = makeChallenge("");
+    const sha256 = makeChallenge(", algorithm=SHA-256-sess");
+    const sha512 = makeChallenge(", algorithm=SHA-512-256");
+    const aka = makeChallenge(", algorithm=AKAv1-MD5");
+
+    it("chooses the strongest supported algorithm", () => {
+      const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", "secret");
+      expect(credentials.selectChallenge([md5, sha512, sha256, aka])).toBe(sha512);
+      expect(credentials.selectChallenge([aka, md5, sha256])).toBe(sha256);
+      expect(credentials.selectChallenge([aka])).toBeUndefined();
+    });
+
+    it("chooses MD5 with a precomputed HA1", () => {
+      const credentials = new DigestAuthentication(
+        loggerFactory,
+        "b1726872c344b6dc8365b774f8fd6412",
+        "alice",
+        undefined
+      );
+      expect(credentials.selectChallenge([sha512, md5, sha256])).toBe(md5);
+    });
+  });
+});
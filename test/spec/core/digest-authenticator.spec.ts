@@ -0,0 +1,172 @@
+import {
+  DigestAuthentication,
+  DigestAuthenticator,
+  DigestSecret,
+  IncomingRequestMessage,
+  LoggerFactory,
+  OutgoingRequestMessage,
+  Parser
+} from "../../../lib/core/index.js";
+import { Grammar } from "../../../lib/grammar/index.js";
+
+const loggerFactory = new LoggerFactory();
+loggerFactory.builtinEnabled = false;
+const logger = loggerFactory.getLogger("test");
+
+function makeOutgoingRequest(ruri = "sip:example.com"): OutgoingRequestMessage {
+  const uri = Grammar.URIParse(ruri);
+  const aor = Grammar.URIParse("sip:alice@example.com");
+  if (!uri || !aor) {
+    throw new Error("Failed to parse URI.");
+  }
+  const request = new OutgoingRequestMessage("REGISTER", uri, aor, aor, { viaHost: "alice.example.com" });
+  request.setViaHeader("z9hG4bK776asdhds", "UDP");
+  return request;
+}
+
+function receive(request: OutgoingRequestMessage): IncomingRequestMessage {
+  const message = Parser.parseMessage(request.toString(), logger);
+  if (!(message instanceof IncomingRequestMessage)) {
+    throw new Error("Failed to parse request.");
+  }
+  return message;
+}
+
+/**
+ * Answer the first challenge of a response as a UAC would.
+ * @returns The Authorization header field value.
+ */
+function answer(extraHeaders: Array<string>, request: OutgoingRequestMessage, password = "secret"): string {
+  const challenge = Grammar.parse(extraHeaders[0].replace(/^[^:]*: /, ""), "WWW_Authenticate");
+  if (challenge === -1) {
+    throw new Error("Failed to parse challenge.");
+  }
+  const credentials = new DigestAuthentication(loggerFactory, undefined, "alice", password);
+  expect(credentials.authenticate(request, challenge)).toBe(true);
+  return credentials.toString();
+}
+
+describe("Core DigestAuthenticator", () => {
+  let authenticator: DigestAuthenticator;
+  let lookup: jasmine.Spy<(username: string, realm: string) => Promise<DigestSecret | undefined>>;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2020, 0, 1));
+    lookup = jasmine.createSpy("credentialLookup").and.returnValue(Promise.resolve({ password: "secret" }));
+    authenticator = new DigestAuthenticator(loggerFactory, { realm: "example.com", credentialLookup: lookup });
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it("challenges with SHA-256 and MD5", () => {
+    const challenge = authenticator.challenge();
+    expect(challenge.statusCode).toBe(401);
+    expect(challenge.extraHeaders).toEqual([
+      jasmine.stringMatching(
+        /^WWW-Authenticate: Digest realm="example.com", nonce="\w+", qop="auth", algorithm=SHA-256$/
+      ),
+      jasmine.stringMatching(/^WWW-Authenticate: Digest realm="example.com", nonce="\w+", qop="auth", algorithm=MD5$/)
+    ]);
+  });
+
+  it("challenges as a proxy", () => {
+    authenticator = new DigestAuthenticator(loggerFactory, {
+      realm: "example.com",
+      credentialLookup: lookup,
+      proxy: true
+    });
+    const challenge = authenticator.challenge(true);
+    expect(challenge.statusCode).toBe(407);
+    expect((challenge.extraHeaders as Array<string>)[0]).toMatch(/^Proxy-Authenticate: Digest .*, stale=true$/);
+  });
+
+  it("does not authenticate a request without credentials", async () => {
+    const verification = await authenticator.verify(receive(makeOutgoingRequest()));
+    expect(verification).toEqual({ authenticated: false, stale: false });
+  });
+
+  it("authenticates a request with credentials", async () => {
+    const request = makeOutgoingRequest();
+    request.setHeader("authorization", answer(authenticator.challenge().extraHeaders as Array<string>, request));
+    const verification = await authenticator.verify(receive(request));
+    expect(verification).toEqual({ authenticated: true, username: "alice", stale: false });
+    expect(lookup).toHaveBeenCalledOnceWith("alice", "example.com");
+  });
+
+  it("authenticates a request with an MD5 HA1", async () => {
+    lookup.and.returnValue(Promise.resolve({ ha1: "b1726872c344b6dc8365b774f8fd6412" }));
+    authenticator = new DigestAuthenticator(loggerFactory, {
+      realm: "example.com",
+      credentialLookup: lookup,
+      algorithms: ["MD5"]
+    });
+    const request = makeOutgoingRequest();
+    request.setHeader("authorization", answer(authenticator.challenge().extraHeaders as Array<string>, request));
+    expect((await authenticator.verify(receive(request))).authenticated).toBe(true);
+  });
+
+  it("does not authenticate a wrong password", async () => {
+    const request = makeOutgoingRequest();
+    const challenge = authenticator.challenge().extraHeaders as Array<string>;
+    request.setHeader("authorization", answer(challenge, request, "wrong"));
+    expect(await authenticator.verify(receive(request))).toEqual({ authenticated: false, stale: false });
+  });
+
+  it("does not authenticate credentials for another Request-URI", async () => {
+    const request = makeOutgoingRequest("sip:other.example.com");
+    request.setHeader("authorization", answer(authenticator.challenge().extraHeaders as Array<string>, request));
+    const received = receive(makeOutgoingRequest());
+    received.setHeader("authorization", request.getHeader("authorization") as string);
+    expect((await authenticator.verify(received)).authenticated).toBe(false);
+  });
+
+  it("does not authenticate a replayed nonce count", async () => {
+    const request = makeOutgoingRequest();
+    request.setHeader("authorization", answer(authenticator.challenge().extraHeaders as Array<string>, request));
+    expect((await authenticator.verify(receive(request))).authenticated).toBe(true);
+    expect(await authenticator.verify(receive(request))).toEqual({ authenticated: false, stale: false });
+  });
+
+  it("finds the nonce of valid credentials stale once it has expired", async () => {
+    const request = makeOutgoingRequest();
+    request.setHeader("authorization", answer(authenticator.challenge().extraHeaders as Array<string>, request));
+    jasmine.clock().tick(300 * 1000);
+    expect(await authenticator.verify(receive(request))).toEqual({ authenticated: false, stale: true });
+  });
+
+  it("finds the nonce of valid credentials stale once more nonces than allowed have been issued", async () => {
+    authenticator = new DigestAuthenticator(loggerFactory, {
+      realm: "example.com",
+      credentialLookup: lookup,
+      maxNonces: 2
+    });
+    const request = makeOutgoingRequest();
+    request.setHeader("authorization", answer(authenticator.challenge().extraHeaders as Array<string>, request));
+    const other = makeOutgoingRequest();
+    other.setHeader("authorization", answer(authenticator.challenge().extraHeaders as Array<string>, other));
+    authenticator.challenge();
+    expect(await authenticator.verify(receive(request))).toEqual({ authenticated: false, stale: true });
+    expect((await authenticator.verify(receive(other))).authenticated).toBe(true);
+  });
+
+  it("does not authenticate a response of another length", async () => {
+    const request = makeOutgoingRequest();
+    const authorization = answer(authenticator.challenge().extraHeaders as Array<string>, request);
+    request.setHeader("authorization", authorization.replace(/response="(\w+)"/, 'response="$10"'));
+    expect(await authenticator.verify(receive(request))).toEqual({ authenticated: false, stale: false });
+  });
+
+  it("throws if an algorithm is not supported", () => {
+    expect(
+      () =>
+        new DigestAuthenticator(loggerFactory, {
+          realm: "example.com",
+          credentialLookup: lookup,
+          algorithms: ["SHA-1"]
+        })
+    ).toThrowError(TypeError);
+  });
+});
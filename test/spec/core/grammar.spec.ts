@@ -281,7 +281,10 @@ describe("Core Grammar", () => {
     it("parses the good examples", () => {
       for (let i = 0; i < goods.length; i++) {
         const parsed = Grammar.parse(goods[i], "Replaces");
-        expect(parsed).not.toEqual(-1);
+        if (parsed === -1) {
+          fail("Failed to parse Replaces.");
+          return;
+        }
         expect(parsed.call_id).toEqual(goodIds[i]);
         expect(parsed.replaces_from_tag).toEqual(goodFroms[i]);
         expect(parsed.replaces_to_tag).toEqual(goodTos[i]);
@@ -295,4 +298,60 @@ describe("Core Grammar", () => {
       }
     });
   });
+
+  describe("typed results", () => {
+    it("parses a Request-Line or a Status-Line", () => {
+      const request = Grammar.parse("INVITE sip:bob@example.com SIP/2.0", "Request_Response");
+      const response = Grammar.parse("SIP/2.0 180 Ringing", "Request_Response");
+      if (request === -1 || response === -1) {
+        fail("Failed to parse first line.");
+        return;
+      }
+      expect(request.status_code).toBeUndefined();
+      if (request.status_code === undefined) {
+        expect(request.method).toBe("INVITE");
+        expect(request.uri instanceof URI).toBe(true);
+      }
+      expect(response.status_code).toBe(180);
+      if (response.status_code !== undefined) {
+        expect(response.reason_phrase).toBe("Ringing");
+      }
+    });
+
+    it("parses Subscription-State", () => {
+      const parsed = Grammar.parse("terminated;reason=timeout;retry-after=30;foo=bar", "Subscription_State");
+      if (parsed === -1) {
+        fail("Failed to parse Subscription-State.");
+        return;
+      }
+      expect(parsed.state).toBe("terminated");
+      expect(parsed.reason).toBe("timeout");
+      expect(parsed.params && parsed.params["retry-after"]).toBe("30");
+      expect(parsed.params && parsed.params.foo).toBe("bar");
+    });
+
+    it("parses Session-Expires", () => {
+      const parsed = Grammar.parse("1800;refresher=uas", "Session_Expires");
+      if (parsed === -1) {
+        fail("Failed to parse Session-Expires.");
+        return;
+      }
+      expect(parsed.deltaSeconds).toBe(1800);
+      expect(parsed.refresher).toBe("uas");
+    });
+
+    it("parses Refer-To as a NameAddrHeader", () => {
+      const parsed = Grammar.parse("<sip:carol@example.com>", "Refer_To");
+      if (parsed === -1) {
+        fail("Failed to parse Refer-To.");
+        return;
+      }
+      expect(parsed instanceof NameAddrHeader).toBe(true);
+      expect(parsed.uri.user).toBe("carol");
+    });
+
+    it("returns -1 for invalid input", () => {
+      expect(Grammar.parse("not a number", "Min_SE")).toBe(-1);
+    });
+  });
 });
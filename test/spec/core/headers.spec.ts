@@ -0,0 +1,122 @@
+import { Headers, LoggerFactory, OutgoingRequestMessage, Parser, getExtraHeaders } from "../../../lib/core/index.js";
+import { URI } from "../../../lib/grammar/index.js";
+
+describe("Core Headers", () => {
+  describe("append", () => {
+    it("appends header fields, in order", () => {
+      const headers = new Headers().append("X-Foo", "one").append("x-bar", "two").append("X-FOO", "three");
+      expect(headers.size).toBe(3);
+      expect(headers.toArray()).toEqual(["X-Foo: one", "X-Bar: two", "X-Foo: three"]);
+      expect(headers.toString()).toBe("X-Foo: one\r\nX-Bar: two\r\nX-Foo: three\r\n");
+    });
+
+    it("joins multiple values into a comma separated list", () => {
+      const headers = new Headers().append("Supported", ["timer", "100rel"]);
+      expect(headers.toArray()).toEqual(["Supported: timer, 100rel"]);
+    });
+
+    it("appends parameters, quoting and escaping values which are not tokens", () => {
+      const headers = new Headers().append("Reason", "SIP", { cause: 480, text: 'Say "hi" \\o/', lr: undefined });
+      expect(headers.get("reason")).toBe('SIP;cause=480;text="Say \\"hi\\" \\\\o/";lr');
+    });
+
+    it("appends a name-addr, quoting the display name", () => {
+      const uri = new URI("sip", "alice", "example.com");
+      const headers = new Headers()
+        .appendAddress("P-Asserted-Identity", uri, 'Alice "The Great"')
+        .appendAddress("P-Asserted-Identity", uri);
+      expect(headers.getAll("p-asserted-identity")).toEqual([
+        '"Alice \\"The Great\\"" <sip:alice@example.com>',
+        "<sip:alice@example.com>"
+      ]);
+    });
+
+    it("throws if the name is not a token", () => {
+      expect(() => new Headers().append("X-Foo:", "one")).toThrowError(TypeError);
+      expect(() => new Headers().append("X Foo", "one")).toThrowError(TypeError);
+      expect(() => new Headers().append("", "one")).toThrowError(TypeError);
+      expect(() => new Headers().append("X-Foo", "one", { "a b": "c" })).toThrowError(TypeError);
+    });
+
+    it("throws if the value contains a line break", () => {
+      expect(() => new Headers().append("X-Foo", "one\r\nVia: injected")).toThrowError(TypeError);
+      expect(() => new Headers().append("X-Foo", ["one", "two\n"])).toThrowError(TypeError);
+      expect(() => new Headers().append("X-Foo", "one", { p: "\r\n" })).toThrowError(TypeError);
+      const uri = new URI("sip", "alice", "example.com");
+      expect(() => new Headers().appendAddress("From", uri, "Alice\r\nVia: injected")).toThrowError(TypeError);
+    });
+  });
+
+  describe("compact forms", () => {
+    it("expands compact forms of header field names", () => {
+      const headers = new Headers().append("k", "timer").append("o", "presence");
+      expect(headers.toArray()).toEqual(["Supported: timer", "Event: presence"]);
+      expect(headers.has("supported")).toBe(true);
+      expect(headers.get("EVENT")).toBe("presence");
+      expect(headers.get("o")).toBe("presence");
+    });
+  });
+
+  describe("set and delete", () => {
+    it("replaces and removes header fields of the same name", () => {
+      const headers = new Headers(["X-Foo: one", "X-Bar: two", "X-Foo: three"]);
+      headers.set("x-foo", "four");
+      expect(headers.toArray()).toEqual(["X-Bar: two", "X-Foo: four"]);
+      headers.delete("X-Bar");
+      expect(headers.has("X-Bar")).toBe(false);
+      expect(headers.get("X-Bar")).toBeUndefined();
+      expect(headers.getAll("X-Bar")).toEqual([]);
+    });
+  });
+
+  describe("constructor", () => {
+    it("copies header fields", () => {
+      const headers = new Headers(["X-Foo:one", " X-Bar :  two "]);
+      const copy = new Headers(headers).append("X-Baz", "three");
+      expect(headers.size).toBe(2);
+      expect(copy.toArray()).toEqual(["X-Foo: one", "X-Bar: two", "X-Baz: three"]);
+    });
+
+    it("throws if a string is missing a colon", () => {
+      expect(() => new Headers(["X-Foo one"])).toThrowError(TypeError);
+    });
+  });
+
+  describe("getExtraHeaders", () => {
+    it("returns a copy of an array", () => {
+      const extraHeaders = ["X-Foo: one"];
+      expect(getExtraHeaders(extraHeaders)).toEqual(extraHeaders);
+      expect(getExtraHeaders(extraHeaders)).not.toBe(extraHeaders);
+      expect(getExtraHeaders(undefined)).toEqual([]);
+    });
+
+    it("returns the header fields of headers", () => {
+      expect(getExtraHeaders(new Headers().append("X-Foo", "one"))).toEqual(["X-Foo: one"]);
+    });
+  });
+
+  describe("fromMessage", () => {
+    it("reads back the header fields of an incoming message", () => {
+      const extraHeaders = new Headers()
+        .append("X-Foo", "one")
+        .append("X-Foo", "two")
+        .append("Reason", "Q.850", { cause: 16, text: "Normal call clearing" });
+      const uri = new URI("sip", "bob", "example.com");
+      const outgoing = new OutgoingRequestMessage("MESSAGE", uri, uri, uri, { viaHost: "example.com" }, extraHeaders);
+      outgoing.setViaHeader("z9hG4bK776asdhds", "UDP");
+      // Compact forms, as another user agent may send
+      const data = outgoing.toString().replace("\r\nCall-ID:", "\r\ni:").replace("\r\n\r\n", "\r\nk: timer\r\n\r\n");
+      const message = Parser.parseMessage(data, new LoggerFactory().getLogger("sip.parser"));
+      if (!message) {
+        fail("Failed to parse message.");
+        return;
+      }
+      const headers = Headers.fromMessage(message);
+      expect(headers.getAll("X-Foo")).toEqual(["one", "two"]);
+      expect(headers.get("Reason")).toBe('Q.850;cause=16;text="Normal call clearing"');
+      expect(headers.get("Call-ID")).toBe(outgoing.callId);
+      expect(headers.getAll("Supported")).toEqual(["outbound", "timer"]);
+      expect(headers.getAll("k")).toEqual(["outbound", "timer"]);
+    });
+  });
+});
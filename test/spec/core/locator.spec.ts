@@ -0,0 +1,191 @@
+import {
+  Grammar,
+  Locator,
+  LocatorTarget,
+  LoggerFactory,
+  NaptrRecord,
+  Resolver,
+  SrvRecord,
+  URI,
+  orderByPriorityAndWeight
+} from "../../../lib/core/index.js";
+
+/**
+ * In-memory DNS resolver.
+ */
+class TableResolver implements Resolver {
+  public naptr: { [name: string]: Array<NaptrRecord> } = {};
+  public srv: { [name: string]: Array<SrvRecord> } = {};
+  public addresses: { [name: string]: Array<string> } = {};
+  public queries: Array<string> = [];
+
+  public resolveNaptr(name: string): Promise<Array<NaptrRecord>> {
+    this.queries.push(`NAPTR ${name}`);
+    return Promise.resolve(this.naptr[name] || []);
+  }
+
+  public resolveSrv(name: string): Promise<Array<SrvRecord>> {
+    this.queries.push(`SRV ${name}`);
+    return Promise.resolve(this.srv[name] || []);
+  }
+
+  public resolveAddresses(name: string): Promise<Array<string>> {
+    this.queries.push(`A ${name}`);
+    const addresses = this.addresses[name];
+    return addresses ? Promise.resolve(addresses) : Promise.reject(new Error("ENOTFOUND"));
+  }
+}
+
+function naptr(order: number, preference: number, service: string, replacement: string): NaptrRecord {
+  return { order, preference, flags: "s", service, regexp: "", replacement };
+}
+
+function parse(uri: string): URI {
+  const parsed = Grammar.URIParse(uri);
+  if (!parsed) {
+    throw new Error(`Failed to parse ${uri}`);
+  }
+  return parsed;
+}
+
+function summarize(targets: Array<LocatorTarget>): Array<string> {
+  return targets.map((target) => `${target.transport} ${target.host} ${target.address}:${target.port}`);
+}
+
+describe("Core Locator", () => {
+  const logger = new LoggerFactory().getLogger("sip.locator");
+  let resolver: TableResolver;
+  let locator: Locator;
+
+  beforeEach(() => {
+    resolver = new TableResolver();
+    resolver.naptr["example.com"] = [
+      naptr(50, 50, "SIPS+D2T", "_sips._tcp.example.com"),
+      naptr(90, 50, "SIP+D2T", "_sip._tcp.example.com"),
+      naptr(100, 50, "SIP+D2U", "_sip._udp.example.com")
+    ];
+    resolver.srv["_sips._tcp.example.com"] = [{ priority: 0, weight: 0, port: 5061, name: "tls.example.com" }];
+    resolver.srv["_sip._tcp.example.com"] = [{ priority: 0, weight: 0, port: 5060, name: "tcp.example.com" }];
+    resolver.srv["_sip._udp.example.com"] = [
+      { priority: 1, weight: 0, port: 5060, name: "udp2.example.com" },
+      { priority: 0, weight: 0, port: 5062, name: "udp1.example.com" }
+    ];
+    resolver.addresses["example.com"] = ["192.0.2.1"];
+    resolver.addresses["tls.example.com"] = ["192.0.2.10"];
+    resolver.addresses["tcp.example.com"] = ["192.0.2.20", "2001:db8::20"];
+    resolver.addresses["udp1.example.com"] = ["192.0.2.31"];
+    resolver.addresses["udp2.example.com"] = ["192.0.2.32"];
+    locator = new Locator(resolver, logger);
+  });
+
+  it("uses a numeric IP address with the default transport and port", async () => {
+    expect(summarize(await locator.locate(parse("sip:192.0.2.1")))).toEqual(["UDP 192.0.2.1 192.0.2.1:5060"]);
+    expect(summarize(await locator.locate(parse("sips:192.0.2.1")))).toEqual(["TLS 192.0.2.1 192.0.2.1:5061"]);
+    expect(summarize(await locator.locate(parse("sip:[2001:db8::1]:5070;transport=tcp")))).toEqual([
+      "TCP 2001:db8::1 2001:db8::1:5070"
+    ]);
+    expect(resolver.queries).toEqual([]);
+  });
+
+  it("uses the maddr parameter as the target", async () => {
+    expect(summarize(await locator.locate(parse("sip:alice@example.com;maddr=192.0.2.5")))).toEqual([
+      "UDP 192.0.2.5 192.0.2.5:5060"
+    ]);
+  });
+
+  it("performs an address lookup if a port is specified", async () => {
+    expect(summarize(await locator.locate(parse("sip:example.com:5070")))).toEqual(["UDP example.com 192.0.2.1:5070"]);
+    expect(resolver.queries).toEqual(["A example.com"]);
+  });
+
+  it("performs an SRV query for the transport specified", async () => {
+    expect(summarize(await locator.locate(parse("sip:example.com;transport=tcp")))).toEqual([
+      "TCP tcp.example.com 192.0.2.20:5060",
+      "TCP tcp.example.com 2001:db8::20:5060"
+    ]);
+    expect(resolver.queries).toEqual(["SRV _sip._tcp.example.com", "A tcp.example.com"]);
+  });
+
+  it("performs an address lookup with the default port if there are no SRV records for the transport", async () => {
+    delete resolver.srv["_sip._tcp.example.com"];
+    expect(summarize(await locator.locate(parse("sip:example.com;transport=tcp")))).toEqual([
+      "TCP example.com 192.0.2.1:5060"
+    ]);
+  });
+
+  it("follows NAPTR records in order, then SRV records in priority order", async () => {
+    expect(summarize(await locator.locate(parse("sip:example.com")))).toEqual([
+      "TLS tls.example.com 192.0.2.10:5061",
+      "TCP tcp.example.com 192.0.2.20:5060",
+      "TCP tcp.example.com 2001:db8::20:5060",
+      "UDP udp1.example.com 192.0.2.31:5062",
+      "UDP udp2.example.com 192.0.2.32:5060"
+    ]);
+  });
+
+  it("discards NAPTR records of transports not supported", async () => {
+    expect(summarize(await locator.locate(parse("sip:example.com"), ["UDP"]))).toEqual([
+      "UDP udp1.example.com 192.0.2.31:5062",
+      "UDP udp2.example.com 192.0.2.32:5060"
+    ]);
+  });
+
+  it("only uses secure transports for a SIPS URI", async () => {
+    expect(summarize(await locator.locate(parse("sips:example.com")))).toEqual(["TLS tls.example.com 192.0.2.10:5061"]);
+    expect(await locator.locate(parse("sips:example.com"), ["UDP", "TCP"])).toEqual([]);
+  });
+
+  it("performs SRV queries for the transports supported if there are no NAPTR records", async () => {
+    delete resolver.naptr["example.com"];
+    expect(summarize(await locator.locate(parse("sip:example.com"), ["TCP", "UDP"]))).toEqual([
+      "TCP tcp.example.com 192.0.2.20:5060",
+      "TCP tcp.example.com 2001:db8::20:5060",
+      "UDP udp1.example.com 192.0.2.31:5062",
+      "UDP udp2.example.com 192.0.2.32:5060"
+    ]);
+  });
+
+  it("performs an address lookup if there are no NAPTR or SRV records", async () => {
+    resolver.naptr = {};
+    resolver.srv = {};
+    expect(summarize(await locator.locate(parse("sip:example.com")))).toEqual(["UDP example.com 192.0.2.1:5060"]);
+    expect(summarize(await locator.locate(parse("sips:example.com")))).toEqual(["TLS example.com 192.0.2.1:5061"]);
+  });
+
+  it("skips SRV records indicating the service is not available", async () => {
+    resolver.srv["_sip._udp.example.com"] = [{ priority: 0, weight: 0, port: 0, name: "." }];
+    expect(await locator.locate(parse("sip:example.com;transport=udp"))).toEqual([]);
+  });
+
+  it("resolves no targets if the domain does not exist", async () => {
+    expect(await locator.locate(parse("sip:nowhere.example.com"))).toEqual([]);
+  });
+
+  it("resolves no targets if the transport specified is not supported", async () => {
+    expect(await locator.locate(parse("sip:example.com;transport=tcp"), ["UDP"])).toEqual([]);
+    expect(resolver.queries).toEqual([]);
+  });
+});
+
+describe("Core orderByPriorityAndWeight", () => {
+  const records = [
+    { name: "c", priority: 1, weight: 1 },
+    { name: "a", priority: 0, weight: 1 },
+    { name: "b", priority: 0, weight: 3 }
+  ];
+
+  it("orders by priority, then by weighted random selection", () => {
+    spyOn(Math, "random").and.returnValue(0.1);
+    expect(orderByPriorityAndWeight(records).map((record) => record.name)).toEqual(["a", "b", "c"]);
+  });
+
+  it("selects records with larger weights proportionately more often", () => {
+    spyOn(Math, "random").and.returnValue(0.5);
+    expect(orderByPriorityAndWeight(records).map((record) => record.name)).toEqual(["b", "a", "c"]);
+  });
+
+  it("does not modify the records", () => {
+    orderByPriorityAndWeight(records);
+    expect(records.map((record) => record.name)).toEqual(["c", "a", "b"]);
+  });
+});
@@ -328,6 +328,26 @@ describe("Core Messages", () => {
       });
     });
 
+    describe(".parseHeader", () => {
+      it("returns the typed header field value", () => {
+        incomingRequest.setHeader("Via", "SIP/2.0/TCP 192.0.2.1:5070;branch=z9hG4bK1234;rport");
+        incomingRequest.setHeader("CSeq", "4711 INVITE");
+        const via = incomingRequest.parseHeader("via");
+        const cseq = incomingRequest.parseHeader("CSeq");
+        expect(via && via.transport).toBe("TCP");
+        expect(via && via.port).toBe(5070);
+        expect(via && via.branch).toBe("z9hG4bK1234");
+        expect(cseq && cseq.value).toBe(4711);
+        expect(cseq && cseq.method).toBe("INVITE");
+      });
+
+      it("returns undefined and removes the header field if it fails to parse", () => {
+        incomingRequest.setHeader("CSeq", "INVITE");
+        expect(incomingRequest.parseHeader("cseq")).toBeUndefined();
+        expect(incomingRequest.getHeader("cseq")).toBeUndefined();
+      });
+    });
+
     describe(".setHeader", () => {
       it("adds the header if it does not alredy exist", () => {
         expect(incomingRequest.headers).toEqual({});
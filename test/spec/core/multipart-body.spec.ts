@@ -0,0 +1,81 @@
+import { makeMultipartBody, parseMultipartBody } from "../../../lib/core/index.js";
+
+// Example from RFC 5621, with the location object trimmed.
+// https://tools.ietf.org/html/rfc5621#section-3.1
+const MULTIPART =
+  "--boundary1\r\n" +
+  "Content-Type: application/sdp\r\n" +
+  "\r\n" +
+  "v=0\r\n" +
+  "o=alice 2890844526 2890842807 IN IP4 atlanta.example.com\r\n" +
+  "\r\n" +
+  "--boundary1\r\n" +
+  "Content-Type: application/pidf+xml\r\n" +
+  "Content-ID: <target123@atlanta.example.com>\r\n" +
+  "Content-Disposition: by-reference;\r\n" +
+  " handling=optional\r\n" +
+  "\r\n" +
+  "<presence/>\r\n" +
+  "--boundary1--\r\n";
+
+describe("Core Multipart Body", () => {
+  describe("parseMultipartBody", () => {
+    it("parses the body parts and their header fields", () => {
+      const multipart = parseMultipartBody({ contentType: 'multipart/mixed;boundary="boundary1"', content: MULTIPART });
+      expect(multipart).toEqual({
+        subtype: "mixed",
+        boundary: "boundary1",
+        parts: [
+          {
+            contentType: "application/sdp",
+            content: "v=0\r\no=alice 2890844526 2890842807 IN IP4 atlanta.example.com\r\n"
+          },
+          {
+            contentType: "application/pidf+xml",
+            contentId: "target123@atlanta.example.com",
+            contentDisposition: "by-reference; handling=optional",
+            content: "<presence/>"
+          }
+        ]
+      });
+    });
+
+    it("discards the preamble and epilogue, and accepts LF line breaks and parts without header fields", () => {
+      const content = "preamble\n--b\n\nplain\n--b\nContent-Type: text/html\n\n<p/>\n--b--\nepilogue";
+      const multipart = parseMultipartBody({ contentType: "Multipart/Alternative; boundary=b", content });
+      expect(multipart && multipart.subtype).toBe("alternative");
+      expect(multipart && multipart.parts).toEqual([
+        { contentType: "text/plain", content: "plain" },
+        { contentType: "text/html", content: "<p/>" }
+      ]);
+    });
+
+    it("returns undefined if the body is not multipart", () => {
+      expect(parseMultipartBody({ contentType: "application/sdp", content: MULTIPART })).toBeUndefined();
+      expect(parseMultipartBody({ contentType: "multipart/mixed", content: MULTIPART })).toBeUndefined();
+      expect(parseMultipartBody({ contentType: "multipart/mixed;boundary=other", content: MULTIPART })).toBeUndefined();
+    });
+  });
+
+  describe("makeMultipartBody", () => {
+    it("makes a body which parses as the same body parts", () => {
+      const parts = [
+        { contentType: "application/sdp", content: "v=0\r\n", contentDisposition: "session" },
+        { contentType: "application/pidf+xml", content: "<presence/>", contentId: "loc@example.com" }
+      ];
+      const body = makeMultipartBody(parts);
+      expect(body.contentType).toMatch(/^multipart\/mixed;boundary=/);
+      expect(body.content).toMatch(/\r\nContent-ID: <loc@example\.com>\r\n/);
+      expect(parseMultipartBody(body)).toEqual({
+        subtype: "mixed",
+        boundary: body.contentType.replace("multipart/mixed;boundary=", ""),
+        parts
+      });
+    });
+
+    it("makes a body with the given subtype", () => {
+      const body = makeMultipartBody([{ contentType: "text/plain", content: "hello" }], "related");
+      expect(body.contentType).toMatch(/^multipart\/related;boundary=/);
+    });
+  });
+});
@@ -176,3 +176,35 @@ describe("Core NameAddrHeader", () => {
     });
   });
 });
+
+describe("Core NameAddrHeader equals", () => {
+  function parse(value: string): NameAddrHeader {
+    const header = Grammar.nameAddrHeaderParse(value);
+    if (!header) {
+      throw new Error(`Failed to parse "${value}".`);
+    }
+    return header;
+  }
+
+  it("ignores display names and the order of parameters", () => {
+    const a = parse('"Alice" <sip:alice@example.com;transport=tcp>;tag=1234;expires=60');
+    const b = parse("<sip:alice@EXAMPLE.com;transport=TCP>;expires=60;tag=1234");
+    expect(a.equals(b)).toBe(true);
+    expect(b.equals(a)).toBe(true);
+  });
+
+  it("compares parameters appearing in both case-insensitively, except the tag", () => {
+    expect(parse("<sip:alice@example.com>;foo=BAR").equals(parse("<sip:alice@example.com>;foo=bar"))).toBe(true);
+    expect(parse("<sip:alice@example.com>;foo=bar").equals(parse("<sip:alice@example.com>;foo=baz"))).toBe(false);
+    expect(parse("<sip:alice@example.com>;tag=AbC").equals(parse("<sip:alice@example.com>;tag=abc"))).toBe(false);
+  });
+
+  it("ignores parameters appearing in only one", () => {
+    expect(parse("<sip:alice@example.com>;tag=1234").equals(parse("<sip:alice@example.com>"))).toBe(true);
+  });
+
+  it("requires equivalent URIs", () => {
+    expect(parse("<sip:alice@example.com>").equals(parse("<sip:alice@example.com:5060>"))).toBe(false);
+    expect(parse("<sip:alice@example.com>").equals(parse("<sips:alice@example.com>"))).toBe(false);
+  });
+});
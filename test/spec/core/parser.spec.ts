@@ -0,0 +1,350 @@
+import { Parser, IncomingRequestMessage, Logger } from "../../../lib/core/index.js";
+import { makeUserFake, UserFake } from "../../support/api/user-fake.js";
+import { soon } from "../../support/api/utils.js";
+
+const INVITE =
+  "INVITE sip:bob@example.com SIP/2.0\r\n" +
+  "Via: SIP/2.0/UDP 192.0.2.1:5060;branch=z9hG4bK776asdhds\r\n" +
+  "Max-Forwards: 70\r\n" +
+  "To: Bob <sip:bob@example.com>\r\n" +
+  "From: Alice <sip:alice@example.com>;tag=1928301774\r\n" +
+  "Call-ID: a84b4c76e66710@192.0.2.1\r\n" +
+  "CSeq: 314159 INVITE\r\n" +
+  "Contact: <sip:alice@192.0.2.1>\r\n" +
+  "Content-Type: application/sdp\r\n" +
+  "Content-Length: 14\r\n" +
+  "\r\n" +
+  "v=0\r\no=- 0 0\r\n";
+
+/**
+ * Malformed messages, in the spirit of the SIP torture tests.
+ * https://tools.ietf.org/html/rfc4475
+ */
+const CORPUS: Array<string> = [
+  "",
+  "\r\n",
+  "\r\n\r\n",
+  "INVITE",
+  "INVITE sip:bob@example.com SIP/2.0",
+  "INVITE sip:bob@example.com SIP/2.0\r\n",
+  "INVITE sip:bob@example.com SIP/7.0\r\n\r\n",
+  "INVITE  sip:bob@example.com  SIP/2.0\r\n\r\n",
+  "SIP/2.0 200\r\n\r\n",
+  "SIP/2.0 99999 OK\r\n\r\n",
+  "SIP/2.0 200 OK\r\nVia: SIP/2.0/UDP 192.0.2.1\r\n\r\n",
+  INVITE.replace("Max-Forwards: 70", "Max-Forwards: seventy"),
+  INVITE.replace("Max-Forwards: 70", "Max-Forwards 70"),
+  INVITE.replace("Max-Forwards: 70", ": 70"),
+  INVITE.replace("Max-Forwards: 70", "Max Forwards: 70"),
+  INVITE.replace("CSeq: 314159 INVITE", "CSeq: -1 INVITE"),
+  INVITE.replace("CSeq: 314159 INVITE", "CSeq: 314159"),
+  INVITE.replace("Call-ID: a84b4c76e66710@192.0.2.1", "Call-ID: "),
+  INVITE.replace("Via: SIP/2.0/UDP 192.0.2.1:5060", "Via: SIP/2.0/UDP 192.0.2.1:99999999"),
+  INVITE.replace("Via: SIP/2.0/UDP", "Via: SIP/2.0"),
+  INVITE.replace("From: Alice <sip:alice@example.com>", 'From: "Alice <sip:alice@example.com>'),
+  INVITE.replace("To: Bob <sip:bob@example.com>", "To: Bob <sip:bob@example.com"),
+  INVITE.replace("Contact: <sip:alice@192.0.2.1>", "Contact: <sip:alice@[2001:db8::1>"),
+  INVITE.replace("Contact: <sip:alice@192.0.2.1>", "Contact: *, <sip:alice@192.0.2.1>"),
+  INVITE.replace("Content-Length: 14", "Content-Length: 99999999999999999999"),
+  INVITE.replace("Content-Length: 14", "Content-Length: -13"),
+  INVITE.replace("Content-Length: 14", "Content-Length: 1000"),
+  INVITE.replace("Content-Type: application/sdp", "Content-Type: application"),
+  INVITE.replace("\r\n\r\n", "\r\n"),
+  INVITE.replace(/\r\n/g, "\n"),
+  INVITE.replace("Max-Forwards: 70\r\n", "Max-Forwards: 70\r\n \r\n"),
+  INVITE.replace("Max-Forwards: 70\r\n", "Max-Forwards:\r\n 70\r\n"),
+  INVITE.replace("Max-Forwards: 70\r\n", "Max-Forwards: 70\r\nX-Null: \u0000\r\n"),
+  INVITE.replace("Max-Forwards: 70\r\n", "Max-Forwards: 70\r\nX-Unicode: é😀\r\n"),
+  INVITE.replace("Max-Forwards: 70\r\n", "Max-Forwards: 70\r\nX-Lone-Surrogate: \ud83d\r\n"),
+  INVITE.replace("INVITE sip:bob@example.com", 'INVITE sip:bob@example.com;lr="x'),
+  INVITE.replace("INVITE sip:bob@example.com", "INVITE sip:%zz@example.com"),
+  INVITE.replace("INVITE sip:bob@example.com", "INVITE tel:+1-212-555-0100"),
+  INVITE.replace("INVITE sip:bob@example.com", "INVITE mailto:bob@example.com"),
+  INVITE.replace("INVITE sip:bob@example.com", "ACK sip:bob@example.com").replace("INVITE\r\n", "ACK\r\n"),
+  "INVITE sip:" + "a".repeat(10000) + "@example.com SIP/2.0\r\n\r\n",
+  INVITE.replace("Max-Forwards: 70\r\n", "Max-Forwards: 70\r\n" + "X-Header: x\r\n".repeat(1000)),
+  INVITE.replace("Max-Forwards: 70\r\n", "Max-Forwards: 70\r\nX-Long: " + "x".repeat(100000) + "\r\n"),
+  INVITE.replace(
+    "Max-Forwards: 70\r\n",
+    "Max-Forwards: 70\r\n" + "Via: SIP/2.0/UDP 192.0.2.2;branch=z9hG4bK1\r\n".repeat(100)
+  )
+];
+
+/**
+ * Pseudorandom number generator, so that a failure can be reproduced.
+ * https://en.wikipedia.org/wiki/Xorshift
+ * @param seed - Seed.
+ */
+function makeRandom(seed: number): (max: number) => number {
+  let state = seed;
+  return (max: number): number => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) % max;
+  };
+}
+
+/**
+ * Mutate a message, flipping, deleting, duplicating and inserting characters and lines.
+ * @param message - Message to mutate.
+ * @param random - Pseudorandom number generator.
+ */
+function mutate(message: string, random: (max: number) => number): string {
+  const tokens = [
+    ":",
+    ";",
+    ",",
+    "<",
+    ">",
+    '"',
+    "\\",
+    "\r\n",
+    "\r\n ",
+    "\r\n\r\n",
+    "%",
+    "@",
+    "[",
+    "]",
+    "=",
+    " ",
+    "\u0000"
+  ];
+  let data = message;
+  const mutations = 1 + random(4);
+  for (let i = 0; i < mutations; i++) {
+    const position = random(data.length + 1);
+    switch (random(6)) {
+      case 0:
+        data = data.substring(0, position) + String.fromCharCode(random(256)) + data.substring(position + 1);
+        break;
+      case 1:
+        data = data.substring(0, position) + data.substring(position + 1 + random(16));
+        break;
+      case 2:
+        data = data.substring(0, position);
+        break;
+      case 3:
+        data = data.substring(0, position) + tokens[random(tokens.length)] + data.substring(position);
+        break;
+      case 4: {
+        const lines = data.split("\r\n");
+        const line = random(lines.length);
+        lines.splice(line, 0, lines[random(lines.length)]);
+        data = lines.join("\r\n");
+        break;
+      }
+      default: {
+        const lines = data.split("\r\n");
+        lines.splice(random(lines.length), 1);
+        data = lines.join("\r\n");
+        break;
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * The corpus and a thousand mutations of a well formed INVITE.
+ */
+function makeFuzzInputs(): Array<string> {
+  const random = makeRandom(0x5eed);
+  const inputs = CORPUS.slice();
+  for (let i = 0; i < 1000; i++) {
+    inputs.push(mutate(random(4) ? INVITE : CORPUS[random(CORPUS.length)], random));
+  }
+  return inputs;
+}
+
+const logger = {
+  error: (): void => undefined,
+  warn: (): void => undefined,
+  log: (): void => undefined,
+  debug: (): void => undefined
+} as unknown as Logger;
+
+describe("Core Parser", () => {
+  it("parses a well formed message without diagnostics", () => {
+    const result = Parser.parse(INVITE);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.message instanceof IncomingRequestMessage).toBe(true);
+    expect(result.message && result.message.body).toBe("v=0\r\no=- 0 0\r\n");
+  });
+
+  it("reports the header field, offset and reason of a header field which does not parse", () => {
+    const data = INVITE.replace("Max-Forwards: 70", "Max-Forwards: 7x");
+    const result = Parser.parse(data);
+    expect(result.diagnostics.length).toBe(1);
+    const diagnostic = result.diagnostics[0];
+    expect(diagnostic.header).toBe("Max-Forwards");
+    expect(diagnostic.offset).toBe(data.indexOf("7x") + 1);
+    expect(diagnostic.reason).toMatch(/^invalid Max-Forwards header field: Expected .* but "x" found\.$/);
+    expect(diagnostic.statusCode).toBe(400);
+    expect(diagnostic.fatal).toBe(true);
+  });
+
+  it("continues parsing after a header field which does not parse", () => {
+    const result = Parser.parse(INVITE.replace("Max-Forwards: 70", "Max-Forwards: 7x"));
+    const message = result.message;
+    expect(message && message.callId).toBe("a84b4c76e66710@192.0.2.1");
+    expect(message && message.cseq).toBe(314159);
+    expect(message && message.getHeader("max-forwards")).toBeUndefined();
+  });
+
+  it("reports a header field without a colon", () => {
+    const data = INVITE.replace("Max-Forwards: 70", "Max-Forwards 70");
+    const result = Parser.parse(data);
+    expect(result.diagnostics.map((d) => d.reason)).toEqual(["header field has no colon"]);
+    expect(result.diagnostics[0].offset).toBe(data.indexOf("Max-Forwards"));
+    expect(result.diagnostics[0].fatal).toBe(false);
+  });
+
+  it("keeps an optional header field which does not parse, unparsed", () => {
+    const result = Parser.parse(INVITE.replace("Content-Type: application/sdp", "Content-Type: application"));
+    expect(result.diagnostics.map((d) => [d.header, d.fatal])).toEqual([["Content-Type", false]]);
+    expect(result.message && result.message.getHeader("content-type")).toBe("application");
+    expect(result.message && result.message.body).toBe("v=0\r\no=- 0 0\r\n");
+  });
+
+  it("reports an invalid header field name", () => {
+    const result = Parser.parse(INVITE.replace("Max-Forwards: 70", "Max Forwards: 70"));
+    expect(result.diagnostics.map((d) => d.reason)).toEqual(["invalid header field name"]);
+  });
+
+  it("reports an invalid start-line without a message", () => {
+    const result = Parser.parse("INVITE sip:bob@example.com HTTP/1.1\r\n\r\n");
+    expect(result.message).toBeUndefined();
+    expect(result.diagnostics.length).toBe(1);
+    expect(result.diagnostics[0].reason).toMatch(/^invalid start-line: /);
+  });
+
+  it("limits the length of the start-line", () => {
+    const result = Parser.parse(INVITE, { ...Parser.defaultLimits, maxStartLineLength: 16 });
+    expect(result.message).toBeUndefined();
+    expect(result.diagnostics.map((d) => d.reason)).toEqual(["start-line is too long"]);
+  });
+
+  it("limits the number of header fields", () => {
+    const result = Parser.parse(INVITE, { ...Parser.defaultLimits, maxHeaderCount: 4 });
+    expect(result.diagnostics.map((d) => d.reason)).toEqual(["too many header fields"]);
+    expect(result.message && result.message.hasHeader("call-id")).toBe(false);
+  });
+
+  it("limits the length of the body", () => {
+    const result = Parser.parse(INVITE, { ...Parser.defaultLimits, maxBodyLength: 8 });
+    expect(result.diagnostics.map((d) => d.reason)).toEqual(["message body is too large"]);
+    expect(result.diagnostics[0].statusCode).toBe(513);
+    expect(result.message && result.message.body).toBe("");
+  });
+
+  it("parseMessage returns undefined for a malformed message", () => {
+    expect(Parser.parseMessage(INVITE, logger)).toBeDefined();
+    expect(Parser.parseMessage(INVITE.replace("Max-Forwards: 70", "Max-Forwards: 7x"), logger)).toBeUndefined();
+  });
+});
+
+describe("Core Parser fuzz corpus", () => {
+  const inputs = makeFuzzInputs();
+
+  it("parses every input without throwing", () => {
+    inputs.forEach((input) => {
+      expect(() => Parser.parse(input)).not.toThrow();
+    });
+  });
+
+  describe("a user agent receiving every input", () => {
+    let bob: UserFake;
+
+    beforeEach(async () => {
+      jasmine.clock().install();
+      bob = await makeUserFake("bob", "example.com", "Bob", { logBuiltinEnabled: false });
+    });
+
+    afterEach(async () => {
+      return bob.userAgent
+        .stop()
+        .then(() => expect(bob.isShutdown()).toBe(true))
+        .then(() => jasmine.clock().uninstall());
+    });
+
+    it("does not throw", () => {
+      inputs.forEach((input) => {
+        expect(() => bob.transport.receive(input)).not.toThrow();
+      });
+    });
+  });
+
+  describe("a user agent receiving a request with a header field which does not parse", () => {
+    let bob: UserFake;
+
+    beforeEach(async () => {
+      jasmine.clock().install();
+      bob = await makeUserFake("bob", "example.com", "Bob", { logBuiltinEnabled: false });
+      bob.transport.receive(INVITE.replace("Max-Forwards: 70", "Max-Forwards: 7x"));
+    });
+
+    afterEach(async () => {
+      return bob.userAgent
+        .stop()
+        .then(() => expect(bob.isShutdown()).toBe(true))
+        .then(() => jasmine.clock().uninstall());
+    });
+
+    it("sends a 400 response with a Warning header field saying why", () => {
+      expect(bob.transportSendSpy).toHaveBeenCalledTimes(1);
+      const response: string = bob.transportSendSpy.calls.first().args[0];
+      expect(response).toMatch(/^SIP\/2\.0 400 Bad Request\r\n/);
+      expect(response).toMatch(/\r\nCall-ID: a84b4c76e66710@192\.0\.2\.1\r\n/);
+      expect(response).toMatch(
+        /\r\nWarning: 399 [^ ]+ "Max-Forwards: invalid Max-Forwards header field: Expected .*\\"x\\" found\. \(offset \d+\)"\r\n/
+      );
+    });
+  });
+
+  describe("a user agent receiving a request with an optional header field which does not parse", () => {
+    let bob: UserFake;
+    let onInvite: jasmine.Spy;
+
+    beforeEach(async () => {
+      jasmine.clock().install();
+      bob = await makeUserFake("bob", "example.com", "Bob", { logBuiltinEnabled: false });
+      onInvite = jasmine.createSpy("onInvite");
+      bob.userAgent.delegate = { onInvite };
+      bob.transport.receive(INVITE.replace("Contact: ", "Record-Route: <sip:proxy.example.com;lr\r\nContact: "));
+      await soon();
+    });
+
+    afterEach(async () => {
+      return bob.userAgent
+        .stop()
+        .then(() => expect(bob.isShutdown()).toBe(true))
+        .then(() => jasmine.clock().uninstall());
+    });
+
+    it("processes the request", () => {
+      expect(onInvite).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("a user agent receiving a request without the header fields needed to respond", () => {
+    let bob: UserFake;
+
+    beforeEach(async () => {
+      jasmine.clock().install();
+      bob = await makeUserFake("bob", "example.com", "Bob", { logBuiltinEnabled: false });
+      bob.transport.receive(INVITE.replace("Call-ID: a84b4c76e66710@192.0.2.1", "Call-ID: "));
+    });
+
+    afterEach(async () => {
+      return bob.userAgent
+        .stop()
+        .then(() => expect(bob.isShutdown()).toBe(true))
+        .then(() => jasmine.clock().uninstall());
+    });
+
+    it("drops the request", () => {
+      expect(bob.transportSendSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -16,6 +16,7 @@ import {
   Transaction,
   TransactionState,
   TransactionUser,
+  Timers,
   Transport
 } from "../../../lib/core/index.js";
 import { URI } from "../../../lib/grammar/index.js";
@@ -124,6 +125,13 @@ const makeMockTransport = (): jasmine.SpyObj<Transport> => {
   return transport;
 };
 
+/** Mocked unreliable transport factory function. */
+const makeMockUnreliableTransport = (): jasmine.SpyObj<Transport> => {
+  const transport = jasmine.createSpyObj<Transport>("Transport", ["send"], { protocol: "UDP" });
+  transport.send.and.returnValue(Promise.resolve());
+  return transport;
+};
+
 // Helper types for factory functions.
 type TransactionFactory = (transport: Transport, user: TransactionUser) => Transaction;
 type ClientTransactionFactory = (
@@ -1350,3 +1358,202 @@ describe("Core Transactions", () => {
     });
   });
 });
+
+// https://tools.ietf.org/html/rfc3261#section-17
+describe("Core Transactions over an unreliable transport", () => {
+  let transport: jasmine.SpyObj<Transport>;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    transport = makeMockUnreliableTransport();
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  // https://tools.ietf.org/html/rfc3261#section-17.1.1.2
+  describe("InviteClientTransaction", () => {
+    let user: jasmine.SpyObj<Required<ClientTransactionUser>>;
+    let transaction: InviteClientTransaction;
+
+    beforeEach(() => {
+      user = makeClientTransactionUser();
+      transaction = new InviteClientTransaction(makeMockOutgoingRequest(), transport, user);
+    });
+
+    afterEach(() => {
+      transaction.dispose();
+    });
+
+    it("is not reliable", () => {
+      expect(transaction.reliable).toBe(false);
+    });
+
+    it("retransmits the request with intervals that double in 'calling' state (timer A)", () => {
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      jasmine.clock().tick(Timers.T1);
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      jasmine.clock().tick(Timers.T1 * 2);
+      expect(transport.send).toHaveBeenCalledTimes(3);
+      jasmine.clock().tick(Timers.T1 * 4 - 1);
+      expect(transport.send).toHaveBeenCalledTimes(3);
+      jasmine.clock().tick(1);
+      expect(transport.send).toHaveBeenCalledTimes(4);
+      expect(transport.send.calls.mostRecent().args[0]).toBe("request");
+    });
+
+    it("stops retransmitting the request upon a 1xx response", () => {
+      transaction.receiveResponse(makeMockIncomingResponse(100, ""));
+      jasmine.clock().tick(Timers.TIMER_B);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      expect(transaction.state).toBe(TransactionState.Proceeding);
+    });
+
+    it("times out after timer B if no response is received", () => {
+      jasmine.clock().tick(Timers.TIMER_B);
+      expect(user.onRequestTimeout).toHaveBeenCalledTimes(1);
+      expect(transaction.state).toBe(TransactionState.Terminated);
+    });
+
+    it("remains in 'completed' state until timer D fires upon a 300-699 response", () => {
+      transaction.receiveResponse(makeMockIncomingResponse(486, "totag"));
+      expect(transaction.state).toBe(TransactionState.Completed);
+      jasmine.clock().tick(Timers.TIMER_D - 1);
+      expect(transaction.state).toBe(TransactionState.Completed);
+      jasmine.clock().tick(1);
+      expect(transaction.state).toBe(TransactionState.Terminated);
+    });
+  });
+
+  // https://tools.ietf.org/html/rfc3261#section-17.1.2.2
+  describe("NonInviteClientTransaction", () => {
+    let user: jasmine.SpyObj<Required<ClientTransactionUser>>;
+    let transaction: NonInviteClientTransaction;
+
+    beforeEach(() => {
+      user = makeClientTransactionUser();
+      transaction = new NonInviteClientTransaction(makeMockOutgoingRequest(), transport, user);
+    });
+
+    afterEach(() => {
+      transaction.dispose();
+    });
+
+    it("retransmits the request with intervals that double up to T2 in 'trying' state (timer E)", () => {
+      let elapsed = 0;
+      let interval: number = Timers.T1;
+      let sent = 1;
+      while (elapsed + interval < Timers.TIMER_F) {
+        jasmine.clock().tick(interval);
+        elapsed += interval;
+        sent++;
+        expect(transport.send).toHaveBeenCalledTimes(sent);
+        interval = Math.min(interval * 2, Timers.T2);
+      }
+    });
+
+    it("retransmits the request every T2 in 'proceeding' state (timer E)", () => {
+      transaction.receiveResponse(makeMockIncomingResponse(100, ""));
+      jasmine.clock().tick(Timers.T1);
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      jasmine.clock().tick(Timers.T2 - 1);
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      jasmine.clock().tick(1);
+      expect(transport.send).toHaveBeenCalledTimes(3);
+    });
+
+    it("times out after timer F and stops retransmitting", () => {
+      jasmine.clock().tick(Timers.TIMER_F);
+      expect(user.onRequestTimeout).toHaveBeenCalledTimes(1);
+      expect(transaction.state).toBe(TransactionState.Terminated);
+      const sent = transport.send.calls.count();
+      jasmine.clock().tick(Timers.T2 * 2);
+      expect(transport.send).toHaveBeenCalledTimes(sent);
+    });
+
+    it("remains in 'completed' state until timer K fires upon a final response", () => {
+      transaction.receiveResponse(makeMockIncomingResponse(200, "totag"));
+      expect(transaction.state).toBe(TransactionState.Completed);
+      jasmine.clock().tick(Timers.TIMER_K - 1);
+      expect(transaction.state).toBe(TransactionState.Completed);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      jasmine.clock().tick(1);
+      expect(transaction.state).toBe(TransactionState.Terminated);
+    });
+  });
+
+  // https://tools.ietf.org/html/rfc3261#section-17.2.1
+  describe("InviteServerTransaction", () => {
+    let request: jasmine.SpyObj<IncomingRequestMessage>;
+    let user: jasmine.SpyObj<Required<ServerTransactionUser>>;
+    let transaction: InviteServerTransaction;
+
+    beforeEach(() => {
+      request = makeMockIncomingRequest("INVITE");
+      user = makeServerTransactionUser();
+      transaction = new InviteServerTransaction(request, transport, user);
+      transaction.receiveResponse(486, "response");
+    });
+
+    afterEach(() => {
+      transaction.dispose();
+    });
+
+    it("retransmits the final response with intervals that double up to T2 in 'completed' state (timer G)", () => {
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      jasmine.clock().tick(Timers.T1);
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      jasmine.clock().tick(Timers.T1 * 2);
+      expect(transport.send).toHaveBeenCalledTimes(3);
+      jasmine.clock().tick(Timers.T1 * 4);
+      expect(transport.send).toHaveBeenCalledTimes(4);
+      jasmine.clock().tick(Timers.T2);
+      expect(transport.send).toHaveBeenCalledTimes(5);
+      jasmine.clock().tick(Timers.T2);
+      expect(transport.send).toHaveBeenCalledTimes(6);
+    });
+
+    it("terminates after timer H if an ACK is never received", () => {
+      jasmine.clock().tick(Timers.TIMER_H);
+      expect(transaction.state).toBe(TransactionState.Terminated);
+    });
+
+    it("stops retransmitting upon an ACK and remains in 'confirmed' state until timer I fires", () => {
+      transaction.receiveRequest(makeMockIncomingRequest("ACK"));
+      expect(transaction.state).toBe(TransactionState.Confirmed);
+      jasmine.clock().tick(Timers.TIMER_I - 1);
+      expect(transaction.state).toBe(TransactionState.Confirmed);
+      expect(transport.send).toHaveBeenCalledTimes(1);
+      jasmine.clock().tick(1);
+      expect(transaction.state).toBe(TransactionState.Terminated);
+    });
+  });
+
+  // https://tools.ietf.org/html/rfc3261#section-17.2.2
+  describe("NonInviteServerTransaction", () => {
+    let request: jasmine.SpyObj<IncomingRequestMessage>;
+    let user: jasmine.SpyObj<Required<ServerTransactionUser>>;
+    let transaction: NonInviteServerTransaction;
+
+    beforeEach(() => {
+      request = makeMockIncomingRequest("OPTIONS");
+      user = makeServerTransactionUser();
+      transaction = new NonInviteServerTransaction(request, transport, user);
+      transaction.receiveResponse(200, "response");
+    });
+
+    afterEach(() => {
+      transaction.dispose();
+    });
+
+    it("absorbs request retransmissions in 'completed' state until timer J fires", () => {
+      jasmine.clock().tick(Timers.TIMER_J - 1);
+      expect(transaction.state).toBe(TransactionState.Completed);
+      transaction.receiveRequest(request);
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      jasmine.clock().tick(1);
+      expect(transaction.state).toBe(TransactionState.Terminated);
+    });
+  });
+});
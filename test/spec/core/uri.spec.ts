@@ -491,4 +491,74 @@ describe("Core URI", () => {
       }
     });
   });
+
+  describe(".equals", () => {
+    function parse(value: string): URI {
+      const uri = Grammar.URIParse(value);
+      if (!uri) {
+        throw new Error(`Failed to parse "${value}".`);
+      }
+      return uri;
+    }
+
+    function itEquals(a: string, b: string, expected: boolean): void {
+      it(`${a} ${expected ? "equals" : "does not equal"} ${b}`, () => {
+        expect(parse(a).equals(parse(b))).toBe(expected);
+        expect(parse(b).equals(parse(a))).toBe(expected);
+      });
+    }
+
+    itEquals("sip:%61lice@atlanta.com", "sip:alice@atlanta.com", true);
+    itEquals("sip:alice@atlanta.com;foo=%62ar", "sip:alice@atlanta.com;FOO=BAR", true);
+    itEquals("sip:alice@atlanta.com;transport=TCP;ob", "sip:alice@ATLANTA.com;ob;transport=tcp", true);
+    itEquals("sip:alice@atlanta.com?subject=%70roject", "sip:alice@atlanta.com?subject=project", true);
+    itEquals("sip:alice@atlanta.com", "sip:atlanta.com", false);
+    itEquals("sip:alice@atlanta.com", "sips:alice@atlanta.com", false);
+    itEquals("sip:alice@atlanta.com;maddr=239.255.255.1", "sip:alice@atlanta.com", false);
+    itEquals("sip:alice@atlanta.com;user=phone", "sip:alice@atlanta.com", false);
+    itEquals("sip:alice@atlanta.com;ttl=1", "sip:alice@atlanta.com", false);
+    itEquals("sip:alice@atlanta.com;method=INVITE", "sip:alice@atlanta.com;method=invite", true);
+    itEquals("tel:+1-212-555-0100", "tel:+12125550100", true);
+    itEquals("tel:+12125550100;ext=22", "tel:+12125550100", false);
+    itEquals("tel:7042;phone-context=EXAMPLE.com", "tel:7042;phone-context=example.com", true);
+    itEquals("tel:+12125550100", "sip:+12125550100@example.com", false);
+  });
+
+  describe("tel URI", () => {
+    it("parses a global number, ignoring visual separators", () => {
+      const tel = Grammar.URIParse("tel:+1-212-555-0100;ext=22");
+      expect(tel && tel.scheme).toBe("tel");
+      expect(tel && tel.user).toBe("+12125550100");
+      expect(tel && tel.host).toBe("");
+      expect(tel && tel.getParam("ext")).toBe("22");
+      expect(tel && tel.toString()).toBe("tel:+12125550100;ext=22");
+      expect(tel && tel.toRaw()).toBe("tel:+1-212-555-0100;ext=22");
+    });
+
+    it("parses a local number with a phone-context", () => {
+      const tel = Grammar.URIParse("tel:7042;phone-context=example.com");
+      expect(tel && tel.user).toBe("7042");
+      expect(tel && tel.getParam("phone-context")).toBe("example.com");
+      expect(tel && tel.clone().toString()).toBe("tel:7042;phone-context=example.com");
+    });
+
+    it("rejects a local number without a phone-context", () => {
+      expect(Grammar.URIParse("tel:7042")).toBeUndefined();
+      expect(Grammar.URIParse("tel:+")).toBeUndefined();
+    });
+
+    it("parses as the URI of a name-addr", () => {
+      const to = Grammar.parse('"Bob" <tel:+1-212-555-0100>;tag=1234', "To");
+      expect(to !== -1 && to.uri.toString()).toBe("tel:+12125550100");
+      expect(to !== -1 && to.getParam("tag")).toBe("1234");
+    });
+  });
+
+  describe("sips URI", () => {
+    it("parses", () => {
+      const sips = Grammar.URIParse("sips:alice@example.com;transport=tcp");
+      expect(sips && sips.scheme).toBe("sips");
+      expect(sips && sips.toString()).toBe("sips:alice@example.com;transport=tcp");
+    });
+  });
 });
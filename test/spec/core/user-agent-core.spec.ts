@@ -14,6 +14,7 @@ import {
   IncomingRequestWithSubscription,
   IncomingResponse,
   IncomingResponseMessage,
+  IncomingUpdateRequest,
   InviteClientTransaction,
   InviteUserAgentClient,
   OutgoingInviteRequest,
@@ -89,6 +90,11 @@ describe("Core UserAgentCore", () => {
     coreBob.dispose();
   });
 
+  it("has a transport which is made once and passes through the properties of the user agent's", () => {
+    expect(coreAlice.transport).toBe(coreAlice.transport);
+    expect(coreAlice.transport.protocol).toBe(transportAlice.protocol);
+  });
+
   describe("Session Initiation", () => {
     describe("Alice sends Bob an INVITE and...", () => {
       let ruri: URI;
@@ -616,6 +622,80 @@ describe("Core UserAgentCore", () => {
           expect(transportBob.send.calls.all()[3].args[0]).toMatch(new RegExp(`^SIP/2.0 200 OK`));
         });
       });
+
+      describe("Bob accepts with Answer in reliable 183, then sends UPDATE with Offer in the early dialog", () => {
+        let sessionAlice: Session;
+        let sessionBob: Session;
+
+        beforeEach((done) => {
+          coreBob.delegate = {
+            onInvite: (incomingRequest: IncomingInviteRequest): void => {
+              const response = incomingRequest.progress({
+                statusCode: 183,
+                extraHeaders: [`RSeq: 1`],
+                body: { contentDisposition: "session", contentType: "application/sdp", content: "Answer" }
+              });
+              sessionBob = response.session;
+              sessionBob.delegate = {
+                onPrack: (prack: IncomingPrackRequest): void => {
+                  prack.accept();
+                  sessionBob.update(undefined, {
+                    extraHeaders: [`Contact: ${uaBob.contact.toString()}`],
+                    body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Offer" }
+                  }).delegate = {
+                    onAccept: (): void => {
+                      incomingRequest.accept();
+                    }
+                  };
+                }
+              };
+            }
+          };
+          delegate.onAccept.and.callFake((response: AckableIncomingResponseWithSession) => {
+            response.ack();
+          });
+          delegate.onProgress.and.callFake((response: PrackableIncomingResponseWithSession) => {
+            sessionAlice = response.session;
+            sessionAlice.delegate = {
+              onUpdate: (update: IncomingUpdateRequest): void => {
+                update.accept({
+                  statusCode: 200,
+                  body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Answer" }
+                });
+              }
+            };
+            response.prack({
+              extraHeaders: [`RAck: ${response.message.getHeader("rseq")} ${response.message.getHeader("cseq")}`]
+            });
+          });
+          request = coreAlice.invite(message);
+          request.delegate = delegate;
+          setTimeout(() => done(), 10); // transport calls are async, so give it some time
+        });
+
+        it("Alice's UAC sends an INVITE, a PRACK, a 200 Ok with Answer to the UPDATE, and an ACK", () => {
+          expect(transportAlice.send).toHaveBeenCalledTimes(4);
+          expect(transportAlice.send.calls.all()[1].args[0]).toMatch(
+            new RegExp(`^PRACK ${uaBob.contact.uri.toString()} SIP/2.0`)
+          );
+          expect(transportAlice.send.calls.all()[2].args[0]).toMatch(new RegExp(`^SIP/2.0 200 OK`));
+          expect(transportAlice.send.calls.all()[3].args[0]).toMatch(
+            new RegExp(`^ACK ${uaBob.contact.uri.toString()} SIP/2.0`)
+          );
+          expect(sessionAlice.signalingState).toBe(SignalingState.Stable);
+          expect(sessionAlice.answer && sessionAlice.answer.content).toBe("Update Answer");
+        });
+
+        it("Bob's UAS sends 183, 200 Ok to the PRACK, an UPDATE, then 200 Ok, and has stable session", () => {
+          expect(transportBob.send).toHaveBeenCalledTimes(4);
+          expect(transportBob.send.calls.all()[2].args[0]).toMatch(
+            new RegExp(`^UPDATE ${uaAlice.contact.uri.toString()} SIP/2.0`)
+          );
+          expect(transportBob.send.calls.all()[3].args[0]).toMatch(new RegExp(`^SIP/2.0 200 OK`));
+          expect(sessionBob.signalingState).toBe(SignalingState.Stable);
+          expect(sessionBob.answer && sessionBob.answer.content).toBe("Update Answer");
+        });
+      });
     });
 
     describe("Alice sends Bob an INVITE without an Offer and...", () => {
@@ -930,6 +1010,118 @@ describe("Core UserAgentCore", () => {
           });
         });
 
+        describe("Alice sends an in dialog UPDATE with Offer", () => {
+          beforeEach((done) => {
+            sessionBobDelegate.onUpdate.and.callFake((incomingRequest: IncomingUpdateRequest) => {
+              incomingRequest.accept({
+                statusCode: 200,
+                extraHeaders: [`Contact: ${uaBob.contact.toString()}`],
+                body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Answer" }
+              });
+            });
+            sessionAlice.update(undefined, {
+              extraHeaders: [`Contact: ${uaAlice.contact.toString()}`],
+              body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Offer" }
+            });
+            setTimeout(() => done(), 10); // transport calls are async, so give it some time
+          });
+
+          it("Alice's UAC sends an UPDATE, and has stable session with the Answer", () => {
+            expect(transportAlice.send).toHaveBeenCalledTimes(3);
+            expect(transportAlice.send.calls.mostRecent().args[0]).toMatch(
+              new RegExp(`^UPDATE ${uaBob.contact.uri.toString()} SIP/2.0`)
+            );
+            expect(sessionAlice.signalingState).toBe(SignalingState.Stable);
+            expect(sessionAlice.answer && sessionAlice.answer.content).toBe("Update Answer");
+          });
+
+          it("Bob's UAS receives an UPDATE, sends 200 Ok with Answer, and has stable session", () => {
+            expect(sessionBobDelegate.onUpdate).toHaveBeenCalledTimes(1);
+            expect(transportBob.send).toHaveBeenCalledTimes(4);
+            expect(transportBob.send.calls.mostRecent().args[0]).toMatch(new RegExp(`^SIP/2.0 200 OK`));
+            expect(sessionBob.signalingState).toBe(SignalingState.Stable);
+            expect(sessionBob.offer && sessionBob.offer.content).toBe("Update Offer");
+          });
+
+          it("should throw if attempt another with Offer before first completed", () => {
+            sessionBobDelegate.onUpdate.and.callFake(() => {
+              return;
+            });
+            sessionAlice.update(undefined, {
+              extraHeaders: [`Contact: ${uaAlice.contact.toString()}`],
+              body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Offer" }
+            });
+            expect(() =>
+              sessionAlice.update(undefined, {
+                extraHeaders: [`Contact: ${uaAlice.contact.toString()}`],
+                body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Offer" }
+              })
+            ).toThrow();
+          });
+        });
+
+        describe("Alice sends an in dialog UPDATE with Offer, which Bob rejects", () => {
+          beforeEach((done) => {
+            sessionBobDelegate.onUpdate.and.callFake((incomingRequest: IncomingUpdateRequest) => {
+              incomingRequest.reject({ statusCode: 488 });
+            });
+            sessionAlice.update(undefined, {
+              extraHeaders: [`Contact: ${uaAlice.contact.toString()}`],
+              body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Offer" }
+            });
+            setTimeout(() => done(), 10); // transport calls are async, so give it some time
+          });
+
+          it("Alice's UAC rolls back to the previous Offer and Answer", () => {
+            expect(sessionAlice.signalingState).toBe(SignalingState.Stable);
+            expect(sessionAlice.offer && sessionAlice.offer.content).toBe("Offer");
+            expect(sessionAlice.answer && sessionAlice.answer.content).toBe("Answer");
+          });
+
+          it("Bob's UAS sends 488 and rolls back to the previous Offer and Answer", () => {
+            expect(transportBob.send.calls.mostRecent().args[0]).toMatch(new RegExp(`^SIP/2.0 488`));
+            expect(sessionBob.signalingState).toBe(SignalingState.Stable);
+            expect(sessionBob.offer && sessionBob.offer.content).toBe("Offer");
+            expect(sessionBob.answer && sessionBob.answer.content).toBe("Answer");
+          });
+        });
+
+        describe("Alice and Bob send UPDATE with Offer at same time (glare)", () => {
+          beforeEach((done) => {
+            sessionAlice.update(undefined, {
+              extraHeaders: [`Contact: ${uaAlice.contact.toString()}`],
+              body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Offer" }
+            });
+            sessionBob.update(undefined, {
+              extraHeaders: [`Contact: ${uaBob.contact.toString()}`],
+              body: { contentDisposition: "session", contentType: "application/sdp", content: "Update Offer" }
+            });
+            setTimeout(() => done(), 10); // transport calls are async, so give it some time
+          });
+
+          it("Alice's UAC sends an UPDATE which is rejected with 491 Request Pending", () => {
+            expect(sessionAliceDelegate.onUpdate).toHaveBeenCalledTimes(0);
+            expect(transportAlice.send).toHaveBeenCalledTimes(4);
+            expect(transportAlice.send.calls.all()[2].args[0]).toMatch(
+              new RegExp(`^UPDATE ${uaBob.contact.uri.toString()} SIP/2.0`)
+            );
+            expect(transportAlice.send.calls.all()[3].args[0]).toMatch(new RegExp(`^SIP/2.0 491 Request Pending`));
+            expect(sessionAlice.signalingState).toBe(SignalingState.Stable);
+            expect(sessionAlice.answer && sessionAlice.answer.content).toBe("Answer");
+          });
+
+          it("Bob's UAC sends an UPDATE which is rejected with 491 Request Pending", () => {
+            expect(sessionBobDelegate.onUpdate).toHaveBeenCalledTimes(0);
+            expect(transportBob.send).toHaveBeenCalledTimes(5);
+            expect(transportBob.send.calls.all()[3].args[0]).toMatch(
+              new RegExp(`^UPDATE ${uaAlice.contact.uri.toString()} SIP/2.0`)
+            );
+            expect(transportBob.send.calls.all()[4].args[0]).toMatch(new RegExp(`^SIP/2.0 491 Request Pending`));
+            expect(sessionBob.signalingState).toBe(SignalingState.Stable);
+            expect(sessionBob.answer && sessionBob.answer.content).toBe("Answer");
+          });
+        });
+
         describe("Alice sends an in dialog MESSAGE", () => {
           beforeEach((done) => {
             sessionBobDelegate.onMessage.and.callFake((incomingRequest: IncomingMessageRequest) => {
@@ -1471,6 +1663,36 @@ describe("Core UserAgentCore", () => {
 
     // https://tools.ietf.org/html/rfc3261#section-8.2.2.1
     describe("upon receiving a request with unsupported ruri scheme", () => {
+      beforeEach(() => {
+        const message = makeBadMessage();
+        message.ruri = new URI("im", "alice", "example.com", undefined);
+        coreAlice.receiveIncomingRequestFromTransport(message);
+      });
+
+      it("Alice's UAS rejects with 416 Unsupported URI Scheme", () => {
+        expect(transportAlice.send).toHaveBeenCalledTimes(1);
+        expect(transportAlice.send.calls.mostRecent().args[0]).toMatch(
+          new RegExp(`^SIP/2.0 416 Unsupported URI Scheme`)
+        );
+      });
+    });
+
+    // https://tools.ietf.org/html/rfc3261#section-8.2.2.1
+    describe("upon receiving a request with tel ruri", () => {
+      beforeEach(() => {
+        const message = makeBadMessage();
+        message.ruri = new URI("tel", "+1-212-555-0100", "", undefined);
+        coreAlice.receiveIncomingRequestFromTransport(message);
+      });
+
+      it("Alice's UAS does not reject the scheme, but rejects the unmatched number with 404 Not Found", () => {
+        expect(transportAlice.send).toHaveBeenCalledTimes(1);
+        expect(transportAlice.send.calls.mostRecent().args[0]).toMatch(new RegExp(`^SIP/2.0 404 Not Found`));
+      });
+    });
+
+    // https://tools.ietf.org/html/rfc3261#section-19.1
+    describe("upon receiving a request with sips ruri over an insecure transport", () => {
       beforeEach(() => {
         const message = makeBadMessage();
         message.ruri = new URI("sips", "alice", "example.com", undefined);
@@ -0,0 +1,94 @@
+import { StreamParser } from "../../../../lib/platform/node/transport/stream-parser.js";
+
+const encode = (data: string): Uint8Array => new TextEncoder().encode(data);
+
+const message = (body = ""): string =>
+  "OPTIONS sip:bob@example.com SIP/2.0\r\n" +
+  "Via: SIP/2.0/TCP 192.0.2.1:5060;branch=z9hG4bK776asdhds\r\n" +
+  "Call-ID: a84b4c76e66710\r\n" +
+  "CSeq: 1 OPTIONS\r\n" +
+  `Content-Length: ${encode(body).length}\r\n` +
+  "\r\n" +
+  body;
+
+describe("Node Transport StreamParser", () => {
+  let parser: StreamParser;
+
+  beforeEach(() => {
+    parser = new StreamParser();
+  });
+
+  it("parses a message without a body", () => {
+    const msg = message();
+    expect(parser.parse(encode(msg))).toEqual([msg]);
+  });
+
+  it("parses a message with a body", () => {
+    const msg = message("v=0\r\n");
+    expect(parser.parse(encode(msg))).toEqual([msg]);
+  });
+
+  it("parses a message with a body containing multi-byte characters", () => {
+    const msg = message("Grüße, 世界");
+    expect(parser.parse(encode(msg))).toEqual([msg]);
+  });
+
+  it("parses a message split across multiple chunks", () => {
+    const msg = message("v=0\r\n");
+    const data = encode(msg);
+    const messages: Array<string> = [];
+    for (let i = 0; i < data.length; i += 7) {
+      messages.push(...parser.parse(data.subarray(i, i + 7)));
+    }
+    expect(messages).toEqual([msg]);
+  });
+
+  it("parses multiple messages in a single chunk", () => {
+    const msg1 = message();
+    const msg2 = message("v=0\r\n");
+    expect(parser.parse(encode(msg1 + msg2 + msg1))).toEqual([msg1, msg2, msg1]);
+  });
+
+  it("parses a message with a compact form Content-Length", () => {
+    const msg = "OPTIONS sip:bob@example.com SIP/2.0\r\nl: 3\r\n\r\nabc";
+    expect(parser.parse(encode(msg))).toEqual([msg]);
+  });
+
+  it("assumes a zero length body if Content-Length is missing", () => {
+    const msg = "OPTIONS sip:bob@example.com SIP/2.0\r\nCSeq: 1 OPTIONS\r\n\r\n";
+    expect(parser.parse(encode(msg + msg))).toEqual([msg, msg]);
+  });
+
+  it("passes through keep-alive pings and pongs", () => {
+    const msg = message();
+    expect(parser.parse(encode("\r\n\r\n" + msg + "\r\n"))).toEqual(["\r\n\r\n", msg, "\r\n"]);
+  });
+
+  it("waits for the second half of a ping split across chunks", () => {
+    expect(parser.parse(encode("\r\n\r"))).toEqual([]);
+    expect(parser.parse(encode("\n"))).toEqual(["\r\n\r\n"]);
+  });
+
+  it("throws on an invalid Content-Length and resets", () => {
+    const msg = "OPTIONS sip:bob@example.com SIP/2.0\r\nContent-Length: abc\r\n\r\n";
+    expect(() => parser.parse(encode(msg))).toThrowError();
+    const valid = message();
+    expect(parser.parse(encode(valid))).toEqual([valid]);
+  });
+
+  it("throws on a CR not followed by LF", () => {
+    expect(() => parser.parse(encode("\rX"))).toThrowError();
+  });
+
+  it("throws if a message exceeds the maximum message size", () => {
+    parser = new StreamParser(100);
+    expect(() => parser.parse(encode(message("x".repeat(100))))).toThrowError();
+  });
+
+  it("throws if message headers exceed the maximum message size", () => {
+    parser = new StreamParser(100);
+    expect(() =>
+      parser.parse(encode("OPTIONS sip:bob@example.com SIP/2.0\r\n" + "X: y\r\n".repeat(20)))
+    ).toThrowError();
+  });
+});
@@ -0,0 +1,233 @@
+import { TransportState } from "../../../../lib/api/index.js";
+import { LoggerFactory, Resolver } from "../../../../lib/core/index.js";
+import { TcpTransport } from "../../../../lib/platform/node/index.js";
+import { StreamServer } from "../../../support/platform/node/stream-server.js";
+
+const request = (cseq: number): string =>
+  "OPTIONS sip:bob@127.0.0.1 SIP/2.0\r\n" +
+  "Via: SIP/2.0/TCP 127.0.0.1:5060;branch=z9hG4bK776asdhds\r\n" +
+  "Call-ID: a84b4c76e66710\r\n" +
+  `CSeq: ${cseq} OPTIONS\r\n` +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+const response = (via: string, body = ""): string =>
+  "SIP/2.0 200 OK\r\n" +
+  `Via: SIP/2.0/TCP ${via};branch=z9hG4bK776asdhds\r\n` +
+  "Call-ID: a84b4c76e66710\r\n" +
+  "CSeq: 1 OPTIONS\r\n" +
+  `Content-Length: ${body.length}\r\n` +
+  "\r\n" +
+  body;
+
+const invite = (via: string): string =>
+  "INVITE sip:alice@127.0.0.1 SIP/2.0\r\n" +
+  `Via: SIP/2.0/TCP ${via};branch=z9hG4bKnashds8\r\n` +
+  "Call-ID: 3848276298220188511\r\n" +
+  "CSeq: 1 INVITE\r\n" +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+const ringing = (via: string): string =>
+  "SIP/2.0 180 Ringing\r\n" +
+  `Via: SIP/2.0/TCP ${via};branch=z9hG4bKnashds8\r\n` +
+  "Call-ID: 3848276298220188511\r\n" +
+  "CSeq: 1 INVITE\r\n" +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+describe("Node TcpTransport", () => {
+  const log = new LoggerFactory();
+  log.builtinEnabled = false;
+  const logger = log.getLogger("sip.TcpTransport");
+  let server: StreamServer;
+  let transport: TcpTransport;
+  let onDisconnect: jasmine.Spy;
+  let onMessage: jasmine.Spy;
+
+  function soon(timeout = 1): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, timeout));
+  }
+
+  function messaged(count = 1): Promise<void> {
+    return new Promise((resolve) =>
+      onMessage.and.callFake(() => {
+        if (onMessage.calls.count() === count) {
+          resolve();
+        }
+      })
+    );
+  }
+
+  beforeEach(async () => {
+    server = new StreamServer();
+    await server.listen();
+    transport = new TcpTransport(logger, { server: `tcp://127.0.0.1:${server.port}` });
+    onDisconnect = jasmine.createSpy("onDisconnect");
+    onMessage = jasmine.createSpy("onMessage");
+    transport.onDisconnect = onDisconnect;
+    transport.onMessage = onMessage;
+  });
+
+  afterEach(async () => {
+    await transport.dispose();
+    await server.close();
+  });
+
+  it("is reliable", () => {
+    expect(transport.protocol).toBe("TCP");
+    expect(transport.reliable).toBe(true);
+  });
+
+  it("fails to connect if nothing listens on the server port", async () => {
+    await server.close();
+    await expectAsync(transport.connect()).toBeRejectedWithError(/closed/);
+    expect(transport.state).toBe(TransportState.Disconnected);
+  });
+
+  describe("with a server located by a SIP URI", () => {
+    let resolve: (addresses: Array<string>) => void;
+    const resolver: Resolver = {
+      resolveNaptr: () => Promise.resolve([]),
+      resolveSrv: () => Promise.resolve([]),
+      resolveAddresses: () => new Promise((r) => (resolve = r))
+    };
+
+    beforeEach(async () => {
+      await transport.dispose();
+      transport = new TcpTransport(logger, { server: `sip:example.com:${server.port};transport=tcp`, resolver });
+    });
+
+    it("connects to the address located", async () => {
+      const connected = transport.connect();
+      await soon();
+      resolve(["127.0.0.1"]);
+      await connected;
+      await server.waitConnected();
+      expect(transport.serverAddress).toEqual({ host: "127.0.0.1", port: server.port, name: "example.com" });
+    });
+
+    it("opens no connection if disconnected while the server is being located", async () => {
+      const connected = transport.connect();
+      await soon();
+      await transport.disconnect();
+      await expectAsync(connected).toBeRejected();
+      resolve(["127.0.0.1"]);
+      await soon(50);
+      expect(transport.state).toBe(TransportState.Disconnected);
+      expect(server.connections.length).toBe(0);
+    });
+  });
+
+  describe("once connected", () => {
+    beforeEach(async () => {
+      await transport.connect();
+      await server.waitConnected();
+    });
+
+    it("has opened a connection to the server", () => {
+      expect(transport.state).toBe(TransportState.Connected);
+      expect(server.connections.length).toBe(1);
+    });
+
+    it("sends requests over the connection to the server", async () => {
+      await transport.send(request(1));
+      await transport.send(request(2));
+      await server.waitReceived(request(1) + request(2));
+      expect(server.connections.length).toBe(1);
+    });
+
+    it("receives messages framed by their Content-Length, whatever the chunks", async () => {
+      const messages = messaged(2);
+      const data = response("127.0.0.1:5060", "v=0\r\n") + response("127.0.0.1:5060");
+      server.connections[0].write(data.slice(0, 10));
+      server.connections[0].write(data.slice(10));
+      await messages;
+      expect(onMessage.calls.allArgs()).toEqual([
+        [response("127.0.0.1:5060", "v=0\r\n")],
+        [response("127.0.0.1:5060")]
+      ]);
+    });
+
+    it("sends responses over the connection to the address of the Via", async () => {
+      await transport.send(response(`127.0.0.1:${server.port}`));
+      await server.waitReceived(response(`127.0.0.1:${server.port}`));
+      expect(server.connections.length).toBe(1);
+    });
+
+    it("opens a connection to send a response to another address, and reuses it", async () => {
+      const client = new StreamServer();
+      await client.listen();
+      await transport.send(response(`192.0.2.1:5060;received=127.0.0.1;rport=${client.port}`));
+      await transport.send(response(`127.0.0.1:${client.port}`));
+      await client.waitReceived(response(`127.0.0.1:${client.port}`));
+      expect(client.connections.length).toBe(1);
+      expect(server.connections.length).toBe(1);
+      await client.close();
+    });
+
+    it("sends a response over the connection its request was received on, whatever the Via", async () => {
+      const messages = messaged();
+      server.connections[0].write(invite("192.0.2.1:5060"));
+      await messages;
+      await transport.send(ringing("192.0.2.1:5060"));
+      await server.waitReceived(ringing("192.0.2.1:5060"));
+      expect(server.connections.length).toBe(1);
+    });
+
+    it("sends a response to the address of the Via once the connection its request was received on has closed", async () => {
+      // Bob's connection, opened to send him a response, is the one he sends his INVITE on.
+      const bob = new StreamServer();
+      await bob.listen();
+      const carol = new StreamServer();
+      await carol.listen();
+      await transport.send(response(`127.0.0.1:${bob.port}`));
+      await bob.waitConnected();
+      const messages = messaged();
+      bob.connections[0].write(invite(`127.0.0.1:${carol.port}`));
+      await messages;
+      await transport.send(ringing(`127.0.0.1:${carol.port}`));
+      await bob.waitReceived(ringing(`127.0.0.1:${carol.port}`));
+      expect(carol.connections.length).toBe(0);
+      await bob.close();
+      await soon(10);
+      await transport.send(ringing(`127.0.0.1:${carol.port}`));
+      await carol.waitReceived(ringing(`127.0.0.1:${carol.port}`));
+      expect(carol.connections.length).toBe(1);
+      await carol.close();
+    });
+
+    it("answers a CRLF Keep Alive request", async () => {
+      server.connections[0].write("\r\n\r\n");
+      await server.waitReceived("\r\n");
+      expect(server.data).toBe("\r\n");
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it("is lost if the server closes the connection", async () => {
+      const disconnected = new Promise<void>((resolve) => onDisconnect.and.callFake(() => resolve()));
+      server.connections[0].end();
+      await disconnected;
+      expect(transport.state).toBe(TransportState.Disconnected);
+      expect(onDisconnect).toHaveBeenCalledWith(jasmine.any(Error));
+    });
+
+    it("reconnects with a new connection to the server", async () => {
+      await transport.disconnect();
+      await transport.connect();
+      await server.waitConnected(2);
+      await transport.send(request(1));
+      await server.waitReceived(request(1));
+      expect(server.connections.length).toBe(2);
+      expect(server.received.get(server.connections[1])).toBe(request(1));
+    });
+
+    it("closes its connections once disconnected", async () => {
+      const closed = new Promise<void>((resolve) => server.connections[0].on("close", () => resolve()));
+      await transport.disconnect();
+      await closed;
+      expect(transport.state).toBe(TransportState.Disconnected);
+      expect(onDisconnect).toHaveBeenCalledWith();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { TransportState } from "../../../../lib/api/index.js";
+import { LoggerFactory } from "../../../../lib/core/index.js";
+import { TlsTransport, TlsTransportOptions } from "../../../../lib/platform/node/index.js";
+import { certificate } from "../../../support/platform/node/certificate.js";
+import { StreamServer } from "../../../support/platform/node/stream-server.js";
+
+const request = (cseq: number): string =>
+  "OPTIONS sip:bob@localhost SIP/2.0\r\n" +
+  "Via: SIP/2.0/TLS 127.0.0.1:5061;branch=z9hG4bK776asdhds\r\n" +
+  "Call-ID: a84b4c76e66710\r\n" +
+  `CSeq: ${cseq} OPTIONS\r\n` +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+const response = (via: string): string =>
+  "SIP/2.0 200 OK\r\n" +
+  `Via: SIP/2.0/TLS ${via};branch=z9hG4bK776asdhds\r\n` +
+  "Call-ID: a84b4c76e66710\r\n" +
+  "CSeq: 1 OPTIONS\r\n" +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+describe("Node TlsTransport", () => {
+  const log = new LoggerFactory();
+  log.builtinEnabled = false;
+  const logger = log.getLogger("sip.TlsTransport");
+  let server: StreamServer;
+  let transport: TlsTransport;
+
+  function makeTransport(host: string, options: Partial<TlsTransportOptions> = {}): TlsTransport {
+    return new TlsTransport(logger, { server: `tls://${host}:${server.port}`, ...options });
+  }
+
+  beforeEach(async () => {
+    server = new StreamServer(true);
+    await server.listen();
+  });
+
+  afterEach(async () => {
+    await transport.dispose();
+    await server.close();
+  });
+
+  it("is reliable", () => {
+    transport = makeTransport("127.0.0.1");
+    expect(transport.protocol).toBe("TLS");
+    expect(transport.reliable).toBe(true);
+  });
+
+  it("defaults to port 5061", () => {
+    transport = new TlsTransport(logger, { server: "tls://127.0.0.1" });
+    expect(transport.serverAddress).toEqual({ host: "127.0.0.1", port: 5061 });
+  });
+
+  it("fails to connect to a server it does not trust", async () => {
+    transport = makeTransport("localhost");
+    await expectAsync(transport.connect()).toBeRejectedWithError(/closed/);
+    expect(transport.state).toBe(TransportState.Disconnected);
+  });
+
+  it("fails to connect to a server whose certificate is not of the server name", async () => {
+    transport = makeTransport("127.0.0.1", { ca: certificate, servername: "example.com" });
+    await expectAsync(transport.connect()).toBeRejectedWithError(/closed/);
+    expect(transport.state).toBe(TransportState.Disconnected);
+  });
+
+  it("connects to a server it does not trust if told not to reject it", async () => {
+    transport = makeTransport("localhost", { rejectUnauthorized: false });
+    await transport.connect();
+    expect(transport.state).toBe(TransportState.Connected);
+  });
+
+  describe("once connected to a server it trusts", () => {
+    beforeEach(async () => {
+      transport = makeTransport("localhost", { ca: certificate });
+      await transport.connect();
+      // The server accepts the connection once the client has verified it.
+      await server.waitConnected();
+    });
+
+    it("has opened a connection to the server", () => {
+      expect(transport.state).toBe(TransportState.Connected);
+      expect(server.connections.length).toBe(1);
+    });
+
+    it("sends requests over the connection to the server", async () => {
+      await transport.send(request(1));
+      await transport.send(request(2));
+      await server.waitReceived(request(1) + request(2));
+      expect(server.connections.length).toBe(1);
+    });
+
+    it("receives messages over the connection to the server", async () => {
+      const onMessage = jasmine.createSpy("onMessage");
+      const messaged = new Promise<void>((resolve) => onMessage.and.callFake(() => resolve()));
+      transport.onMessage = onMessage;
+      server.connections[0].write(response("127.0.0.1:5061"));
+      await messaged;
+      expect(onMessage).toHaveBeenCalledWith(response("127.0.0.1:5061"));
+    });
+
+    it("opens a connection to send a response to another address, and reuses it", async () => {
+      const client = new StreamServer(true);
+      await client.listen();
+      // The certificate is of 127.0.0.1 too, so the connection to the client is verified by its IP address.
+      await transport.send(response(`192.0.2.1:5061;received=127.0.0.1;rport=${client.port}`));
+      await transport.send(response(`127.0.0.1:${client.port}`));
+      await client.waitReceived(response(`127.0.0.1:${client.port}`));
+      expect(client.connections.length).toBe(1);
+      expect(server.connections.length).toBe(1);
+      await client.close();
+    });
+  });
+});
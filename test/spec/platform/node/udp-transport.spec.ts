@@ -0,0 +1,150 @@
+import * as dgram from "dgram";
+
+import { TransportState } from "../../../../lib/api/index.js";
+import { LoggerFactory } from "../../../../lib/core/index.js";
+import { UdpTransport } from "../../../../lib/platform/node/index.js";
+
+const request = (port: number): string =>
+  "OPTIONS sip:bob@127.0.0.1 SIP/2.0\r\n" +
+  `Via: SIP/2.0/UDP 127.0.0.1:${port};branch=z9hG4bK776asdhds;rport\r\n` +
+  "Call-ID: a84b4c76e66710\r\n" +
+  "CSeq: 1 OPTIONS\r\n" +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+const response = (via: string): string =>
+  "SIP/2.0 200 OK\r\n" +
+  `Via: SIP/2.0/UDP ${via};branch=z9hG4bK776asdhds\r\n` +
+  "Call-ID: a84b4c76e66710\r\n" +
+  "CSeq: 1 OPTIONS\r\n" +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+/**
+ * A UDP socket bound to the loopback address, standing in for a SIP server or client.
+ */
+class Peer {
+  public messages: Array<{ message: string; port: number }> = [];
+  private socket = dgram.createSocket("udp4");
+  private waiting: Array<() => void> = [];
+
+  public bind(): Promise<void> {
+    this.socket.on("message", (msg, rinfo) => {
+      this.messages.push({ message: msg.toString(), port: rinfo.port });
+      this.waiting.splice(0).forEach((resolve) => resolve());
+    });
+    return new Promise((resolve) => this.socket.bind({ port: 0, address: "127.0.0.1" }, () => resolve()));
+  }
+
+  public get port(): number {
+    return this.socket.address().port;
+  }
+
+  public close(): Promise<void> {
+    return new Promise((resolve) => this.socket.close(() => resolve()));
+  }
+
+  public send(message: string, port: number): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.socket.send(message, port, "127.0.0.1", (error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  public waitReceived(): Promise<void> {
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+}
+
+describe("Node UdpTransport", () => {
+  const log = new LoggerFactory();
+  log.builtinEnabled = false;
+  const logger = log.getLogger("sip.UdpTransport");
+  let server: Peer;
+  let transport: UdpTransport;
+  let onMessage: jasmine.Spy;
+
+  beforeEach(async () => {
+    server = new Peer();
+    await server.bind();
+    transport = new UdpTransport(logger, { server: `udp://127.0.0.1:${server.port}`, localAddress: "127.0.0.1" });
+    onMessage = jasmine.createSpy("onMessage");
+    transport.onMessage = onMessage;
+  });
+
+  afterEach(async () => {
+    await transport.dispose();
+    await server.close();
+  });
+
+  it("is unreliable", () => {
+    expect(transport.protocol).toBe("UDP");
+    expect(transport.reliable).toBe(false);
+  });
+
+  it("rejects a server URL with another scheme", () => {
+    expect(() => new UdpTransport(logger, { server: "tcp://127.0.0.1" })).toThrowError("Invalid scheme in Server URL");
+  });
+
+  it("defaults to port 5060", () => {
+    const other = new UdpTransport(logger, { server: "udp://127.0.0.1" });
+    expect(other.serverAddress).toEqual({ host: "127.0.0.1", port: 5060 });
+  });
+
+  it("rejects sending while disconnected", async () => {
+    await expectAsync(transport.send(request(5060))).toBeRejectedWithError("Not connected.");
+  });
+
+  describe("once connected", () => {
+    beforeEach(async () => {
+      await transport.connect();
+    });
+
+    it("is connected", () => {
+      expect(transport.state).toBe(TransportState.Connected);
+    });
+
+    it("sends requests to the server", async () => {
+      const received = server.waitReceived();
+      await transport.send(request(5060));
+      await received;
+      expect(server.messages.map((m) => m.message)).toEqual([request(5060)]);
+    });
+
+    it("sends requests from the same socket", async () => {
+      await transport.send(request(5060));
+      await transport.send(request(5060));
+      while (server.messages.length < 2) {
+        await server.waitReceived();
+      }
+      expect(server.messages[0].port).toBe(server.messages[1].port);
+    });
+
+    it("receives messages from the server on the socket it sends from", async () => {
+      const received = server.waitReceived();
+      await transport.send(request(5060));
+      await received;
+      const port = server.messages[0].port;
+      const messaged = new Promise<void>((resolve) => onMessage.and.callFake(() => resolve()));
+      await server.send(response(`127.0.0.1:${port}`), port);
+      await messaged;
+      expect(onMessage).toHaveBeenCalledWith(response(`127.0.0.1:${port}`));
+    });
+
+    it("sends responses to the port in the rport parameter of the Via", async () => {
+      const client = new Peer();
+      await client.bind();
+      const received = client.waitReceived();
+      await transport.send(response(`192.0.2.1:5060;received=127.0.0.1;rport=${client.port}`));
+      await received;
+      expect(client.messages.length).toBe(1);
+      expect(server.messages.length).toBe(0);
+      await client.close();
+    });
+
+    it("closes the socket once disconnected", async () => {
+      await transport.disconnect();
+      expect(transport.state).toBe(TransportState.Disconnected);
+      await expectAsync(transport.send(request(5060))).toBeRejectedWithError("Not connected.");
+    });
+  });
+});
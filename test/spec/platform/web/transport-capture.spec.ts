@@ -0,0 +1,86 @@
+import { Server, WebSocket as MockWebSocket } from "mock-socket";
+
+import { LoggerFactory, PcapCapture } from "../../../../lib/core/index.js";
+import { Transport } from "../../../../lib/platform/web/index.js";
+import { soon } from "../../../support/api/utils.js";
+
+const MESSAGE =
+  "OPTIONS sip:bob@example.com SIP/2.0\r\n" +
+  "Via: SIP/2.0/WSS abcdef.invalid;branch=z9hG4bK776asdhds\r\n" +
+  "To: <sip:bob@example.com>\r\n" +
+  "From: <sip:alice@example.com>;tag=1928301774\r\n" +
+  "Call-ID: a84b4c76e66710\r\n" +
+  "CSeq: 1 OPTIONS\r\n" +
+  "Content-Length: 0\r\n" +
+  "\r\n";
+
+/**
+ * Transport Capture Unit Tests
+ */
+describe("Web Transport Capture", () => {
+  const serverDelay = 5; // milliseconds
+  const url = "wss://localhost:8443";
+  const log = new LoggerFactory();
+  const logger = log.getLogger("sip.Transport");
+  let originalWebSocket: unknown;
+  let server: Server;
+  let capture: PcapCapture;
+  let transport: Transport;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function retrieveGlobalObject(this: unknown): any {
+    if (typeof window !== "undefined") {
+      return window;
+    }
+    return typeof this === "object" ? this : Function("return this")();
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    const globalObj = retrieveGlobalObject();
+    originalWebSocket = globalObj.WebSocket;
+    globalObj.WebSocket = MockWebSocket;
+    server = new Server(url, { mock: false, selectProtocol: (): string => "sip" });
+    server.on("connection", (socket) => {
+      socket.on("message", (message) => {
+        if (message !== "\r\n\r\n") {
+          socket.send(String(message).replace(/^OPTIONS sip:bob@example.com/, "SIP/2.0 200 OK"));
+        }
+      });
+    });
+    capture = new PcapCapture();
+    transport = new Transport(logger, { server: url, capture, keepAliveInterval: 30 });
+    const connected = transport.connect();
+    await soon(serverDelay);
+    await connected;
+  });
+
+  afterEach(() => {
+    transport.dispose();
+    server.close();
+    retrieveGlobalObject().WebSocket = originalWebSocket;
+    jasmine.clock().uninstall();
+  });
+
+  it("MUST capture messages sent and received, excluding keep-alives", async () => {
+    await transport.send(MESSAGE);
+    await soon(30 * 1000 + serverDelay);
+    const records = capture.records;
+    expect(records.length).toBe(2);
+    expect(records[0].sent).toBe(true);
+    expect(records[0].message).toBe(MESSAGE);
+    expect(records[1].sent).toBe(false);
+    expect(records[1].message).toMatch(/^SIP\/2.0 200 OK/);
+    for (const record of records) {
+      expect(record.protocol).toBe("WSS");
+      expect(record.callId).toBe("a84b4c76e66710");
+      expect(record.local).toEqual({ host: "", port: 0 });
+      expect(record.remote).toEqual({ host: "localhost", port: 8443 });
+    }
+  });
+
+  it("MUST NOT fail to send if the capture throws", async () => {
+    spyOn(capture, "capture").and.throwError("Capture failed");
+    await expectAsync(transport.send(MESSAGE)).toBeResolved();
+  });
+});
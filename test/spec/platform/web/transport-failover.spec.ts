@@ -0,0 +1,346 @@
+import { Server, WebSocket as MockWebSocket } from "mock-socket";
+
+import { TransportState } from "../../../../lib/api/index.js";
+import { LoggerFactory, NaptrRecord, Resolver, SrvRecord } from "../../../../lib/core/index.js";
+import { Transport, TransportOptions } from "../../../../lib/platform/web/index.js";
+import { EmitterSpy, makeEmitterSpy } from "../../../support/api/emitter-spy.js";
+import { soon } from "../../../support/api/utils.js";
+
+/**
+ * Transport Failover Unit Tests
+ *
+ * The mock servers are created with mocking of the global WebSocket disabled so that they may
+ * be started and stopped independently. Instead the global WebSocket is replaced with the mock
+ * WebSocket for the duration of each test.
+ */
+describe("Web Transport Failover", () => {
+  const connectionTimeout = 5; // seconds
+  const recoveryInterval = 60; // seconds
+  const serverDelay = 5; // milliseconds
+  const primary = "wss://primary:8080";
+  const secondary = "wss://secondary:8080";
+  const log = new LoggerFactory();
+  const logger = log.getLogger("sip.Transport");
+  const onConnectMock = jasmine.createSpy("onConnect");
+  const onDisconnectMock = jasmine.createSpy("onDisconnect");
+  const onMessageMock = jasmine.createSpy("onMessage");
+  let originalWebSocket: unknown;
+  let servers: { [url: string]: Server | undefined };
+  let receivedMessages: { [url: string]: Array<string> };
+  let transport: Transport;
+  let serverSpy: EmitterSpy<string>;
+  let stateSpy: EmitterSpy<TransportState>;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function retrieveGlobalObject(this: unknown): any {
+    if (typeof window !== "undefined") {
+      return window;
+    }
+    return typeof this === "object" ? this : Function("return this")();
+  }
+
+  function startServer(url: string): void {
+    const server = new Server(url, { mock: false, selectProtocol: (): string => "sip" });
+    server.on("connection", (socket) => {
+      socket.on("message", (message) => {
+        receivedMessages[url].push(String(message));
+      });
+    });
+    servers[url] = server;
+  }
+
+  function stopServer(url: string): void {
+    const server = servers[url];
+    if (server) {
+      server.close();
+      servers[url] = undefined;
+    }
+  }
+
+  // Resolves the WebSocket servers of example.com to the primary then the secondary server.
+  const resolver: Resolver = {
+    resolveNaptr: (name: string): Promise<Array<NaptrRecord>> =>
+      Promise.resolve(
+        name === "example.com"
+          ? [
+              {
+                order: 10,
+                preference: 10,
+                flags: "s",
+                service: "SIPS+D2W",
+                regexp: "",
+                replacement: "_sips._ws.example.com"
+              }
+            ]
+          : []
+      ),
+    resolveSrv: (name: string): Promise<Array<SrvRecord>> =>
+      Promise.resolve(
+        name === "_sips._ws.example.com"
+          ? [
+              { priority: 1, weight: 1, port: 8080, name: "secondary" },
+              { priority: 0, weight: 1, port: 8080, name: "primary" }
+            ]
+          : []
+      ),
+    resolveAddresses: (name: string): Promise<Array<string>> =>
+      Promise.resolve(name === "primary" ? ["192.0.2.1"] : name === "secondary" ? ["192.0.2.2"] : [])
+  };
+
+  function makeTransport(server = "", options: Partial<TransportOptions> = {}): void {
+    transport = new Transport(logger, {
+      connectionTimeout,
+      recoveryInterval,
+      server: server || [
+        { url: secondary, priority: 1 },
+        { url: primary, priority: 0 }
+      ],
+      ...options
+    });
+    transport.onConnect = onConnectMock;
+    transport.onDisconnect = onDisconnectMock;
+    transport.onMessage = onMessageMock;
+    serverSpy = makeEmitterSpy(transport.serverChange, logger);
+    stateSpy = makeEmitterSpy(transport.stateChange, logger);
+  }
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    const globalObj = retrieveGlobalObject();
+    originalWebSocket = globalObj.WebSocket;
+    globalObj.WebSocket = MockWebSocket;
+    servers = {};
+    receivedMessages = { [primary]: [], [secondary]: [] };
+    onConnectMock.calls.reset();
+    onDisconnectMock.calls.reset();
+    onMessageMock.calls.reset();
+  });
+
+  afterEach(() => {
+    transport.dispose();
+    stopServer(primary);
+    stopServer(secondary);
+    retrieveGlobalObject().WebSocket = originalWebSocket;
+    jasmine.clock().uninstall();
+  });
+
+  it("MUST throw if constructed with an empty list of servers", () => {
+    makeTransport();
+    expect(() => new Transport(logger, { server: [] })).toThrowError();
+  });
+
+  it("MUST order servers with the same priority by weight", () => {
+    makeTransport();
+    spyOn(Math, "random").and.returnValue(0.5);
+    const light = new Transport(logger, {
+      server: [
+        { url: secondary, weight: 1 },
+        { url: primary, weight: 3 }
+      ]
+    });
+    expect(light.server).toBe(primary);
+    const heavy = new Transport(logger, {
+      server: [
+        { url: secondary, weight: 3 },
+        { url: primary, weight: 1 }
+      ]
+    });
+    expect(heavy.server).toBe(secondary);
+  });
+
+  describe("with both servers available", () => {
+    beforeEach(async () => {
+      startServer(primary);
+      startServer(secondary);
+      makeTransport();
+      const connected = transport.connect();
+      await soon(serverDelay);
+      await connected;
+    });
+
+    it("MUST connect with the preferred server", () => {
+      expect(transport.state).toBe(TransportState.Connected);
+      expect(transport.server).toBe(primary);
+      expect(serverSpy.calls.allArgs()).toEqual([[primary]]);
+    });
+
+    it("MUST NOT attempt recovery", async () => {
+      await soon(recoveryInterval * 1000);
+      expect(transport.server).toBe(primary);
+      expect(serverSpy).toHaveBeenCalledTimes(1);
+    });
+
+    describe("and the preferred server closes the connection", () => {
+      beforeEach(async () => {
+        stopServer(primary);
+        await soon(serverDelay);
+        startServer(primary);
+      });
+
+      it("MUST disconnect with an error", () => {
+        expect(transport.state).toBe(TransportState.Disconnected);
+        expect(onDisconnectMock).toHaveBeenCalledWith(jasmine.any(Error));
+      });
+
+      it("MUST connect with the other server next", async () => {
+        const connected = transport.connect();
+        await soon(serverDelay);
+        await connected;
+        expect(transport.server).toBe(secondary);
+        expect(serverSpy.calls.allArgs()).toEqual([[primary], [secondary]]);
+      });
+    });
+  });
+
+  describe("with the preferred server unavailable", () => {
+    beforeEach(async () => {
+      startServer(secondary);
+      makeTransport();
+      const connected = transport.connect();
+      await soon(serverDelay);
+      await soon(serverDelay);
+      await connected;
+    });
+
+    it("MUST fail over to the other server", () => {
+      expect(transport.state).toBe(TransportState.Connected);
+      expect(transport.server).toBe(secondary);
+      expect(serverSpy.calls.allArgs()).toEqual([[secondary]]);
+    });
+
+    it("MUST send messages to the other server", async () => {
+      await transport.send("just some bits");
+      await soon(serverDelay);
+      expect(receivedMessages[secondary]).toEqual(["just some bits"]);
+    });
+
+    it("MUST remain connected with the other server if recovery fails", async () => {
+      await soon(recoveryInterval * 1000);
+      await soon(serverDelay);
+      expect(transport.state).toBe(TransportState.Connected);
+      expect(transport.server).toBe(secondary);
+      expect(serverSpy).toHaveBeenCalledTimes(1);
+    });
+
+    describe("and the preferred server recovers", () => {
+      beforeEach(async () => {
+        startServer(primary);
+        stateSpy.calls.reset();
+        onConnectMock.calls.reset();
+        await soon(recoveryInterval * 1000);
+        await soon(serverDelay);
+      });
+
+      it("MUST switch over to the preferred server", () => {
+        expect(transport.state).toBe(TransportState.Connected);
+        expect(transport.server).toBe(primary);
+        expect(serverSpy.calls.allArgs()).toEqual([[secondary], [primary]]);
+      });
+
+      it("MUST disconnect without an error and connect again, so that the user registers again", () => {
+        expect(stateSpy.calls.allArgs()).toEqual([
+          [TransportState.Disconnected],
+          [TransportState.Connecting],
+          [TransportState.Connected]
+        ]);
+        expect(onDisconnectMock).toHaveBeenCalledOnceWith();
+        expect(onConnectMock).toHaveBeenCalledTimes(1);
+      });
+
+      it("MUST send messages to the preferred server", async () => {
+        await transport.send("just some bits");
+        await soon(serverDelay);
+        expect(receivedMessages[primary]).toEqual(["just some bits"]);
+        expect(receivedMessages[secondary]).toEqual([]);
+      });
+    });
+  });
+
+  describe("with no servers available", () => {
+    let connectError: Error | undefined;
+
+    beforeEach(async () => {
+      connectError = undefined;
+      makeTransport();
+      const connected = transport.connect().catch((error: Error) => {
+        connectError = error;
+      });
+      await soon(serverDelay);
+      await soon(serverDelay);
+      await connected;
+    });
+
+    it("MUST reject the connect attempt", () => {
+      expect(connectError).toEqual(jasmine.any(Error));
+      expect(transport.state).toBe(TransportState.Disconnected);
+      expect(serverSpy).toHaveBeenCalledTimes(0);
+    });
+  });
+
+  describe("with servers located by a SIPS URI", () => {
+    let connectError: Error | undefined;
+
+    function connect(): Promise<void> {
+      connectError = undefined;
+      return transport.connect().catch((error: Error) => {
+        connectError = error;
+      });
+    }
+
+    // Wait for the servers to be located and the connection with the first to be attempted.
+    async function located(): Promise<void> {
+      for (let i = 0; i < 100 && !transport.ws; i++) {
+        await Promise.resolve();
+      }
+    }
+
+    it("MUST throw if constructed with an invalid URI", () => {
+      makeTransport();
+      expect(() => new Transport(logger, { server: "sips:", resolver })).toThrowError();
+    });
+
+    it("MUST connect with the preferred server located", async () => {
+      startServer(primary);
+      startServer(secondary);
+      makeTransport("sips:example.com", { resolver });
+      const connected = connect();
+      await located();
+      await soon(serverDelay);
+      await connected;
+      expect(connectError).toBeUndefined();
+      expect(transport.state).toBe(TransportState.Connected);
+      expect(transport.server).toBe(primary);
+      expect(serverSpy.calls.allArgs()).toEqual([[primary]]);
+    });
+
+    it("MUST fail over to the next server located", async () => {
+      startServer(secondary);
+      makeTransport("sips:example.com", { resolver });
+      const connected = connect();
+      await located();
+      await soon(serverDelay);
+      await soon(serverDelay);
+      await connected;
+      expect(connectError).toBeUndefined();
+      expect(transport.server).toBe(secondary);
+    });
+
+    it("MUST reject the connect attempt if no server is located", async () => {
+      startServer(primary);
+      makeTransport("sips:example.com");
+      await connect();
+      expect(connectError?.message).toContain("Failed to locate sips:example.com");
+      expect(transport.state).toBe(TransportState.Disconnected);
+      expect(serverSpy).toHaveBeenCalledTimes(0);
+    });
+
+    it("MUST disconnect while locating", async () => {
+      makeTransport("sips:example.com", { resolver });
+      const connected = connect();
+      await transport.disconnect();
+      await connected;
+      expect(connectError).toEqual(jasmine.any(Error));
+      expect(transport.state).toBe(TransportState.Disconnected);
+    });
+  });
+});
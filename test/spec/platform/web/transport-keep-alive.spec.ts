@@ -0,0 +1,110 @@
+import { Server, WebSocket as MockWebSocket } from "mock-socket";
+
+import { TransportState } from "../../../../lib/api/index.js";
+import { LoggerFactory } from "../../../../lib/core/index.js";
+import { Transport } from "../../../../lib/platform/web/index.js";
+import { soon } from "../../../support/api/utils.js";
+
+/**
+ * Transport Keep-Alive Unit Tests
+ */
+describe("Web Transport Keep-Alive", () => {
+  const keepAliveInterval = 30; // seconds
+  const keepAliveTimeout = 10; // seconds
+  const serverDelay = 5; // milliseconds
+  const url = "wss://localhost:8080";
+  const log = new LoggerFactory();
+  const logger = log.getLogger("sip.Transport");
+  const onDisconnectMock = jasmine.createSpy("onDisconnect");
+  let originalWebSocket: unknown;
+  let server: Server;
+  let receivedMessages: Array<string>;
+  let pong: boolean;
+  let transport: Transport;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  function retrieveGlobalObject(this: unknown): any {
+    if (typeof window !== "undefined") {
+      return window;
+    }
+    return typeof this === "object" ? this : Function("return this")();
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    spyOn(Math, "random").and.returnValue(1);
+    const globalObj = retrieveGlobalObject();
+    originalWebSocket = globalObj.WebSocket;
+    globalObj.WebSocket = MockWebSocket;
+    onDisconnectMock.calls.reset();
+    receivedMessages = [];
+    pong = true;
+    server = new Server(url, { mock: false, selectProtocol: (): string => "sip" });
+    server.on("connection", (socket) => {
+      socket.on("message", (message) => {
+        receivedMessages.push(String(message));
+        if (message === "\r\n\r\n" && pong) {
+          socket.send("\r\n");
+        }
+      });
+    });
+    transport = new Transport(logger, { server: url, keepAliveTimeout });
+    transport.onDisconnect = onDisconnectMock;
+    const connected = transport.connect();
+    await soon(serverDelay);
+    await connected;
+  });
+
+  afterEach(() => {
+    transport.dispose();
+    server.close();
+    retrieveGlobalObject().WebSocket = originalWebSocket;
+    jasmine.clock().uninstall();
+  });
+
+  it("MUST NOT send keep-alives by default", async () => {
+    await soon(120 * 1000);
+    expect(receivedMessages).toEqual([]);
+  });
+
+  describe("with a keep-alive interval set", () => {
+    beforeEach(() => {
+      transport.setKeepAliveInterval(keepAliveInterval);
+    });
+
+    it("MUST send a double-CRLF ping each interval", async () => {
+      await soon(keepAliveInterval * 1000);
+      await soon(serverDelay);
+      expect(receivedMessages).toEqual(["\r\n\r\n"]);
+      await soon(keepAliveInterval * 1000);
+      await soon(serverDelay);
+      expect(receivedMessages).toEqual(["\r\n\r\n", "\r\n\r\n"]);
+      expect(transport.state).toBe(TransportState.Connected);
+    });
+
+    it("MUST stop sending keep-alives when the interval is set to zero", async () => {
+      transport.setKeepAliveInterval(0);
+      await soon(keepAliveInterval * 1000);
+      expect(receivedMessages).toEqual([]);
+    });
+
+    describe("and the server does not respond with a pong", () => {
+      beforeEach(async () => {
+        pong = false;
+        await soon(keepAliveInterval * 1000);
+        await soon(serverDelay);
+      });
+
+      it("MUST remain connected until the keep-alive timeout", async () => {
+        await soon(keepAliveTimeout * 1000 - 2 * serverDelay);
+        expect(transport.state).toBe(TransportState.Connected);
+      });
+
+      it("MUST disconnect with an error after the keep-alive timeout", async () => {
+        await soon(keepAliveTimeout * 1000);
+        expect(transport.state).toBe(TransportState.Disconnected);
+        expect(onDisconnectMock).toHaveBeenCalledWith(jasmine.any(Error));
+      });
+    });
+  });
+});
@@ -10,6 +10,8 @@ export function makeMockSessionDescriptionHandler(name: string, id: number): jas
   let state: "stable" | "has-local-offer" | "has-remote-offer" = "stable";
   const sdh = jasmine.createSpyObj<Required<SessionDescriptionHandler>>("SessionDescriptionHandler", [
     "close",
+    "enableReceiverTracks",
+    "enableSenderTracks",
     "getDescription",
     "hasDescription",
     "rollbackDescription",
@@ -9,6 +9,8 @@ export class TransportFake implements Transport {
   public onDisconnect: ((error?: Error) => void) | undefined;
   public onMessage: ((message: string) => void) | undefined;
 
+  public keepAliveInterval = 0;
+
   private _id = "";
   private peers: Array<TransportFake> = [];
   private waitingForSendPromise: Promise<void> | undefined;
@@ -18,6 +20,7 @@ export class TransportFake implements Transport {
   private waitingForReceiveResolve: ResolveFunction | undefined;
   private waitingForReceiveReject: RejectFunction | undefined;
 
+  private _connectFailures = 0;
   private _receiveDropOnce = false;
   private _state: TransportState = TransportState.Disconnected;
   private _stateEventEmitter = new EmitterImpl<TransportState>();
@@ -66,6 +69,23 @@ export class TransportFake implements Transport {
     this._state = connected ? TransportState.Connected : TransportState.Disconnected;
   }
 
+  public setKeepAliveInterval(interval: number): void {
+    this.keepAliveInterval = interval;
+  }
+
+  public lose(error: Error): void {
+    this.transitionState(TransportState.Disconnected, error);
+  }
+
+  public connectFail(times = 1): void {
+    this._connectFailures = times;
+  }
+
+  public loseAndReconnect(error: Error): void {
+    this.transitionState(TransportState.Disconnected, error);
+    this.transitionState(TransportState.Connecting);
+  }
+
   public addPeer(peer: TransportFake): void {
     this.peers.push(peer);
   }
@@ -113,6 +133,14 @@ export class TransportFake implements Transport {
   }
 
   private _connect(): Promise<void> {
+    if (this._connectFailures > 0) {
+      this._connectFailures--;
+      if (this._state !== TransportState.Connecting) {
+        this.transitionState(TransportState.Connecting);
+      }
+      this.transitionState(TransportState.Disconnected);
+      return Promise.reject(new Error("Connect failed."));
+    }
     switch (this._state) {
       case TransportState.Connecting:
         this.transitionState(TransportState.Connected);
@@ -91,3 +91,15 @@ export function connectUserFake(user1: UserFake, user2: UserFake): void {
   user1.transport.addPeer(user2.transport);
   user2.transport.addPeer(user1.transport);
 }
+
+/**
+ * The messages the user has sent whose start-line matches, in order.
+ * @param user - The user.
+ * @param startLine - Pattern the start-line of the messages matches, such as `/^INVITE /`.
+ */
+export function messagesSent(user: UserFake, startLine: RegExp): Array<string> {
+  return user.transportSendSpy.calls
+    .allArgs()
+    .map((args) => args[0] as string)
+    .filter((message) => startLine.test(message));
+}
@@ -129,7 +129,8 @@ export function makeMockSessionDelegate(): jasmine.SpyObj<Required<SessionDelega
     "onMessage",
     "onNotify",
     "onPrack",
-    "onRefer"
+    "onRefer",
+    "onUpdate"
   ]);
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   delegate.onAck.and.callFake((request: IncomingAckRequest) => {
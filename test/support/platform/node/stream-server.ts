@@ -0,0 +1,67 @@
+import * as net from "net";
+import * as tls from "tls";
+
+import { certificate, privateKey } from "./certificate.js";
+
+/**
+ * A TCP or TLS server listening on the loopback address, standing in for a SIP server or client.
+ */
+export class StreamServer {
+  /** The connections accepted, in order. */
+  public connections: Array<net.Socket> = [];
+  /** The data received, by connection. */
+  public received = new Map<net.Socket, string>();
+  private server: net.Server;
+  private waiting: Array<() => void> = [];
+
+  constructor(secure = false) {
+    const onConnection = (socket: net.Socket): void => {
+      this.connections.push(socket);
+      this.received.set(socket, "");
+      this.waiting.splice(0).forEach((resolve) => resolve());
+      socket.on("data", (data: Buffer) => {
+        this.received.set(socket, this.received.get(socket) + data.toString());
+        this.waiting.splice(0).forEach((resolve) => resolve());
+      });
+      socket.on("error", () => {
+        return;
+      });
+    };
+    this.server = secure
+      ? tls.createServer({ cert: certificate, key: privateKey }, onConnection)
+      : net.createServer(onConnection);
+  }
+
+  public get port(): number {
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  /** All the data received, over every connection. */
+  public get data(): string {
+    return Array.from(this.received.values()).join("");
+  }
+
+  public listen(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(0, "127.0.0.1", () => resolve()));
+  }
+
+  /** Closes the server and every connection it accepted. */
+  public close(): Promise<void> {
+    this.connections.forEach((socket) => socket.destroy());
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Resolves once the given number of connections have been accepted. */
+  public async waitConnected(count = 1): Promise<void> {
+    while (this.connections.length < count) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+  }
+
+  /** Resolves once the data received, over every connection, includes the given data. */
+  public async waitReceived(data: string): Promise<void> {
+    while (!this.data.includes(data)) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+  }
+}